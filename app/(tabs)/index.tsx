@@ -21,11 +21,20 @@ import {
 } from 'react-native';
 import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import PaymentStatusBadge from '../../components/PaymentStatusBadge';
 import { Colors } from '../../constants/Colors';
-import { CompanyApiService, Party, PaymentApiService, PurchaseApiService, SaleApiService } from '../../utils/api';
+import { Messages } from '../../constants/Messages';
+import { CompanyApiService, CreditNoteApiService, DebitNoteApiService, Party, PaymentApiService, PurchaseApiService, SaleApiService, checkApiHealth } from '../../utils/api';
 import { BasePdfGenerator } from '../../utils/basePdfGenerator';
+import { CreditControl, CreditStatus } from '../../utils/creditControl';
+import { CreditNoteManager } from '../../utils/creditNoteManager';
+import { DebitNoteManager } from '../../utils/debitNoteManager';
 import { DocumentService } from '../../utils/documentService';
+import { OfflineStore } from '../../utils/offlineStore';
 import { PartyManager } from '../../utils/partyManager';
+import { DocumentPaymentInfo, PaymentAllocations } from '../../utils/paymentAllocation';
+import { SalesOrderManager } from '../../utils/salesOrderManager';
+import { StockManager } from '../../utils/stockManager';
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
@@ -47,19 +56,24 @@ const ANDROID_CONSTANTS = {
 
 interface Transaction {
   id: string;
-  type: 'sale' | 'purchase' | 'payment-in' | 'payment-out';
+  type: 'sale' | 'credit-note' | 'purchase' | 'debit-note' | 'payment-in' | 'payment-out';
   reference: string;
   partyName: string;
   amount: number;
   date: string;
   items?: any[];
-  pdfUri?: string; // For sale invoices and purchase bills
+  pdfUri?: string; // For sale invoices, credit notes, purchase bills and debit notes
+  paymentStatus?: DocumentPaymentInfo; // For sale invoices and purchase bills
+  invoiceId?: string; // For credit notes, the invoice the goods were returned against
+  billId?: string; // For debit notes, the bill the goods were returned against
 }
 
 interface FilterOptions {
   all: boolean;
   sales: boolean;
+  creditNotes: boolean;
   purchases: boolean;
+  debitNotes: boolean;
   paymentIn: boolean;
   paymentOut: boolean;
 }
@@ -81,19 +95,24 @@ export default function DashboardScreen() {
   const [activeFilterOptions, setActiveFilterOptions] = useState<FilterOptions>({
     all: true,
     sales: false,
+    creditNotes: false,
     purchases: false,
+    debitNotes: false,
     paymentIn: false,
     paymentOut: false,
   });
   const [modalFilterOptions, setModalFilterOptions] = useState<FilterOptions>({
     all: true,
     sales: false,
+    creditNotes: false,
     purchases: false,
+    debitNotes: false,
     paymentIn: false,
     paymentOut: false,
   });
   const [unifiedParties, setUnifiedParties] = useState<Array<Party & { netBalance: number }>>([]);
   const [filteredUnifiedParties, setFilteredUnifiedParties] = useState<Array<Party & { netBalance: number }>>([]);
+  const [creditHolds, setCreditHolds] = useState<CreditStatus[]>([]);
   const [showPartyFilterModal, setShowPartyFilterModal] = useState(false);
   const [partyFilterOptions, setPartyFilterOptions] = useState({
     all: true,
@@ -106,6 +125,8 @@ export default function DashboardScreen() {
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
   const [loadingTransactions, setLoadingTransactions] = useState(false);
   const [loadingParties, setLoadingParties] = useState(false);
+  const [pendingSyncIds, setPendingSyncIds] = useState<Set<string>>(new Set());
+  const [failedSyncCount, setFailedSyncCount] = useState(0);
 
   useEffect(() => {
     loadDashboardData();
@@ -130,10 +151,22 @@ export default function DashboardScreen() {
       setLoadingTransactions(true);
       // Load sales invoices from API
       const salesInvoices = await SaleApiService.getSales();
+      const creditNotes = await CreditNoteApiService.getCreditNotes();
       const salesPayments = await PaymentApiService.getPayments({ type: 'payment-in' });
       const purchaseBills = await PurchaseApiService.getPurchases();
+      const debitNotes = await DebitNoteApiService.getDebitNotes();
       const purchasePayments = await PaymentApiService.getPayments({ type: 'payment-out' });
       
+      // Paid/due amounts of invoices and bills
+      const saleStatuses = PaymentAllocations.computeStatuses(
+        (salesInvoices || []).map(invoice => PaymentAllocations.fromSale(invoice)),
+        salesPayments || []
+      );
+      const purchaseStatuses = PaymentAllocations.computeStatuses(
+        (purchaseBills || []).map(bill => PaymentAllocations.fromPurchase(bill)),
+        purchasePayments || []
+      );
+
       // Combine all transactions
       const allTransactions: Transaction[] = [];
 
@@ -152,6 +185,22 @@ export default function DashboardScreen() {
           date: invoice.date || invoice.createdAt || '',
           items: invoice.items || [],
           pdfUri: invoice.pdfUri || undefined, // Include PDF URI
+          paymentStatus: saleStatuses.get(invoice.id),
+        });
+      });
+
+      // Add credit notes (sale returns)
+      creditNotes?.forEach((creditNote, index) => {
+        allTransactions.push({
+          id: creditNote.id || `credit-note-${index}-${Date.now()}`,
+          type: 'credit-note',
+          reference: `CN-${creditNote.creditNoteNo || ''}`,
+          partyName: creditNote.partyName || '',
+          amount: creditNote.totalAmount || 0,
+          date: creditNote.date || creditNote.createdAt || '',
+          items: creditNote.items || [],
+          pdfUri: creditNote.pdfUri || undefined,
+          invoiceId: creditNote.invoiceId,
         });
       });
 
@@ -181,6 +230,22 @@ export default function DashboardScreen() {
           date: bill.date || bill.createdAt || '',
           items: bill.items || [],
           pdfUri: bill.pdfUri || undefined, // Include PDF URI
+          paymentStatus: purchaseStatuses.get(bill.id),
+        });
+      });
+
+      // Add debit notes (purchase returns)
+      debitNotes?.forEach((debitNote, index) => {
+        allTransactions.push({
+          id: debitNote.id || `debit-note-${index}-${Date.now()}`,
+          type: 'debit-note',
+          reference: `DN-${debitNote.debitNoteNo || ''}`,
+          partyName: debitNote.partyName || '',
+          amount: debitNote.totalAmount || 0,
+          date: debitNote.date || debitNote.createdAt || '',
+          items: debitNote.items || [],
+          pdfUri: debitNote.pdfUri || undefined,
+          billId: debitNote.billId,
         });
       });
 
@@ -253,6 +318,8 @@ export default function DashboardScreen() {
       });
       
       setTransactions(allTransactions);
+      setPendingSyncIds(await OfflineStore.getPendingRecordIds());
+      setFailedSyncCount((await OfflineStore.getFailedMutations()).length);
       setLastRefreshTime(new Date());
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -264,6 +331,8 @@ export default function DashboardScreen() {
   const onRefresh = async () => {
     setRefreshing(true);
     try {
+      // Replays offline changes first when the backend is reachable
+      await checkApiHealth();
       await Promise.all([
         loadDashboardData(),
         loadUnifiedParties(),
@@ -286,7 +355,9 @@ export default function DashboardScreen() {
     if (!activeFilterOptions.all && activeFilters.length > 0) {
       const filterMap = {
         'sales': 'sale',
+        'creditNotes': 'credit-note',
         'purchases': 'purchase',
+        'debitNotes': 'debit-note',
         'paymentIn': 'payment-in',
         'paymentOut': 'payment-out'
       };
@@ -322,6 +393,7 @@ export default function DashboardScreen() {
       
       // Show all parties including settled ones (netBalance = 0)
       setUnifiedParties(partiesWithNetBalance);
+      setCreditHolds(await CreditControl.getCreditHolds());
     } catch (error) {
       console.error('Error loading unified parties:', error);
     } finally {
@@ -353,7 +425,7 @@ export default function DashboardScreen() {
       if (isSharingAvailable) {
         await Sharing.shareAsync(transaction.pdfUri, {
           mimeType: 'application/pdf',
-          dialogTitle: `${transaction.type === 'sale' ? 'Invoice' : 'Purchase Bill'} #${transaction.reference}`,
+          dialogTitle: `${getTransactionDocumentLabel(transaction.type)} #${transaction.reference}`,
         });
       } else {
         Alert.alert('Error', 'Sharing not available on this device');
@@ -548,7 +620,9 @@ export default function DashboardScreen() {
       setModalFilterOptions({
         all: true,
         sales: false,
+        creditNotes: false,
         purchases: false,
+        debitNotes: false,
         paymentIn: false,
         paymentOut: false,
       });
@@ -560,7 +634,7 @@ export default function DashboardScreen() {
       };
       
       // If no specific filters are selected, default to 'all'
-      if (!newOptions.sales && !newOptions.purchases && !newOptions.paymentIn && !newOptions.paymentOut) {
+      if (!newOptions.sales && !newOptions.creditNotes && !newOptions.purchases && !newOptions.debitNotes && !newOptions.paymentIn && !newOptions.paymentOut) {
         newOptions.all = true;
       }
       
@@ -572,7 +646,9 @@ export default function DashboardScreen() {
     setModalFilterOptions({
       all: true,
       sales: false,
+      creditNotes: false,
       purchases: false,
+      debitNotes: false,
       paymentIn: false,
       paymentOut: false,
     });
@@ -592,8 +668,12 @@ export default function DashboardScreen() {
     switch (type) {
       case 'sale':
         return 'trending-up';
+      case 'credit-note':
+        return 'return-down-back';
       case 'purchase':
         return 'cart';
+      case 'debit-note':
+        return 'return-up-forward';
       case 'payment-in':
         return 'arrow-down-circle';
       case 'payment-out':
@@ -607,8 +687,12 @@ export default function DashboardScreen() {
     switch (type) {
       case 'sale':
         return Colors.success; // Green
+      case 'credit-note':
+        return Colors.warning; // Amber for sale returns
       case 'purchase':
         return Colors.info; // Blue
+      case 'debit-note':
+        return '#ea580c'; // Orange for purchase returns
       case 'payment-in':
         return '#8b5cf6'; // Purple for Payment In
       case 'payment-out':
@@ -622,8 +706,12 @@ export default function DashboardScreen() {
     switch (type) {
       case 'sale':
         return 'Sale';
+      case 'credit-note':
+        return 'CR NOTE';
       case 'purchase':
         return 'Purchase';
+      case 'debit-note':
+        return 'DR NOTE';
       case 'payment-in':
         return 'PAY IN';
       case 'payment-out':
@@ -633,6 +721,19 @@ export default function DashboardScreen() {
     }
   };
 
+  const getTransactionDocumentLabel = (type: string) => {
+    switch (type) {
+      case 'sale':
+        return 'Invoice';
+      case 'credit-note':
+        return 'Credit Note';
+      case 'debit-note':
+        return 'Debit Note';
+      default:
+        return 'Purchase Bill';
+    }
+  };
+
   const navigateToTransaction = (transaction: Transaction) => {
     switch (transaction.type) {
       case 'sale':
@@ -641,12 +742,24 @@ export default function DashboardScreen() {
           params: { invoiceId: transaction.id }
         });
         break;
+      case 'credit-note':
+        router.push({
+          pathname: '/credit-note',
+          params: { invoiceId: transaction.invoiceId }
+        });
+        break;
       case 'purchase':
         router.push({
           pathname: '/edit-purchase',
           params: { billId: transaction.id }
         });
         break;
+      case 'debit-note':
+        router.push({
+          pathname: '/debit-note',
+          params: { billId: transaction.billId }
+        });
+        break;
       case 'payment-in':
         router.push({
           pathname: '/edit-payin',
@@ -664,11 +777,14 @@ export default function DashboardScreen() {
 
   const deleteTransaction = async (transaction: Transaction) => {
     // Check if this is a valid MongoDB ObjectId for database transactions
-    const isDatabaseTransaction = isValidObjectId(transaction.id);
+    // Records created offline can be deleted before they are synced
+    const isDatabaseTransaction = isValidObjectId(transaction.id) || OfflineStore.isClientId(transaction.id);
     
     // Check if this is a generated ID (can't be deleted from database)
     const isGeneratedId = transaction.id.startsWith('sale-') || 
-                         transaction.id.startsWith('purchase-');
+                         transaction.id.startsWith('credit-note-') ||
+                         transaction.id.startsWith('purchase-') ||
+                         transaction.id.startsWith('debit-note-');
     
     if (isGeneratedId || !isDatabaseTransaction) {
       Alert.alert(
@@ -679,6 +795,24 @@ export default function DashboardScreen() {
       return;
     }
 
+    // Returned stock would be added back twice if the invoice went first
+    if (transaction.type === 'sale' && transactions.some(entry => entry.type === 'credit-note' && entry.invoiceId === transaction.id)) {
+      Alert.alert(
+        'Cannot Delete',
+        'This invoice has credit notes against it. Delete its credit notes first.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+    if (transaction.type === 'purchase' && transactions.some(entry => entry.type === 'debit-note' && entry.billId === transaction.id)) {
+      Alert.alert(
+        'Cannot Delete',
+        'This bill has debit notes against it. Delete its debit notes first.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
     Alert.alert(
       'Delete Transaction',
       `Are you sure you want to delete ${transaction.reference}?`,
@@ -693,12 +827,33 @@ export default function DashboardScreen() {
           onPress: async () => {
             try {
               let updatedData: any[] = [];
+              let stockError: unknown = null;
               
               switch (transaction.type) {
                 case 'sale':
                   // Delete sale from API
                   await SaleApiService.deleteSale(transaction.id);
+                  // Put the sold quantities back into stock
+                  try {
+                    await StockManager.revertStockOnSale(transaction.items || [], transaction.id, transaction.reference);
+                  } catch (error) {
+                    console.error('Error reverting stock for invoice:', error);
+                    stockError = error;
+                  }
+                  // Delivery challans billed on the invoice can be billed again
+                  try {
+                    await SalesOrderManager.releaseChallans(transaction.id);
+                  } catch (challanError) {
+                    console.error('Error releasing delivery challans:', challanError);
+                  }
+                  break;
+
+                case 'credit-note': {
+                  // Take the returned quantities back out of stock and restore the invoice's due amount
+                  const result = await CreditNoteManager.deleteCreditNote(await CreditNoteApiService.getCreditNoteById(transaction.id));
+                  stockError = result.stockError;
                   break;
+                }
                   
                 case 'payment-in':
                   await PaymentApiService.deletePayment(transaction.id);
@@ -707,7 +862,21 @@ export default function DashboardScreen() {
                 case 'purchase':
                   // Delete purchase from API
                   await PurchaseApiService.deletePurchase(transaction.id);
+                  // Take the purchased quantities back out of stock
+                  try {
+                    await StockManager.revertStockOnPurchase(transaction.items || [], transaction.id, transaction.reference);
+                  } catch (error) {
+                    console.error('Error reverting stock for purchase bill:', error);
+                    stockError = error;
+                  }
+                  break;
+
+                case 'debit-note': {
+                  // Add the returned quantities back to stock and restore the bill's payable amount
+                  const result = await DebitNoteManager.deleteDebitNote(await DebitNoteApiService.getDebitNoteById(transaction.id));
+                  stockError = result.stockError;
                   break;
+                }
                   
                 case 'payment-out':
                   await PaymentApiService.deletePayment(transaction.id);
@@ -716,7 +885,14 @@ export default function DashboardScreen() {
               
               // Reload dashboard data to reflect changes
               loadDashboardData();
-              Alert.alert('Success', 'Transaction deleted successfully!');
+              if (stockError) {
+                Alert.alert(
+                  'Stock Not Updated',
+                  `Transaction deleted. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_ADJUST}`
+                );
+              } else {
+                Alert.alert('Success', 'Transaction deleted successfully!');
+              }
             } catch (error) {
               console.error('Error deleting transaction:', error);
               Alert.alert('Error', 'Failed to delete transaction. Please try again.');
@@ -776,13 +952,26 @@ export default function DashboardScreen() {
             <View style={[styles.transactionBadge, { backgroundColor: getTransactionColor(transaction.type) }]}>
               <Text style={styles.transactionBadgeText}>{getTransactionTypeLabel(transaction.type)}</Text>
             </View>
+            {transaction.paymentStatus && (
+              <PaymentStatusBadge
+                status={transaction.paymentStatus.status}
+                dueAmount={transaction.paymentStatus.dueAmount}
+                style={styles.paymentStatusBadge}
+              />
+            )}
+            {pendingSyncIds.has(transaction.id) && (
+              <View style={styles.pendingSyncBadge}>
+                <Ionicons name="cloud-upload-outline" size={12} color={Colors.warning} />
+                <Text style={styles.pendingSyncText}>Pending sync</Text>
+              </View>
+            )}
           </View>
         </View>
       </View>
 
       {/* Action Icons */}
       <View style={styles.actionIconsContainer}>
-        {transaction.type === 'sale' && transaction.pdfUri && (
+        {(transaction.type === 'sale' || transaction.type === 'credit-note') && transaction.pdfUri && (
           <TouchableOpacity 
             style={styles.actionIcon} 
             onPress={(e) => {
@@ -812,7 +1001,7 @@ export default function DashboardScreen() {
             <Ionicons name="share-outline" size={20} color={Colors.textSecondary} />
           </TouchableOpacity>
         )}
-        {transaction.type === 'purchase' && transaction.pdfUri && (
+        {(transaction.type === 'purchase' || transaction.type === 'debit-note') && transaction.pdfUri && (
           <TouchableOpacity 
             style={styles.actionIcon} 
             onPress={(e) => {
@@ -842,11 +1031,50 @@ export default function DashboardScreen() {
             <Ionicons name="share-outline" size={20} color={Colors.textSecondary} />
           </TouchableOpacity>
         )}
+        {transaction.type === 'sale' && (
+          <TouchableOpacity 
+            style={styles.actionIcon} 
+            onPress={(e) => {
+              e.stopPropagation();
+              router.push({
+                pathname: '/credit-note',
+                params: { invoiceId: transaction.id }
+              });
+            }}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+            {...(isAndroid && {
+              android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+            })}
+          >
+            <Ionicons name="return-down-back-outline" size={20} color={Colors.warning} />
+          </TouchableOpacity>
+        )}
+        {transaction.type === 'purchase' && (
+          <TouchableOpacity 
+            style={styles.actionIcon} 
+            onPress={(e) => {
+              e.stopPropagation();
+              router.push({
+                pathname: '/debit-note',
+                params: { billId: transaction.id }
+              });
+            }}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+            {...(isAndroid && {
+              android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+            })}
+          >
+            <Ionicons name="return-up-forward-outline" size={20} color="#ea580c" />
+          </TouchableOpacity>
+        )}
         <TouchableOpacity 
           style={styles.actionIcon} 
           onPress={(e) => {
             e.stopPropagation();
-            Alert.alert('Coming Soon!', 'Print functionality will be available soon.');
+            router.push({
+              pathname: '/print-preview',
+              params: { type: transaction.type, id: transaction.id }
+            });
           }}
           activeOpacity={isAndroid ? 0.7 : 0.2}
           {...(isAndroid && {
@@ -949,16 +1177,28 @@ export default function DashboardScreen() {
             {companyDetails?.businessName || 'Vignaharta Plastic Industries'}
           </Text>
         </View>
-        <TouchableOpacity 
-          style={styles.settingsButton}
-          onPress={() => router.push('/company-details')}
-          activeOpacity={isAndroid ? 0.7 : 0.2}
-          {...(isAndroid && {
-            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
-          })}
-        >
-          <Ionicons name="settings-outline" size={24} color={Colors.textSecondary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => router.push('/reports')}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+            {...(isAndroid && {
+              android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+            })}
+          >
+            <Ionicons name="bar-chart-outline" size={24} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => router.push('/company-details')}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+            {...(isAndroid && {
+              android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+            })}
+          >
+            <Ionicons name="settings-outline" size={24} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView 
@@ -979,6 +1219,21 @@ export default function DashboardScreen() {
         })}
       >
 
+      {/* Offline changes the server rejected */}
+      {failedSyncCount > 0 && (
+        <TouchableOpacity
+          style={styles.syncIssueBanner}
+          onPress={() => router.push('/sync-issues')}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+        >
+          <Ionicons name="alert-circle-outline" size={20} color={Colors.error} />
+          <Text style={styles.syncIssueText}>
+            {failedSyncCount} offline {failedSyncCount === 1 ? 'change' : 'changes'} did not sync. Tap to retry or discard.
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={Colors.error} />
+        </TouchableOpacity>
+      )}
+
       {/* Tab Navigation */}
       <View style={styles.tabContainer}>
         <TouchableOpacity
@@ -1084,11 +1339,68 @@ export default function DashboardScreen() {
       {/* Party Tab Content */}
       {activeTab === 'party' && (
         <>
-          <View style={styles.searchContainer}>
+          <View style={[styles.searchContainer, styles.partyHeader]}>
             <Text style={styles.sectionTitle}>All Parties</Text>
+            <View style={styles.partyHeaderActions}>
+              <TouchableOpacity
+                style={styles.partyActionButton}
+                onPress={() => router.push('/party-migration')}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Ionicons name="link-outline" size={16} color={Colors.primary} />
+                <Text style={styles.partyActionButtonText}>Link</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.partyActionButton}
+                onPress={() => router.push('/party-duplicates')}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Ionicons name="git-merge-outline" size={16} color={Colors.primary} />
+                <Text style={styles.partyActionButtonText}>Merge</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.partyActionButton}
+                onPress={() => router.push('/ageing-report')}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Ionicons name="time-outline" size={16} color={Colors.primary} />
+                <Text style={styles.partyActionButtonText}>Ageing</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           
           <View style={styles.transactionsContainer}>
+            {!loadingParties && creditHolds.length > 0 && (
+              <View style={styles.creditHoldSection}>
+                <View style={styles.creditHoldHeader}>
+                  <Ionicons name="hand-left-outline" size={18} color={Colors.error} />
+                  <Text style={styles.creditHoldTitle}>Credit Hold ({creditHolds.length})</Text>
+                </View>
+                {creditHolds.map(hold => (
+                  <TouchableOpacity
+                    key={`credit-hold-${hold.partyId}`}
+                    style={styles.creditHoldItem}
+                    onPress={() => router.push(`/partyTransactions?partyId=${hold.partyId}`)}
+                    activeOpacity={isAndroid ? 0.7 : 0.2}
+                    {...(isAndroid && {
+                      android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                    })}
+                  >
+                    <Text style={styles.creditHoldName}>{hold.partyName}</Text>
+                    <Text style={styles.creditHoldReason}>{CreditControl.describeHold(hold)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
             {loadingParties ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={Colors.primary} />
@@ -1165,11 +1477,21 @@ export default function DashboardScreen() {
                 checked={modalFilterOptions.sales}
                 onToggle={() => handleFilterToggle('sales')}
               />
+              <FilterCheckbox
+                label="Sale Return"
+                checked={modalFilterOptions.creditNotes}
+                onToggle={() => handleFilterToggle('creditNotes')}
+              />
               <FilterCheckbox
                 label="Purchase"
                 checked={modalFilterOptions.purchases}
                 onToggle={() => handleFilterToggle('purchases')}
               />
+              <FilterCheckbox
+                label="Purchase Return"
+                checked={modalFilterOptions.debitNotes}
+                onToggle={() => handleFilterToggle('debitNotes')}
+              />
               <FilterCheckbox
                 label="Payment In"
                 checked={modalFilterOptions.paymentIn}
@@ -1314,6 +1636,23 @@ export default function DashboardScreen() {
 }
 
 const styles = StyleSheet.create({
+  syncIssueBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.error,
+    backgroundColor: Colors.surface,
+  },
+  syncIssueText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.error,
+  },
   container: {
     flex: 1,
     backgroundColor: Colors.background,
@@ -1339,6 +1678,9 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
   settingsButton: {
     padding: 8,
     marginTop: 4,
@@ -1405,6 +1747,30 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 16,
   },
+  partyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  partyHeaderActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  partyActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  partyActionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.primary,
+  },
   searchInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1517,6 +1883,9 @@ const styles = StyleSheet.create({
   transactionTypeContainer: {
     alignItems: 'flex-end',
   },
+  paymentStatusBadge: {
+    alignSelf: 'flex-end',
+  },
   transactionType: {
     fontSize: 12,
     color: Colors.textSecondary,
@@ -1533,6 +1902,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textTransform: 'uppercase',
   },
+  pendingSyncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+  },
+  pendingSyncText: {
+    fontSize: 10,
+    color: Colors.warning,
+    fontWeight: '600',
+  },
   statusDot: {
     width: 8,
     height: 8,
@@ -1706,6 +2091,40 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   // Customer styles
+  creditHoldSection: {
+    borderWidth: 1,
+    borderColor: Colors.error + '60',
+    backgroundColor: Colors.error + '10',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  creditHoldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  creditHoldTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  creditHoldItem: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  creditHoldName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  creditHoldReason: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   customerItem: {
     backgroundColor: Colors.surface,
     borderRadius: 12,
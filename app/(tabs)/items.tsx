@@ -22,6 +22,16 @@ import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '../../constants/Colors';
 import { Item, ItemsApiService, handleApiError } from '../../utils/api';
+import { GST_RATES } from '../../utils/gstCalculator';
+import { StockLedger } from '../../utils/stockLedger';
+import { StockLots } from '../../utils/stockLots';
+import {
+  DEFAULT_BASE_UNIT,
+  DEFAULT_PACK_SIZE,
+  DEFAULT_PACK_UNIT,
+  PACK_SIZE_PRESETS,
+  UnitConverter,
+} from '../../utils/unitConverter';
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
@@ -52,6 +62,7 @@ export default function ItemsScreen() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<'Primary' | 'Kirana'>('Primary');
   const [loadingItems, setLoadingItems] = useState(false);
+  const [totalStockValue, setTotalStockValue] = useState(0);
   
   // Form states
   const [itemForm, setItemForm] = useState({
@@ -62,6 +73,12 @@ export default function ItemsScreen() {
     openingStock: '',
     asOfDate: new Date().toISOString().split('T')[0], // Today's date in YYYY-MM-DD format
     lowStockAlert: '',
+    hsnCode: '',
+    gstRate: 0,
+    baseUnit: DEFAULT_BASE_UNIT,
+    packUnit: DEFAULT_PACK_UNIT,
+    packSize: DEFAULT_PACK_SIZE.toString(),
+    alternateUnits: '',
   });
 
   useEffect(() => {
@@ -72,6 +89,13 @@ export default function ItemsScreen() {
     filterItems();
   }, [items, searchQuery]);
 
+  // Value stock at actual lot costs (FIFO) rather than the current purchase price
+  useEffect(() => {
+    StockLots.getStockValue(items)
+      .then(setTotalStockValue)
+      .catch(error => console.error('Error calculating stock value:', error));
+  }, [items]);
+
   // Reload items when screen comes into focus to reflect stock updates
   useFocusEffect(
     useCallback(() => {
@@ -138,8 +162,9 @@ export default function ItemsScreen() {
     // Validate numeric fields
     const purchasePrice = parseFloat(itemForm.purchasePrice);
     const salePrice = parseFloat(itemForm.salePrice);
-    const openingStockKg = parseFloat(itemForm.openingStock);
-    const lowStockAlertKg = parseFloat(itemForm.lowStockAlert);
+    const openingStockBase = parseFloat(itemForm.openingStock);
+    const lowStockAlertBase = parseFloat(itemForm.lowStockAlert);
+    const packSize = parseFloat(itemForm.packSize);
 
     if (isNaN(purchasePrice) || purchasePrice < 0) {
       Alert.alert('Error', 'Please enter a valid purchase price');
@@ -151,19 +176,31 @@ export default function ItemsScreen() {
       return;
     }
 
-    if (isNaN(openingStockKg) || openingStockKg < 0) {
+    if (isNaN(packSize) || packSize <= 0) {
+      Alert.alert('Error', 'Please enter a valid pack size');
+      return;
+    }
+
+    if (isNaN(openingStockBase) || openingStockBase < 0) {
       Alert.alert('Error', 'Please enter a valid opening stock');
       return;
     }
 
-    if (isNaN(lowStockAlertKg) || lowStockAlertKg < 0) {
+    if (isNaN(lowStockAlertBase) || lowStockAlertBase < 0) {
       Alert.alert('Error', 'Please enter a valid low stock alert');
       return;
     }
 
-    // Convert kg to bags (1 bag = 30 kg)
-    const openingStockBags = openingStockKg / 30;
-    const lowStockAlertBags = lowStockAlertKg / 30;
+    const unitConfig = {
+      baseUnit: itemForm.baseUnit.trim() || DEFAULT_BASE_UNIT,
+      packUnit: itemForm.packUnit.trim() || DEFAULT_PACK_UNIT,
+      packSize,
+      alternateUnits: UnitConverter.parseAlternateUnits(itemForm.alternateUnits),
+    };
+
+    // Convert base units to packs using the item's pack size
+    const openingStockPacks = UnitConverter.baseToPacks(unitConfig, openingStockBase);
+    const lowStockAlertPacks = UnitConverter.baseToPacks(unitConfig, lowStockAlertBase);
 
     // Check if product name already exists
     const existingItem = items.find(item => 
@@ -180,15 +217,25 @@ export default function ItemsScreen() {
       category: itemForm.category,
       purchasePrice,
       salePrice,
-      openingStock: openingStockBags, // Store in bags
+      openingStock: openingStockPacks, // Store in packs
       asOfDate: itemForm.asOfDate,
-      lowStockAlert: lowStockAlertBags, // Store in bags
+      lowStockAlert: lowStockAlertPacks, // Store in packs
+      hsnCode: itemForm.hsnCode.trim() || undefined,
+      gstRate: itemForm.gstRate,
+      ...unitConfig,
       isUniversal: false,
     };
 
     try {
       const createdItem = await ItemsApiService.createItem(newItemData);
       setItems(prev => [...prev, createdItem]);
+      await StockLedger.recordMovement({
+        itemId: createdItem.id || createdItem._id,
+        itemName: createdItem.productName,
+        type: 'opening',
+        quantity: openingStockBase,
+        date: new Date(itemForm.asOfDate).toISOString(),
+      });
       
       // Reset form
       setItemForm({
@@ -199,6 +246,12 @@ export default function ItemsScreen() {
         openingStock: '',
         asOfDate: new Date().toISOString().split('T')[0],
         lowStockAlert: '',
+        hsnCode: '',
+        gstRate: 0,
+        baseUnit: DEFAULT_BASE_UNIT,
+        packUnit: DEFAULT_PACK_UNIT,
+        packSize: DEFAULT_PACK_SIZE.toString(),
+        alternateUnits: '',
       });
       setShowCreateModal(false);
       
@@ -281,6 +334,16 @@ export default function ItemsScreen() {
             </View>
           )}
           
+          <TouchableOpacity
+            style={styles.editIcon}
+            onPress={(e) => {
+              e.stopPropagation();
+              router.push(`/stock-ledger?itemId=${item.id || item._id}`);
+            }}
+          >
+            <Ionicons name="list-outline" size={16} color={Colors.primary} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.editIcon}
             onPress={(e) => {
@@ -319,7 +382,7 @@ export default function ItemsScreen() {
             styles.stockValue,
             item.openingStock <= item.lowStockAlert && styles.lowStockText
           ]}>
-            {Math.round(item.openingStock)} bags
+            {UnitConverter.formatPacks(item, Math.round(item.openingStock))}
           </Text>
           {item.openingStock <= item.lowStockAlert && (
             <View style={styles.lowStockIndicator}>
@@ -436,16 +499,74 @@ export default function ItemsScreen() {
               keyboardType="numeric"
             />
             
+            <Text style={styles.fieldLabel}>Units</Text>
+            <View style={styles.unitRow}>
+              <TextInput
+                style={[styles.input, styles.unitInput]}
+                placeholder="Base unit (kg)"
+                placeholderTextColor={Colors.textTertiary}
+                value={itemForm.baseUnit}
+                onChangeText={(text) => setItemForm(prev => ({ ...prev, baseUnit: text }))}
+                autoCapitalize="none"
+              />
+              <TextInput
+                style={[styles.input, styles.unitInput]}
+                placeholder="Pack unit (bag)"
+                placeholderTextColor={Colors.textTertiary}
+                value={itemForm.packUnit}
+                onChangeText={(text) => setItemForm(prev => ({ ...prev, packUnit: text }))}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <Text style={styles.fieldLabel}>Pack Size ({itemForm.baseUnit || DEFAULT_BASE_UNIT} per {itemForm.packUnit || DEFAULT_PACK_UNIT})</Text>
+            <View style={styles.categorySelector}>
+              {PACK_SIZE_PRESETS.map(size => (
+                <TouchableOpacity
+                  key={size}
+                  style={[
+                    styles.categoryOption,
+                    itemForm.packSize === size.toString() && styles.categoryOptionSelected
+                  ]}
+                  onPress={() => setItemForm(prev => ({ ...prev, packSize: size.toString() }))}
+                >
+                  <Text style={[
+                    styles.categoryOptionText,
+                    itemForm.packSize === size.toString() && styles.categoryOptionTextSelected
+                  ]}>
+                    {size}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter custom pack size..."
+              placeholderTextColor={Colors.textTertiary}
+              value={itemForm.packSize}
+              onChangeText={(text) => setItemForm(prev => ({ ...prev, packSize: text }))}
+              keyboardType="numeric"
+            />
+
+            <TextInput
+              style={styles.input}
+              placeholder="Other units, e.g. quintal=100, tin=15 (optional)"
+              placeholderTextColor={Colors.textTertiary}
+              value={itemForm.alternateUnits}
+              onChangeText={(text) => setItemForm(prev => ({ ...prev, alternateUnits: text }))}
+              autoCapitalize="none"
+            />
+
             <TextInput
               style={styles.input}
-              placeholder="Enter opening stock in kg..."
+              placeholder={`Enter opening stock in ${itemForm.baseUnit || DEFAULT_BASE_UNIT}...`}
               placeholderTextColor={Colors.textTertiary}
               value={itemForm.openingStock}
               onChangeText={(text) => setItemForm(prev => ({ ...prev, openingStock: text }))}
               keyboardType="numeric"
             />
             <Text style={styles.helperText}>
-              Note: 1 Bag = 30 Kg (Will be converted to bags automatically)
+              Note: 1 {itemForm.packUnit || DEFAULT_PACK_UNIT} = {itemForm.packSize || DEFAULT_PACK_SIZE} {itemForm.baseUnit || DEFAULT_BASE_UNIT} (Will be converted to {itemForm.packUnit || DEFAULT_PACK_UNIT}s automatically)
             </Text>
             
             <TextInput
@@ -458,12 +579,42 @@ export default function ItemsScreen() {
             
             <TextInput
               style={styles.input}
-              placeholder="Enter low stock alert threshold in kg..."
+              placeholder={`Enter low stock alert threshold in ${itemForm.baseUnit || DEFAULT_BASE_UNIT}...`}
               placeholderTextColor={Colors.textTertiary}
               value={itemForm.lowStockAlert}
               onChangeText={(text) => setItemForm(prev => ({ ...prev, lowStockAlert: text }))}
               keyboardType="numeric"
             />
+
+            <TextInput
+              style={styles.input}
+              placeholder="Enter HSN code (optional)..."
+              placeholderTextColor={Colors.textTertiary}
+              value={itemForm.hsnCode}
+              onChangeText={(text) => setItemForm(prev => ({ ...prev, hsnCode: text }))}
+              keyboardType="numeric"
+            />
+
+            <Text style={styles.fieldLabel}>GST Rate</Text>
+            <View style={styles.categorySelector}>
+              {GST_RATES.map(rate => (
+                <TouchableOpacity
+                  key={rate}
+                  style={[
+                    styles.categoryOption,
+                    itemForm.gstRate === rate && styles.categoryOptionSelected
+                  ]}
+                  onPress={() => setItemForm(prev => ({ ...prev, gstRate: rate }))}
+                >
+                  <Text style={[
+                    styles.categoryOptionText,
+                    itemForm.gstRate === rate && styles.categoryOptionTextSelected
+                  ]}>
+                    {rate}%
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </View>
         </ScrollView>
         </KeyboardAvoidingView>
@@ -519,7 +670,7 @@ export default function ItemsScreen() {
            </View>
                        <View style={styles.statCard}>
               <Text style={styles.statValue}>
-                ₹{Math.round(items.reduce((total, item) => total + ((item.openingStock * 30) * item.purchasePrice), 0)).toLocaleString()}
+                ₹{Math.round(totalStockValue).toLocaleString()}
               </Text>
               <Text style={styles.statLabel}>Total Stock Value</Text>
             </View>
@@ -532,7 +683,7 @@ export default function ItemsScreen() {
               onPress={() => {
                 const lowStockItems = getLowStockItems();
                 const itemNames = lowStockItems.map(item => 
-                  `• ${item.productName}: ${Math.round(item.openingStock)} bags (${Math.round(item.openingStock * 30)} kg)`
+                  `• ${item.productName}: ${UnitConverter.formatPacks(item, Math.round(item.openingStock))} (${Math.round(UnitConverter.packsToBase(item, item.openingStock))} ${UnitConverter.getBaseUnit(item)})`
                 ).join('\n');
                 Alert.alert(
                   'Low Stock Items',
@@ -581,6 +732,13 @@ export default function ItemsScreen() {
              <Ionicons name="add-circle" size={24} color={Colors.text} />
              <Text style={styles.createButtonText}>Create New Product</Text>
            </TouchableOpacity>
+           <TouchableOpacity 
+             style={styles.stockAdjustmentButton} 
+             onPress={() => router.push('/stock-adjustment')}
+           >
+             <Ionicons name="clipboard-outline" size={20} color={Colors.primary} />
+             <Text style={styles.stockAdjustmentButtonText}>Stock Adjustment / Stock Take</Text>
+           </TouchableOpacity>
          </View>
 
         {/* Bardana Section */}
@@ -596,14 +754,24 @@ export default function ItemsScreen() {
                         <Text style={styles.universalText}>System Item</Text>
                       </View>
                     </View>
-                    <TouchableOpacity
-                      style={styles.bardanaEditButton}
-                      onPress={() => {
-                        router.push(`/edit-items?itemId=${bardanaItem.id || bardanaItem._id}`);
-                      }}
-                    >
-                      <Ionicons name="pencil" size={16} color={Colors.primary} />
-                    </TouchableOpacity>
+                    <View style={styles.bardanaHeaderActions}>
+                      <TouchableOpacity
+                        style={styles.bardanaEditButton}
+                        onPress={() => {
+                          router.push(`/stock-ledger?itemId=${bardanaItem.id || bardanaItem._id}`);
+                        }}
+                      >
+                        <Ionicons name="list" size={16} color={Colors.primary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.bardanaEditButton}
+                        onPress={() => {
+                          router.push(`/edit-items?itemId=${bardanaItem.id || bardanaItem._id}`);
+                        }}
+                      >
+                        <Ionicons name="pencil" size={16} color={Colors.primary} />
+                      </TouchableOpacity>
+                    </View>
                   </View>
                   
                   <View style={styles.bardanaStats}>
@@ -613,20 +781,20 @@ export default function ItemsScreen() {
                         styles.bardanaStatValue,
                         bardanaItem.openingStock <= bardanaItem.lowStockAlert && styles.lowStockText
                       ]}>
-                        {Math.round(bardanaItem.openingStock * 100) / 100} bags
+                        {UnitConverter.formatPacks(bardanaItem, bardanaItem.openingStock)}
                       </Text>
                       <Text style={styles.bardanaStatUnit}>
-                        ({Math.round(bardanaItem.openingStock * 30)} kg)
+                        ({Math.round(UnitConverter.packsToBase(bardanaItem, bardanaItem.openingStock))} {UnitConverter.getBaseUnit(bardanaItem)})
                       </Text>
                     </View>
                     
                     <View style={styles.bardanaStat}>
                       <Text style={styles.bardanaStatLabel}>Low Stock Alert</Text>
                       <Text style={styles.bardanaStatValue}>
-                        {Math.round(bardanaItem.lowStockAlert * 100) / 100} bags
+                        {UnitConverter.formatPacks(bardanaItem, bardanaItem.lowStockAlert)}
                       </Text>
                       <Text style={styles.bardanaStatUnit}>
-                        ({Math.round(bardanaItem.lowStockAlert * 30)} kg)
+                        ({Math.round(UnitConverter.packsToBase(bardanaItem, bardanaItem.lowStockAlert))} {UnitConverter.getBaseUnit(bardanaItem)})
                       </Text>
                     </View>
                   </View>
@@ -770,6 +938,23 @@ const styles = StyleSheet.create({
   actionContainer: {
     paddingHorizontal: 20,
     marginBottom: 20,
+    gap: 12,
+  },
+  stockAdjustmentButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    padding: 14,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  stockAdjustmentButtonText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
   },
   listContainer: {
     paddingHorizontal: 20,
@@ -1042,6 +1227,13 @@ const styles = StyleSheet.create({
     gap: 12,
     marginBottom: 16,
   },
+  unitRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  unitInput: {
+    flex: 1,
+  },
   categoryOption: {
     flex: 1,
     paddingVertical: 12,
@@ -1180,7 +1372,11 @@ const styles = StyleSheet.create({
       marginLeft: 8,
       marginRight: 12,
     },
-    bardanaEditButton: {
+    bardanaHeaderActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  bardanaEditButton: {
       padding: 8,
       borderRadius: 8,
       backgroundColor: Colors.primary + '15',
@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
     Alert,
     Dimensions,
@@ -21,11 +21,18 @@ import {
 } from 'react-native';
 import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import PaymentStatusBadge from '../../components/PaymentStatusBadge';
 import { Colors } from '../../constants/Colors';
-import { Party, PartyApiService, PaymentApiService, PurchaseApiService, PurchaseBill, PurchaseItem } from '../../utils/api';
+import { Messages } from '../../constants/Messages';
+import { CompanyApiService, Party, PartyApiService, Payment, PaymentApiService, PurchaseApiService, PurchaseBill, PurchaseItem } from '../../utils/api';
 import { BasePdfGenerator } from '../../utils/basePdfGenerator';
 import { DocumentService } from '../../utils/documentService';
+import { GstCalculator } from '../../utils/gstCalculator';
+import { DEFAULT_NUMBER_SERIES, NumberSeries, NumberSeriesSettings } from '../../utils/numberSeries';
 import { PartyManager } from '../../utils/partyManager';
+import { PaymentAllocations } from '../../utils/paymentAllocation';
+import { StockManager } from '../../utils/stockManager';
+import { UnitConverter } from '../../utils/unitConverter';
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
@@ -51,6 +58,7 @@ export default function PurchaseScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const [purchaseBills, setPurchaseBills] = useState<PurchaseBill[]>([]);
+  const [paymentsOut, setPaymentsOut] = useState<Payment[]>([]);
   const [parties, setParties] = useState<Party[]>([]);
   
   // Modal states
@@ -60,14 +68,19 @@ export default function PurchaseScreen() {
   const [billForm, setBillForm] = useState({
     partyName: '',
     phoneNumber: '',
+    partyGstin: '',
     items: [] as PurchaseItem[],
   });
 
+  // Our GSTIN, used to decide between CGST/SGST and IGST
+  const [companyGstin, setCompanyGstin] = useState<string>('');
+
   // Dropdown visibility state
   const [showPartyDropdown, setShowPartyDropdown] = useState(false);
   
   // Auto-generated bill number
   const [generatedBillNo, setGeneratedBillNo] = useState<string>('');
+  const [billSeries, setBillSeries] = useState<NumberSeriesSettings>(DEFAULT_NUMBER_SERIES);
   
   // Selected party balance state
   const [selectedPartyBalance, setSelectedPartyBalance] = useState<number | null>(null);
@@ -79,17 +92,29 @@ export default function PurchaseScreen() {
   useEffect(() => {
     loadPurchaseData();
     loadParties();
+    loadCompanyGstin();
   }, []);
 
-  // Generate bill number when purchase data changes
+  // Paid/due amount and status of each bill
+  const billStatuses = useMemo(
+    () => PaymentAllocations.computeStatuses(
+      purchaseBills.map(bill => PaymentAllocations.fromPurchase(bill)),
+      paymentsOut,
+      parties
+    ),
+    [purchaseBills, paymentsOut, parties]
+  );
+
+  // Generate bill number when purchase data or the numbering settings change
   useEffect(() => {
     setGeneratedBillNo(generateNextBillNumber());
-  }, [purchaseBills]);
+  }, [purchaseBills, billSeries]);
 
-  // Reload parties when screen comes into focus
+  // Reload parties and numbering settings when screen comes into focus
   useFocusEffect(
     useCallback(() => {
       loadParties();
+      NumberSeries.getConfig().then(config => setBillSeries(config.bill));
     }, [])
   );
 
@@ -138,6 +163,7 @@ export default function PurchaseScreen() {
       const paymentsData = await PaymentApiService.getPayments({ type: 'payment-out' });
       
       setPurchaseBills(billsData || []);
+      setPaymentsOut(paymentsData || []);
     } catch (error) {
       console.error('Error loading purchase data:', error);
     } finally {
@@ -147,6 +173,15 @@ export default function PurchaseScreen() {
 
 
 
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
   const loadParties = async () => {
     try {
       const partiesData = await PartyApiService.getParties();
@@ -162,16 +197,7 @@ export default function PurchaseScreen() {
   // Calculate latest party balance for each party
   const calculatePartyBalances = async (partiesData: Party[]) => {
     try {
-      const balances: Record<string, number> = {};
-      
-      // Calculate balance for each party
-      for (const party of partiesData) {
-        const balance = await PartyManager.getPartyBalance(party.name, party.phoneNumber);
-        const partyKey = `${party.name}-${party.phoneNumber}`;
-        balances[partyKey] = balance;
-      }
-      
-      setPartyBalances(balances);
+      setPartyBalances(await PartyManager.getBalanceLookup(partiesData));
     } catch (error) {
       console.error('Error calculating party balances:', error);
     }
@@ -202,16 +228,10 @@ export default function PurchaseScreen() {
 
   // Generate next bill number
   const generateNextBillNumber = (): string => {
-    if (purchaseBills.length === 0) {
-      return '1';
-    }
-    
-    const maxNumber = Math.max(...purchaseBills.map(bill => {
-      const billNo = bill.billNo || '0';
-      return parseInt(billNo, 10) || 0;
-    }));
-    
-    return (maxNumber + 1).toString();
+    return NumberSeries.getNextNumber(
+      billSeries,
+      purchaseBills.map(bill => ({ number: bill.billNo, date: bill.date, createdAt: bill.createdAt }))
+    );
   };
 
   // Reset form function
@@ -219,6 +239,7 @@ export default function PurchaseScreen() {
     setBillForm({
       partyName: '',
       phoneNumber: '',
+      partyGstin: '',
       items: [],
     });
     setShowPartyDropdown(false);
@@ -256,8 +277,11 @@ export default function PurchaseScreen() {
     }));
   };
 
+  // GST breakup of the current bill; item totals are taxable values
+  const billTax = GstCalculator.calculateDocumentTax(billForm.items, companyGstin, billForm.partyGstin);
+
   const calculateBillTotal = (): number => {
-    return billForm.items.reduce((sum: number, item: PurchaseItem) => sum + (item.total || 0), 0);
+    return billTax.totalAmount;
   };
 
   const handleCreateBill = async () => {
@@ -272,6 +296,11 @@ export default function PurchaseScreen() {
       return;
     }
 
+    if (billForm.partyGstin && !GstCalculator.isValidGstin(billForm.partyGstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_PARTY_GSTIN);
+      return;
+    }
+
     // Check if this is an existing party and get their latest balance
     const existingParty = parties.find(party => 
       party.name.toLowerCase() === billForm.partyName.toLowerCase() &&
@@ -279,8 +308,7 @@ export default function PurchaseScreen() {
     );
 
     if (existingParty) {
-      const partyKey = `${existingParty.name}-${existingParty.phoneNumber}`;
-      const latestBalance = partyBalances[partyKey] ?? existingParty.balance;
+      const latestBalance = partyBalances[existingParty.id] ?? existingParty.balance;
       
       if (latestBalance > 0) {
         Alert.alert(
@@ -305,17 +333,68 @@ export default function PurchaseScreen() {
     createBill();
   };
 
+  // Stock of a saved bill failed for some items; offer to apply the rest again
+  const promptStockRetry = (
+    stockError: unknown,
+    items: PurchaseItem[],
+    billId: string,
+    reference: string
+  ) => {
+    Alert.alert(
+      'Stock Not Updated',
+      `Purchase bill created. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_RETRY}`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            try {
+              await StockManager.updateStockOnPurchase(items, billId, reference);
+              Alert.alert('Success', 'Stock updated');
+            } catch (error) {
+              console.error('Error retrying stock update for purchase bill:', error);
+              promptStockRetry(error, items, billId, reference);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const createBill = async () => {
     try {
       // Create purchase bill via API
+      const party = await PartyManager.resolveParty(billForm.partyName, billForm.phoneNumber, parties, billForm.partyGstin);
       const newBill = await PurchaseApiService.createPurchase({
+        billNo: generatedBillNo,
         partyName: billForm.partyName,
         phoneNumber: billForm.phoneNumber,
-        items: billForm.items,
-        totalAmount: calculateBillTotal(),
+        partyId: party.id,
+        items: billTax.items,
+        totalAmount: billTax.totalAmount,
         date: new Date().toLocaleDateString(),
+        createdAt: new Date().toISOString(),
+        dueDate: PaymentAllocations.getDefaultDueDate(),
+        partyGstin: billForm.partyGstin || undefined,
+        isInterState: billTax.isInterState,
+        placeOfSupply: billTax.placeOfSupply,
+        taxableAmount: billTax.taxableAmount,
+        cgstAmount: billTax.cgstAmount,
+        sgstAmount: billTax.sgstAmount,
+        igstAmount: billTax.igstAmount,
+        totalTax: billTax.totalTax,
       });
 
+      // Add purchased quantities to item and Bardana stock
+      const stockReference = `BILL-${newBill.billNo || generatedBillNo}`;
+      let stockError: unknown = null;
+      try {
+        await StockManager.updateStockOnPurchase(newBill.items, newBill.id, stockReference);
+      } catch (error) {
+        console.error('Error updating stock for purchase bill:', error);
+        stockError = error;
+      }
+
       // Generate PDF in the background
       let pdfUri: string | undefined;
       try {
@@ -364,7 +443,11 @@ export default function PurchaseScreen() {
       // Reset form
       resetForm();
       
-      Alert.alert('Success', 'Purchase bill created successfully!');
+      if (stockError) {
+        promptStockRetry(stockError, newBill.items, newBill.id, stockReference);
+      } else {
+        Alert.alert('Success', 'Purchase bill created successfully!');
+      }
     } catch (error) {
       console.error('Error creating bill:', error);
       Alert.alert('Error', 'Failed to create purchase bill. Please try again.');
@@ -397,7 +480,7 @@ export default function PurchaseScreen() {
         
         <View style={styles.billItemDetails}>
           <View style={styles.quantityContainer}>
-            <Text style={styles.fieldLabel}>Quantity</Text>
+            <Text style={styles.fieldLabel}>Quantity ({UnitConverter.getBaseUnit(item)})</Text>
             <TextInput
               style={[styles.input, styles.quantityInput]}
               placeholder="Qty"
@@ -527,13 +610,13 @@ export default function PurchaseScreen() {
                             key={party.id || `purchase-party-${index}`}
                             style={styles.suggestionItem}
                             onPress={() => {
-                              const partyKey = `${party.name}-${party.phoneNumber}`;
-                              const latestBalance = partyBalances[partyKey] ?? party.balance;
+                              const latestBalance = partyBalances[party.id] ?? party.balance;
                               
                               setBillForm(prev => ({
                                 ...prev,
                                 partyName: party.name,
                                 phoneNumber: party.phoneNumber,
+                                partyGstin: party.gstin || '',
                               }));
                               setSelectedPartyBalance(latestBalance);
                               setShowPartyDropdown(false);
@@ -546,9 +629,9 @@ export default function PurchaseScreen() {
                             <Text style={styles.suggestionName}>{party.name}</Text>
                             <Text style={[
                               styles.suggestionAmount,
-                              { color: getBalanceDisplay(partyBalances[`${party.name}-${party.phoneNumber}`] ?? party.balance).color }
+                              { color: getBalanceDisplay(partyBalances[party.id] ?? party.balance).color }
                             ]}>
-                              {getBalanceDisplay(partyBalances[`${party.name}-${party.phoneNumber}`] ?? party.balance).text}
+                              {getBalanceDisplay(partyBalances[party.id] ?? party.balance).text}
                             </Text>
                           </TouchableOpacity>
                         ))}
@@ -560,13 +643,13 @@ export default function PurchaseScreen() {
                           key={party.id || `purchase-party-short-${index}`}
                           style={styles.suggestionItem}
                           onPress={() => {
-                            const partyKey = `${party.name}-${party.phoneNumber}`;
-                            const latestBalance = partyBalances[partyKey] ?? party.balance;
+                            const latestBalance = partyBalances[party.id] ?? party.balance;
                             
                             setBillForm(prev => ({
                               ...prev,
                               partyName: party.name,
                               phoneNumber: party.phoneNumber,
+                              partyGstin: party.gstin || '',
                             }));
                             setSelectedPartyBalance(latestBalance);
                             setShowPartyDropdown(false);
@@ -579,9 +662,9 @@ export default function PurchaseScreen() {
                           <Text style={styles.suggestionName}>{party.name}</Text>
                           <Text style={[
                             styles.suggestionAmount,
-                            { color: getBalanceDisplay(partyBalances[`${party.name}-${party.phoneNumber}`] ?? party.balance).color }
+                            { color: getBalanceDisplay(partyBalances[party.id] ?? party.balance).color }
                           ]}>
-                            {getBalanceDisplay(partyBalances[`${party.name}-${party.phoneNumber}`] ?? party.balance).text}
+                            {getBalanceDisplay(partyBalances[party.id] ?? party.balance).text}
                           </Text>
                         </TouchableOpacity>
                       ))
@@ -598,6 +681,15 @@ export default function PurchaseScreen() {
               onChangeText={(text) => setBillForm(prev => ({ ...prev, phoneNumber: text }))}
               keyboardType="phone-pad"
             />
+            <TextInput
+              style={styles.phoneInput}
+              placeholder="Supplier GSTIN (optional)"
+              placeholderTextColor={Colors.textTertiary}
+              value={billForm.partyGstin}
+              onChangeText={(text) => setBillForm(prev => ({ ...prev, partyGstin: GstCalculator.normalizeGstin(text) }))}
+              autoCapitalize="characters"
+              maxLength={15}
+            />
           </View>
           
           <View style={styles.formSection}>
@@ -627,9 +719,32 @@ export default function PurchaseScreen() {
             />
             
             {billForm.items.length > 0 && (
-              <View style={styles.totalSection}>
-                <Text style={styles.totalLabel}>Total Amount:</Text>
-                <Text style={styles.totalAmount}>₹{calculateBillTotal()}</Text>
+              <View>
+                <View style={styles.taxRow}>
+                  <Text style={styles.taxLabel}>Taxable Amount:</Text>
+                  <Text style={styles.taxAmount}>₹{billTax.taxableAmount.toLocaleString()}</Text>
+                </View>
+                {billTax.isInterState ? (
+                  <View style={styles.taxRow}>
+                    <Text style={styles.taxLabel}>IGST:</Text>
+                    <Text style={styles.taxAmount}>₹{billTax.igstAmount.toLocaleString()}</Text>
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.taxRow}>
+                      <Text style={styles.taxLabel}>CGST:</Text>
+                      <Text style={styles.taxAmount}>₹{billTax.cgstAmount.toLocaleString()}</Text>
+                    </View>
+                    <View style={styles.taxRow}>
+                      <Text style={styles.taxLabel}>SGST:</Text>
+                      <Text style={styles.taxAmount}>₹{billTax.sgstAmount.toLocaleString()}</Text>
+                    </View>
+                  </>
+                )}
+                <View style={styles.totalSection}>
+                  <Text style={styles.totalLabel}>Total Amount:</Text>
+                  <Text style={styles.totalAmount}>₹{calculateBillTotal()}</Text>
+                </View>
               </View>
             )}
           </View>
@@ -731,6 +846,12 @@ export default function PurchaseScreen() {
                 </View>
                 <Text style={styles.listItemSubtitle}>{bill.partyName}</Text>
                 <Text style={styles.listItemDate}>{bill.date}</Text>
+                {billStatuses.has(bill.id) && (
+                  <PaymentStatusBadge
+                    status={billStatuses.get(bill.id)!.status}
+                    dueAmount={billStatuses.get(bill.id)!.dueAmount}
+                  />
+                )}
               </TouchableOpacity>
             ))
           ) : (
@@ -1017,6 +1138,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.text,
   },
+  taxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  taxLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  taxAmount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
   totalSection: {
     flexDirection: 'row',
     justifyContent: 'space-between',
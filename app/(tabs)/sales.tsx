@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import { useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Alert,
   Dimensions,
@@ -21,11 +21,21 @@ import {
 } from 'react-native';
 import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import PaymentStatusBadge from '../../components/PaymentStatusBadge';
 import { Colors } from '../../constants/Colors';
-import { Party, PartyApiService, SaleApiService } from '../../utils/api';
+import { Messages } from '../../constants/Messages';
+import { CompanyApiService, DeliveryChallanApiService, Party, PartyApiService, Payment, PaymentApiService, Quotation, QuotationApiService, SaleApiService, SalesOrderApiService } from '../../utils/api';
 import { BasePdfGenerator } from '../../utils/basePdfGenerator';
+import { CreditControl, CreditStatus } from '../../utils/creditControl';
 import { DocumentService } from '../../utils/documentService';
+import { GstCalculator } from '../../utils/gstCalculator';
+import { DEFAULT_NUMBER_SERIES, NumberSeries, NumberSeriesSettings } from '../../utils/numberSeries';
 import { PartyManager } from '../../utils/partyManager';
+import { PaymentAllocations } from '../../utils/paymentAllocation';
+import { QuotationManager } from '../../utils/quotationManager';
+import { SalesOrderManager } from '../../utils/salesOrderManager';
+import { StockManager } from '../../utils/stockManager';
+import { UnitConverter } from '../../utils/unitConverter';
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
@@ -53,7 +63,20 @@ interface SaleInvoice {
   items: SaleItem[];
   totalAmount: number;
   date: string;
+  createdAt?: string; // ISO timestamp; the display date above is locale formatted
+  dueDate?: string;
   pdfUri?: string; // Store the generated PDF URI
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  creditOverrideAt?: string;
+  challanIds?: string[];
 }
 
 interface SaleItem {
@@ -62,12 +85,24 @@ interface SaleItem {
   quantity: number;
   rate: number;
   total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
 export default function SalesScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  // Set when a quotation is converted, or delivery challans are billed, from their screens
+  const { quotationId, challanIds } = useLocalSearchParams<{ quotationId?: string; challanIds?: string }>();
   const [saleInvoices, setSaleInvoices] = useState<SaleInvoice[]>([]);
+  const [paymentsIn, setPaymentsIn] = useState<Payment[]>([]);
   const [customers, setCustomers] = useState<Party[]>([]);
   
   // Modal states
@@ -77,36 +112,75 @@ export default function SalesScreen() {
   const [invoiceForm, setInvoiceForm] = useState({
     partyName: '',
     phoneNumber: '',
+    partyGstin: '',
     items: [] as SaleItem[],
   });
 
+  // Our GSTIN, used to decide between CGST/SGST and IGST
+  const [companyGstin, setCompanyGstin] = useState<string>('');
+
   // Dropdown visibility state
   const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
   
   // Auto-generated invoice number
   const [generatedInvoiceNo, setGeneratedInvoiceNo] = useState<string>('');
+  const [invoiceSeries, setInvoiceSeries] = useState<NumberSeriesSettings>(DEFAULT_NUMBER_SERIES);
   
   // Selected customer balance state
   const [selectedCustomerBalance, setSelectedCustomerBalance] = useState<number | null>(null);
   
   // Customer balances state for dropdown suggestions
   const [customerBalances, setCustomerBalances] = useState<Record<string, number>>({});
+  
+  // Credit hold awaiting a manager override PIN
+  const [creditHold, setCreditHold] = useState<CreditStatus | null>(null);
+  const [overridePin, setOverridePin] = useState('');
+  const [verifyingOverride, setVerifyingOverride] = useState(false);
   const [loadingSales, setLoadingSales] = useState(false);
 
+  // Quotation the invoice form was filled from
+  const [sourceQuotation, setSourceQuotation] = useState<Quotation | null>(null);
+  // Delivery challans being billed; their stock already moved on delivery
+  const [sourceChallanIds, setSourceChallanIds] = useState<string[]>([]);
+
   useEffect(() => {
     loadSalesData();
     loadCustomers();
+    loadCompanyGstin();
   }, []);
 
-  // Generate invoice number when sales data changes
+  useEffect(() => {
+    if (quotationId) {
+      loadQuotationIntoForm(quotationId);
+    }
+  }, [quotationId]);
+
+  useEffect(() => {
+    if (challanIds) {
+      loadChallansIntoForm(challanIds.split(','));
+    }
+  }, [challanIds]);
+
+  // Paid/due amount and status of each invoice
+  const invoiceStatuses = useMemo(
+    () => PaymentAllocations.computeStatuses(
+      saleInvoices.map(invoice => PaymentAllocations.fromSale(invoice)),
+      paymentsIn,
+      customers
+    ),
+    [saleInvoices, paymentsIn, customers]
+  );
+
+  // Generate invoice number when sales data or the numbering settings change
   useEffect(() => {
     setGeneratedInvoiceNo(generateNextInvoiceNumber());
-  }, [saleInvoices]);
+  }, [saleInvoices, invoiceSeries]);
 
-  // Reload customers when screen comes into focus
+  // Reload customers and numbering settings when screen comes into focus
   useFocusEffect(
     useCallback(() => {
       loadCustomers();
+      NumberSeries.getConfig().then(config => setInvoiceSeries(config.invoice));
     }, [])
   );
 
@@ -151,8 +225,12 @@ export default function SalesScreen() {
   const loadSalesData = async () => {
     try {
       setLoadingSales(true);
-      const invoicesData = await SaleApiService.getSales();
+      const [invoicesData, paymentsData] = await Promise.all([
+        SaleApiService.getSales(),
+        PaymentApiService.getPayments({ type: 'payment-in' }),
+      ]);
       setSaleInvoices(invoicesData);
+      setPaymentsIn(paymentsData);
     } catch (error) {
       console.error('Error loading sales data:', error);
     } finally {
@@ -162,6 +240,70 @@ export default function SalesScreen() {
 
 
 
+  // Fill the invoice form from a quotation and open it
+  const loadQuotationIntoForm = async (id: string) => {
+    try {
+      const quotation = await QuotationApiService.getQuotationById(id);
+      const conversionError = QuotationManager.getConversionError(quotation);
+      if (conversionError) {
+        Alert.alert('Error', conversionError);
+        return;
+      }
+
+      setInvoiceForm({
+        partyName: quotation.partyName,
+        phoneNumber: quotation.phoneNumber,
+        partyGstin: quotation.partyGstin || '',
+        items: quotation.items,
+      });
+      setSourceQuotation(quotation);
+      setShowInvoiceModal(true);
+    } catch (error) {
+      console.error('Error loading quotation:', error);
+      Alert.alert('Error', 'Failed to load quotation. Please try again.');
+    } finally {
+      // Don't convert the same quotation again when the tab is revisited
+      router.setParams({ quotationId: '' });
+    }
+  };
+
+  // Fill the invoice form with the delivered lines of one or more challans and open it
+  const loadChallansIntoForm = async (ids: string[]) => {
+    try {
+      const challans = await Promise.all(ids.map(id => DeliveryChallanApiService.getDeliveryChallanById(id)));
+      const billingError = SalesOrderManager.getBillingError(challans);
+      if (billingError) {
+        Alert.alert('Error', billingError);
+        return;
+      }
+
+      const order = await SalesOrderApiService.getSalesOrderById(challans[0].orderId);
+      setInvoiceForm({
+        partyName: challans[0].partyName,
+        phoneNumber: challans[0].phoneNumber,
+        partyGstin: order.partyGstin || '',
+        items: SalesOrderManager.buildInvoiceItems(challans),
+      });
+      setSourceChallanIds(challans.map(challan => challan.id));
+      setShowInvoiceModal(true);
+    } catch (error) {
+      console.error('Error loading delivery challans:', error);
+      Alert.alert('Error', 'Failed to load delivery challans. Please try again.');
+    } finally {
+      // Don't bill the same challans again when the tab is revisited
+      router.setParams({ challanIds: '' });
+    }
+  };
+
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
   const loadCustomers = async () => {
     try {
       const customersData = await PartyApiService.getParties();
@@ -177,16 +319,7 @@ export default function SalesScreen() {
   // Calculate latest party balance for each customer
   const calculateCustomerBalances = async (customersData: Party[]) => {
     try {
-      const balances: Record<string, number> = {};
-      
-      // Calculate balance for each customer
-      for (const customer of customersData) {
-        const balance = await PartyManager.getPartyBalance(customer.name, customer.phoneNumber);
-        const customerKey = `${customer.name}-${customer.phoneNumber}`;
-        balances[customerKey] = balance;
-      }
-      
-      setCustomerBalances(balances);
+      setCustomerBalances(await PartyManager.getBalanceLookup(customersData));
     } catch (error) {
       console.error('Error calculating customer balances:', error);
     }
@@ -217,20 +350,10 @@ export default function SalesScreen() {
 
   // Generate next invoice number
   const generateNextInvoiceNumber = () => {
-    if (saleInvoices.length === 0) {
-      return '1';
-    }
-    
-    // Find the highest invoice number
-    const invoiceNumbers = saleInvoices
-      .map(invoice => {
-        const num = parseInt(invoice.invoiceNo);
-        return isNaN(num) ? 0 : num;
-      })
-      .sort((a, b) => b - a);
-    
-    const nextNumber = (invoiceNumbers[0] || 0) + 1;
-    return nextNumber.toString();
+    return NumberSeries.getNextNumber(
+      invoiceSeries,
+      saleInvoices.map(invoice => ({ number: invoice.invoiceNo, date: invoice.date, createdAt: invoice.createdAt }))
+    );
   };
 
   // Reset form function
@@ -238,10 +361,15 @@ export default function SalesScreen() {
     setInvoiceForm({
       partyName: '',
       phoneNumber: '',
+      partyGstin: '',
       items: [],
     });
     setShowCustomerDropdown(false);
     setSelectedCustomerBalance(null);
+    setCreditHold(null);
+    setOverridePin('');
+    setSourceQuotation(null);
+    setSourceChallanIds([]);
     setShowInvoiceModal(false);
   };
 
@@ -269,8 +397,11 @@ export default function SalesScreen() {
     }));
   };
 
+  // GST breakup of the current invoice; item totals are taxable values
+  const invoiceTax = GstCalculator.calculateDocumentTax(invoiceForm.items, companyGstin, invoiceForm.partyGstin);
+
   const calculateInvoiceTotal = () => {
-    return invoiceForm.items.reduce((sum: number, item: SaleItem) => sum + item.total, 0);
+    return invoiceTax.totalAmount;
   };
 
   const handleCreateInvoice = async () => {
@@ -284,6 +415,11 @@ export default function SalesScreen() {
       return;
     }
 
+    if (invoiceForm.partyGstin && !GstCalculator.isValidGstin(invoiceForm.partyGstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_PARTY_GSTIN);
+      return;
+    }
+
     // Check if this is an existing customer and get their latest balance
     const existingCustomer = customers.find(customer => 
       customer.name.toLowerCase() === invoiceForm.partyName.toLowerCase() &&
@@ -291,8 +427,18 @@ export default function SalesScreen() {
     );
 
     if (existingCustomer) {
-      const customerKey = `${existingCustomer.name}-${existingCustomer.phoneNumber}`;
-      const latestBalance = customerBalances[customerKey] ?? existingCustomer.balance;
+      // Parties over their credit limit or past their credit period are on hold
+      try {
+        const creditStatus = await CreditControl.checkInvoice(existingCustomer, invoiceTax.totalAmount);
+        if (creditStatus.reasons.length > 0) {
+          await handleCreditHold(creditStatus);
+          return;
+        }
+      } catch (error) {
+        console.error('Error checking customer credit terms:', error);
+      }
+
+      const latestBalance = customerBalances[existingCustomer.id] ?? existingCustomer.balance;
       
       if (latestBalance > 0) {
         Alert.alert(
@@ -317,15 +463,108 @@ export default function SalesScreen() {
     createInvoice();
   };
 
-  const createInvoice = async () => {
+  const handleCreditHold = async (creditStatus: CreditStatus) => {
+    const message = `${creditStatus.partyName} is on credit hold.\n\n${CreditControl.describeHold(creditStatus)}`;
+
+    if (!(await CreditControl.isOverrideEnabled())) {
+      Alert.alert('Credit Hold', `${message}\n\nSet a manager PIN in Company Details to allow overrides.`);
+      return;
+    }
+
+    Alert.alert(
+      'Credit Hold',
+      message,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Manager Override',
+          onPress: () => setCreditHold(creditStatus),
+        },
+      ]
+    );
+  };
+
+  const handleApproveOverride = async () => {
+    if (!overridePin.trim()) {
+      Alert.alert('Error', 'Please enter the manager PIN');
+      return;
+    }
+
+    try {
+      setVerifyingOverride(true);
+      if (!(await CreditControl.verifyOverridePin(overridePin))) {
+        Alert.alert('Error', 'Incorrect manager PIN');
+        return;
+      }
+
+      setCreditHold(null);
+      setOverridePin('');
+      await createInvoice(new Date().toISOString());
+    } catch (error) {
+      console.error('Error verifying manager PIN:', error);
+      Alert.alert('Error', 'Failed to verify manager PIN. Please try again.');
+    } finally {
+      setVerifyingOverride(false);
+    }
+  };
+
+  // Stock of a saved invoice failed for some items; offer to apply the rest again
+  const promptStockRetry = (
+    stockError: unknown,
+    items: SaleItem[],
+    invoiceId: string,
+    reference: string
+  ) => {
+    Alert.alert(
+      'Stock Not Updated',
+      `Invoice created. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_RETRY}`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            try {
+              await StockManager.updateStockOnSale(items, invoiceId, reference);
+              Alert.alert('Success', 'Stock updated');
+            } catch (error) {
+              console.error('Error retrying stock update for invoice:', error);
+              promptStockRetry(error, items, invoiceId, reference);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const createInvoice = async (creditOverrideAt?: string) => {
+    const existingCustomer = customers.find(customer => 
+      customer.name.toLowerCase() === invoiceForm.partyName.toLowerCase() &&
+      customer.phoneNumber === invoiceForm.phoneNumber
+    );
+
     const newInvoice: SaleInvoice = {
       id: Date.now().toString(),
       invoiceNo: generatedInvoiceNo,
         partyName: invoiceForm.partyName,
       phoneNumber: invoiceForm.phoneNumber,
-      items: invoiceForm.items,
-      totalAmount: calculateInvoiceTotal(),
+      items: invoiceTax.items,
+      totalAmount: invoiceTax.totalAmount,
       date: new Date().toLocaleDateString(),
+      createdAt: new Date().toISOString(),
+      dueDate: PaymentAllocations.getDefaultDueDate(existingCustomer?.creditDays ?? undefined),
+      partyGstin: invoiceForm.partyGstin || undefined,
+      isInterState: invoiceTax.isInterState,
+      placeOfSupply: invoiceTax.placeOfSupply,
+      taxableAmount: invoiceTax.taxableAmount,
+      cgstAmount: invoiceTax.cgstAmount,
+      sgstAmount: invoiceTax.sgstAmount,
+      igstAmount: invoiceTax.igstAmount,
+      totalTax: invoiceTax.totalTax,
+      creditOverrideAt,
+      challanIds: sourceChallanIds.length > 0 ? sourceChallanIds : undefined,
     };
 
     // Generate PDF in the background
@@ -348,15 +587,65 @@ export default function SalesScreen() {
 
     // Create invoice using API
     try {
+      const party = await PartyManager.resolveParty(newInvoice.partyName, newInvoice.phoneNumber, customers, newInvoice.partyGstin);
       const createdInvoice = await SaleApiService.createSale({
+        invoiceNo: newInvoice.invoiceNo,
         partyName: newInvoice.partyName,
         phoneNumber: newInvoice.phoneNumber,
+        partyId: party.id,
         items: newInvoice.items,
         totalAmount: newInvoice.totalAmount,
         date: newInvoice.date,
-        pdfUri: pdfUri
+        createdAt: newInvoice.createdAt,
+        dueDate: newInvoice.dueDate,
+        pdfUri: pdfUri,
+        partyGstin: newInvoice.partyGstin,
+        isInterState: newInvoice.isInterState,
+        placeOfSupply: newInvoice.placeOfSupply,
+        taxableAmount: newInvoice.taxableAmount,
+        cgstAmount: newInvoice.cgstAmount,
+        sgstAmount: newInvoice.sgstAmount,
+        igstAmount: newInvoice.igstAmount,
+        totalTax: newInvoice.totalTax,
+        creditOverrideAt: newInvoice.creditOverrideAt,
+        challanIds: newInvoice.challanIds,
       });
       
+      const stockItems = createdInvoice.items || newInvoice.items;
+      const stockReference = `INV-${createdInvoice.invoiceNo || generatedInvoiceNo}`;
+      let stockError: unknown = null;
+
+      if (sourceChallanIds.length > 0) {
+        // Stock left with the challans; only link them to this invoice
+        try {
+          await SalesOrderManager.markChallansInvoiced(sourceChallanIds, {
+            id: createdInvoice.id,
+            invoiceNo: createdInvoice.invoiceNo || generatedInvoiceNo,
+          });
+        } catch (challanError) {
+          console.error('Error linking delivery challans to invoice:', challanError);
+        }
+      } else {
+        // Reduce item and Bardana stock for the sold quantities
+        try {
+          await StockManager.updateStockOnSale(stockItems, createdInvoice.id, stockReference);
+        } catch (error) {
+          console.error('Error updating stock for invoice:', error);
+          stockError = error;
+        }
+      }
+
+      if (sourceQuotation) {
+        try {
+          await QuotationManager.markConverted(sourceQuotation.id, {
+            id: createdInvoice.id,
+            invoiceNo: createdInvoice.invoiceNo || generatedInvoiceNo,
+          });
+        } catch (quotationError) {
+          console.error('Error marking quotation as converted:', quotationError);
+        }
+      }
+
       // Send invoice via WhatsApp if PDF was generated successfully
       if (pdfUri && invoiceForm.phoneNumber) {
         try {
@@ -385,7 +674,11 @@ export default function SalesScreen() {
       // Reset form
       resetForm();
       
-      Alert.alert('Success', 'Invoice created successfully!');
+      if (stockError) {
+        promptStockRetry(stockError, stockItems, createdInvoice.id, stockReference);
+      } else {
+        Alert.alert('Success', 'Invoice created successfully!');
+      }
     } catch (error) {
       console.error('Error creating invoice:', error);
       Alert.alert('Error', 'Failed to create invoice. Please try again.');
@@ -394,6 +687,8 @@ export default function SalesScreen() {
 
 
   const renderInvoiceItem = ({ item, index }: { item: SaleItem; index: number }) => {
+    // Challan lines are billed at the delivered quantity; their stock already moved on delivery
+    const fromChallan = sourceChallanIds.length > 0;
     return (
       <View style={styles.invoiceItemContainer}>
         <View style={styles.invoiceItemRow}>
@@ -408,23 +703,25 @@ export default function SalesScreen() {
               selectTextOnFocus={false}
             />
           </View>
-          <TouchableOpacity
-            style={styles.removeButton}
-            onPress={() => removeInvoiceItem(index)}
-            activeOpacity={isAndroid ? 0.7 : 0.2}
-            {...(isAndroid && {
-              android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
-            })}
-          >
-            <Ionicons name="close-circle" size={20} color={Colors.error} />
-          </TouchableOpacity>
+          {!fromChallan && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeInvoiceItem(index)}
+              activeOpacity={isAndroid ? 0.7 : 0.2}
+              {...(isAndroid && {
+                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+              })}
+            >
+              <Ionicons name="close-circle" size={20} color={Colors.error} />
+            </TouchableOpacity>
+          )}
         </View>
         
         <View style={styles.invoiceItemDetails}>
           <View style={styles.quantityContainer}>
-            <Text style={styles.fieldLabel}>Quantity</Text>
+            <Text style={styles.fieldLabel}>Quantity ({UnitConverter.getBaseUnit(item)})</Text>
             <TextInput
-              style={[styles.input, styles.quantityInput]}
+              style={[styles.input, styles.quantityInput, fromChallan && styles.readOnlyInput]}
               placeholder="Qty"
               placeholderTextColor={Colors.textTertiary}
               value={item.quantity.toString()}
@@ -432,6 +729,7 @@ export default function SalesScreen() {
                 const qty = parseInt(text) || 0;
                 updateInvoiceItem(index, 'quantity', qty);
               }}
+              editable={!fromChallan}
               keyboardType="numeric"
             />
           </View>
@@ -504,6 +802,12 @@ export default function SalesScreen() {
               <View style={styles.invoiceNumberLeft}>
                 <Text style={styles.invoiceNumberLabel}>Invoice No:</Text>
                 <Text style={styles.invoiceNumberValue}>#{generatedInvoiceNo}</Text>
+                {sourceQuotation && (
+                  <Text style={styles.invoiceNumberLabel}>From Quotation #{sourceQuotation.quotationNo}</Text>
+                )}
+                {sourceChallanIds.length > 0 && (
+                  <Text style={styles.invoiceNumberLabel}>Billing {sourceChallanIds.length} delivery challan(s)</Text>
+                )}
               </View>
               {selectedCustomerBalance !== null && (
                 <View key="customer-balance" style={styles.balanceDisplayWithSpacing}>
@@ -552,13 +856,13 @@ export default function SalesScreen() {
                         key={customer.id || `sales-customer-${index}`}
                         style={styles.suggestionItem}
                         onPress={() => {
-                          const customerKey = `${customer.name}-${customer.phoneNumber}`;
-                          const latestBalance = customerBalances[customerKey] ?? customer.balance;
+                          const latestBalance = customerBalances[customer.id] ?? customer.balance;
                           
                           setInvoiceForm(prev => ({
                             ...prev,
                             partyName: customer.name,
                             phoneNumber: customer.phoneNumber,
+                            partyGstin: customer.gstin || '',
                           }));
                           setSelectedCustomerBalance(latestBalance);
                           setShowCustomerDropdown(false);
@@ -571,9 +875,9 @@ export default function SalesScreen() {
                         <Text style={styles.suggestionName}>{customer.name}</Text>
                         <Text style={[
                           styles.suggestionAmount,
-                          { color: getBalanceDisplay(customerBalances[`${customer.name}-${customer.phoneNumber}`] ?? customer.balance).color }
+                          { color: getBalanceDisplay(customerBalances[customer.id] ?? customer.balance).color }
                         ]}>
-                          {getBalanceDisplay(customerBalances[`${customer.name}-${customer.phoneNumber}`] ?? customer.balance).text}
+                          {getBalanceDisplay(customerBalances[customer.id] ?? customer.balance).text}
                         </Text>
                       </TouchableOpacity>
                     ))}
@@ -585,13 +889,13 @@ export default function SalesScreen() {
                           key={customer.id || `sales-customer-short-${index}`}
                           style={styles.suggestionItem}
                           onPress={() => {
-                            const customerKey = `${customer.name}-${customer.phoneNumber}`;
-                            const latestBalance = customerBalances[customerKey] ?? customer.balance;
+                            const latestBalance = customerBalances[customer.id] ?? customer.balance;
                             
                             setInvoiceForm(prev => ({
                               ...prev,
                               partyName: customer.name,
                               phoneNumber: customer.phoneNumber,
+                              partyGstin: customer.gstin || '',
                             }));
                             setSelectedCustomerBalance(latestBalance);
                             setShowCustomerDropdown(false);
@@ -604,9 +908,9 @@ export default function SalesScreen() {
                           <Text style={styles.suggestionName}>{customer.name}</Text>
                           <Text style={[
                             styles.suggestionAmount,
-                            { color: getBalanceDisplay(customerBalances[`${customer.name}-${customer.phoneNumber}`] ?? customer.balance).color }
+                            { color: getBalanceDisplay(customerBalances[customer.id] ?? customer.balance).color }
                           ]}>
-                            {getBalanceDisplay(customerBalances[`${customer.name}-${customer.phoneNumber}`] ?? customer.balance).text}
+                            {getBalanceDisplay(customerBalances[customer.id] ?? customer.balance).text}
                           </Text>
                         </TouchableOpacity>
                       ))
@@ -623,27 +927,39 @@ export default function SalesScreen() {
               onChangeText={(text) => setInvoiceForm(prev => ({ ...prev, phoneNumber: text }))}
               keyboardType="phone-pad"
             />
+            <TextInput
+              style={styles.phoneInput}
+              placeholder="Customer GSTIN (optional)"
+              placeholderTextColor={Colors.textTertiary}
+              value={invoiceForm.partyGstin}
+              onChangeText={(text) => setInvoiceForm(prev => ({ ...prev, partyGstin: GstCalculator.normalizeGstin(text) }))}
+              autoCapitalize="characters"
+              maxLength={15}
+            />
           </View>
           
           <View style={styles.formSection}>
-            <TouchableOpacity 
-              style={styles.fullWidthAddItemsButton} 
-              onPress={() => {
-                setShowInvoiceModal(false);
-                // Navigate to add-items screen with sales mode
-                // Note: Mode will be passed via navigation params instead of storage
-                setTimeout(() => {
-                  router.push('/add-items?mode=sales');
-                }, 100);
-              }}
-              activeOpacity={isAndroid ? 0.7 : 0.2}
-              {...(isAndroid && {
-                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
-              })}
-            >
-              <Ionicons name="add" size={20} color={Colors.text} />
-              <Text style={styles.fullWidthAddItemsButtonText}>Add Items</Text>
-            </TouchableOpacity>
+            {/* Invoices for challans bill only what was delivered */}
+            {sourceChallanIds.length === 0 && (
+              <TouchableOpacity 
+                style={styles.fullWidthAddItemsButton} 
+                onPress={() => {
+                  setShowInvoiceModal(false);
+                  // Navigate to add-items screen with sales mode
+                  // Note: Mode will be passed via navigation params instead of storage
+                  setTimeout(() => {
+                    router.push('/add-items?mode=sales');
+                  }, 100);
+                }}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Ionicons name="add" size={20} color={Colors.text} />
+                <Text style={styles.fullWidthAddItemsButtonText}>Add Items</Text>
+              </TouchableOpacity>
+            )}
             
             <FlatList
               data={invoiceForm.items}
@@ -653,37 +969,99 @@ export default function SalesScreen() {
             />
             
             {invoiceForm.items.length > 0 && (
-              <View style={styles.totalSection}>
-                <Text style={styles.totalLabel}>Total Amount:</Text>
-                <Text style={styles.totalAmount}>₹{calculateInvoiceTotal()}</Text>
+              <View>
+                <View style={styles.taxRow}>
+                  <Text style={styles.taxLabel}>Taxable Amount:</Text>
+                  <Text style={styles.taxAmount}>₹{invoiceTax.taxableAmount.toLocaleString()}</Text>
+                </View>
+                {invoiceTax.isInterState ? (
+                  <View style={styles.taxRow}>
+                    <Text style={styles.taxLabel}>IGST:</Text>
+                    <Text style={styles.taxAmount}>₹{invoiceTax.igstAmount.toLocaleString()}</Text>
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.taxRow}>
+                      <Text style={styles.taxLabel}>CGST:</Text>
+                      <Text style={styles.taxAmount}>₹{invoiceTax.cgstAmount.toLocaleString()}</Text>
+                    </View>
+                    <View style={styles.taxRow}>
+                      <Text style={styles.taxLabel}>SGST:</Text>
+                      <Text style={styles.taxAmount}>₹{invoiceTax.sgstAmount.toLocaleString()}</Text>
+                    </View>
+                  </>
+                )}
+                <View style={styles.totalSection}>
+                  <Text style={styles.totalLabel}>Total Amount:</Text>
+                  <Text style={styles.totalAmount}>₹{calculateInvoiceTotal()}</Text>
+                </View>
               </View>
             )}
           </View>
         </ScrollView>
           </KeyboardAvoidingView>
           
-          <View style={styles.modalFooter}>
-            <TouchableOpacity 
-              style={styles.cancelButton} 
-              onPress={resetForm}
-              activeOpacity={isAndroid ? 0.7 : 0.2}
-              {...(isAndroid && {
-                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
-              })}
-            >
-              <Text style={styles.cancelButtonText}>Cancel</Text>
-            </TouchableOpacity>
-            <TouchableOpacity 
-              style={styles.createButton} 
-              onPress={handleCreateInvoice}
-              activeOpacity={isAndroid ? 0.7 : 0.2}
-              {...(isAndroid && {
-                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
-              })}
-            >
-              <Text style={styles.createButtonText}>Create Invoice</Text>
-            </TouchableOpacity>
-          </View>
+          {creditHold ? (
+            <View style={styles.creditOverrideSection}>
+              <Text style={styles.creditOverrideTitle}>Manager Override</Text>
+              <Text style={styles.creditOverrideText}>{CreditControl.describeHold(creditHold)}</Text>
+              <TextInput
+                style={styles.phoneInput}
+                placeholder="Manager PIN"
+                placeholderTextColor={Colors.textTertiary}
+                value={overridePin}
+                onChangeText={setOverridePin}
+                keyboardType="number-pad"
+                secureTextEntry
+              />
+              <View style={styles.creditOverrideActions}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => {
+                    setCreditHold(null);
+                    setOverridePin('');
+                  }}
+                  disabled={verifyingOverride}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.createButton}
+                  onPress={handleApproveOverride}
+                  disabled={verifyingOverride}
+                >
+                  {verifyingOverride ? (
+                    <ActivityIndicator size="small" color={Colors.text} />
+                  ) : (
+                    <Text style={styles.createButtonText}>Approve & Create</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.modalFooter}>
+              <TouchableOpacity 
+                style={styles.cancelButton} 
+                onPress={resetForm}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={styles.createButton} 
+                onPress={handleCreateInvoice}
+                activeOpacity={isAndroid ? 0.7 : 0.2}
+                {...(isAndroid && {
+                  android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+                })}
+              >
+                <Text style={styles.createButtonText}>Create Invoice</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </Modal>
     );
@@ -704,8 +1082,32 @@ export default function SalesScreen() {
         })}
       >
         {/* Header */}
-        <View style={styles.header}>
+        <View style={[styles.header, styles.headerRow]}>
           <Text style={styles.companyName}>Sales</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={() => router.push('/sales-orders')}
+              activeOpacity={isAndroid ? 0.7 : 0.2}
+              {...(isAndroid && {
+                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+              })}
+            >
+              <Ionicons name="clipboard-outline" size={20} color={Colors.primary} />
+              <Text style={styles.headerActionText}>Orders</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={() => router.push('/quotations')}
+              activeOpacity={isAndroid ? 0.7 : 0.2}
+              {...(isAndroid && {
+                android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+              })}
+            >
+              <Ionicons name="document-text-outline" size={20} color={Colors.primary} />
+              <Text style={styles.headerActionText}>Quotations</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Action Buttons */}
@@ -759,6 +1161,12 @@ export default function SalesScreen() {
                   </View>
                   <Text style={styles.listItemSubtitle}>{invoice.partyName}</Text>
                   <Text style={styles.listItemDate}>{invoice.date}</Text>
+                  {invoiceStatuses.has(invoice.id) && (
+                    <PaymentStatusBadge
+                      status={invoiceStatuses.get(invoice.id)!.status}
+                      dueAmount={invoiceStatuses.get(invoice.id)!.dueAmount}
+                    />
+                  )}
                 </TouchableOpacity>
               ))
             ) : (
@@ -795,6 +1203,27 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingTop: isAndroid ? 60 : 20, // Increased padding for Android status bar
   },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  headerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  headerActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
 
   companyName: {
     fontSize: 24,
@@ -968,6 +1397,26 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: Colors.border,
   },
+  creditOverrideSection: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  creditOverrideTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.warning,
+    marginBottom: 4,
+  },
+  creditOverrideText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  creditOverrideActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   formSection: {
     marginBottom: 20,
     paddingHorizontal: 2,
@@ -1094,6 +1543,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.text,
   },
+  taxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  taxLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  taxAmount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
   totalSection: {
     flexDirection: 'row',
     justifyContent: 'space-between',
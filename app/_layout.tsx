@@ -1,12 +1,23 @@
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import { Platform } from "react-native";
 import { Colors } from "../constants/Colors";
+import { checkApiHealth } from "../utils/api";
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
 
+// How often to check connectivity and replay offline changes
+const SYNC_INTERVAL_MS = 30000;
+
 export default function RootLayout() {
+  useEffect(() => {
+    checkApiHealth();
+    const syncTimer = setInterval(checkApiHealth, SYNC_INTERVAL_MS);
+    return () => clearInterval(syncTimer);
+  }, []);
+
   return (
     <>
       <StatusBar 
@@ -39,11 +50,25 @@ export default function RootLayout() {
         <Stack.Screen name="index" />
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="edit-invoice" />
+        <Stack.Screen name="credit-note" />
+        <Stack.Screen name="quotations" />
+        <Stack.Screen name="sales-orders" />
+        <Stack.Screen name="sales-order" />
         <Stack.Screen name="edit-purchase" />
+        <Stack.Screen name="debit-note" />
         <Stack.Screen name="edit-payin" />
         <Stack.Screen name="edit-payout" />
         <Stack.Screen name="company-details" />
+        <Stack.Screen name="number-series" />
         <Stack.Screen name="partyTransactions" />
+        <Stack.Screen name="print-preview" />
+        <Stack.Screen name="stock-ledger" />
+        <Stack.Screen name="stock-adjustment" />
+        <Stack.Screen name="reports" />
+        <Stack.Screen name="ageing-report" />
+        <Stack.Screen name="party-migration" />
+        <Stack.Screen name="party-duplicates" />
+        <Stack.Screen name="sync-issues" />
       </Stack>
     </>
   );
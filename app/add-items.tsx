@@ -14,19 +14,40 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
 import { handleApiError, Item, ItemsApiService } from '../utils/api';
+import { UnitConfig, UnitConverter } from '../utils/unitConverter';
 
 // Item interface is now imported from api.ts
 
 interface SelectedItem {
   id: string;
   productName: string;
-  weightKg: number;
+  weightKg: number; // in the item's base unit
+  enteredQuantity: number; // as typed, in entryUnit
+  entryUnit: string;
+  unitConfig: UnitConfig;
   pricePerKg: number;
   totalPrice: number;
+  hsnCode?: string;
+  gstRate?: number;
 }
 
-// Mode to determine if this is for sales or purchase
-type ItemMode = 'sales' | 'purchase';
+// Mode to determine if this is for sales, a quotation, a sales order or purchase.
+// Quotations and orders use sale prices but do not check stock.
+type ItemMode = 'sales' | 'quotation' | 'order' | 'purchase';
+
+const ITEM_MODE_TITLES: Record<ItemMode, string> = {
+  sales: 'Select Items for Sale',
+  quotation: 'Select Items for Quotation',
+  order: 'Select Items for Sales Order',
+  purchase: 'Select Items for Purchase',
+};
+
+const ITEM_MODE_DOCUMENTS: Record<ItemMode, string> = {
+  sales: 'invoice',
+  quotation: 'quotation',
+  order: 'sales order',
+  purchase: 'purchase bill',
+};
 
 export default function AddItemsScreen() {
   const router = useRouter();
@@ -100,22 +121,33 @@ export default function AddItemsScreen() {
 
     // For sales mode, check if item has stock available
     if (itemMode === 'sales') {
-      const availableStockKg = item.openingStock * 30; // Convert bags to kg
+      const availableStockKg = UnitConverter.packsToBase(item, item.openingStock); // Convert packs to base units
       if (availableStockKg <= 0) {
         Alert.alert('Out of Stock', `${item.productName} is currently out of stock.`);
         return;
       }
     }
 
-    // Price per kg depends on mode
-    const pricePerKg = itemMode === 'sales' ? item.salePrice : item.purchasePrice;
+    // Price per base unit depends on mode
+    const pricePerKg = itemMode === 'purchase' ? item.purchasePrice : item.salePrice;
+    const unitConfig: UnitConfig = {
+      baseUnit: item.baseUnit,
+      packUnit: item.packUnit,
+      packSize: item.packSize,
+      alternateUnits: item.alternateUnits,
+    };
 
     const newSelectedItem: SelectedItem = {
       id: item.id || item._id || '',
       productName: item.productName,
       weightKg: 0, // Default weight, user will input
+      enteredQuantity: 0,
+      entryUnit: UnitConverter.getBaseUnit(unitConfig),
+      unitConfig,
       pricePerKg: pricePerKg,
       totalPrice: 0,
+      hsnCode: item.hsnCode,
+      gstRate: item.gstRate,
     };
 
     setSelectedItems(prev => [...prev, newSelectedItem]);
@@ -123,22 +155,23 @@ export default function AddItemsScreen() {
     setShowDropdown(false);
   };
 
-  const updateSelectedItemWeight = (itemId: string, weightKg: string) => {
-    const weight = parseFloat(weightKg) || 0;
+  const updateSelectedItemQuantity = (itemId: string, quantity: number, entryUnit: string) => {
+    const selectedItem = selectedItems.find(item => item.id === itemId);
+    if (!selectedItem) return;
+
+    // Convert the entered quantity to the item's base unit
+    const weight = UnitConverter.toBaseUnits(selectedItem.unitConfig, quantity, entryUnit);
     
     // For sales mode, check stock availability
     if (itemMode === 'sales') {
-      const selectedItem = selectedItems.find(item => item.id === itemId);
-      if (selectedItem) {
-        const originalItem = items.find(item => item.id === itemId);
-        if (originalItem) {
-          const availableStockKg = originalItem.openingStock * 30; // Convert bags to kg
-          
-          if (weight > availableStockKg) {
-            Alert.alert('Insufficient Stock', 
-              `${selectedItem.productName} only has ${Math.round(availableStockKg)} kg available. You cannot sell more than available stock.`);
-            return;
-          }
+      const originalItem = items.find(item => item.id === itemId);
+      if (originalItem) {
+        const availableStockKg = UnitConverter.packsToBase(originalItem, originalItem.openingStock); // Convert packs to base units
+        
+        if (weight > availableStockKg) {
+          Alert.alert('Insufficient Stock', 
+            `${selectedItem.productName} only has ${Math.round(availableStockKg)} ${UnitConverter.getBaseUnit(originalItem)} available. You cannot sell more than available stock.`);
+          return;
         }
       }
     }
@@ -146,12 +179,26 @@ export default function AddItemsScreen() {
     setSelectedItems(prev =>
       prev.map(item =>
         item.id === itemId
-          ? { ...item, weightKg: weight, totalPrice: weight * item.pricePerKg }
+          ? { ...item, enteredQuantity: quantity, entryUnit, weightKg: weight, totalPrice: weight * item.pricePerKg }
           : item
       )
     );
   };
 
+  const updateSelectedItemWeight = (itemId: string, weightKg: string) => {
+    const selectedItem = selectedItems.find(item => item.id === itemId);
+    if (!selectedItem) return;
+
+    updateSelectedItemQuantity(itemId, parseFloat(weightKg) || 0, selectedItem.entryUnit);
+  };
+
+  const updateSelectedItemUnit = (itemId: string, entryUnit: string) => {
+    const selectedItem = selectedItems.find(item => item.id === itemId);
+    if (!selectedItem) return;
+
+    updateSelectedItemQuantity(itemId, selectedItem.enteredQuantity, entryUnit);
+  };
+
   const removeSelectedItem = (itemId: string) => {
     setSelectedItems(prev => prev.filter(item => item.id !== itemId));
   };
@@ -176,6 +223,11 @@ export default function AddItemsScreen() {
       quantity: item.weightKg,
       rate: item.pricePerKg,
       total: item.totalPrice,
+      baseUnit: item.unitConfig.baseUnit,
+      packUnit: item.unitConfig.packUnit,
+      packSize: item.unitConfig.packSize,
+      hsnCode: item.hsnCode,
+      gstRate: item.gstRate,
     }));
 
     // Store selected items in a global temporary location
@@ -207,7 +259,7 @@ export default function AddItemsScreen() {
       <View style={styles.dropdownItemContent}>
         <Text style={styles.dropdownItemName}>{item.productName}</Text>
         <Text style={styles.dropdownItemStock}>
-          Available Bags: {Math.round(item.openingStock)}
+          Available: {UnitConverter.formatPacks(item, Math.round(item.openingStock))}
         </Text>
       </View>
     </TouchableOpacity>
@@ -228,28 +280,42 @@ export default function AddItemsScreen() {
       <View style={styles.selectedItemDetails}>
         <View style={styles.inputRow}>
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Weight (kg)</Text>
+            <Text style={styles.inputLabel}>Quantity ({item.entryUnit})</Text>
             <TextInput
               style={styles.weightInput}
-              placeholder="Enter weight..."
+              placeholder="Enter quantity..."
               placeholderTextColor={Colors.textTertiary}
-              value={item.weightKg > 0 ? item.weightKg.toString() : ''}
+              value={item.enteredQuantity > 0 ? item.enteredQuantity.toString() : ''}
               onChangeText={(text) => updateSelectedItemWeight(item.id, text)}
               keyboardType="numeric"
             />
           </View>
           
           <View style={styles.priceContainer}>
-            <Text style={styles.inputLabel}>Price (₹/kg)</Text>
+            <Text style={styles.inputLabel}>Price (₹/{UnitConverter.getBaseUnit(item.unitConfig)})</Text>
             <Text style={styles.priceValue}>₹{Math.round(item.pricePerKg)}</Text>
           </View>
         </View>
+
+        <View style={styles.unitSelector}>
+          {UnitConverter.getUnitOptions(item.unitConfig).map(unit => (
+            <TouchableOpacity
+              key={unit.name}
+              style={[styles.unitOption, item.entryUnit === unit.name && styles.unitOptionSelected]}
+              onPress={() => updateSelectedItemUnit(item.id, unit.name)}
+            >
+              <Text style={[styles.unitOptionText, item.entryUnit === unit.name && styles.unitOptionTextSelected]}>
+                {unit.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
         
         {item.weightKg > 0 && (
           <>
             <View style={styles.bagsRow}>
-              <Text style={styles.bagsLabel}>Equivalent Bags:</Text>
-              <Text style={styles.bagsValue}>{Math.round(item.weightKg / 30)} bags</Text>
+              <Text style={styles.bagsLabel}>Equivalent:</Text>
+              <Text style={styles.bagsValue}>{item.weightKg} {UnitConverter.getBaseUnit(item.unitConfig)} ({UnitConverter.formatPacks(item.unitConfig, UnitConverter.baseToPacks(item.unitConfig, item.weightKg))})</Text>
             </View>
             <View style={styles.totalRow}>
               <Text style={styles.totalLabel}>Total:</Text>
@@ -268,7 +334,7 @@ export default function AddItemsScreen() {
           <Ionicons name="arrow-back" size={24} color={Colors.text} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>
-          {itemMode === 'sales' ? 'Select Items for Sale' : 'Select Items for Purchase'}
+          {ITEM_MODE_TITLES[itemMode]}
         </Text>
         <View style={styles.placeholder} />
       </View>
@@ -335,10 +401,7 @@ export default function AddItemsScreen() {
               <Ionicons name="cube-outline" size={48} color={Colors.textTertiary} />
                           <Text style={styles.emptyStateText}>No items selected</Text>
             <Text style={styles.emptyStateSubtext}>
-              {itemMode === 'sales' 
-                ? 'Search and select items to add to your invoice'
-                : 'Search and select items to add to your purchase bill'
-              }
+              {`Search and select items to add to your ${ITEM_MODE_DOCUMENTS[itemMode]}`}
             </Text>
             </View>
           )}
@@ -355,7 +418,7 @@ export default function AddItemsScreen() {
           <TouchableOpacity style={styles.addProductsButton} onPress={addItemsToBill}>
             <Ionicons name="add-circle" size={24} color={Colors.text} />
             <Text style={styles.addProductsButtonText}>
-              {itemMode === 'sales' ? 'Add Products' : 'Add Items'}
+              {itemMode === 'purchase' ? 'Add Items' : 'Add Products'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -522,6 +585,32 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  unitSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingTop: 8,
+  },
+  unitOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  unitOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '20',
+  },
+  unitOptionText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  unitOptionTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
   bagsRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,381 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { AGEING_BUCKETS, AgeingBucket, AgeingKind, AgeingReport, AgeingReportData, AgeingRow } from '../utils/ageingReport';
+import { handleApiError } from '../utils/api';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const KIND_OPTIONS: { key: AgeingKind; label: string }[] = [
+  { key: 'receivables', label: 'Receivables' },
+  { key: 'payables', label: 'Payables' },
+];
+
+// Older buckets are shown in stronger colours
+const BUCKET_COLORS: Record<AgeingBucket, string> = {
+  '0-30': Colors.success,
+  '31-60': Colors.warning,
+  '61-90': Colors.error,
+  '90+': Colors.error,
+};
+
+export default function AgeingReportScreen() {
+  const [kind, setKind] = useState<AgeingKind>('receivables');
+  const [report, setReport] = useState<AgeingReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedParty, setExpandedParty] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport(kind);
+  }, [kind]);
+
+  const loadReport = async (reportKind: AgeingKind) => {
+    try {
+      setLoading(true);
+      setExpandedParty(null);
+      setReport(await AgeingReport.build(reportKind));
+    } catch (error) {
+      console.error('Error building ageing report:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => `₹${Math.round(amount).toLocaleString()}`;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const renderBuckets = (buckets: Record<AgeingBucket, number>) => (
+    <View style={styles.bucketRow}>
+      {AGEING_BUCKETS.map(bucket => (
+        <View key={bucket.key} style={styles.bucketCell}>
+          <Text style={styles.bucketLabel}>{bucket.key}</Text>
+          <Text style={[styles.bucketValue, buckets[bucket.key] > 0 && { color: BUCKET_COLORS[bucket.key] }]}>
+            {formatAmount(buckets[bucket.key])}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderRow = (row: AgeingRow) => {
+    const key = `${row.partyName.toLowerCase()}-${row.phoneNumber}`;
+    const isExpanded = expandedParty === key;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={styles.row}
+        onPress={() => setExpandedParty(isExpanded ? null : key)}
+        activeOpacity={isAndroid ? 0.7 : 0.2}
+      >
+        <View style={styles.rowHeader}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowName}>{row.partyName}</Text>
+            <Text style={styles.rowMeta}>
+              {row.phoneNumber} • Oldest {row.oldestDays} day(s)
+            </Text>
+          </View>
+          <Text style={styles.rowTotal}>{formatAmount(row.total)}</Text>
+          <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color={Colors.textSecondary} />
+        </View>
+        {renderBuckets(row.buckets)}
+        {isExpanded && row.documents.map(document => (
+          <View key={document.id} style={styles.documentRow}>
+            <Text style={styles.documentText}>
+              {document.reference} • {formatDate(document.date)} • {document.ageDays} day(s)
+            </Text>
+            <Text style={styles.documentAmount}>{formatAmount(document.outstanding)}</Text>
+          </View>
+        ))}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Ageing Report</Text>
+          <Text style={styles.headerSubtitle}>Outstanding amounts by age</Text>
+        </View>
+        <TouchableOpacity style={styles.backButton} onPress={() => loadReport(kind)} disabled={loading}>
+          <Ionicons name="refresh" size={24} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.kindSelector}>
+          {KIND_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.kindOption, kind === option.key && styles.kindOptionActive]}
+              onPress={() => setKind(option.key)}
+            >
+              <Text style={[styles.kindOptionText, kind === option.key && styles.kindOptionTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+            <Text style={styles.loadingText}>Building report...</Text>
+          </View>
+        ) : report && (
+          <>
+            {/* Totals */}
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>
+                  Total {kind === 'receivables' ? 'to collect' : 'to pay'}
+                </Text>
+                <Text style={styles.summaryValue}>{formatAmount(report.total)}</Text>
+              </View>
+              {renderBuckets(report.totals)}
+              <Text style={styles.summaryNote}>
+                {report.rows.length} part{report.rows.length === 1 ? 'y' : 'ies'} • unallocated payments applied to the oldest {kind === 'receivables' ? 'invoices' : 'bills'} first
+              </Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>By Party</Text>
+            {report.rows.length > 0 ? report.rows.map(renderRow) : (
+              <Text style={styles.emptyText}>
+                No outstanding {kind === 'receivables' ? 'invoices' : 'bills'}
+              </Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  kindSelector: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  kindOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  kindOptionActive: {
+    backgroundColor: Colors.primary,
+  },
+  kindOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.textSecondary,
+  },
+  kindOptionTextActive: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+    gap: 6,
+  },
+  bucketCell: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  bucketLabel: {
+    fontSize: 11,
+    color: Colors.textTertiary,
+  },
+  bucketValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  row: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  rowTotal: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  documentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  documentText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  documentAmount: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+});
@@ -1,6 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -15,9 +15,20 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
+import { WebView } from 'react-native-webview';
 import { Colors } from '../constants/Colors';
 import { Messages } from '../constants/Messages';
 import { CompanyApiService, CompanyDetails, handleApiError } from '../utils/api';
+import { BasePdfGenerator } from '../utils/basePdfGenerator';
+import { CreditControl } from '../utils/creditControl';
+import { GstCalculator } from '../utils/gstCalculator';
+import { ACCENT_COLORS, DEFAULT_INVOICE_TERMS, InvoiceTemplates } from '../utils/invoiceTemplates';
+
+// Items shown on the invoice design preview
+const SAMPLE_INVOICE_ITEMS = [
+  { id: 'sample-1', itemName: 'Wheat (Sharbati)', quantity: 2, rate: 2800, total: 5600, baseUnit: 'qtl', hsnCode: '1001', gstRate: 0 },
+  { id: 'sample-2', itemName: 'Cattle Feed', quantity: 10, rate: 450, total: 4500, baseUnit: 'bag', hsnCode: '2309', gstRate: 5 },
+];
 
 export default function CompanyDetailsScreen() {
   const router = useRouter();
@@ -36,6 +47,9 @@ export default function CompanyDetailsScreen() {
   const [completionPercentage, setCompletionPercentage] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // Only a hash of the PIN is saved, so a new PIN is typed here instead of editing the stored one
+  const [newOverridePin, setNewOverridePin] = useState('');
+  const hasOverridePin = !!(companyDetails.creditOverridePinHash || companyDetails.creditOverridePin);
 
   // Android-specific constants
   const isAndroid = Platform.OS === 'android';
@@ -53,7 +67,8 @@ export default function CompanyDetailsScreen() {
   const loadCompanyDetails = async () => {
     setIsLoading(true);
     try {
-      const details = await CompanyApiService.getCompanyDetails();
+      // Never the offline copy: it has no override PIN, and saving it back would drop the PIN
+      const details = await CompanyApiService.getCompanyDetails(false);
       setCompanyDetails(details);
     } catch (error) {
       console.error('Error loading company details:', error);
@@ -89,6 +104,19 @@ export default function CompanyDetailsScreen() {
     setCompletionPercentage(percentage);
   };
 
+  // Sample invoice in the chosen design, redrawn as the settings change
+  const invoicePreviewHtml = useMemo(() => {
+    const tax = GstCalculator.calculateDocumentTax(SAMPLE_INVOICE_ITEMS, companyDetails.gstin, '');
+    return BasePdfGenerator.buildInvoiceHTML({
+      id: 'sample',
+      invoiceNo: '1',
+      partyName: 'Sample Customer',
+      phoneNumber: '9876543210',
+      date: new Date().toLocaleDateString('en-IN'),
+      ...tax,
+    }, companyDetails);
+  }, [companyDetails]);
+
   const updateField = (field: keyof CompanyDetails, value: string) => {
     setCompanyDetails(prev => ({
       ...prev,
@@ -96,15 +124,35 @@ export default function CompanyDetailsScreen() {
     }));
   };
 
+  const removeOverridePin = () => {
+    setNewOverridePin('');
+    setCompanyDetails(prev => ({ ...prev, creditOverridePinHash: '', creditOverridePin: '' }));
+  };
+
   const handleSave = async () => {
+    // GSTIN is optional, but must be well formed when entered
+    if (companyDetails.gstin?.trim() && !GstCalculator.isValidGstin(companyDetails.gstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_GSTIN);
+      return;
+    }
+
     setIsSaving(true);
     try {
+      // A new PIN, or one saved in plaintext by an older version, is replaced by its hash
+      const pinToHash = newOverridePin || companyDetails.creditOverridePin;
+      const detailsToSave: CompanyDetails = {
+        ...companyDetails,
+        ...(pinToHash && { creditOverridePinHash: await CreditControl.hashOverridePin(pinToHash) }),
+        creditOverridePin: '',
+      };
+
       // Validate company details before saving
-      await CompanyApiService.validateCompanyDetails(companyDetails);
+      await CompanyApiService.validateCompanyDetails(detailsToSave);
       
       // Save company details
-      const savedDetails = await CompanyApiService.saveCompanyDetails(companyDetails);
+      const savedDetails = await CompanyApiService.saveCompanyDetails(detailsToSave);
       setCompanyDetails(savedDetails);
+      setNewOverridePin('');
       
       Alert.alert(
         'Success', 
@@ -291,6 +339,20 @@ export default function CompanyDetailsScreen() {
               />
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>GSTIN</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Enter GSTIN (e.g. 27ABCDE1234F1Z5)"
+                placeholderTextColor={Colors.textTertiary}
+                value={companyDetails.gstin || ''}
+                onChangeText={(text) => updateField('gstin', GstCalculator.normalizeGstin(text))}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={15}
+              />
+            </View>
+
             <View style={styles.formGroup}>
               <Text style={styles.fieldLabel}>Business Address *</Text>
               <TextInput
@@ -319,6 +381,28 @@ export default function CompanyDetailsScreen() {
               />
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Manager PIN (Credit Override)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={hasOverridePin ? 'Enter a new PIN to change it' : 'Leave blank to block invoices for parties on credit hold'}
+                placeholderTextColor={Colors.textTertiary}
+                value={newOverridePin}
+                onChangeText={(text) => setNewOverridePin(text.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={6}
+              />
+              {hasOverridePin && (
+                <View style={styles.pinStatusRow}>
+                  <Text style={styles.fieldHint}>A PIN is set</Text>
+                  <TouchableOpacity onPress={removeOverridePin} activeOpacity={0.8}>
+                    <Text style={styles.removePinText}>Remove PIN</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
             <View style={styles.formGroup}>
               <Text style={styles.fieldLabel}>Business Description *</Text>
               <TextInput
@@ -354,6 +438,101 @@ export default function CompanyDetailsScreen() {
                 )}
               </TouchableOpacity>
             </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Document Numbering</Text>
+              <TouchableOpacity 
+                style={styles.settingsLink}
+                onPress={() => router.push('/number-series')}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="list-outline" size={22} color={Colors.primary} />
+                <Text style={styles.settingsLinkText}>Invoice, bill and payment number series</Text>
+                <Ionicons name="chevron-forward" size={20} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Invoice Design Section */}
+          <View style={styles.formSection}>
+            <Text style={styles.sectionTitle}>Invoice Design</Text>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Template</Text>
+              <View style={styles.chipRow}>
+                {InvoiceTemplates.list().map(template => {
+                  const selected = InvoiceTemplates.get(companyDetails.invoiceTemplate).id === template.id;
+                  return (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={[styles.templateChip, selected && styles.templateChipSelected]}
+                      onPress={() => updateField('invoiceTemplate', template.id)}
+                      activeOpacity={0.8}
+                    >
+                      <Text style={[styles.templateChipText, selected && styles.templateChipTextSelected]}>
+                        {template.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.fieldHint}>{InvoiceTemplates.get(companyDetails.invoiceTemplate).description}</Text>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Accent Colour</Text>
+              <View style={styles.chipRow}>
+                {ACCENT_COLORS.map(color => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[
+                      styles.colorSwatch,
+                      { backgroundColor: color },
+                      InvoiceTemplates.getAccentColor(companyDetails) === color && styles.colorSwatchSelected,
+                    ]}
+                    onPress={() => updateField('invoiceAccentColor', color)}
+                    activeOpacity={0.8}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Terms & Conditions</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder="One term per line"
+                placeholderTextColor={Colors.textTertiary}
+                value={companyDetails.invoiceTerms ?? DEFAULT_INVOICE_TERMS}
+                onChangeText={(text) => updateField('invoiceTerms', text)}
+                multiline
+                numberOfLines={4}
+                textAlignVertical="top"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Footer Note</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Thank you for your business! (optional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={companyDetails.invoiceFooterNote || ''}
+                onChangeText={(text) => updateField('invoiceFooterNote', text)}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.fieldLabel}>Preview</Text>
+              <View style={styles.invoicePreview}>
+                <WebView
+                  originWhitelist={['*']}
+                  source={{ html: invoicePreviewHtml }}
+                  nestedScrollEnabled
+                  style={styles.invoicePreviewWebView}
+                />
+              </View>
+            </View>
           </View>
 
           {/* Save Button */}
@@ -617,6 +796,83 @@ const styles = StyleSheet.create({
       textAlignVertical: 'center',
     }),
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  templateChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  templateChipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  templateChipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  templateChipTextSelected: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  fieldHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  pinStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  removePinText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.error,
+    marginTop: 8,
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: Colors.text,
+  },
+  invoicePreview: {
+    height: 420,
+    borderRadius: Platform.OS === 'android' ? 8 : 12,
+    overflow: 'hidden',
+    backgroundColor: '#ffffff',
+  },
+  invoicePreviewWebView: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  settingsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: Platform.OS === 'android' ? 8 : 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: 56,
+    gap: 12,
+  },
+  settingsLinkText: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 16,
+  },
   bottomSection: {
     padding: 20,
     paddingBottom: Platform.OS === 'android' ? 100 : 80,
@@ -0,0 +1,502 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Sharing from 'expo-sharing';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import { CreditNote, CreditNoteApiService, handleApiError, SaleApiService, SaleInvoice } from '../utils/api';
+import { CreditNoteManager } from '../utils/creditNoteManager';
+import { ReturnableLine } from '../utils/returnNotes';
+import { StockManager } from '../utils/stockManager';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+export default function CreditNoteScreen() {
+  const { invoiceId } = useLocalSearchParams<{ invoiceId: string }>();
+  const [invoice, setInvoice] = useState<SaleInvoice | null>(null);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  // Entered returned quantity per invoice line ID
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (invoiceId) {
+      loadInvoice();
+    }
+  }, [invoiceId]);
+
+  const loadInvoice = async () => {
+    try {
+      setLoading(true);
+      const [sale, invoiceCreditNotes] = await Promise.all([
+        SaleApiService.getSaleById(invoiceId),
+        CreditNoteApiService.getCreditNotes({ invoiceId }),
+      ]);
+      // Older backends ignore the filter
+      const forInvoice = invoiceCreditNotes.filter(creditNote => creditNote.invoiceId === invoiceId);
+      setInvoice(sale);
+      setCreditNotes(forInvoice);
+      setLines(CreditNoteManager.getReturnableLines(sale, forInvoice));
+    } catch (error) {
+      console.error('Error loading invoice for credit note:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const quantities = Object.entries(entries).reduce<Record<string, number>>((result, [lineId, text]) => {
+    const quantity = parseFloat(text);
+    if (!isNaN(quantity) && quantity > 0) {
+      result[lineId] = quantity;
+    }
+    return result;
+  }, {});
+
+  const preview = invoice ? CreditNoteManager.buildCreditNote(invoice, quantities) : null;
+  const hasReturnable = lines.some(line => line.returnableQuantity > 0);
+
+  const handleCreate = () => {
+    if (!invoice || !preview || preview.items.length === 0) {
+      Alert.alert('Error', 'Enter a returned quantity for at least one item');
+      return;
+    }
+
+    const overReturned = lines.find(line => (quantities[line.lineId] || 0) > line.returnableQuantity);
+    if (overReturned) {
+      Alert.alert('Error', `Only ${overReturned.returnableQuantity} of ${overReturned.itemName} can be returned`);
+      return;
+    }
+
+    Alert.alert(
+      'Create Credit Note',
+      `Credit ₹${preview.totalAmount.toLocaleString()} to ${invoice.partyName} and add the returned items back to stock?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create', onPress: createCreditNote },
+      ]
+    );
+  };
+
+  // Stock of a saved credit note failed for some items; offer to apply the rest again
+  const promptStockRetry = (stockError: unknown, creditNote: CreditNote) => {
+    Alert.alert(
+      'Stock Not Updated',
+      `Credit note CN-${creditNote.creditNoteNo} created. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_RETRY}`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            try {
+              await StockManager.updateStockOnSaleReturn(creditNote.items, creditNote.invoiceId, creditNote.id, `CN-${creditNote.creditNoteNo}`);
+              Alert.alert('Success', 'Stock updated');
+            } catch (error) {
+              console.error('Error retrying stock update for credit note:', error);
+              promptStockRetry(error, creditNote);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const createCreditNote = async () => {
+    if (!invoice) return;
+    try {
+      setSaving(true);
+      const { creditNote, stockError } = await CreditNoteManager.createCreditNote(invoice, quantities, reason);
+      if (stockError) {
+        promptStockRetry(stockError, creditNote);
+      } else {
+        Alert.alert('Success', `Credit note CN-${creditNote.creditNoteNo} created successfully!`);
+      }
+      setEntries({});
+      setReason('');
+      await loadInvoice();
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shareCreditNote = async (creditNote: CreditNote) => {
+    try {
+      if (!creditNote.pdfUri) {
+        Alert.alert('Error', 'PDF not found for this document');
+        return;
+      }
+
+      const isSharingAvailable = await Sharing.isAvailableAsync();
+      if (isSharingAvailable) {
+        await Sharing.shareAsync(creditNote.pdfUri, {
+          mimeType: 'application/pdf',
+          dialogTitle: `Credit Note #CN-${creditNote.creditNoteNo}`,
+        });
+      } else {
+        Alert.alert('Error', 'Sharing not available on this device');
+      }
+    } catch (error) {
+      console.error('Error sharing credit note PDF:', error);
+      Alert.alert('Error', 'Failed to share PDF');
+    }
+  };
+
+  const renderLine = (line: ReturnableLine) => (
+    <View key={line.lineId} style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>{line.itemName}</Text>
+          <Text style={styles.itemMeta}>
+            Sold {line.quantity} @ ₹{line.rate.toLocaleString()}
+            {line.returnedQuantity > 0 ? ` • Returned ${line.returnedQuantity}` : ''}
+          </Text>
+        </View>
+        {line.returnableQuantity > 0 ? (
+          <TextInput
+            style={styles.quantityInput}
+            placeholder={`Max ${line.returnableQuantity}`}
+            placeholderTextColor={Colors.textTertiary}
+            value={entries[line.lineId] || ''}
+            onChangeText={(text) => setEntries(prev => ({ ...prev, [line.lineId]: text }))}
+            keyboardType="decimal-pad"
+          />
+        ) : (
+          <Text style={styles.fullyReturned}>Fully returned</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Sale Return</Text>
+          <Text style={styles.headerSubtitle}>
+            {invoice ? `Invoice #${invoice.invoiceNo} • ${invoice.partyName}` : 'Credit note against an invoice'}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading invoice...</Text>
+        </View>
+      ) : invoice ? (
+        <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Invoice Total</Text>
+                <Text style={styles.summaryValue}>₹{invoice.totalAmount.toLocaleString()}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Already Credited</Text>
+                <Text style={styles.summaryValue}>₹{(invoice.returnedAmount || 0).toLocaleString()}</Text>
+              </View>
+            </View>
+
+            <Text style={styles.sectionTitle}>Returned Quantity</Text>
+            {lines.map(renderLine)}
+
+            {hasReturnable && (
+              <TextInput
+                style={styles.input}
+                placeholder="Reason for return (optional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={reason}
+                onChangeText={setReason}
+              />
+            )}
+
+            {creditNotes.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Credit Notes</Text>
+                {creditNotes.map(creditNote => (
+                  <View key={creditNote.id} style={styles.creditNoteRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemName}>CN-{creditNote.creditNoteNo}</Text>
+                      <Text style={styles.itemMeta}>
+                        {creditNote.date} • {creditNote.items.length} item(s){creditNote.reason ? ` • ${creditNote.reason}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.creditNoteAmount}>₹{creditNote.totalAmount.toLocaleString()}</Text>
+                    {creditNote.pdfUri && (
+                      <TouchableOpacity style={styles.shareButton} onPress={() => shareCreditNote(creditNote)}>
+                        <Ionicons name="share-outline" size={20} color={Colors.primary} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="document-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>Invoice not found</Text>
+        </View>
+      )}
+
+      {invoice && hasReturnable && (
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>{preview?.items.length || 0} item(s) returned</Text>
+            <Text style={styles.footerValue}>₹{(preview?.totalAmount || 0).toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, (saving || !preview || preview.items.length === 0) && styles.saveButtonDisabled]}
+            onPress={handleCreate}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.saveButtonText}>Create Credit Note</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  quantityInput: {
+    width: 110,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  fullyReturned: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 16,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  creditNoteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  creditNoteAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  shareButton: {
+    padding: 8,
+    marginLeft: 4,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.warning,
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
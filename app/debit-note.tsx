@@ -0,0 +1,542 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Sharing from 'expo-sharing';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import { DebitNote, DebitNoteApiService, handleApiError, PurchaseApiService, PurchaseBill } from '../utils/api';
+import { DebitNoteManager } from '../utils/debitNoteManager';
+import { ReturnableLine } from '../utils/returnNotes';
+import { StockManager } from '../utils/stockManager';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+export default function DebitNoteScreen() {
+  const { billId } = useLocalSearchParams<{ billId: string }>();
+  const [bill, setBill] = useState<PurchaseBill | null>(null);
+  const [debitNotes, setDebitNotes] = useState<DebitNote[]>([]);
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  // Entered returned quantity per bill line ID
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (billId) {
+      loadBill();
+    }
+  }, [billId]);
+
+  const loadBill = async () => {
+    try {
+      setLoading(true);
+      const [purchase, billDebitNotes] = await Promise.all([
+        PurchaseApiService.getPurchaseById(billId),
+        DebitNoteApiService.getDebitNotes({ billId }),
+      ]);
+      // Older backends ignore the filter
+      const forBill = billDebitNotes.filter(debitNote => debitNote.billId === billId);
+      setBill(purchase);
+      setDebitNotes(forBill);
+      setLines(DebitNoteManager.getReturnableLines(purchase, forBill));
+    } catch (error) {
+      console.error('Error loading bill for debit note:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const quantities = Object.entries(entries).reduce<Record<string, number>>((result, [lineId, text]) => {
+    const quantity = parseFloat(text);
+    if (!isNaN(quantity) && quantity > 0) {
+      result[lineId] = quantity;
+    }
+    return result;
+  }, {});
+
+  const preview = bill ? DebitNoteManager.buildDebitNote(bill, quantities) : null;
+  const hasReturnable = lines.some(line => line.returnableQuantity > 0);
+
+  const handleCreate = () => {
+    if (!bill || !preview || preview.items.length === 0) {
+      Alert.alert('Error', 'Enter a returned quantity for at least one item');
+      return;
+    }
+
+    const overReturned = lines.find(line => (quantities[line.lineId] || 0) > line.returnableQuantity);
+    if (overReturned) {
+      Alert.alert('Error', `Only ${overReturned.returnableQuantity} of ${overReturned.itemName} can be returned`);
+      return;
+    }
+
+    Alert.alert(
+      'Create Debit Note',
+      `Debit ₹${preview.totalAmount.toLocaleString()} to ${bill.partyName} and take the returned items out of stock?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create', onPress: createDebitNote },
+      ]
+    );
+  };
+
+  // Stock of a saved debit note failed for some items; offer to apply the rest again
+  const promptStockRetry = (stockError: unknown, debitNote: DebitNote) => {
+    Alert.alert(
+      'Stock Not Updated',
+      `Debit note DN-${debitNote.debitNoteNo} created. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_RETRY}`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            try {
+              await StockManager.updateStockOnPurchaseReturn(debitNote.items, debitNote.billId, debitNote.id, `DN-${debitNote.debitNoteNo}`);
+              Alert.alert('Success', 'Stock updated');
+            } catch (error) {
+              console.error('Error retrying stock update for debit note:', error);
+              promptStockRetry(error, debitNote);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const createDebitNote = async () => {
+    if (!bill) return;
+    try {
+      setSaving(true);
+      const { debitNote, stockError } = await DebitNoteManager.createDebitNote(bill, quantities, reason);
+      if (stockError) {
+        promptStockRetry(stockError, debitNote);
+      } else if (debitNote.phoneNumber) {
+        Alert.alert(
+          'Success',
+          `Debit note DN-${debitNote.debitNoteNo} created successfully! Send it to ${debitNote.partyName} on WhatsApp?`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Send', onPress: () => sendDebitNote(debitNote) },
+          ]
+        );
+      } else {
+        Alert.alert('Success', `Debit note DN-${debitNote.debitNoteNo} created successfully!`);
+      }
+      setEntries({});
+      setReason('');
+      await loadBill();
+    } catch (error) {
+      console.error('Error creating debit note:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sendDebitNote = async (debitNote: DebitNote) => {
+    try {
+      setSendingId(debitNote.id);
+      const sent = await DebitNoteManager.sendViaWhatsApp(debitNote);
+      if (!sent) {
+        Alert.alert('Error', 'Failed to send debit note via WhatsApp');
+        return;
+      }
+      await loadBill();
+    } catch (error) {
+      console.error('Error sending debit note:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const shareDebitNote = async (debitNote: DebitNote) => {
+    try {
+      if (!debitNote.pdfUri) {
+        Alert.alert('Error', 'PDF not found for this document');
+        return;
+      }
+
+      const isSharingAvailable = await Sharing.isAvailableAsync();
+      if (isSharingAvailable) {
+        await Sharing.shareAsync(debitNote.pdfUri, {
+          mimeType: 'application/pdf',
+          dialogTitle: `Debit Note #DN-${debitNote.debitNoteNo}`,
+        });
+      } else {
+        Alert.alert('Error', 'Sharing not available on this device');
+      }
+    } catch (error) {
+      console.error('Error sharing debit note PDF:', error);
+      Alert.alert('Error', 'Failed to share PDF');
+    }
+  };
+
+  const renderLine = (line: ReturnableLine) => (
+    <View key={line.lineId} style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>{line.itemName}</Text>
+          <Text style={styles.itemMeta}>
+            Bought {line.quantity} @ ₹{line.rate.toLocaleString()}
+            {line.returnedQuantity > 0 ? ` • Returned ${line.returnedQuantity}` : ''}
+          </Text>
+        </View>
+        {line.returnableQuantity > 0 ? (
+          <TextInput
+            style={styles.quantityInput}
+            placeholder={`Max ${line.returnableQuantity}`}
+            placeholderTextColor={Colors.textTertiary}
+            value={entries[line.lineId] || ''}
+            onChangeText={(text) => setEntries(prev => ({ ...prev, [line.lineId]: text }))}
+            keyboardType="decimal-pad"
+          />
+        ) : (
+          <Text style={styles.fullyReturned}>Fully returned</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Purchase Return</Text>
+          <Text style={styles.headerSubtitle}>
+            {bill ? `Bill #${bill.billNo} • ${bill.partyName}` : 'Debit note against a bill'}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading bill...</Text>
+        </View>
+      ) : bill ? (
+        <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Bill Total</Text>
+                <Text style={styles.summaryValue}>₹{bill.totalAmount.toLocaleString()}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Already Debited</Text>
+                <Text style={styles.summaryValue}>₹{(bill.returnedAmount || 0).toLocaleString()}</Text>
+              </View>
+            </View>
+
+            <Text style={styles.sectionTitle}>Returned Quantity</Text>
+            {lines.map(renderLine)}
+
+            {hasReturnable && (
+              <TextInput
+                style={styles.input}
+                placeholder="Reason for return (optional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={reason}
+                onChangeText={setReason}
+              />
+            )}
+
+            {debitNotes.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Debit Notes</Text>
+                {debitNotes.map(debitNote => (
+                  <View key={debitNote.id} style={styles.debitNoteRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemName}>DN-{debitNote.debitNoteNo}</Text>
+                      <Text style={styles.itemMeta}>
+                        {debitNote.date} • {debitNote.items.length} item(s){debitNote.reason ? ` • ${debitNote.reason}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={styles.debitNoteAmount}>₹{debitNote.totalAmount.toLocaleString()}</Text>
+                    {!!debitNote.phoneNumber && (
+                      <TouchableOpacity
+                        style={styles.shareButton}
+                        onPress={() => sendDebitNote(debitNote)}
+                        disabled={sendingId === debitNote.id}
+                      >
+                        {sendingId === debitNote.id ? (
+                          <ActivityIndicator size="small" color={Colors.success} />
+                        ) : (
+                          <Ionicons name="logo-whatsapp" size={20} color={Colors.success} />
+                        )}
+                      </TouchableOpacity>
+                    )}
+                    {debitNote.pdfUri && (
+                      <TouchableOpacity style={styles.shareButton} onPress={() => shareDebitNote(debitNote)}>
+                        <Ionicons name="share-outline" size={20} color={Colors.primary} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="document-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>Bill not found</Text>
+        </View>
+      )}
+
+      {bill && hasReturnable && (
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>{preview?.items.length || 0} item(s) returned</Text>
+            <Text style={styles.footerValue}>₹{(preview?.totalAmount || 0).toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, (saving || !preview || preview.items.length === 0) && styles.saveButtonDisabled]}
+            onPress={handleCreate}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.saveButtonText}>Create Debit Note</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  quantityInput: {
+    width: 110,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  fullyReturned: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 16,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  debitNoteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  debitNoteAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  shareButton: {
+    padding: 8,
+    marginLeft: 4,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.warning,
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
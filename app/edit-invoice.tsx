@@ -15,7 +15,12 @@ import {
     View
 } from 'react-native';
 import { Colors } from '../constants/Colors';
-import { Party, PartyApiService, SaleApiService } from '../utils/api';
+import { Messages } from '../constants/Messages';
+import { CompanyApiService, Party, PartyApiService, SaleApiService } from '../utils/api';
+import { GstCalculator } from '../utils/gstCalculator';
+import { PartyManager } from '../utils/partyManager';
+import { StockManager } from '../utils/stockManager';
+import { UnitConverter } from '../utils/unitConverter';
 
 interface SaleInvoice {
   id: string;
@@ -26,6 +31,16 @@ interface SaleInvoice {
   totalAmount: number;
   date: string;
   pdfUri?: string;
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  challanIds?: string[];
 }
 
 interface SaleItem {
@@ -34,12 +49,23 @@ interface SaleItem {
   quantity: number;
   rate: number;
   total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
 export default function EditInvoiceScreen() {
   const router = useRouter();
   const { invoiceId } = useLocalSearchParams<{ invoiceId: string }>();
   const [invoice, setInvoice] = useState<SaleInvoice | null>(null);
+  // Items as saved on the server, used to diff stock changes on save
+  const [originalItems, setOriginalItems] = useState<SaleItem[]>([]);
   const [customers, setCustomers] = useState<Party[]>([]);
   const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
   const [selectedCustomerBalance, setSelectedCustomerBalance] = useState<number | null>(null);
@@ -59,11 +85,13 @@ export default function EditInvoiceScreen() {
 
   const [refreshing, setRefreshing] = useState(false);
   const [processingItems, setProcessingItems] = useState(false);
+  const [companyGstin, setCompanyGstin] = useState<string>('');
 
   useEffect(() => {
     if (invoiceId) {
       loadInvoice();
       loadCustomers();
+      loadCompanyGstin();
     }
   }, [invoiceId]);
 
@@ -134,6 +162,7 @@ export default function EditInvoiceScreen() {
       const foundInvoice = await SaleApiService.getSaleById(invoiceId);
       if (foundInvoice) {
         setInvoice(foundInvoice);
+        setOriginalItems(foundInvoice.items);
         setFormData({
           partyName: foundInvoice.partyName,
           phoneNumber: foundInvoice.phoneNumber,
@@ -155,6 +184,7 @@ export default function EditInvoiceScreen() {
       const foundInvoice = await SaleApiService.getSaleById(invoiceId);
       if (foundInvoice) {
         setInvoice(foundInvoice);
+        setOriginalItems(foundInvoice.items);
       }
       
       // Also check for incoming items
@@ -175,6 +205,15 @@ export default function EditInvoiceScreen() {
     }
   };
 
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
   const handleSaveInvoice = async () => {
     if (!invoice || !formData.partyName || !formData.phoneNumber) {
       Alert.alert('Error', 'Please fill all required fields');
@@ -186,14 +225,22 @@ export default function EditInvoiceScreen() {
       return;
     }
 
-    // Calculate total amount from current items
-    const totalAmount = invoice.items.reduce((sum, item) => sum + (item.total || 0), 0);
+    // Recalculate GST and total amount from current items
+    const invoiceTax = GstCalculator.calculateDocumentTax(invoice.items, companyGstin, invoice.partyGstin);
 
     const updatedInvoice: SaleInvoice = {
       ...invoice,
       partyName: formData.partyName,
       phoneNumber: formData.phoneNumber,
-      totalAmount: totalAmount,
+      items: invoiceTax.items,
+      totalAmount: invoiceTax.totalAmount,
+      isInterState: invoiceTax.isInterState,
+      placeOfSupply: invoiceTax.placeOfSupply,
+      taxableAmount: invoiceTax.taxableAmount,
+      cgstAmount: invoiceTax.cgstAmount,
+      sgstAmount: invoiceTax.sgstAmount,
+      igstAmount: invoiceTax.igstAmount,
+      totalTax: invoiceTax.totalTax,
     };
 
     try {
@@ -205,15 +252,49 @@ export default function EditInvoiceScreen() {
       }
 
       // Update invoice using API
+      const partyId = await PartyManager.resolvePartyId(updatedInvoice.partyName, updatedInvoice.phoneNumber, invoice);
       await SaleApiService.updateSale(invoiceId, {
         partyName: updatedInvoice.partyName,
         phoneNumber: updatedInvoice.phoneNumber,
+        partyId,
         items: updatedInvoice.items,
+        totalAmount: updatedInvoice.totalAmount,
         date: updatedInvoice.date,
-        pdfUri: updatedInvoice.pdfUri
+        pdfUri: updatedInvoice.pdfUri,
+        isInterState: updatedInvoice.isInterState,
+        placeOfSupply: updatedInvoice.placeOfSupply,
+        taxableAmount: updatedInvoice.taxableAmount,
+        cgstAmount: updatedInvoice.cgstAmount,
+        sgstAmount: updatedInvoice.sgstAmount,
+        igstAmount: updatedInvoice.igstAmount,
+        totalTax: updatedInvoice.totalTax,
       });
+
+      // Apply only the difference between the old and new items to stock
+      let stockError: unknown = null;
+      try {
+        await StockManager.updateStockOnSaleEdit(
+          originalItems,
+          updatedInvoice.items,
+          invoiceId,
+          `INV-${updatedInvoice.invoiceNo}`
+        );
+        setOriginalItems(updatedInvoice.items);
+      } catch (error) {
+        console.error('Error updating stock for edited invoice:', error);
+        stockError = error;
+      }
       
-      Alert.alert('Success', 'Invoice updated successfully!');
+      if (stockError) {
+        Alert.alert(
+          'Stock Not Updated',
+          `Invoice updated. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_ADJUST}`,
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      Alert.alert('Success', Messages.SUCCESS.INVOICE_UPDATED);
       router.back();
     } catch (error) {
       console.error('Error updating invoice:', error);
@@ -278,6 +359,9 @@ export default function EditInvoiceScreen() {
 
 
 
+  // Challan invoices bill the delivered quantities; their stock moved on delivery, not on this invoice
+  const fromChallan = (invoice?.challanIds?.length ?? 0) > 0;
+
   const renderItem = ({ item }: { item: SaleItem }) => (
     <View style={styles.itemCard}>
       <View style={styles.itemHeader}>
@@ -286,13 +370,15 @@ export default function EditInvoiceScreen() {
           <TouchableOpacity onPress={() => editItem(item)} style={styles.actionButton}>
             <Ionicons name="pencil" size={16} color={Colors.primary} />
           </TouchableOpacity>
-          <TouchableOpacity onPress={() => deleteItem(item.id)} style={styles.actionButton}>
-            <Ionicons name="trash" size={16} color={Colors.error} />
-          </TouchableOpacity>
+          {!fromChallan && (
+            <TouchableOpacity onPress={() => deleteItem(item.id)} style={styles.actionButton}>
+              <Ionicons name="trash" size={16} color={Colors.error} />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
       <View style={styles.itemDetails}>
-        <Text style={styles.itemDetail}>Qty: {item.quantity}</Text>
+        <Text style={styles.itemDetail}>Qty: {UnitConverter.formatQuantity(item, item.quantity)}</Text>
         <Text style={styles.itemDetail}>Rate: ₹{item.rate}</Text>
         <Text style={styles.itemAmount}>₹{(item.total || 0).toLocaleString()}</Text>
       </View>
@@ -329,14 +415,18 @@ export default function EditInvoiceScreen() {
             <Text style={styles.itemNameDisplay}>{editingItem?.itemName}</Text>
             
             <Text style={styles.fieldLabel}>Quantity *</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="Enter quantity..."
-              placeholderTextColor={Colors.textTertiary}
-              value={itemForm.quantity}
-              onChangeText={(text) => setItemForm(prev => ({ ...prev, quantity: text }))}
-              keyboardType="numeric"
-            />
+            {fromChallan ? (
+              <Text style={styles.itemNameDisplay}>{itemForm.quantity}</Text>
+            ) : (
+              <TextInput
+                style={styles.input}
+                placeholder="Enter quantity..."
+                placeholderTextColor={Colors.textTertiary}
+                value={itemForm.quantity}
+                onChangeText={(text) => setItemForm(prev => ({ ...prev, quantity: text }))}
+                keyboardType="numeric"
+              />
+            )}
             
             <Text style={styles.fieldLabel}>Rate *</Text>
             <TextInput
@@ -391,7 +481,7 @@ export default function EditInvoiceScreen() {
     );
   }
 
-  const totalAmount = invoice.items.reduce((sum, item) => sum + (item.total || 0), 0);
+  const totalAmount = GstCalculator.calculateDocumentTax(invoice.items, companyGstin, invoice.partyGstin).totalAmount;
 
   return (
     <View style={styles.container}>
@@ -495,13 +585,15 @@ export default function EditInvoiceScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Items</Text>
-            <TouchableOpacity 
-              style={styles.addButton} 
-              onPress={addItem}
-            >
-              <Ionicons name="add" size={20} color={Colors.text} />
-              <Text style={styles.addButtonText}>Add Item</Text>
-            </TouchableOpacity>
+            {!fromChallan && (
+              <TouchableOpacity 
+                style={styles.addButton} 
+                onPress={addItem}
+              >
+                <Ionicons name="add" size={20} color={Colors.text} />
+                <Text style={styles.addButtonText}>Add Item</Text>
+              </TouchableOpacity>
+            )}
           </View>
           
           {invoice.items.length > 0 ? (
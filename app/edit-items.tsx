@@ -13,6 +13,15 @@ import {
 } from 'react-native';
 import { Colors } from '../constants/Colors';
 import { Item, ItemsApiService, handleApiError } from '../utils/api';
+import { GST_RATES } from '../utils/gstCalculator';
+import { StockLedger } from '../utils/stockLedger';
+import {
+  DEFAULT_BASE_UNIT,
+  DEFAULT_PACK_SIZE,
+  DEFAULT_PACK_UNIT,
+  PACK_SIZE_PRESETS,
+  UnitConverter,
+} from '../utils/unitConverter';
 
 // Item interface is now imported from api.ts
 
@@ -31,6 +40,12 @@ export default function EditItemsScreen() {
     openingStock: '',
     asOfDate: '',
     lowStockAlert: '',
+    hsnCode: '',
+    gstRate: 0,
+    baseUnit: DEFAULT_BASE_UNIT,
+    packUnit: DEFAULT_PACK_UNIT,
+    packSize: DEFAULT_PACK_SIZE.toString(),
+    alternateUnits: '',
   });
 
   useEffect(() => {
@@ -50,9 +65,15 @@ export default function EditItemsScreen() {
         category: foundItem.category,
         purchasePrice: foundItem.purchasePrice.toString(),
         salePrice: foundItem.salePrice.toString(),
-        openingStock: (foundItem.openingStock * 30).toString(), // Convert bags to kg
+        openingStock: UnitConverter.packsToBase(foundItem, foundItem.openingStock).toString(), // Convert packs to base units
         asOfDate: foundItem.asOfDate,
-        lowStockAlert: (foundItem.lowStockAlert * 30).toString(), // Convert bags to kg
+        lowStockAlert: UnitConverter.packsToBase(foundItem, foundItem.lowStockAlert).toString(), // Convert packs to base units
+        hsnCode: foundItem.hsnCode || '',
+        gstRate: foundItem.gstRate || 0,
+        baseUnit: UnitConverter.getBaseUnit(foundItem),
+        packUnit: UnitConverter.getPackUnit(foundItem),
+        packSize: UnitConverter.getPackSize(foundItem).toString(),
+        alternateUnits: UnitConverter.formatAlternateUnits(foundItem.alternateUnits),
       });
     } catch (error) {
       console.error('Error loading item:', error);
@@ -83,6 +104,7 @@ export default function EditItemsScreen() {
     const salePrice = parseFloat(itemForm.salePrice);
     const openingStock = parseFloat(itemForm.openingStock);
     const lowStockAlert = parseFloat(itemForm.lowStockAlert);
+    const packSize = parseFloat(itemForm.packSize);
     
     if (isNaN(purchasePrice) || purchasePrice < 0) {
       Alert.alert('Error', 'Please enter a valid purchase price');
@@ -94,6 +116,11 @@ export default function EditItemsScreen() {
       return;
     }
     
+    if (isNaN(packSize) || packSize <= 0) {
+      Alert.alert('Error', 'Please enter a valid pack size');
+      return;
+    }
+    
     if (isNaN(openingStock) || openingStock < 0) {
       Alert.alert('Error', 'Please enter a valid opening stock');
       return;
@@ -104,19 +131,41 @@ export default function EditItemsScreen() {
       return;
     }
 
+    const unitConfig = {
+      baseUnit: itemForm.baseUnit.trim() || DEFAULT_BASE_UNIT,
+      packUnit: itemForm.packUnit.trim() || DEFAULT_PACK_UNIT,
+      packSize,
+      alternateUnits: UnitConverter.parseAlternateUnits(itemForm.alternateUnits),
+    };
+
     try {
       const updateData = {
         productName: itemForm.productName.trim(),
         category: itemForm.category,
         purchasePrice,
         salePrice,
-        openingStock: openingStock / 30, // Convert kg to bags
+        openingStock: UnitConverter.baseToPacks(unitConfig, openingStock), // Convert base units to packs
         asOfDate: itemForm.asOfDate,
-        lowStockAlert: lowStockAlert / 30, // Convert kg to bags
+        lowStockAlert: UnitConverter.baseToPacks(unitConfig, lowStockAlert), // Convert base units to packs
+        hsnCode: itemForm.hsnCode.trim() || undefined,
+        gstRate: itemForm.gstRate,
+        ...unitConfig,
       };
 
       const updatedItem = await ItemsApiService.updateItem(itemId, updateData);
       setItem(updatedItem);
+
+      // Record stock edited by hand so the ledger balance matches
+      const previousStock = UnitConverter.packsToBase(item || undefined, item?.openingStock || 0);
+      if (Math.abs(openingStock - previousStock) > 0.001) {
+        await StockLedger.recordMovement({
+          itemId,
+          itemName: updatedItem.productName || updateData.productName,
+          type: 'manual-adjustment',
+          quantity: openingStock - previousStock,
+          note: 'Stock edited in item details',
+        });
+      }
       
       Alert.alert('Success', 'Item updated successfully!');
       router.back();
@@ -184,6 +233,9 @@ export default function EditItemsScreen() {
     );
   }
 
+  const baseUnitLabel = itemForm.baseUnit.trim() || DEFAULT_BASE_UNIT;
+  const packUnitLabel = itemForm.packUnit.trim() || DEFAULT_PACK_UNIT;
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -303,17 +355,76 @@ export default function EditItemsScreen() {
             keyboardType="numeric"
           />
           
-          <Text style={styles.fieldLabel}>Opening Stock (Kg) *</Text>
+          <Text style={styles.fieldLabel}>Base Unit / Pack Unit</Text>
+          <View style={styles.unitRow}>
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              placeholder="kg"
+              placeholderTextColor={Colors.textTertiary}
+              value={itemForm.baseUnit}
+              onChangeText={(text) => setItemForm(prev => ({ ...prev, baseUnit: text }))}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              placeholder="bag"
+              placeholderTextColor={Colors.textTertiary}
+              value={itemForm.packUnit}
+              onChangeText={(text) => setItemForm(prev => ({ ...prev, packUnit: text }))}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <Text style={styles.fieldLabel}>Pack Size ({baseUnitLabel} per {packUnitLabel}) *</Text>
+          <View style={styles.categorySelector}>
+            {PACK_SIZE_PRESETS.map(size => (
+              <TouchableOpacity
+                key={size}
+                style={[
+                  styles.categoryOption,
+                  itemForm.packSize === size.toString() && styles.categoryOptionSelected
+                ]}
+                onPress={() => setItemForm(prev => ({ ...prev, packSize: size.toString() }))}
+              >
+                <Text style={[
+                  styles.categoryOptionText,
+                  itemForm.packSize === size.toString() && styles.categoryOptionTextSelected
+                ]}>
+                  {size}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="Enter custom pack size..."
+            placeholderTextColor={Colors.textTertiary}
+            value={itemForm.packSize}
+            onChangeText={(text) => setItemForm(prev => ({ ...prev, packSize: text }))}
+            keyboardType="numeric"
+          />
+
+          <Text style={styles.fieldLabel}>Other Units</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. quintal=100, tin=15"
+            placeholderTextColor={Colors.textTertiary}
+            value={itemForm.alternateUnits}
+            onChangeText={(text) => setItemForm(prev => ({ ...prev, alternateUnits: text }))}
+            autoCapitalize="none"
+          />
+
+          <Text style={styles.fieldLabel}>Opening Stock ({baseUnitLabel}) *</Text>
           <TextInput
             style={styles.input}
-            placeholder="Enter opening stock in kg..."
+            placeholder={`Enter opening stock in ${baseUnitLabel}...`}
             placeholderTextColor={Colors.textTertiary}
             value={itemForm.openingStock}
             onChangeText={(text) => setItemForm(prev => ({ ...prev, openingStock: text }))}
             keyboardType="numeric"
           />
           <Text style={styles.helperText}>
-            Note: 1 Bag = 30 Kg (Will be converted to bags automatically)
+            Note: 1 {packUnitLabel} = {itemForm.packSize || DEFAULT_PACK_SIZE} {baseUnitLabel} (Will be converted to {packUnitLabel}s automatically)
           </Text>
           
           <Text style={styles.fieldLabel}>As of Date *</Text>
@@ -325,15 +436,46 @@ export default function EditItemsScreen() {
             onChangeText={(text) => setItemForm(prev => ({ ...prev, asOfDate: text }))}
           />
           
-          <Text style={styles.fieldLabel}>Low Stock Alert (Kg) *</Text>
+          <Text style={styles.fieldLabel}>Low Stock Alert ({baseUnitLabel}) *</Text>
           <TextInput
             style={styles.input}
-            placeholder="Enter low stock alert threshold in kg..."
+            placeholder={`Enter low stock alert threshold in ${baseUnitLabel}...`}
             placeholderTextColor={Colors.textTertiary}
             value={itemForm.lowStockAlert}
             onChangeText={(text) => setItemForm(prev => ({ ...prev, lowStockAlert: text }))}
             keyboardType="numeric"
           />
+
+          <Text style={styles.fieldLabel}>HSN Code</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Enter HSN code..."
+            placeholderTextColor={Colors.textTertiary}
+            value={itemForm.hsnCode}
+            onChangeText={(text) => setItemForm(prev => ({ ...prev, hsnCode: text }))}
+            keyboardType="numeric"
+          />
+
+          <Text style={styles.fieldLabel}>GST Rate</Text>
+          <View style={styles.categorySelector}>
+            {GST_RATES.map(rate => (
+              <TouchableOpacity
+                key={rate}
+                style={[
+                  styles.categoryOption,
+                  itemForm.gstRate === rate && styles.categoryOptionSelected
+                ]}
+                onPress={() => setItemForm(prev => ({ ...prev, gstRate: rate }))}
+              >
+                <Text style={[
+                  styles.categoryOptionText,
+                  itemForm.gstRate === rate && styles.categoryOptionTextSelected
+                ]}>
+                  {rate}%
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
 
         {/* Action Buttons */}
@@ -418,6 +560,13 @@ const styles = StyleSheet.create({
     gap: 12,
     marginBottom: 16,
   },
+  unitRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  unitInput: {
+    flex: 1,
+  },
   categoryOption: {
     flex: 1,
     paddingVertical: 12,
@@ -13,6 +13,7 @@ import {
 } from 'react-native';
 import { Colors } from '../constants/Colors';
 import { PartyApiService, Payment, PaymentApiService } from '../utils/api';
+import { PartyManager } from '../utils/partyManager';
 
 // Using the unified Payment interface from api.ts
 
@@ -81,9 +82,11 @@ export default function EditPayInScreen() {
       const amountDifference = received - originalAmount;
 
       // Update the payment
+      const partyId = await PartyManager.resolvePartyId(formData.partyName, formData.phoneNumber, payment);
       await PaymentApiService.updatePayment(paymentId!, {
         partyName: formData.partyName,
         phoneNumber: formData.phoneNumber,
+        partyId,
         amount: received,
         totalAmount,
         date: formData.date,
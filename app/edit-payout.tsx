@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { Colors } from '../constants/Colors';
 import { PartyApiService, Payment, PaymentApiService } from '../utils/api';
+import { PartyManager } from '../utils/partyManager';
 
 // Using the unified Payment interface from api.ts
 
@@ -84,9 +85,11 @@ export default function EditPayoutScreen() {
       const amountDifference = paidAmount - originalAmount;
 
       // Update the payment
+      const partyId = await PartyManager.resolvePartyId(formData.partyName, formData.phoneNumber, payment);
       await PaymentApiService.updatePayment(paymentId!, {
         partyName: formData.partyName,
         phoneNumber: formData.phoneNumber,
+        partyId,
         amount: paidAmount,
         date: formData.date,
         description: 'Payment made to supplier',
@@ -15,7 +15,12 @@ import {
     View,
 } from 'react-native';
 import { Colors } from '../constants/Colors';
-import { PurchaseApiService, PurchaseBill, PurchaseItem } from '../utils/api';
+import { Messages } from '../constants/Messages';
+import { CompanyApiService, PurchaseApiService, PurchaseBill, PurchaseItem } from '../utils/api';
+import { GstCalculator } from '../utils/gstCalculator';
+import { PartyManager } from '../utils/partyManager';
+import { StockManager } from '../utils/stockManager';
+import { UnitConverter } from '../utils/unitConverter';
 
 // PurchaseBill and PurchaseItem interfaces are now imported from api.ts
 
@@ -23,6 +28,8 @@ export default function EditPurchaseScreen() {
   const router = useRouter();
   const { billId } = useLocalSearchParams<{ billId: string }>();
   const [bill, setBill] = useState<PurchaseBill | null>(null);
+  // Items as saved on the server, used to diff stock changes on save
+  const [originalItems, setOriginalItems] = useState<PurchaseItem[]>([]);
   const [showItemModal, setShowItemModal] = useState(false);
   const [editingItem, setEditingItem] = useState<PurchaseItem | null>(null);
   
@@ -39,9 +46,12 @@ export default function EditPurchaseScreen() {
     rate: '',
   });
 
+  const [companyGstin, setCompanyGstin] = useState<string>('');
+
   useEffect(() => {
     if (billId) {
       loadBill();
+      loadCompanyGstin();
     }
   }, [billId]);
 
@@ -85,6 +95,7 @@ export default function EditPurchaseScreen() {
       
       if (foundBill) {
         setBill(foundBill);
+        setOriginalItems(foundBill.items);
         setFormData({
           billNo: foundBill.billNo,
           partyName: foundBill.partyName,
@@ -101,6 +112,15 @@ export default function EditPurchaseScreen() {
     }
   };
 
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
   const handleSaveBill = async () => {
     if (!bill || !formData.partyName || !formData.phoneNumber || !formData.billNo) {
       Alert.alert('Error', 'Please fill all required fields');
@@ -112,16 +132,38 @@ export default function EditPurchaseScreen() {
       return;
     }
 
+    // Recalculate GST and total amount from current items
+    const billTax = GstCalculator.calculateDocumentTax(bill.items, companyGstin, bill.partyGstin);
+
     try {
       // Update the bill via API
+      const partyId = await PartyManager.resolvePartyId(formData.partyName, formData.phoneNumber, bill);
       const updatedBill = await PurchaseApiService.updatePurchase(bill.id, {
         partyName: formData.partyName,
         phoneNumber: formData.phoneNumber,
+        partyId,
         date: formData.date,
-        items: bill.items,
-        totalAmount: bill.items.reduce((sum, item) => sum + item.total, 0),
+        items: billTax.items,
+        totalAmount: billTax.totalAmount,
+        isInterState: billTax.isInterState,
+        placeOfSupply: billTax.placeOfSupply,
+        taxableAmount: billTax.taxableAmount,
+        cgstAmount: billTax.cgstAmount,
+        sgstAmount: billTax.sgstAmount,
+        igstAmount: billTax.igstAmount,
+        totalTax: billTax.totalTax,
       });
 
+      // Apply only the difference between the old and new items to stock
+      let stockError: unknown = null;
+      try {
+        await StockManager.updateStockOnPurchaseEdit(originalItems, billTax.items, bill.id, `BILL-${formData.billNo}`);
+        setOriginalItems(billTax.items);
+      } catch (error) {
+        console.error('Error updating stock for edited bill:', error);
+        stockError = error;
+      }
+
       // Generate new PDF with updated purchase bill data
       const { BasePdfGenerator } = await import('../utils/basePdfGenerator');
       const pdfUri = await BasePdfGenerator.generatePurchaseBillPDF(updatedBill);
@@ -129,7 +171,16 @@ export default function EditPurchaseScreen() {
         await PurchaseApiService.updatePurchase(bill.id, { pdfUri });
       }
 
-      Alert.alert('Success', 'Purchase bill updated successfully!');
+      if (stockError) {
+        Alert.alert(
+          'Stock Not Updated',
+          `Purchase bill updated. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_ADJUST}`,
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      Alert.alert('Success', Messages.SUCCESS.PURCHASE_BILL_UPDATED);
       router.back();
     } catch (error) {
       console.error('Error updating bill:', error);
@@ -209,7 +260,7 @@ export default function EditPurchaseScreen() {
         </View>
       </View>
       <View style={styles.itemDetails}>
-        <Text style={styles.itemDetail}>Qty: {item.quantity}</Text>
+        <Text style={styles.itemDetail}>Qty: {UnitConverter.formatQuantity(item, item.quantity)}</Text>
         <Text style={styles.itemDetail}>Rate: ₹{item.rate}</Text>
         <Text style={styles.itemAmount}>₹{(item.total || 0).toLocaleString()}</Text>
       </View>
@@ -308,7 +359,7 @@ export default function EditPurchaseScreen() {
     );
   }
 
-  const totalAmount = bill.items.reduce((sum, item) => sum + (item.total || 0), 0);
+  const totalAmount = GstCalculator.calculateDocumentTax(bill.items, companyGstin, bill.partyGstin).totalAmount;
 
   return (
     <View style={styles.container}>
@@ -0,0 +1,477 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { handleApiError, PaymentApiService, PurchaseApiService, SaleApiService } from '../utils/api';
+import {
+  FY_TOKEN,
+  NUMBER_SERIES_LABELS,
+  NumberedDocument,
+  NumberSeries,
+  NumberSeriesConfig,
+  NumberSeriesSettings,
+  NumberSeriesType
+} from '../utils/numberSeries';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const SERIES_TYPES = Object.keys(NUMBER_SERIES_LABELS) as NumberSeriesType[];
+
+// Series the gap/duplicate check runs on
+const CHECKED_TYPES: NumberSeriesType[] = ['invoice', 'bill'];
+
+export default function NumberSeriesScreen() {
+  const [config, setConfig] = useState<NumberSeriesConfig | null>(null);
+  const [documents, setDocuments] = useState<Record<NumberSeriesType, NumberedDocument[]>>({
+    'invoice': [],
+    'bill': [],
+    'payment-in': [],
+    'payment-out': [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setConfig(await NumberSeries.getConfig());
+
+      const [sales, purchases, paymentsIn, paymentsOut] = await Promise.all([
+        SaleApiService.getSales(),
+        PurchaseApiService.getPurchases(),
+        PaymentApiService.getPaymentInPayments(),
+        PaymentApiService.getPaymentOutPayments(),
+      ]);
+      setDocuments({
+        'invoice': sales.map(sale => ({ number: sale.invoiceNo, date: sale.date, createdAt: sale.createdAt })),
+        'bill': purchases.map(bill => ({ number: bill.billNo, date: bill.date, createdAt: bill.createdAt })),
+        'payment-in': paymentsIn.map(payment => ({ number: payment.paymentNo, date: payment.date, createdAt: payment.createdAt })),
+        'payment-out': paymentsOut.map(payment => ({ number: payment.paymentNo, date: payment.date, createdAt: payment.createdAt })),
+      });
+    } catch (error) {
+      console.error('Error loading documents for number series:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSettings = (type: NumberSeriesType, changes: Partial<NumberSeriesSettings>) => {
+    setConfig(prev => (prev ? { ...prev, [type]: { ...prev[type], ...changes } } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+
+    for (const type of SERIES_TYPES) {
+      const settingsError = NumberSeries.getSettingsError(config[type]);
+      if (settingsError) {
+        Alert.alert('Error', `${NUMBER_SERIES_LABELS[type]}: ${settingsError}`);
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      await NumberSeries.saveConfig(config);
+      Alert.alert('Success', 'Number series saved successfully!');
+    } catch (error) {
+      console.error('Error saving number series:', error);
+      Alert.alert('Error', 'Failed to save number series');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSeries = (type: NumberSeriesType) => {
+    if (!config) return null;
+    const settings = config[type];
+    const reusesNumbers = settings.resetEachYear &&
+      !settings.prefix.includes(FY_TOKEN) && !settings.suffix.includes(FY_TOKEN);
+
+    return (
+      <View key={type} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{NUMBER_SERIES_LABELS[type]}</Text>
+          <Text style={styles.nextNumber}>
+            Next: {NumberSeries.getNextNumber(settings, documents[type])}
+          </Text>
+        </View>
+
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Prefix</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. INV/{FY}/"
+              placeholderTextColor={Colors.textTertiary}
+              value={settings.prefix}
+              onChangeText={(text) => updateSettings(type, { prefix: text })}
+              autoCapitalize="characters"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Suffix</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Optional"
+              placeholderTextColor={Colors.textTertiary}
+              value={settings.suffix}
+              onChangeText={(text) => updateSettings(type, { suffix: text })}
+              autoCapitalize="characters"
+            />
+          </View>
+        </View>
+
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Digits (padding)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={Colors.textTertiary}
+              value={settings.padding ? settings.padding.toString() : ''}
+              onChangeText={(text) => updateSettings(type, { padding: parseInt(text, 10) || 0 })}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Starting Number</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="1"
+              placeholderTextColor={Colors.textTertiary}
+              value={settings.startingNumber ? settings.startingNumber.toString() : ''}
+              onChangeText={(text) => updateSettings(type, { startingNumber: parseInt(text, 10) || 0 })}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchInfo}>
+            <Text style={styles.switchLabel}>Restart every 1 April</Text>
+            <Text style={styles.hint}>Numbering starts again each financial year</Text>
+          </View>
+          <Switch
+            value={settings.resetEachYear}
+            onValueChange={(value) => updateSettings(type, { resetEachYear: value })}
+            trackColor={{ false: Colors.border, true: Colors.primary }}
+          />
+        </View>
+
+        {reusesNumbers && (
+          <Text style={styles.warningText}>
+            Add {FY_TOKEN} to the prefix or suffix so numbers from different years do not repeat
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderCheck = (type: NumberSeriesType) => {
+    if (!config) return null;
+    const issues = NumberSeries.check(config[type], documents[type]);
+
+    return (
+      <View key={`check-${type}`} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{NUMBER_SERIES_LABELS[type]}</Text>
+          <Ionicons
+            name={issues.length === 0 ? 'checkmark-circle' : 'alert-circle'}
+            size={20}
+            color={issues.length === 0 ? Colors.success : Colors.warning}
+          />
+        </View>
+        {issues.length === 0 ? (
+          <Text style={styles.hint}>
+            {documents[type].length > 0 ? 'No missing or repeated numbers' : 'No documents yet'}
+          </Text>
+        ) : (
+          issues.map(issue => (
+            <View key={issue.financialYear || 'all'} style={styles.issue}>
+              {issue.financialYear && <Text style={styles.issueYear}>FY {issue.financialYear}</Text>}
+              {issue.missingCount > 0 && (
+                <Text style={styles.issueText}>
+                  Missing ({issue.missingCount}): {issue.missing.join(', ')}
+                  {issue.missingCount > issue.missing.length ? ', ...' : ''}
+                </Text>
+              )}
+              {issue.duplicates.length > 0 && (
+                <Text style={[styles.issueText, { color: Colors.error }]}>
+                  Repeated: {issue.duplicates.join(', ')}
+                </Text>
+              )}
+              {issue.unrecognised.length > 0 && (
+                <Text style={styles.issueText}>
+                  Not in this format: {issue.unrecognised.join(', ')}
+                </Text>
+              )}
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Number Series</Text>
+          <Text style={styles.headerSubtitle}>
+            Financial year {NumberSeries.formatFinancialYear(NumberSeries.getFinancialYear())}
+          </Text>
+        </View>
+      </View>
+
+      {loading || !config ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading number series...</Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <Text style={styles.hint}>
+              Use {FY_TOKEN} in a prefix or suffix for the financial year, e.g. INV/{FY_TOKEN}/ gives
+              INV/{NumberSeries.formatFinancialYear(NumberSeries.getFinancialYear())}/0001 with 4 digits.
+            </Text>
+            {SERIES_TYPES.map(renderSeries)}
+
+            <Text style={styles.sectionTitle}>Number Check</Text>
+            {CHECKED_TYPES.map(renderCheck)}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+
+      {config && !loading && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Number Series</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  nextNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    minHeight: 40,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  warningText: {
+    fontSize: 12,
+    color: Colors.warning,
+  },
+  issue: {
+    gap: 4,
+  },
+  issueYear: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  issueText: {
+    fontSize: 12,
+    color: Colors.warning,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
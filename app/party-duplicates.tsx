@@ -0,0 +1,423 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { handleApiError } from '../utils/api';
+import {
+  DUPLICATE_REASON_LABELS,
+  DuplicateGroup,
+  DuplicateParty,
+  PartyMerge,
+  PartyMergeAuditEntry
+} from '../utils/partyMerge';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+// Number of past merges listed below the duplicates
+const RECENT_MERGES_SHOWN = 10;
+
+export default function PartyDuplicatesScreen() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [auditLog, setAuditLog] = useState<PartyMergeAuditEntry[]>([]);
+  // Party kept for each group
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  const loadDuplicates = async () => {
+    try {
+      setLoading(true);
+      const [duplicates, log] = await Promise.all([
+        PartyMerge.findDuplicates(),
+        PartyMerge.getAuditLog(),
+      ]);
+      setGroups(duplicates);
+      setAuditLog(log);
+      setSurvivors(
+        duplicates.reduce<Record<string, string>>((selected, group) => {
+          selected[group.key] = group.suggestedSurvivorId;
+          return selected;
+        }, {})
+      );
+    } catch (error) {
+      console.error('Error finding duplicate parties:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const survivor = group.parties.find(member => member.party.id === survivors[group.key]);
+    if (!survivor) {
+      Alert.alert('Error', 'Select the party to keep');
+      return;
+    }
+
+    const duplicates = group.parties.filter(member => member.party.id !== survivor.party.id);
+    const recordCount = duplicates.reduce((sum, member) => sum + member.records.length, 0);
+
+    Alert.alert(
+      'Merge Parties',
+      `Move ${recordCount} record(s) from ${duplicates.map(member => member.party.name).join(', ')} to ${survivor.party.name} and delete the duplicate(s)? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', style: 'destructive', onPress: () => mergeGroup(group.key, survivor, duplicates) },
+      ]
+    );
+  };
+
+  const mergeGroup = async (groupKey: string, survivor: DuplicateParty, duplicates: DuplicateParty[]) => {
+    try {
+      setMergingKey(groupKey);
+      const result = await PartyMerge.mergeParties(survivor.party, duplicates);
+
+      if (result.failed > 0 || result.partiesRemoved < duplicates.length) {
+        Alert.alert(
+          'Error',
+          `Moved ${result.recordsMoved} record(s); ${result.failed} could not be updated. Parties with records left were not deleted. Please try again.`
+        );
+      } else {
+        Alert.alert(
+          'Success',
+          `Merged into ${survivor.party.name}. New balance: ₹${Math.round(Math.abs(result.balance)).toLocaleString()}`
+        );
+      }
+      await loadDuplicates();
+    } catch (error) {
+      console.error('Error merging parties:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const renderGroup = (group: DuplicateGroup) => {
+    const isMerging = mergingKey === group.key;
+
+    return (
+      <View key={group.key} style={styles.groupCard}>
+        <View style={styles.reasonRow}>
+          {group.reasons.map(reason => (
+            <View key={reason} style={styles.reasonChip}>
+              <Text style={styles.reasonChipText}>{DUPLICATE_REASON_LABELS[reason]}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.keepLabel}>Keep:</Text>
+        <View style={styles.partyList}>
+          {group.parties.map(({ party, records }) => {
+            const isSelected = survivors[group.key] === party.id;
+            return (
+              <TouchableOpacity
+                key={party.id}
+                style={[styles.partyOption, isSelected && styles.partyOptionSelected]}
+                onPress={() => setSurvivors(prev => ({ ...prev, [group.key]: party.id }))}
+                disabled={mergingKey !== null}
+              >
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={18}
+                  color={isSelected ? Colors.primary : Colors.textSecondary}
+                />
+                <View style={styles.partyInfo}>
+                  <Text style={styles.partyName}>{party.name}</Text>
+                  <Text style={styles.partyMeta}>
+                    {party.phoneNumber || 'No phone'} • {records.length} record(s)
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.mergeButton, mergingKey !== null && styles.mergeButtonDisabled]}
+          onPress={() => handleMerge(group)}
+          disabled={mergingKey !== null}
+        >
+          {isMerging ? (
+            <ActivityIndicator size="small" color={Colors.text} />
+          ) : (
+            <>
+              <Ionicons name="git-merge-outline" size={18} color={Colors.text} />
+              <Text style={styles.mergeButtonText}>Merge {group.parties.length} Parties</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderAuditEntry = (entry: PartyMergeAuditEntry) => (
+    <View key={entry.id} style={styles.auditItem}>
+      <Text style={styles.auditTitle}>
+        {entry.mergedParties.map(party => party.name).join(', ')} → {entry.survivorName}
+      </Text>
+      <Text style={styles.auditMeta}>
+        {new Date(entry.mergedAt).toLocaleString()} • {entry.recordsMoved} record(s) moved
+        {entry.failed > 0 ? ` • ${entry.failed} failed` : ''}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Duplicate Parties</Text>
+          <Text style={styles.headerSubtitle}>Merge parties entered more than once</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Finding duplicate parties...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          {groups.length > 0 ? (
+            <>
+              <Text style={styles.helpText}>
+                These parties look like the same customer or supplier. Pick the one to keep; invoices,
+                bills and payments of the others are moved to it and the others are deleted.
+              </Text>
+              {groups.map(renderGroup)}
+            </>
+          ) : (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={64} color={Colors.success} />
+              <Text style={styles.emptyStateTitle}>No Duplicates Found</Text>
+              <Text style={styles.emptyStateSubtitle}>Every party looks unique</Text>
+            </View>
+          )}
+
+          {auditLog.length > 0 && (
+            <View style={styles.auditSection}>
+              <Text style={styles.sectionTitle}>Recent Merges</Text>
+              {auditLog.slice(0, RECENT_MERGES_SHOWN).map(renderAuditEntry)}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  helpText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  groupCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  reasonChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: Colors.warning + '20',
+  },
+  reasonChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  keepLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 12,
+  },
+  partyList: {
+    marginTop: 6,
+    gap: 8,
+  },
+  partyOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  partyOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '15',
+  },
+  partyInfo: {
+    flex: 1,
+  },
+  partyName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  partyMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  mergeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 12,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  mergeButtonDisabled: {
+    backgroundColor: Colors.textTertiary,
+    opacity: 0.6,
+  },
+  mergeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  auditSection: {
+    marginTop: 12,
+    marginBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  auditItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  auditTitle: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  auditMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtitle: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+});
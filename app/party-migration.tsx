@@ -0,0 +1,397 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { handleApiError } from '../utils/api';
+import { PartyLinkGroup, PartyMigration, PartyRecordKind } from '../utils/partyMigration';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const RECORD_KIND_LABELS: Record<PartyRecordKind, string> = {
+  'sale': 'invoice',
+  'credit-note': 'credit note',
+  'quotation': 'quotation',
+  'sales-order': 'sales order',
+  'delivery-challan': 'delivery challan',
+  'purchase': 'bill',
+  'debit-note': 'debit note',
+  'payment': 'payment',
+};
+
+export default function PartyMigrationScreen() {
+  const [groups, setGroups] = useState<PartyLinkGroup[]>([]);
+  // Party chosen for each group; missing means the group is skipped
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [linking, setLinking] = useState(false);
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const loadGroups = async () => {
+    try {
+      setLoading(true);
+      const unlinked = await PartyMigration.findUnlinkedRecords();
+      setGroups(unlinked);
+      setSelections(
+        unlinked.reduce<Record<string, string>>((selected, group) => {
+          if (group.suggestedPartyId) {
+            selected[group.key] = group.suggestedPartyId;
+          }
+          return selected;
+        }, {})
+      );
+    } catch (error) {
+      console.error('Error finding unlinked records:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelection = (groupKey: string, partyId: string) => {
+    setSelections(prev => {
+      const next = { ...prev };
+      if (next[groupKey] === partyId) {
+        delete next[groupKey];
+      } else {
+        next[groupKey] = partyId;
+      }
+      return next;
+    });
+  };
+
+  const selectedGroups = groups.filter(group => selections[group.key]);
+  const selectedRecordCount = selectedGroups.reduce((sum, group) => sum + group.records.length, 0);
+
+  const handleLink = () => {
+    if (selectedGroups.length === 0) {
+      Alert.alert('Error', 'Select a party for at least one group');
+      return;
+    }
+
+    Alert.alert(
+      'Link Records',
+      `Link ${selectedRecordCount} record(s) in ${selectedGroups.length} group(s) to the selected parties?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Link', onPress: linkSelected },
+      ]
+    );
+  };
+
+  const linkSelected = async () => {
+    try {
+      setLinking(true);
+      let updated = 0;
+      let failed = 0;
+      for (const group of selectedGroups) {
+        const result = await PartyMigration.linkRecords(group.records, selections[group.key]);
+        updated += result.updated;
+        failed += result.failed;
+      }
+
+      if (failed > 0) {
+        Alert.alert('Error', `Linked ${updated} record(s); ${failed} could not be updated. Please try again.`);
+      } else {
+        Alert.alert('Success', `Linked ${updated} record(s) to their parties.`);
+      }
+      await loadGroups();
+    } catch (error) {
+      console.error('Error linking records:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const describeRecords = (group: PartyLinkGroup) => {
+    const counts = group.records.reduce<Record<string, number>>((result, record) => {
+      result[record.kind] = (result[record.kind] || 0) + 1;
+      return result;
+    }, {});
+    return Object.entries(counts)
+      .map(([kind, count]) => `${count} ${RECORD_KIND_LABELS[kind as PartyRecordKind]}(s)`)
+      .join(' • ');
+  };
+
+  const renderGroup = (group: PartyLinkGroup) => (
+    <View key={group.key} style={styles.groupCard}>
+      <Text style={styles.groupName}>{group.partyName || 'No name'}</Text>
+      <Text style={styles.groupMeta}>
+        {group.phoneNumber || 'No phone'} • {describeRecords(group)} • ₹{Math.round(group.totalAmount).toLocaleString()}
+      </Text>
+
+      {group.candidates.length > 0 ? (
+        <View style={styles.candidateList}>
+          {group.candidates.map(candidate => {
+            const isSelected = selections[group.key] === candidate.party.id;
+            return (
+              <TouchableOpacity
+                key={candidate.party.id}
+                style={[styles.candidateOption, isSelected && styles.candidateOptionSelected]}
+                onPress={() => toggleSelection(group.key, candidate.party.id)}
+              >
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={18}
+                  color={isSelected ? Colors.primary : Colors.textSecondary}
+                />
+                <View style={styles.candidateInfo}>
+                  <Text style={styles.candidateName}>{candidate.party.name}</Text>
+                  <Text style={styles.candidateMeta}>{candidate.party.phoneNumber}</Text>
+                </View>
+                <Text style={styles.candidateScore}>{Math.round(candidate.score * 100)}%</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : (
+        <Text style={styles.noCandidates}>No matching party found</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Link Party Records</Text>
+          <Text style={styles.headerSubtitle}>Review matches for older records</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Finding unlinked records...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          {groups.length > 0 ? (
+            <>
+              <Text style={styles.helpText}>
+                These invoices, bills and payments are not linked to a party. Pick the party each
+                group belongs to; strong matches are already selected. Tap a selected party again to skip the group.
+              </Text>
+              {groups.map(renderGroup)}
+            </>
+          ) : (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={64} color={Colors.success} />
+              <Text style={styles.emptyStateTitle}>All Records Linked</Text>
+              <Text style={styles.emptyStateSubtitle}>Every invoice, bill and payment is linked to a party</Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      {groups.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.linkButton, (linking || selectedGroups.length === 0) && styles.linkButtonDisabled]}
+            onPress={handleLink}
+            disabled={linking || selectedGroups.length === 0}
+          >
+            {linking ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.linkButtonText}>Link {selectedRecordCount} Record(s)</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  helpText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 16,
+  },
+  groupCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  groupName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  groupMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  candidateList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  candidateOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  candidateOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '15',
+  },
+  candidateInfo: {
+    flex: 1,
+  },
+  candidateName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  candidateMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  candidateScore: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  noCandidates: {
+    fontSize: 12,
+    color: Colors.warning,
+    marginTop: 10,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  linkButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+  },
+  linkButtonDisabled: {
+    backgroundColor: Colors.textTertiary,
+    opacity: 0.6,
+  },
+  linkButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtitle: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+});
@@ -12,11 +12,17 @@ import {
   StatusBar,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View
 } from 'react-native';
 import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
 import { Party, PartyApiService } from '../utils/api';
+import { BasePdfGenerator } from '../utils/basePdfGenerator';
+import { DocumentService } from '../utils/documentService';
+import { GstCalculator } from '../utils/gstCalculator';
+import { PartyManager } from '../utils/partyManager';
 
 // Android-specific utilities
 const isAndroid = Platform.OS === 'android';
@@ -37,7 +43,7 @@ const ANDROID_CONSTANTS = {
 
 interface PartyTransaction {
   id: string;
-  type: 'sale' | 'purchase' | 'payment-in' | 'payment-out';
+  type: 'opening-balance' | 'sale' | 'credit-note' | 'purchase' | 'debit-note' | 'payment-in' | 'payment-out';
   transactionId: string;
   partyName: string;
   phoneNumber: string;
@@ -53,12 +59,31 @@ interface PartyTransaction {
   items?: any[];
 }
 
+// YYYY-MM-DD in local time, as typed into the date inputs
+const toDateInput = (isoDate: string) => {
+  const date = new Date(isoDate);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
 export default function PartyTransactionsScreen() {
   const { partyId } = useLocalSearchParams<{ partyId: string }>();
   const [party, setParty] = useState<Party | null>(null);
   const [transactions, setTransactions] = useState<PartyTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [statementStart, setStatementStart] = useState('');
+  const [statementEnd, setStatementEnd] = useState('');
+  const [generatingStatement, setGeneratingStatement] = useState(false);
+  const [gstin, setGstin] = useState('');
+  const [savingGstin, setSavingGstin] = useState(false);
+  const [creditLimit, setCreditLimit] = useState('');
+  const [creditDays, setCreditDays] = useState('');
+  const [savingCreditTerms, setSavingCreditTerms] = useState(false);
+  const [openingAmount, setOpeningAmount] = useState('');
+  const [openingType, setOpeningType] = useState<'receivable' | 'payable'>('receivable');
+  const [openingDate, setOpeningDate] = useState('');
+  const [savingOpeningBalance, setSavingOpeningBalance] = useState(false);
 
   useEffect(() => {
     if (partyId) {
@@ -75,7 +100,29 @@ export default function PartyTransactionsScreen() {
       setLoading(true);
       const response = await PartyApiService.getPartyTransactions(partyId);
       setParty(response.party);
-      setTransactions(response.transactions);
+
+      // Opening balance is shown as the first line
+      const opening = PartyManager.getOpeningBalanceTransaction(response.party);
+      setTransactions(opening ? [{
+        id: opening.id,
+        type: 'opening-balance',
+        transactionId: '',
+        partyName: response.party.name,
+        phoneNumber: response.party.phoneNumber,
+        amount: opening.amount,
+        date: opening.date,
+        reference: opening.reference,
+        createdAt: opening.date,
+        updatedAt: opening.date,
+      }, ...response.transactions] : response.transactions);
+
+      const openingBalance = response.party.openingBalance || 0;
+      setOpeningAmount(openingBalance ? Math.abs(openingBalance).toString() : '');
+      setOpeningType(openingBalance < 0 ? 'payable' : 'receivable');
+      setOpeningDate(response.party.openingBalanceDate ? toDateInput(response.party.openingBalanceDate) : '');
+      setGstin(response.party.gstin || '');
+      setCreditLimit(response.party.creditLimit ? response.party.creditLimit.toString() : '');
+      setCreditDays(typeof response.party.creditDays === 'number' ? response.party.creditDays.toString() : '');
     } catch (error) {
       console.error('Error loading party transactions:', error);
       Alert.alert('Error', 'Failed to load party transactions');
@@ -90,12 +137,167 @@ export default function PartyTransactionsScreen() {
     setRefreshing(false);
   }, [partyId]);
 
+  const handleSaveGstin = async () => {
+    if (!party) return;
+
+    // Blank marks the party as unregistered
+    if (gstin && !GstCalculator.isValidGstin(gstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_PARTY_GSTIN);
+      return;
+    }
+
+    try {
+      setSavingGstin(true);
+      const updated = await PartyApiService.updateParty(party.id, { gstin });
+      setParty({ ...party, gstin: updated.gstin ?? gstin });
+      Alert.alert('Success', 'GSTIN saved');
+    } catch (error) {
+      console.error('Error saving party GSTIN:', error);
+      Alert.alert('Error', 'Failed to save GSTIN');
+    } finally {
+      setSavingGstin(false);
+    }
+  };
+
+  const handleSaveCreditTerms = async () => {
+    if (!party) return;
+
+    const limit = creditLimit.trim() ? parseFloat(creditLimit) : 0;
+    const days = creditDays.trim() ? parseInt(creditDays, 10) : null;
+    if (isNaN(limit) || limit < 0 || (days !== null && (isNaN(days) || days < 0))) {
+      Alert.alert('Error', 'Please enter a valid credit limit and credit period');
+      return;
+    }
+
+    try {
+      setSavingCreditTerms(true);
+      const updated = await PartyApiService.updateParty(party.id, { creditLimit: limit, creditDays: days });
+      setParty({ ...party, creditLimit: updated.creditLimit ?? limit, creditDays: updated.creditDays ?? days });
+      Alert.alert('Success', 'Credit terms saved');
+    } catch (error) {
+      console.error('Error saving credit terms:', error);
+      Alert.alert('Error', 'Failed to save credit terms');
+    } finally {
+      setSavingCreditTerms(false);
+    }
+  };
+
+  const handleSaveOpeningBalance = async () => {
+    if (!party) return;
+
+    const amount = openingAmount.trim() ? parseFloat(openingAmount) : 0;
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert('Error', 'Please enter a valid opening balance');
+      return;
+    }
+    if (amount > 0 && !/^\d{4}-\d{2}-\d{2}$/.test(openingDate)) {
+      Alert.alert('Error', 'Please enter the as-of date as YYYY-MM-DD');
+      return;
+    }
+
+    const openingBalance = openingType === 'payable' ? -amount : amount;
+    const openingBalanceDate = amount > 0 ? new Date(`${openingDate}T00:00:00`).toISOString() : undefined;
+
+    try {
+      setSavingOpeningBalance(true);
+      // Stored balance must include the new opening balance
+      const { balance } = await PartyManager.calculatePartyBalanceFromTransactions({
+        ...party,
+        openingBalance,
+        openingBalanceDate,
+      });
+      await PartyApiService.updateParty(party.id, { openingBalance, openingBalanceDate, balance });
+      Alert.alert('Success', 'Opening balance saved');
+      await loadPartyTransactions();
+    } catch (error) {
+      console.error('Error saving opening balance:', error);
+      Alert.alert('Error', 'Failed to save opening balance');
+    } finally {
+      setSavingOpeningBalance(false);
+    }
+  };
+
+  const buildStatement = async () => {
+    if (!party) return null;
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((statementStart && !datePattern.test(statementStart)) || (statementEnd && !datePattern.test(statementEnd))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return null;
+    }
+
+    return PartyManager.getPartyStatement(
+      party,
+      statementStart || undefined,
+      statementEnd || undefined
+    );
+  };
+
+  const handleShareStatement = async () => {
+    try {
+      setGeneratingStatement(true);
+      const statement = await buildStatement();
+      if (!statement) return;
+
+      const shared = await BasePdfGenerator.generateAndSharePartyStatement(statement);
+      if (!shared) {
+        Alert.alert('Error', 'Failed to generate statement PDF');
+      }
+    } catch (error) {
+      console.error('Error sharing statement:', error);
+      Alert.alert('Error', 'Failed to generate statement PDF');
+    } finally {
+      setGeneratingStatement(false);
+    }
+  };
+
+  const handleSendStatement = async () => {
+    try {
+      setGeneratingStatement(true);
+      const statement = await buildStatement();
+      if (!statement) return;
+
+      const pdfUri = await BasePdfGenerator.generatePartyStatementPDF(statement);
+      if (!pdfUri) {
+        Alert.alert('Error', 'Failed to generate statement PDF');
+        return;
+      }
+
+      const whatsappResult = await DocumentService.sendPartyStatementViaWhatsApp(
+        statement.phoneNumber,
+        pdfUri,
+        statement.partyName,
+        statement.closingBalance,
+        `${statement.startDate || 'Beginning'} to ${statement.endDate || 'Today'}`
+      );
+
+      if (whatsappResult.success) {
+        Alert.alert('Success', 'Statement sent via WhatsApp successfully!');
+      } else {
+        console.warn('Failed to send statement via WhatsApp:', whatsappResult.error);
+        // Fall back to local sharing
+        await BasePdfGenerator.sharePDF(pdfUri, `Statement - ${statement.partyName}`);
+      }
+    } catch (error) {
+      console.error('Error sending statement:', error);
+      Alert.alert('Error', 'Failed to send statement');
+    } finally {
+      setGeneratingStatement(false);
+    }
+  };
+
   const getTransactionColor = (type: string) => {
     switch (type) {
+      case 'opening-balance':
+        return Colors.textSecondary;
       case 'sale':
         return Colors.success;
+      case 'credit-note':
+        return Colors.info;
       case 'purchase':
         return Colors.warning;
+      case 'debit-note':
+        return Colors.info;
       case 'payment-in':
         return Colors.primary;
       case 'payment-out':
@@ -111,8 +313,12 @@ export default function PartyTransactionsScreen() {
     switch (transaction.type) {
       case 'sale':
         return reference.startsWith('INV-') ? reference : `INV-${reference}`;
+      case 'credit-note':
+        return reference.startsWith('CN-') ? reference : `CN-${reference}`;
       case 'purchase':
         return reference.startsWith('BILL-') ? reference : `BILL-${reference}`;
+      case 'debit-note':
+        return reference.startsWith('DN-') ? reference : `DN-${reference}`;
       case 'payment-in':
         return reference.startsWith('PAY-IN-') ? reference : `PAY-IN-${reference}`;
       case 'payment-out':
@@ -123,6 +329,10 @@ export default function PartyTransactionsScreen() {
   };
 
   const formatAmount = (transaction: PartyTransaction) => {
+    if (transaction.type === 'opening-balance') {
+      const opening = transaction.amount || 0;
+      return `₹${Math.abs(opening).toLocaleString()} ${opening >= 0 ? 'Receivable' : 'Payable'}`;
+    }
     const amount = transaction.totalAmount || transaction.amount || 0;
     return `₹${amount.toLocaleString()}`;
   };
@@ -231,6 +441,158 @@ export default function PartyTransactionsScreen() {
         </View>
       </View>
 
+      {/* GSTIN */}
+      <View style={styles.statementContainer}>
+        <Text style={styles.statementTitle}>GSTIN</Text>
+        <View style={styles.statementRow}>
+          <TextInput
+            style={styles.statementInput}
+            placeholder="GSTIN (unregistered)"
+            placeholderTextColor={Colors.textTertiary}
+            value={gstin}
+            onChangeText={(text) => setGstin(GstCalculator.normalizeGstin(text))}
+            autoCapitalize="characters"
+            maxLength={15}
+          />
+          <TouchableOpacity
+            style={styles.saveButton}
+            onPress={handleSaveGstin}
+            disabled={savingGstin}
+          >
+            {savingGstin ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <Text style={styles.statementButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Credit Terms */}
+      <View style={styles.statementContainer}>
+        <Text style={styles.statementTitle}>Credit Terms</Text>
+        <View style={styles.statementRow}>
+          <TextInput
+            style={styles.statementInput}
+            placeholder="Credit limit ₹ (no limit)"
+            placeholderTextColor={Colors.textTertiary}
+            value={creditLimit}
+            onChangeText={setCreditLimit}
+            keyboardType="numeric"
+          />
+          <TextInput
+            style={styles.statementInput}
+            placeholder="Credit days (none)"
+            placeholderTextColor={Colors.textTertiary}
+            value={creditDays}
+            onChangeText={setCreditDays}
+            keyboardType="number-pad"
+          />
+          <TouchableOpacity
+            style={styles.saveButton}
+            onPress={handleSaveCreditTerms}
+            disabled={savingCreditTerms}
+          >
+            {savingCreditTerms ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <Text style={styles.statementButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Opening Balance */}
+      <View style={styles.statementContainer}>
+        <Text style={styles.statementTitle}>Opening Balance</Text>
+        <View style={styles.statementRow}>
+          <TextInput
+            style={styles.statementInput}
+            placeholder="Amount ₹"
+            placeholderTextColor={Colors.textTertiary}
+            value={openingAmount}
+            onChangeText={setOpeningAmount}
+            keyboardType="numeric"
+          />
+          {(['receivable', 'payable'] as const).map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.openingTypeButton, openingType === type && styles.openingTypeButtonActive]}
+              onPress={() => setOpeningType(type)}
+            >
+              <Text style={[styles.openingTypeText, openingType === type && styles.openingTypeTextActive]}>
+                {type === 'receivable' ? 'To Receive' : 'To Pay'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.statementRow}>
+          <TextInput
+            style={styles.statementInput}
+            placeholder="As of YYYY-MM-DD"
+            placeholderTextColor={Colors.textTertiary}
+            value={openingDate}
+            onChangeText={setOpeningDate}
+          />
+          <TouchableOpacity
+            style={styles.saveButton}
+            onPress={handleSaveOpeningBalance}
+            disabled={savingOpeningBalance}
+          >
+            {savingOpeningBalance ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <Text style={styles.statementButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Ledger Statement */}
+      <View style={styles.statementContainer}>
+        <Text style={styles.statementTitle}>Ledger Statement</Text>
+        <View style={styles.statementRow}>
+          <TextInput
+            style={styles.statementInput}
+            placeholder="From YYYY-MM-DD"
+            placeholderTextColor={Colors.textTertiary}
+            value={statementStart}
+            onChangeText={setStatementStart}
+          />
+          <TextInput
+            style={styles.statementInput}
+            placeholder="To YYYY-MM-DD"
+            placeholderTextColor={Colors.textTertiary}
+            value={statementEnd}
+            onChangeText={setStatementEnd}
+          />
+        </View>
+        <View style={styles.statementRow}>
+          <TouchableOpacity
+            style={styles.statementButton}
+            onPress={handleShareStatement}
+            disabled={generatingStatement}
+          >
+            <Ionicons name="share-outline" size={18} color={Colors.primary} />
+            <Text style={styles.statementButtonText}>Share PDF</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.statementButton}
+            onPress={handleSendStatement}
+            disabled={generatingStatement}
+          >
+            {generatingStatement ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <>
+                <Ionicons name="logo-whatsapp" size={18} color={Colors.primary} />
+                <Text style={styles.statementButtonText}>WhatsApp</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
       {/* Transactions List */}
       <View style={styles.transactionsContainer}>
         <Text style={styles.sectionTitle}>
@@ -343,6 +705,76 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  statementContainer: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  statementTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  statementRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  statementInput: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: Colors.text,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  statementButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  saveButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  openingTypeButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  openingTypeButtonActive: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '15',
+  },
+  openingTypeText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  openingTypeTextActive: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  statementButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   transactionsContainer: {
     flex: 1,
     paddingHorizontal: 20,
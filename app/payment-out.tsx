@@ -1,6 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     Alert,
     FlatList,
@@ -13,10 +13,12 @@ import {
     View,
 } from 'react-native';
 import { Colors } from '../constants/Colors';
-import { Party, PartyApiService, Payment, PaymentApiService } from '../utils/api';
+import { Party, PartyApiService, Payment, PaymentAllocation, PaymentApiService } from '../utils/api';
 import { BasePdfGenerator } from '../utils/basePdfGenerator';
 import { DocumentService } from '../utils/documentService';
+import { NumberSeries } from '../utils/numberSeries';
 import { PartyManager } from '../utils/partyManager';
+import { OpenDocument, PaymentAllocations } from '../utils/paymentAllocation';
 
 export default function PaymentOutScreen() {
   const router = useRouter();
@@ -32,10 +34,16 @@ export default function PaymentOutScreen() {
   const [filteredParties, setFilteredParties] = useState<Party[]>([]);
   const [showPartyDropdown, setShowPartyDropdown] = useState(false);
   const [selectedParty, setSelectedParty] = useState<Party | null>(null);
+  // Net balance per party id; payments are matched to their party with getPartyKey
   const [partyNetBalances, setPartyNetBalances] = useState<Record<string, number>>({});
+  const getPartyKey = useMemo(() => PartyManager.createPartyKeyResolver(parties), [parties]);
   
   // Modal state
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+
+  // Open bills of the selected party and the amount allocated to each
+  const [openDocuments, setOpenDocuments] = useState<OpenDocument[]>([]);
+  const [allocationInputs, setAllocationInputs] = useState<Record<string, string>>({});
   
   // Payment form state
   const [paymentForm, setPaymentForm] = useState({
@@ -82,19 +90,7 @@ export default function PaymentOutScreen() {
     try {
       const allParties = await PartyApiService.getParties();
       setParties(allParties);
-      
-      // Calculate net balances for all parties
-      const balances: Record<string, number> = {};
-      for (const party of allParties) {
-        try {
-          const netBalance = await PartyManager.getPartyBalance(party.name, party.phoneNumber);
-          balances[`${party.name}-${party.phoneNumber}`] = netBalance;
-        } catch (balanceError) {
-          console.error(`Error calculating balance for ${party.name}:`, balanceError);
-          balances[`${party.name}-${party.phoneNumber}`] = 0;
-        }
-      }
-      setPartyNetBalances(balances);
+      setPartyNetBalances(await PartyManager.getBalanceLookup(allParties));
     } catch (error) {
       console.error('Error loading parties:', error);
       throw error;
@@ -132,6 +128,8 @@ export default function PaymentOutScreen() {
       setFilteredParties([]);
       setShowPartyDropdown(false);
       setSelectedParty(null);
+      setOpenDocuments([]);
+      setAllocationInputs({});
       setPaymentForm(prev => ({
         ...prev,
         phoneNumber: '',
@@ -155,7 +153,7 @@ export default function PaymentOutScreen() {
     
     try {
       // Calculate net balance for this party
-      const netBalance = await PartyManager.getPartyBalance(party.name, party.phoneNumber);
+      const netBalance = await PartyManager.getPartyBalance(party);
       
       setPaymentForm(prev => ({
         ...prev,
@@ -174,6 +172,37 @@ export default function PaymentOutScreen() {
     }
     
     setShowPartyDropdown(false);
+    loadOpenDocuments(party, paymentForm.paid);
+  };
+
+  // Load the party's unpaid bills and spread the entered amount over them
+  const loadOpenDocuments = async (party: Party, amount: string) => {
+    try {
+      const documents = await PaymentAllocations.getOpenDocuments('payment-out', party);
+      setOpenDocuments(documents);
+      autoAllocate(documents, amount);
+    } catch (error) {
+      console.error('Error loading open bills:', error);
+      setOpenDocuments([]);
+      setAllocationInputs({});
+    }
+  };
+
+  // Allocate an amount to the oldest bills first
+  const autoAllocate = (documents: OpenDocument[], amount: string) => {
+    const value = parseFloat(amount);
+    const allocations = isNaN(value) || value <= 0 ? [] : PaymentAllocations.allocateOldestFirst(value, documents);
+    setAllocationInputs(
+      allocations.reduce<Record<string, string>>((inputs, allocation) => {
+        inputs[allocation.documentId] = allocation.amount.toString();
+        return inputs;
+      }, {})
+    );
+  };
+
+  const handleAmountChange = (text: string) => {
+    setPaymentForm(prev => ({ ...prev, paid: text }));
+    autoAllocate(openDocuments, text);
   };
 
   // Create payment
@@ -205,16 +234,43 @@ export default function PaymentOutScreen() {
         return;
       }
 
+      // Validate allocations against the amount and each bill's due amount
+      const allocations: PaymentAllocation[] = [];
+      for (const document of openDocuments) {
+        const allocated = parseFloat(allocationInputs[document.id] || '');
+        if (isNaN(allocated) || allocated <= 0) continue;
+        if (allocated > document.dueAmount) {
+          Alert.alert('Error', `Allocation to #${document.documentNo} is more than its due amount of ₹${document.dueAmount.toLocaleString()}`);
+          return;
+        }
+        allocations.push({ documentId: document.id, documentNo: document.documentNo, amount: allocated });
+      }
+      const totalAllocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+      if (totalAllocated > paidAmount + 0.005) {
+        Alert.alert('Error', `Allocated amount ₹${totalAllocated.toLocaleString()} is more than the payment amount`);
+        return;
+      }
+
+      // Link the payment to the party record
+      const party = await PartyManager.resolveParty(paymentForm.partyName, paymentForm.phoneNumber, parties);
+
       // Create payment
+      const series = (await NumberSeries.getConfig())['payment-out'];
       const newPayment = await PaymentApiService.createPayment({
         type: 'payment-out',
+        paymentNo: NumberSeries.getNextNumber(
+          series,
+          paymentsOut.map(payment => ({ number: payment.paymentNo, date: payment.date, createdAt: payment.createdAt }))
+        ),
         partyName: paymentForm.partyName.trim(),
         phoneNumber: paymentForm.phoneNumber.trim(),
+        partyId: party.id,
         amount: paidAmount,
         totalAmount: paidAmount,
         date: new Date().toLocaleDateString(),
         description: 'Payment made to supplier',
         paymentMethod: 'cash',
+        allocations: allocations.length > 0 ? allocations : undefined,
       });
 
       // Generate PDF and send via WhatsApp (non-blocking)
@@ -284,6 +340,8 @@ export default function PaymentOutScreen() {
       totalAmount: '',
     });
     setSelectedParty(null);
+    setOpenDocuments([]);
+    setAllocationInputs({});
     setShowPaymentModal(false);
   };
 
@@ -312,8 +370,7 @@ export default function PaymentOutScreen() {
 
   // Render payment item
   const renderPaymentItem = ({ item }: { item: Payment }) => {
-    const partyKey = `${item.partyName}-${item.phoneNumber}`;
-    const currentBalance = partyNetBalances[partyKey] || 0;
+    const currentBalance = partyNetBalances[getPartyKey(item)] || 0;
     
     return (
       <View style={styles.paymentItem}>
@@ -340,8 +397,7 @@ export default function PaymentOutScreen() {
 
   // Render party suggestion
   const renderPartySuggestion = ({ item }: { item: Party }) => {
-    const partyKey = `${item.name}-${item.phoneNumber}`;
-    const netBalance = partyNetBalances[partyKey] || 0;
+    const netBalance = partyNetBalances[item.id] || 0;
     const balanceDisplay = getBalanceDisplay(netBalance);
     
     return (
@@ -415,8 +471,7 @@ export default function PaymentOutScreen() {
               )}
               
               {selectedParty && (() => {
-                const partyKey = `${selectedParty.name}-${selectedParty.phoneNumber}`;
-                const netBalance = partyNetBalances[partyKey] || 0;
+                const netBalance = partyNetBalances[selectedParty.id] || 0;
                 const balanceDisplay = getBalanceDisplay(netBalance);
                 
                 return (
@@ -469,13 +524,12 @@ export default function PaymentOutScreen() {
               placeholder="Enter paid amount..."
               placeholderTextColor={Colors.textTertiary}
               value={paymentForm.paid}
-              onChangeText={(text) => setPaymentForm(prev => ({ ...prev, paid: text }))}
+              onChangeText={handleAmountChange}
               keyboardType="numeric"
             />
             
             {selectedParty && (() => {
-              const partyKey = `${selectedParty.name}-${selectedParty.phoneNumber}`;
-              const netBalance = partyNetBalances[partyKey] || 0;
+              const netBalance = partyNetBalances[selectedParty.id] || 0;
               
               return netBalance < 0 ? (
                 <View style={styles.balanceInfo}>
@@ -489,6 +543,38 @@ export default function PaymentOutScreen() {
               ) : null;
             })()}
           </View>
+
+          {selectedParty && openDocuments.length > 0 && (
+            <View style={styles.formSection}>
+              <View style={styles.allocationHeader}>
+                <Text style={styles.modalSectionTitle}>Allocate to Bills</Text>
+                <TouchableOpacity onPress={() => autoAllocate(openDocuments, paymentForm.paid)}>
+                  <Text style={styles.allocationAutoText}>Oldest first</Text>
+                </TouchableOpacity>
+              </View>
+              {openDocuments.map(document => (
+                <View key={document.id} style={styles.allocationRow}>
+                  <View style={styles.allocationInfo}>
+                    <Text style={styles.allocationDocument}>#{document.documentNo} • {document.date}</Text>
+                    <Text style={[styles.allocationDue, document.status === 'overdue' && { color: Colors.error }]}>
+                      Due ₹{document.dueAmount.toLocaleString()}{document.status === 'overdue' ? ' • Overdue' : ''}
+                    </Text>
+                  </View>
+                  <TextInput
+                    style={styles.allocationInput}
+                    placeholder="0"
+                    placeholderTextColor={Colors.textTertiary}
+                    value={allocationInputs[document.id] || ''}
+                    onChangeText={(text) => setAllocationInputs(prev => ({ ...prev, [document.id]: text }))}
+                    keyboardType="numeric"
+                  />
+                </View>
+              ))}
+              <Text style={styles.balanceInfoSubtext}>
+                Any amount not allocated is applied to the oldest unpaid bills
+              </Text>
+            </View>
+          )}
         </ScrollView>
         
         <View style={styles.modalFooter}>
@@ -932,4 +1018,47 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.textSecondary,
   },
+  allocationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  allocationAutoText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.primary,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  allocationInfo: {
+    flex: 1,
+  },
+  allocationDocument: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  allocationDue: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  allocationInput: {
+    width: 100,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 14,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    textAlign: 'right',
+  },
 });
\ No newline at end of file
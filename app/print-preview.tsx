@@ -0,0 +1,285 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { WebView } from 'react-native-webview';
+import { Colors } from '../constants/Colors';
+import { CompanyDetails, handleApiError } from '../utils/api';
+import {
+  PRINT_PAGE_SIZE_LABELS,
+  PrintDocument,
+  PrintDocumentType,
+  PrintPageSize,
+  PrintService
+} from '../utils/printService';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const PAGE_SIZES = Object.keys(PRINT_PAGE_SIZE_LABELS) as PrintPageSize[];
+
+export default function PrintPreviewScreen() {
+  const { type, id } = useLocalSearchParams<{ type: PrintDocumentType; id: string }>();
+  const [document, setDocument] = useState<PrintDocument | null>(null);
+  const [company, setCompany] = useState<CompanyDetails | null>(null);
+  const [pageSize, setPageSize] = useState<PrintPageSize>('A4');
+  const [loading, setLoading] = useState(true);
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (type && id) {
+      loadDocument();
+    }
+  }, [type, id]);
+
+  const loadDocument = async () => {
+    try {
+      setLoading(true);
+      const [printDocument, companyDetails, savedPageSize] = await Promise.all([
+        PrintService.loadDocument(type, id),
+        PrintService.getCompanyDetails(),
+        PrintService.getPageSize(),
+      ]);
+      setDocument(printDocument);
+      setCompany(companyDetails);
+      setPageSize(savedPageSize);
+    } catch (error) {
+      console.error('Error loading document for printing:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectPageSize = (size: PrintPageSize) => {
+    setPageSize(size);
+    PrintService.savePageSize(size).catch(error => {
+      console.error('Error saving print page size:', error);
+    });
+  };
+
+  const handlePrint = async () => {
+    if (!document) return;
+    try {
+      setPrinting(true);
+      await PrintService.print(document, company, pageSize);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Print Preview</Text>
+          <Text style={styles.headerSubtitle}>
+            {document ? `${document.number} • ${document.partyName}` : 'Check the layout before printing'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.sizeRow}>
+        {PAGE_SIZES.map(size => (
+          <TouchableOpacity
+            key={size}
+            style={[styles.sizeChip, pageSize === size && styles.sizeChipActive]}
+            onPress={() => selectPageSize(size)}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            <Text style={[styles.sizeChipText, pageSize === size && styles.sizeChipTextActive]}>
+              {PRINT_PAGE_SIZE_LABELS[size]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Preparing preview...</Text>
+        </View>
+      ) : document ? (
+        <View style={styles.preview}>
+          <WebView
+            originWhitelist={['*']}
+            source={{ html: PrintService.buildHTML(document, company, pageSize) }}
+            style={styles.webView}
+          />
+        </View>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="document-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>Document not found</Text>
+        </View>
+      )}
+
+      {document && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.printButton, printing && styles.printButtonDisabled]}
+            onPress={handlePrint}
+            disabled={printing}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {printing ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <>
+                <Ionicons name="print-outline" size={20} color={Colors.text} />
+                <Text style={styles.printButtonText}>Print</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  sizeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  sizeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  sizeChipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  sizeChipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  sizeChipTextActive: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  preview: {
+    flex: 1,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#ffffff',
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  printButton: {
+    flexDirection: 'row',
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  printButtonDisabled: {
+    opacity: 0.5,
+  },
+  printButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
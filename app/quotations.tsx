@@ -0,0 +1,824 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import {
+  CompanyApiService,
+  handleApiError,
+  Party,
+  PartyApiService,
+  Quotation,
+  QuotationApiService,
+  QuotationStatus,
+  SaleItem
+} from '../utils/api';
+import { BasePdfGenerator } from '../utils/basePdfGenerator';
+import { GstCalculator } from '../utils/gstCalculator';
+import { DEFAULT_QUOTATION_VALIDITY_DAYS, QUOTATION_STATUS_LABELS, QuotationManager } from '../utils/quotationManager';
+import { UnitConverter } from '../utils/unitConverter';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const STATUS_COLORS: Record<QuotationStatus, string> = {
+  draft: Colors.textSecondary,
+  sent: Colors.info,
+  accepted: Colors.success,
+  expired: Colors.error,
+};
+
+const EMPTY_FORM = {
+  partyName: '',
+  phoneNumber: '',
+  partyGstin: '',
+  validDays: DEFAULT_QUOTATION_VALIDITY_DAYS.toString(),
+  notes: '',
+  items: [] as SaleItem[],
+};
+
+export default function QuotationsScreen() {
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [customers, setCustomers] = useState<Party[]>([]);
+  const [companyGstin, setCompanyGstin] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  // Quotation form, shown in place of the list while open
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
+
+  useEffect(() => {
+    loadQuotations();
+    loadCustomers();
+    loadCompanyGstin();
+  }, []);
+
+  // Handle incoming selected items from add-items screen
+  useFocusEffect(
+    useCallback(() => {
+      const tempData = (global as any).tempSelectedItems;
+      if (tempData && tempData.mode === 'quotation' && tempData.items && tempData.items.length > 0) {
+        // Check if this data is recent (within last 30 seconds)
+        if (Date.now() - tempData.timestamp < 30000) {
+          setForm(prev => ({ ...prev, items: [...prev.items, ...tempData.items] }));
+          setShowForm(true);
+        }
+        // Clear the temporary data to prevent duplicate processing
+        delete (global as any).tempSelectedItems;
+      }
+    }, [])
+  );
+
+  const loadQuotations = async () => {
+    try {
+      setLoading(true);
+      const quotationsData = await QuotationApiService.getQuotations();
+      // Newest first
+      setQuotations([...quotationsData].sort((a, b) => (parseInt(b.quotationNo) || 0) - (parseInt(a.quotationNo) || 0)));
+    } catch (error) {
+      console.error('Error loading quotations:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await PartyApiService.getParties());
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    }
+  };
+
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setShowCustomerDropdown(false);
+    setShowForm(false);
+  };
+
+  const updateItem = (index: number, field: 'quantity' | 'rate', value: number) => {
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => {
+        if (i !== index) return item;
+        const updated = { ...item, [field]: value };
+        return { ...updated, total: updated.quantity * updated.rate };
+      }),
+    }));
+  };
+
+  const removeItem = (index: number) => {
+    setForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }));
+  };
+
+  // GST breakup of the quotation being entered
+  const formTax = GstCalculator.calculateDocumentTax(form.items, companyGstin, form.partyGstin);
+
+  const handleCreate = async () => {
+    if (!form.partyName.trim() || !form.phoneNumber.trim()) {
+      Alert.alert('Error', 'Please fill all required fields');
+      return;
+    }
+
+    if (form.items.length === 0) {
+      Alert.alert('Error', 'Please add at least one item');
+      return;
+    }
+
+    if (form.partyGstin && !GstCalculator.isValidGstin(form.partyGstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_PARTY_GSTIN);
+      return;
+    }
+
+    const validDays = parseInt(form.validDays, 10);
+    if (isNaN(validDays) || validDays < 0) {
+      Alert.alert('Error', 'Please enter the number of days the quotation is valid for');
+      return;
+    }
+
+    const existingCustomer = customers.find(customer =>
+      customer.name.toLowerCase() === form.partyName.trim().toLowerCase() &&
+      customer.phoneNumber === form.phoneNumber.trim()
+    );
+
+    try {
+      setSaving(true);
+      const quotation = await QuotationManager.createQuotation({
+        partyName: form.partyName,
+        phoneNumber: form.phoneNumber,
+        partyGstin: form.partyGstin,
+        partyId: existingCustomer?.id,
+        items: form.items,
+        validUntil: QuotationManager.getDefaultValidUntil(validDays),
+        notes: form.notes,
+      }, companyGstin);
+
+      resetForm();
+      await loadQuotations();
+
+      Alert.alert(
+        'Success',
+        `Quotation #${quotation.quotationNo} created successfully! Send it to ${quotation.partyName} on WhatsApp?`,
+        [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Send', onPress: () => sendQuotation(quotation) },
+        ]
+      );
+    } catch (error) {
+      console.error('Error creating quotation:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sendQuotation = async (quotation: Quotation) => {
+    try {
+      setSendingId(quotation.id);
+      const sent = await QuotationManager.sendViaWhatsApp(quotation);
+      if (!sent) {
+        Alert.alert('Error', 'Failed to send quotation via WhatsApp');
+        return;
+      }
+      await loadQuotations();
+    } catch (error) {
+      console.error('Error sending quotation:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const shareQuotation = async (quotation: Quotation) => {
+    try {
+      const shared = quotation.pdfUri
+        ? await BasePdfGenerator.sharePDF(quotation.pdfUri, `Quotation #${quotation.quotationNo}`)
+        : await BasePdfGenerator.generateAndShareQuotation(quotation);
+      if (!shared) {
+        Alert.alert('Error', 'Failed to share PDF');
+      }
+    } catch (error) {
+      console.error('Error sharing quotation PDF:', error);
+      Alert.alert('Error', 'Failed to share PDF');
+    }
+  };
+
+  const convertToInvoice = (quotation: Quotation) => {
+    const conversionError = QuotationManager.getConversionError(quotation);
+    if (conversionError) {
+      Alert.alert('Error', conversionError);
+      return;
+    }
+
+    // The invoice is created through the normal sale invoice form
+    router.navigate({
+      pathname: '/(tabs)/sales',
+      params: { quotationId: quotation.id }
+    });
+  };
+
+  const deleteQuotation = (quotation: Quotation) => {
+    Alert.alert(
+      'Delete Quotation',
+      `Are you sure you want to delete quotation #${quotation.quotationNo}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await QuotationApiService.deleteQuotation(quotation.id);
+              await loadQuotations();
+            } catch (error) {
+              console.error('Error deleting quotation:', error);
+              Alert.alert('Error', handleApiError(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const matchingCustomers = form.partyName.length > 0
+    ? customers.filter(customer => customer.name.toLowerCase().includes(form.partyName.toLowerCase())).slice(0, 5)
+    : [];
+
+  const renderFormItem = (item: SaleItem, index: number) => (
+    <View key={`${item.id}-${index}`} style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <Text style={[styles.itemName, styles.itemInfo]}>{item.itemName}</Text>
+        <TouchableOpacity onPress={() => removeItem(index)}>
+          <Ionicons name="close-circle" size={20} color={Colors.error} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.itemRow}>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Quantity ({UnitConverter.getBaseUnit(item)})</Text>
+          <TextInput
+            style={styles.smallInput}
+            value={item.quantity.toString()}
+            onChangeText={(text) => updateItem(index, 'quantity', parseFloat(text) || 0)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Price</Text>
+          <TextInput
+            style={styles.smallInput}
+            value={item.rate.toString()}
+            onChangeText={(text) => updateItem(index, 'rate', parseFloat(text) || 0)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Total</Text>
+          <Text style={styles.itemTotal}>₹{item.total.toLocaleString()}</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderForm = () => (
+    <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+      <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <TextInput
+          style={styles.input}
+          placeholder="Customer Name"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.partyName}
+          onChangeText={(text) => {
+            setForm(prev => ({ ...prev, partyName: text }));
+            setShowCustomerDropdown(true);
+          }}
+          onFocus={() => setShowCustomerDropdown(true)}
+        />
+        {showCustomerDropdown && matchingCustomers.length > 0 && (
+          <View style={styles.suggestions}>
+            {matchingCustomers.map((customer, index) => (
+              <TouchableOpacity
+                key={customer.id || `quotation-customer-${index}`}
+                style={styles.suggestionItem}
+                onPress={() => {
+                  setForm(prev => ({
+                    ...prev,
+                    partyName: customer.name,
+                    phoneNumber: customer.phoneNumber,
+                    partyGstin: customer.gstin || '',
+                  }));
+                  setShowCustomerDropdown(false);
+                }}
+              >
+                <Text style={styles.suggestionName}>{customer.name}</Text>
+                <Text style={styles.itemMeta}>{customer.phoneNumber}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder="Phone Number"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.phoneNumber}
+          onChangeText={(text) => setForm(prev => ({ ...prev, phoneNumber: text }))}
+          keyboardType="phone-pad"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Customer GSTIN (optional)"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.partyGstin}
+          onChangeText={(text) => setForm(prev => ({ ...prev, partyGstin: GstCalculator.normalizeGstin(text) }))}
+          autoCapitalize="characters"
+          maxLength={15}
+        />
+        <View style={styles.validityRow}>
+          <Text style={styles.validityLabel}>Valid for (days)</Text>
+          <TextInput
+            style={styles.smallInput}
+            value={form.validDays}
+            onChangeText={(text) => setForm(prev => ({ ...prev, validDays: text }))}
+            keyboardType="number-pad"
+          />
+        </View>
+        <TextInput
+          style={styles.input}
+          placeholder="Notes for the customer (optional)"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.notes}
+          onChangeText={(text) => setForm(prev => ({ ...prev, notes: text }))}
+        />
+
+        <TouchableOpacity
+          style={styles.addItemsButton}
+          onPress={() => router.push('/add-items?mode=quotation')}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="add" size={20} color={Colors.text} />
+          <Text style={styles.buttonText}>Add Items</Text>
+        </TouchableOpacity>
+
+        {form.items.map(renderFormItem)}
+
+        {form.items.length > 0 && (
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Taxable Amount</Text>
+              <Text style={styles.summaryValue}>₹{formTax.taxableAmount.toLocaleString()}</Text>
+            </View>
+            {formTax.isInterState ? (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>IGST</Text>
+                <Text style={styles.summaryValue}>₹{formTax.igstAmount.toLocaleString()}</Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>CGST</Text>
+                  <Text style={styles.summaryValue}>₹{formTax.cgstAmount.toLocaleString()}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>SGST</Text>
+                  <Text style={styles.summaryValue}>₹{formTax.sgstAmount.toLocaleString()}</Text>
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+
+  const renderQuotation = (quotation: Quotation) => {
+    const status = QuotationManager.getStatus(quotation);
+    const color = STATUS_COLORS[status];
+
+    return (
+      <View key={quotation.id} style={styles.itemCard}>
+        <View style={styles.itemRow}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemName}>#{quotation.quotationNo} • {quotation.partyName}</Text>
+            <Text style={styles.itemMeta}>
+              {quotation.date} • Valid until {new Date(quotation.validUntil).toLocaleDateString()}
+            </Text>
+            <View style={[styles.badge, { borderColor: color, backgroundColor: color + '15' }]}>
+              <Text style={[styles.badgeText, { color }]}>
+                {QUOTATION_STATUS_LABELS[status]}
+                {quotation.invoiceNo ? ` • Invoice #${quotation.invoiceNo}` : ''}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.quotationAmount}>₹{quotation.totalAmount.toLocaleString()}</Text>
+        </View>
+        <View style={styles.actionRow}>
+          {status !== 'accepted' && !!quotation.phoneNumber && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => sendQuotation(quotation)}
+              disabled={sendingId === quotation.id}
+            >
+              {sendingId === quotation.id ? (
+                <ActivityIndicator size="small" color={Colors.success} />
+              ) : (
+                <Ionicons name="logo-whatsapp" size={20} color={Colors.success} />
+              )}
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={() => shareQuotation(quotation)}>
+            <Ionicons name="share-outline" size={20} color={Colors.primary} />
+          </TouchableOpacity>
+          {status !== 'accepted' && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => deleteQuotation(quotation)}>
+              <Ionicons name="trash-outline" size={20} color={Colors.error} />
+            </TouchableOpacity>
+          )}
+          {status !== 'accepted' && status !== 'expired' && (
+            <TouchableOpacity style={styles.convertButton} onPress={() => convertToInvoice(quotation)}>
+              <Ionicons name="swap-horizontal" size={16} color={Colors.text} />
+              <Text style={styles.convertButtonText}>Convert to Invoice</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => (showForm ? resetForm() : router.back())}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>{showForm ? 'New Quotation' : 'Quotations'}</Text>
+          <Text style={styles.headerSubtitle}>
+            {showForm
+              ? `Quotation #${QuotationManager.getNextQuotationNo(quotations)}`
+              : 'Price quotes that convert into sale invoices'}
+          </Text>
+        </View>
+        {!showForm && (
+          <TouchableOpacity style={styles.backButton} onPress={() => setShowForm(true)}>
+            <Ionicons name="add-circle" size={28} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showForm ? (
+        renderForm()
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading quotations...</Text>
+        </View>
+      ) : quotations.length > 0 ? (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {quotations.map(renderQuotation)}
+        </ScrollView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="document-text-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>No quotations yet</Text>
+        </View>
+      )}
+
+      {showForm && (
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>{form.items.length} item(s)</Text>
+            <Text style={styles.footerValue}>₹{formTax.totalAmount.toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleCreate}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.buttonText}>Create Quotation</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 12,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  suggestions: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    marginTop: -8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  suggestionItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  validityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  validityLabel: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  smallInput: {
+    minWidth: 80,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  addItemsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+    gap: 8,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    paddingVertical: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  quotationAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  convertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+    gap: 6,
+  },
+  convertButtonText: {
+    color: Colors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
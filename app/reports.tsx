@@ -0,0 +1,419 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { handleApiError } from '../utils/api';
+import { BasePdfGenerator } from '../utils/basePdfGenerator';
+import { ProfitLossReport, ProfitLossReportData, ProfitLossRow } from '../utils/profitLossReport';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+type RangePreset = 'this-month' | 'last-month' | 'financial-year';
+
+const RANGE_PRESETS: { key: RangePreset; label: string }[] = [
+  { key: 'this-month', label: 'This Month' },
+  { key: 'last-month', label: 'Last Month' },
+  { key: 'financial-year', label: 'This FY' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Start and end dates of a preset range; the financial year starts on 1 April
+const getPresetRange = (preset: RangePreset): { startDate: string; endDate: string } => {
+  const today = new Date();
+  switch (preset) {
+    case 'last-month':
+      return {
+        startDate: toDateString(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        endDate: toDateString(new Date(today.getFullYear(), today.getMonth(), 0)),
+      };
+    case 'financial-year': {
+      const startYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+      return {
+        startDate: toDateString(new Date(startYear, 3, 1)),
+        endDate: toDateString(today),
+      };
+    }
+    default:
+      return {
+        startDate: toDateString(new Date(today.getFullYear(), today.getMonth(), 1)),
+        endDate: toDateString(today),
+      };
+  }
+};
+
+export default function ReportsScreen() {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [report, setReport] = useState<ProfitLossReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    applyPreset('this-month');
+  }, []);
+
+  const loadReport = async (start: string, end: string) => {
+    if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (start > end) {
+      Alert.alert('Error', 'Start date must be before end date');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setReport(await ProfitLossReport.build(start, end));
+    } catch (error) {
+      console.error('Error building profit & loss report:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyPreset = (preset: RangePreset) => {
+    const range = getPresetRange(preset);
+    setStartDate(range.startDate);
+    setEndDate(range.endDate);
+    loadReport(range.startDate, range.endDate);
+  };
+
+  const handleExport = async () => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      const shared = await BasePdfGenerator.generateAndShareProfitLossReport(report);
+      if (!shared) {
+        Alert.alert('Error', 'Failed to generate report PDF. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error exporting profit & loss report:', error);
+      Alert.alert('Error', 'Failed to generate report PDF. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}₹${Math.abs(Math.round(amount)).toLocaleString()}`;
+
+  const renderRow = (row: ProfitLossRow) => (
+    <View key={row.name} style={styles.row}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowName}>{row.name}</Text>
+        <Text style={styles.rowMeta}>
+          Qty {row.quantity.toLocaleString()} • Sales {formatAmount(row.revenue)} • Cost {formatAmount(row.cost)}
+        </Text>
+      </View>
+      <View style={styles.rowMargin}>
+        <Text style={[styles.rowMarginAmount, { color: row.margin >= 0 ? Colors.success : Colors.error }]}>
+          {formatAmount(row.margin)}
+        </Text>
+        <Text style={styles.rowMeta}>{row.marginPercent}%</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Profit & Loss</Text>
+          <Text style={styles.headerSubtitle}>Gross margin by item and category</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleExport}
+          disabled={!report || exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Ionicons name="share-outline" size={24} color={report ? Colors.primary : Colors.textTertiary} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Date Range */}
+        <View style={styles.presets}>
+          {RANGE_PRESETS.map(preset => (
+            <TouchableOpacity key={preset.key} style={styles.presetOption} onPress={() => applyPreset(preset.key)}>
+              <Text style={styles.presetText}>{preset.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.dateRow}>
+          <TextInput
+            style={styles.dateInput}
+            placeholder="Start YYYY-MM-DD"
+            placeholderTextColor={Colors.textTertiary}
+            value={startDate}
+            onChangeText={setStartDate}
+          />
+          <TextInput
+            style={styles.dateInput}
+            placeholder="End YYYY-MM-DD"
+            placeholderTextColor={Colors.textTertiary}
+            value={endDate}
+            onChangeText={setEndDate}
+          />
+          <TouchableOpacity style={styles.applyButton} onPress={() => loadReport(startDate, endDate)}>
+            <Ionicons name="refresh" size={20} color={Colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+            <Text style={styles.loadingText}>Building report...</Text>
+          </View>
+        ) : report && (
+          <>
+            {/* Summary */}
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Revenue (excl. GST)</Text>
+                <Text style={styles.summaryValue}>{formatAmount(report.revenue)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Cost of Goods Sold</Text>
+                <Text style={styles.summaryValue}>{formatAmount(report.costOfGoodsSold)}</Text>
+              </View>
+              <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                <Text style={styles.summaryTotalLabel}>Gross Margin ({report.grossMarginPercent}%)</Text>
+                <Text style={[styles.summaryTotalValue, { color: report.grossMargin >= 0 ? Colors.success : Colors.error }]}>
+                  {formatAmount(report.grossMargin)}
+                </Text>
+              </View>
+              <Text style={styles.summaryNote}>
+                {report.invoiceCount} invoice(s) • {report.billCount} purchase bill(s) worth {formatAmount(report.purchases)}
+              </Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>By Category</Text>
+            {report.byCategory.map(renderRow)}
+
+            <Text style={styles.sectionTitle}>By Item</Text>
+            {report.byItem.length > 0 ? report.byItem.map(renderRow) : (
+              <Text style={styles.emptyText}>No sales in this period</Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  presetOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  presetText: {
+    fontSize: 14,
+    color: Colors.primary,
+    fontWeight: '500',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: Colors.text,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  applyButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  summaryTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    marginTop: 6,
+    paddingTop: 12,
+  },
+  summaryTotalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  summaryTotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  rowMargin: {
+    alignItems: 'flex-end',
+  },
+  rowMarginAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+});
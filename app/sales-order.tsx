@@ -0,0 +1,630 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import {
+  DeliveryChallan,
+  DeliveryChallanApiService,
+  handleApiError,
+  SalesOrder,
+  SalesOrderApiService
+} from '../utils/api';
+import { OrderLineProgress, SALES_ORDER_STATUS_LABELS, SalesOrderManager } from '../utils/salesOrderManager';
+import { StockManager } from '../utils/stockManager';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+export default function SalesOrderScreen() {
+  const { orderId } = useLocalSearchParams<{ orderId: string }>();
+  const [order, setOrder] = useState<SalesOrder | null>(null);
+  const [challans, setChallans] = useState<DeliveryChallan[]>([]);
+  const [lines, setLines] = useState<OrderLineProgress[]>([]);
+  // Entered delivered quantity per order line ID
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [vehicleNo, setVehicleNo] = useState('');
+  // Unbilled challans picked for one invoice
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Reload on focus, challans may have been billed on the sales tab
+  useFocusEffect(
+    useCallback(() => {
+      if (orderId) {
+        loadOrder();
+      }
+    }, [orderId])
+  );
+
+  const loadOrder = async () => {
+    try {
+      setLoading(true);
+      const [salesOrder, orderChallans] = await Promise.all([
+        SalesOrderApiService.getSalesOrderById(orderId),
+        DeliveryChallanApiService.getDeliveryChallans({ orderId }),
+      ]);
+      // Older backends ignore the filter
+      const forOrder = orderChallans.filter(challan => challan.orderId === orderId);
+      setOrder(salesOrder);
+      setChallans(forOrder);
+      setLines(SalesOrderManager.getLineProgress(salesOrder, forOrder));
+      setSelectedIds(prev => prev.filter(id => forOrder.some(challan => challan.id === id && !challan.invoiceId)));
+    } catch (error) {
+      console.error('Error loading sales order:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const quantities = Object.entries(entries).reduce<Record<string, number>>((result, [lineId, text]) => {
+    const quantity = parseFloat(text);
+    if (!isNaN(quantity) && quantity > 0) {
+      result[lineId] = quantity;
+    }
+    return result;
+  }, {});
+
+  const status = order ? SalesOrderManager.getStatus(order, challans) : 'open';
+  const canDeliver = status !== 'closed' && lines.some(line => line.pending > 0);
+  const deliveringCount = Object.keys(quantities).length;
+
+  const handleCreateChallan = () => {
+    if (!order || deliveringCount === 0) {
+      Alert.alert('Error', 'Enter a delivered quantity for at least one item');
+      return;
+    }
+
+    const overDelivered = lines.find(line => (quantities[line.lineId] || 0) > line.pending);
+    if (overDelivered) {
+      Alert.alert('Error', `Only ${overDelivered.pending} of ${overDelivered.itemName} is left to deliver`);
+      return;
+    }
+
+    Alert.alert(
+      'Create Delivery Challan',
+      `Deliver ${deliveringCount} item(s) to ${order.partyName} and take them out of stock?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create', onPress: createChallan },
+      ]
+    );
+  };
+
+  // Stock of a saved challan failed for some items; offer to apply the rest again
+  const promptStockRetry = (stockError: unknown, challan: DeliveryChallan) => {
+    Alert.alert(
+      'Stock Not Updated',
+      `Delivery challan DC-${challan.challanNo} created. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_RETRY}`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Retry',
+          onPress: async () => {
+            try {
+              await StockManager.updateStockOnDelivery(challan.items, challan.id, `DC-${challan.challanNo}`);
+              Alert.alert('Success', 'Stock updated');
+            } catch (error) {
+              console.error('Error retrying stock update for delivery challan:', error);
+              promptStockRetry(error, challan);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const createChallan = async () => {
+    if (!order) return;
+    try {
+      setSaving(true);
+      const { challan, stockError } = await SalesOrderManager.createChallan(order, quantities, vehicleNo);
+      if (stockError) {
+        promptStockRetry(stockError, challan);
+      } else {
+        Alert.alert('Success', `Delivery challan DC-${challan.challanNo} created successfully!`);
+      }
+      setEntries({});
+      setVehicleNo('');
+      await loadOrder();
+    } catch (error) {
+      console.error('Error creating delivery challan:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteChallan = (challan: DeliveryChallan) => {
+    Alert.alert(
+      'Delete Challan',
+      `Delete DC-${challan.challanNo}? The delivered items will be added back to stock.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { stockError } = await SalesOrderManager.deleteChallan(challan);
+              if (stockError) {
+                Alert.alert(
+                  'Stock Not Updated',
+                  `Delivery challan deleted. ${StockManager.getUpdateErrorMessage(stockError)} ${Messages.ERROR.STOCK_UPDATE_ADJUST}`
+                );
+              } else {
+                Alert.alert('Success', 'Delivery challan deleted successfully');
+              }
+              await loadOrder();
+            } catch (error) {
+              console.error('Error deleting delivery challan:', error);
+              Alert.alert('Error', handleApiError(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCloseOrder = () => {
+    if (!order) return;
+    Alert.alert(
+      'Close Order',
+      `Close order #${order.orderNo}? Nothing more can be delivered against it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close Order',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SalesOrderManager.closeOrder(order);
+              await loadOrder();
+            } catch (error) {
+              console.error('Error closing sales order:', error);
+              Alert.alert('Error', handleApiError(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const toggleSelected = (challanId: string) => {
+    setSelectedIds(prev => (
+      prev.includes(challanId) ? prev.filter(id => id !== challanId) : [...prev, challanId]
+    ));
+  };
+
+  const handleBill = () => {
+    const selected = challans.filter(challan => selectedIds.includes(challan.id));
+    const billingError = SalesOrderManager.getBillingError(selected);
+    if (billingError) {
+      Alert.alert('Error', billingError);
+      return;
+    }
+
+    router.navigate({ pathname: '/(tabs)/sales', params: { challanIds: selectedIds.join(',') } });
+  };
+
+  const renderLine = (line: OrderLineProgress) => (
+    <View key={line.lineId} style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>{line.itemName}</Text>
+          <Text style={styles.itemMeta}>
+            Ordered {line.ordered} @ ₹{line.rate.toLocaleString()}
+          </Text>
+          <Text style={styles.itemMeta}>
+            Delivered {line.delivered} • Invoiced {line.invoiced} • Pending {line.pending}
+          </Text>
+        </View>
+        {status !== 'closed' && line.pending > 0 ? (
+          <TextInput
+            style={styles.quantityInput}
+            placeholder={`Max ${line.pending}`}
+            placeholderTextColor={Colors.textTertiary}
+            value={entries[line.lineId] || ''}
+            onChangeText={(text) => setEntries(prev => ({ ...prev, [line.lineId]: text }))}
+            keyboardType="decimal-pad"
+          />
+        ) : (
+          <Text style={styles.fullyDelivered}>{line.pending > 0 ? 'Closed' : 'Fully delivered'}</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderChallan = (challan: DeliveryChallan) => {
+    const selected = selectedIds.includes(challan.id);
+    return (
+      <View key={challan.id} style={styles.challanRow}>
+        {!challan.invoiceId && (
+          <TouchableOpacity style={styles.iconButton} onPress={() => toggleSelected(challan.id)}>
+            <Ionicons
+              name={selected ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={selected ? Colors.primary : Colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName}>DC-{challan.challanNo}</Text>
+          <Text style={styles.itemMeta}>
+            {challan.date} • {challan.items.length} item(s){challan.vehicleNo ? ` • ${challan.vehicleNo}` : ''}
+          </Text>
+          <Text style={[styles.itemMeta, { color: challan.invoiceId ? Colors.success : Colors.warning }]}>
+            {challan.invoiceId ? `Invoiced #${challan.invoiceNo || ''}` : 'Unbilled'}
+          </Text>
+        </View>
+        <Text style={styles.challanAmount}>₹{challan.totalAmount.toLocaleString()}</Text>
+        {!challan.invoiceId && (
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteChallan(challan)}>
+            <Ionicons name="trash-outline" size={20} color={Colors.error} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>{order ? `Sales Order #${order.orderNo}` : 'Sales Order'}</Text>
+          <Text style={styles.headerSubtitle}>
+            {order ? `${order.partyName} • ${SALES_ORDER_STATUS_LABELS[status]}` : 'Deliveries and billing'}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading sales order...</Text>
+        </View>
+      ) : order ? (
+        <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Order Total</Text>
+                <Text style={styles.summaryValue}>₹{order.totalAmount.toLocaleString()}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Order Date</Text>
+                <Text style={styles.summaryValue}>{order.date}</Text>
+              </View>
+              {order.notes ? (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Notes</Text>
+                  <Text style={styles.summaryValue}>{order.notes}</Text>
+                </View>
+              ) : null}
+            </View>
+
+            <Text style={styles.sectionTitle}>{canDeliver ? 'Deliver Now' : 'Items'}</Text>
+            {lines.map(renderLine)}
+
+            {canDeliver && (
+              <TextInput
+                style={styles.input}
+                placeholder="Vehicle number (optional)"
+                placeholderTextColor={Colors.textTertiary}
+                value={vehicleNo}
+                onChangeText={setVehicleNo}
+                autoCapitalize="characters"
+              />
+            )}
+
+            {challans.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Delivery Challans</Text>
+                {challans.map(renderChallan)}
+                {selectedIds.length > 0 && (
+                  <TouchableOpacity style={styles.billButton} onPress={handleBill}>
+                    <Ionicons name="receipt-outline" size={20} color={Colors.text} />
+                    <Text style={styles.saveButtonText}>Bill {selectedIds.length} Challan(s)</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+
+            {status !== 'closed' && (
+              <TouchableOpacity style={styles.closeButton} onPress={handleCloseOrder}>
+                <Text style={styles.closeButtonText}>Close Order</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="clipboard-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>Sales order not found</Text>
+        </View>
+      )}
+
+      {order && canDeliver && (
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>Delivering</Text>
+            <Text style={styles.footerValue}>{deliveringCount} item(s)</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, (saving || deliveringCount === 0) && styles.saveButtonDisabled]}
+            onPress={handleCreateChallan}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.saveButtonText}>Create Challan</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  quantityInput: {
+    width: 110,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  fullyDelivered: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 16,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  challanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  challanAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  iconButton: {
+    padding: 8,
+    marginRight: 4,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  billButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 4,
+    marginBottom: 16,
+    gap: 8,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  closeButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.error,
+    padding: 14,
+    marginTop: 8,
+    marginBottom: 32,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  closeButtonText: {
+    color: Colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,640 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import {
+  CompanyApiService,
+  DeliveryChallan,
+  DeliveryChallanApiService,
+  handleApiError,
+  Party,
+  PartyApiService,
+  SaleItem,
+  SalesOrder,
+  SalesOrderApiService,
+  SalesOrderStatus
+} from '../utils/api';
+import { GstCalculator } from '../utils/gstCalculator';
+import { SALES_ORDER_STATUS_LABELS, SalesOrderManager } from '../utils/salesOrderManager';
+import { UnitConverter } from '../utils/unitConverter';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const ORDER_STATUS_COLORS: Record<SalesOrderStatus, string> = {
+  'open': Colors.info,
+  'partially-delivered': Colors.warning,
+  'delivered': Colors.success,
+  'closed': Colors.textSecondary,
+};
+
+const EMPTY_FORM = {
+  partyName: '',
+  phoneNumber: '',
+  partyGstin: '',
+  notes: '',
+  items: [] as SaleItem[],
+};
+
+export default function SalesOrdersScreen() {
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [challans, setChallans] = useState<DeliveryChallan[]>([]);
+  const [customers, setCustomers] = useState<Party[]>([]);
+  const [companyGstin, setCompanyGstin] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Order form, shown in place of the list while open
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
+
+  useEffect(() => {
+    loadCustomers();
+    loadCompanyGstin();
+  }, []);
+
+  // Reload orders when coming back from an order, deliveries change their progress
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [])
+  );
+
+  // Handle incoming selected items from add-items screen
+  useFocusEffect(
+    useCallback(() => {
+      const tempData = (global as any).tempSelectedItems;
+      if (tempData && tempData.mode === 'order' && tempData.items && tempData.items.length > 0) {
+        // Check if this data is recent (within last 30 seconds)
+        if (Date.now() - tempData.timestamp < 30000) {
+          setForm(prev => ({ ...prev, items: [...prev.items, ...tempData.items] }));
+          setShowForm(true);
+        }
+        // Clear the temporary data to prevent duplicate processing
+        delete (global as any).tempSelectedItems;
+      }
+    }, [])
+  );
+
+  const loadOrders = async () => {
+    try {
+      setLoading(true);
+      const [ordersData, challansData] = await Promise.all([
+        SalesOrderApiService.getSalesOrders(),
+        DeliveryChallanApiService.getDeliveryChallans(),
+      ]);
+      // Newest first
+      setOrders([...ordersData].sort((a, b) => (parseInt(b.orderNo) || 0) - (parseInt(a.orderNo) || 0)));
+      setChallans(challansData);
+    } catch (error) {
+      console.error('Error loading sales orders:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await PartyApiService.getParties());
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    }
+  };
+
+  const loadCompanyGstin = async () => {
+    try {
+      const companyDetails = await CompanyApiService.getCompanyDetails();
+      setCompanyGstin(companyDetails.gstin || '');
+    } catch (error) {
+      console.error('Error loading company GSTIN:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setShowCustomerDropdown(false);
+    setShowForm(false);
+  };
+
+  const updateItem = (index: number, field: 'quantity' | 'rate', value: number) => {
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => {
+        if (i !== index) return item;
+        const updated = { ...item, [field]: value };
+        return { ...updated, total: updated.quantity * updated.rate };
+      }),
+    }));
+  };
+
+  const removeItem = (index: number) => {
+    setForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }));
+  };
+
+  // GST breakup of the order being entered
+  const formTax = GstCalculator.calculateDocumentTax(form.items, companyGstin, form.partyGstin);
+
+  const handleCreate = async () => {
+    if (!form.partyName.trim() || !form.phoneNumber.trim()) {
+      Alert.alert('Error', 'Please fill all required fields');
+      return;
+    }
+
+    if (form.items.length === 0) {
+      Alert.alert('Error', 'Please add at least one item');
+      return;
+    }
+
+    if (form.partyGstin && !GstCalculator.isValidGstin(form.partyGstin)) {
+      Alert.alert('Error', Messages.ERROR.INVALID_PARTY_GSTIN);
+      return;
+    }
+
+    const existingCustomer = customers.find(customer =>
+      customer.name.toLowerCase() === form.partyName.trim().toLowerCase() &&
+      customer.phoneNumber === form.phoneNumber.trim()
+    );
+
+    try {
+      setSaving(true);
+      const order = await SalesOrderManager.createOrder({
+        partyName: form.partyName,
+        phoneNumber: form.phoneNumber,
+        partyGstin: form.partyGstin,
+        partyId: existingCustomer?.id,
+        items: form.items,
+        notes: form.notes,
+      }, companyGstin);
+
+      resetForm();
+      Alert.alert('Success', `Sales order #${order.orderNo} created successfully!`);
+      await loadOrders();
+    } catch (error) {
+      console.error('Error creating sales order:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const matchingCustomers = form.partyName.length > 0
+    ? customers.filter(customer => customer.name.toLowerCase().includes(form.partyName.toLowerCase())).slice(0, 5)
+    : [];
+
+  const renderFormItem = (item: SaleItem, index: number) => (
+    <View key={`${item.id}-${index}`} style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <Text style={[styles.itemName, styles.itemInfo]}>{item.itemName}</Text>
+        <TouchableOpacity onPress={() => removeItem(index)}>
+          <Ionicons name="close-circle" size={20} color={Colors.error} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.itemRow}>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Quantity ({UnitConverter.getBaseUnit(item)})</Text>
+          <TextInput
+            style={styles.smallInput}
+            value={item.quantity.toString()}
+            onChangeText={(text) => updateItem(index, 'quantity', parseFloat(text) || 0)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Price</Text>
+          <TextInput
+            style={styles.smallInput}
+            value={item.rate.toString()}
+            onChangeText={(text) => updateItem(index, 'rate', parseFloat(text) || 0)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.itemField}>
+          <Text style={styles.fieldLabel}>Total</Text>
+          <Text style={styles.itemTotal}>₹{item.total.toLocaleString()}</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderForm = () => (
+    <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+      <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <TextInput
+          style={styles.input}
+          placeholder="Customer Name"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.partyName}
+          onChangeText={(text) => {
+            setForm(prev => ({ ...prev, partyName: text }));
+            setShowCustomerDropdown(true);
+          }}
+          onFocus={() => setShowCustomerDropdown(true)}
+        />
+        {showCustomerDropdown && matchingCustomers.length > 0 && (
+          <View style={styles.suggestions}>
+            {matchingCustomers.map((customer, index) => (
+              <TouchableOpacity
+                key={customer.id || `order-customer-${index}`}
+                style={styles.suggestionItem}
+                onPress={() => {
+                  setForm(prev => ({
+                    ...prev,
+                    partyName: customer.name,
+                    phoneNumber: customer.phoneNumber,
+                    partyGstin: customer.gstin || '',
+                  }));
+                  setShowCustomerDropdown(false);
+                }}
+              >
+                <Text style={styles.suggestionName}>{customer.name}</Text>
+                <Text style={styles.itemMeta}>{customer.phoneNumber}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder="Phone Number"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.phoneNumber}
+          onChangeText={(text) => setForm(prev => ({ ...prev, phoneNumber: text }))}
+          keyboardType="phone-pad"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Customer GSTIN (optional)"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.partyGstin}
+          onChangeText={(text) => setForm(prev => ({ ...prev, partyGstin: GstCalculator.normalizeGstin(text) }))}
+          autoCapitalize="characters"
+          maxLength={15}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Notes, e.g. delivery schedule (optional)"
+          placeholderTextColor={Colors.textTertiary}
+          value={form.notes}
+          onChangeText={(text) => setForm(prev => ({ ...prev, notes: text }))}
+        />
+
+        <TouchableOpacity
+          style={styles.addItemsButton}
+          onPress={() => router.push('/add-items?mode=order')}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="add" size={20} color={Colors.text} />
+          <Text style={styles.buttonText}>Add Items</Text>
+        </TouchableOpacity>
+
+        {form.items.map(renderFormItem)}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+
+  const renderOrder = (order: SalesOrder) => {
+    const forOrder = challans.filter(challan => challan.orderId === order.id);
+    const status = SalesOrderManager.getStatus(order, forOrder);
+    const color = ORDER_STATUS_COLORS[status];
+    const progress = SalesOrderManager.getLineProgress(order, forOrder);
+    const ordered = progress.reduce((sum, line) => sum + line.ordered, 0);
+    const delivered = progress.reduce((sum, line) => sum + line.delivered, 0);
+    const invoiced = progress.reduce((sum, line) => sum + line.invoiced, 0);
+
+    return (
+      <TouchableOpacity
+        key={order.id}
+        style={styles.itemCard}
+        onPress={() => router.push({ pathname: '/sales-order', params: { orderId: order.id } })}
+        activeOpacity={isAndroid ? 0.7 : 0.2}
+        {...(isAndroid && {
+          android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+        })}
+      >
+        <View style={styles.itemRow}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemName}>#{order.orderNo} • {order.partyName}</Text>
+            <Text style={styles.itemMeta}>
+              {order.date} • Delivered {delivered.toLocaleString()} of {ordered.toLocaleString()} • Invoiced {invoiced.toLocaleString()}
+            </Text>
+            <View style={[styles.badge, { borderColor: color, backgroundColor: color + '15' }]}>
+              <Text style={[styles.badgeText, { color }]}>
+                {SALES_ORDER_STATUS_LABELS[status]}
+                {forOrder.length > 0 ? ` • ${forOrder.length} challan(s)` : ''}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.orderAmount}>₹{order.totalAmount.toLocaleString()}</Text>
+          <Ionicons name="chevron-forward" size={20} color={Colors.textTertiary} />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => (showForm ? resetForm() : router.back())}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>{showForm ? 'New Sales Order' : 'Sales Orders'}</Text>
+          <Text style={styles.headerSubtitle}>
+            {showForm
+              ? `Order #${SalesOrderManager.getNextOrderNo(orders)}`
+              : 'Orders delivered over several challans'}
+          </Text>
+        </View>
+        {!showForm && (
+          <TouchableOpacity style={styles.backButton} onPress={() => setShowForm(true)}>
+            <Ionicons name="add-circle" size={28} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showForm ? (
+        renderForm()
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading sales orders...</Text>
+        </View>
+      ) : orders.length > 0 ? (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {orders.map(renderOrder)}
+        </ScrollView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="clipboard-outline" size={64} color={Colors.textTertiary} />
+          <Text style={styles.loadingText}>No sales orders yet</Text>
+        </View>
+      )}
+
+      {showForm && (
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>{form.items.length} item(s)</Text>
+            <Text style={styles.footerValue}>₹{formTax.totalAmount.toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleCreate}
+            disabled={saving}
+            activeOpacity={isAndroid ? 0.7 : 0.2}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={styles.buttonText}>Create Order</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 12,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  suggestions: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    marginTop: -8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  suggestionItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  smallInput: {
+    minWidth: 80,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  addItemsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+    gap: 8,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    paddingVertical: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  orderAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,506 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Messages } from '../constants/Messages';
+import { handleApiError, Item, ItemsApiService } from '../utils/api';
+import { STOCK_ADJUSTMENT_REASON_LABELS, StockAdjustmentReason } from '../utils/stockLedger';
+import { StockAdjustment, StockManager } from '../utils/stockManager';
+import { UnitConverter } from '../utils/unitConverter';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+// Adjustment: enter the change per item. Stock take: enter the counted quantity.
+type AdjustmentMode = 'adjustment' | 'stock-take';
+
+// Reasons offered in adjustment mode; stock take always uses 'stock-take'
+const ADJUSTMENT_REASONS: StockAdjustmentReason[] = ['damage', 'wastage', 'shrinkage', 'other'];
+
+const getItemId = (item: Item) => item.id || item._id || '';
+
+export default function StockAdjustmentScreen() {
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+  const [mode, setMode] = useState<AdjustmentMode>('adjustment');
+  const [reason, setReason] = useState<StockAdjustmentReason>('damage');
+  const [note, setNote] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  // Entered quantity per item ID, in the item's base unit
+  const [entries, setEntries] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const loadItems = async () => {
+    try {
+      setLoading(true);
+      const itemsData = await ItemsApiService.getItems();
+      setItems(itemsData);
+    } catch (error) {
+      console.error('Error loading items:', error);
+      Alert.alert('Error', handleApiError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (newMode: AdjustmentMode) => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    // Entries mean different things in each mode
+    setEntries({});
+  };
+
+  // Change in base units for an item, or null if nothing was entered
+  const getVariance = (item: Item): number | null => {
+    const entered = entries[getItemId(item)];
+    if (entered === undefined || entered.trim() === '') return null;
+
+    const value = parseFloat(entered);
+    if (isNaN(value)) return null;
+
+    if (mode === 'stock-take') {
+      const systemStock = UnitConverter.packsToBase(item, item.openingStock);
+      return Math.round((value - systemStock) * 100) / 100;
+    }
+    return value;
+  };
+
+  const filteredItems = items.filter(item =>
+    item.productName.toLowerCase().includes(searchQuery.trim().toLowerCase())
+  );
+
+  const pendingAdjustments: StockAdjustment[] = items
+    .map(item => ({ item, quantity: getVariance(item) }))
+    .filter((entry): entry is { item: Item; quantity: number } => entry.quantity !== null && entry.quantity !== 0)
+    .map(({ item, quantity }) => ({
+      item,
+      quantity,
+      reason: mode === 'stock-take' ? 'stock-take' : reason,
+      note: note.trim() || undefined,
+    }));
+
+  const totalVarianceValue = pendingAdjustments.reduce(
+    (sum, adjustment) => sum + adjustment.quantity * adjustment.item.purchasePrice,
+    0
+  );
+
+  const handlePost = () => {
+    if (pendingAdjustments.length === 0) {
+      Alert.alert('Error', Messages.ERROR.NO_STOCK_ADJUSTMENTS);
+      return;
+    }
+
+    Alert.alert(
+      'Post Adjustments',
+      `Post ${pendingAdjustments.length} stock adjustment${pendingAdjustments.length > 1 ? 's' : ''}? ` +
+        `Net value: ₹${Math.round(totalVarianceValue).toLocaleString()}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Post', onPress: postAdjustments },
+      ]
+    );
+  };
+
+  const postAdjustments = async () => {
+    try {
+      setPosting(true);
+      const result = await StockManager.postStockAdjustments(pendingAdjustments);
+
+      if (result.failed.length > 0) {
+        Alert.alert(
+          'Error',
+          `${result.applied} adjustment(s) posted. Could not adjust:\n• ${result.failed.join('\n• ')}`
+        );
+      } else {
+        Alert.alert('Success', Messages.SUCCESS.STOCK_ADJUSTMENTS_POSTED);
+      }
+
+      setEntries({});
+      setNote('');
+      await loadItems();
+    } catch (error) {
+      console.error('Error posting stock adjustments:', error);
+      Alert.alert('Error', Messages.ERROR.FAILED_TO_POST_STOCK_ADJUSTMENTS);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const renderItem = ({ item }: { item: Item }) => {
+    const itemId = getItemId(item);
+    const baseUnit = UnitConverter.getBaseUnit(item);
+    const systemStock = UnitConverter.packsToBase(item, item.openingStock);
+    const variance = getVariance(item);
+    const varianceColor = variance && variance > 0 ? Colors.success : Colors.error;
+
+    return (
+      <View style={styles.itemCard}>
+        <View style={styles.itemRow}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemName}>{item.productName}</Text>
+            <Text style={styles.itemMeta}>
+              System: {systemStock.toLocaleString()} {baseUnit} ({UnitConverter.formatPacks(item, item.openingStock)})
+            </Text>
+          </View>
+          <TextInput
+            style={styles.quantityInput}
+            placeholder={mode === 'stock-take' ? `Counted ${baseUnit}` : `+/- ${baseUnit}`}
+            placeholderTextColor={Colors.textTertiary}
+            value={entries[itemId] || ''}
+            onChangeText={(text) => setEntries(prev => ({ ...prev, [itemId]: text }))}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+
+        {variance !== null && variance !== 0 && (
+          <View style={styles.varianceRow}>
+            <Text style={[styles.varianceText, { color: varianceColor }]}>
+              Variance: {variance > 0 ? '+' : ''}{variance.toLocaleString()} {baseUnit}
+            </Text>
+            <Text style={[styles.varianceText, { color: varianceColor }]}>
+              {variance > 0 ? '+' : '-'}₹{Math.abs(Math.round(variance * item.purchasePrice)).toLocaleString()}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Stock Adjustment</Text>
+          <Text style={styles.headerSubtitle}>
+            {mode === 'stock-take' ? 'Enter counted stock for each item' : 'Record damage, wastage or shrinkage'}
+          </Text>
+        </View>
+      </View>
+
+      <KeyboardAvoidingView style={styles.content} behavior={isAndroid ? undefined : 'padding'}>
+        {/* Mode */}
+        <View style={styles.selector}>
+          {(['adjustment', 'stock-take'] as AdjustmentMode[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, mode === option && styles.optionSelected]}
+              onPress={() => switchMode(option)}
+            >
+              <Text style={[styles.optionText, mode === option && styles.optionTextSelected]}>
+                {option === 'stock-take' ? 'Stock Take' : 'Adjustment'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Reason */}
+        {mode === 'adjustment' && (
+          <View style={styles.selector}>
+            {ADJUSTMENT_REASONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.option, reason === option && styles.optionSelected]}
+                onPress={() => setReason(option)}
+              >
+                <Text style={[styles.optionText, reason === option && styles.optionTextSelected]}>
+                  {STOCK_ADJUSTMENT_REASON_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <TextInput
+          style={styles.input}
+          placeholder="Note (optional)"
+          placeholderTextColor={Colors.textTertiary}
+          value={note}
+          onChangeText={setNote}
+        />
+
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={20} color={Colors.textTertiary} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search products..."
+            placeholderTextColor={Colors.textTertiary}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+            <Text style={styles.loadingText}>Loading Items...</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={filteredItems}
+            renderItem={renderItem}
+            keyExtractor={(item) => `stock-adjustment-${getItemId(item)}`}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+      </KeyboardAvoidingView>
+
+      {/* Summary */}
+      <View style={styles.footer}>
+        <View>
+          <Text style={styles.footerLabel}>{pendingAdjustments.length} item(s) to adjust</Text>
+          <Text style={[styles.footerValue, { color: totalVarianceValue >= 0 ? Colors.success : Colors.error }]}>
+            {totalVarianceValue < 0 ? '-' : ''}₹{Math.abs(Math.round(totalVarianceValue)).toLocaleString()}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.postButton, (posting || pendingAdjustments.length === 0) && styles.postButtonDisabled]}
+          onPress={handlePost}
+          disabled={posting}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+        >
+          {posting ? (
+            <ActivityIndicator size="small" color={Colors.text} />
+          ) : (
+            <Text style={styles.postButtonText}>Post Adjustments</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  optionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '20',
+  },
+  optionText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 12,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    marginBottom: 16,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  itemCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  quantityInput: {
+    width: 110,
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+    minHeight: 40,
+  },
+  varianceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  varianceText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  footerLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  footerValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  postButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  postButtonDisabled: {
+    opacity: 0.5,
+  },
+  postButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
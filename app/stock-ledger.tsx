@@ -0,0 +1,370 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Item, ItemsApiService } from '../utils/api';
+import { STOCK_MOVEMENT_LABELS, StockLedger, StockLedgerEntry } from '../utils/stockLedger';
+import { ItemValuation, StockLot, StockLots } from '../utils/stockLots';
+import { UnitConverter } from '../utils/unitConverter';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+export default function StockLedgerScreen() {
+  const { itemId } = useLocalSearchParams<{ itemId: string }>();
+  const [item, setItem] = useState<Item | null>(null);
+  const [entries, setEntries] = useState<StockLedgerEntry[]>([]);
+  const [openLots, setOpenLots] = useState<StockLot[]>([]);
+  const [valuation, setValuation] = useState<ItemValuation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (itemId) {
+      loadLedger();
+    } else {
+      Alert.alert('Error', 'No item ID received');
+    }
+  }, [itemId]);
+
+  const loadLedger = async () => {
+    if (!itemId) return;
+
+    try {
+      setLoading(true);
+      const foundItem = await ItemsApiService.getItemById(itemId);
+      setItem(foundItem);
+
+      const ledger = await StockLedger.getItemLedger(foundItem.productName, foundItem.openingStock, itemId, foundItem);
+      // Newest movement first
+      setEntries([...ledger].reverse());
+
+      const lots = await StockLots.getLots();
+      setOpenLots(lots.filter(lot => lot.itemName === foundItem.productName && lot.remaining > 0));
+      setValuation(StockLots.valueItem(foundItem, lots));
+    } catch (error) {
+      console.error('Error loading stock ledger:', error);
+      Alert.alert('Error', 'Failed to load stock ledger');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadLedger();
+    setRefreshing(false);
+  }, [itemId]);
+
+  const formatDate = (date: string) => {
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
+  };
+
+  const baseUnit = UnitConverter.getBaseUnit(item || undefined);
+
+  const LedgerRow = ({ entry }: { entry: StockLedgerEntry }) => {
+    const isInward = entry.quantity > 0;
+    const color = isInward ? Colors.success : Colors.error;
+
+    return (
+      <View style={styles.entryItem}>
+        <View style={styles.entryRow}>
+          <View style={styles.entryInfo}>
+            <Text style={styles.entryType}>{STOCK_MOVEMENT_LABELS[entry.type]}</Text>
+            <Text style={styles.entryMeta}>
+              {formatDate(entry.date)}{entry.reference ? ` • ${entry.reference}` : ''}
+            </Text>
+            {entry.note ? <Text style={styles.entryNote}>{entry.note}</Text> : null}
+          </View>
+          <View style={styles.entryQuantities}>
+            <Text style={[styles.entryQuantity, { color }]}>
+              {isInward ? '+' : '-'}{Math.abs(entry.quantity).toLocaleString()} {baseUnit}
+            </Text>
+            <Text style={styles.entryBalance}>
+              Bal: {UnitConverter.formatPacks(item || undefined, entry.balancePacks)} ({entry.balance.toLocaleString()} {baseUnit})
+            </Text>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderHeader = (title: string, subtitle?: string) => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={isAndroid ? 0.7 : 0.2}
+        {...(isAndroid && {
+          android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+        })}
+      >
+        <Ionicons name="arrow-back" size={24} color={Colors.text} />
+      </TouchableOpacity>
+      <View style={styles.headerContent}>
+        <Text style={styles.headerTitle}>{title}</Text>
+        {subtitle ? <Text style={styles.headerSubtitle}>{subtitle}</Text> : null}
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader('Loading...')}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+          <Text style={styles.loadingText}>Loading stock ledger...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!item) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader('Item Not Found')}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader(item.productName, 'Stock Ledger')}
+
+      {/* Current Stock */}
+      <View style={styles.stockInfoContainer}>
+        <Text style={styles.stockLabel}>Current Stock</Text>
+        <Text style={styles.stockAmount}>{UnitConverter.formatPacks(item, item.openingStock)}</Text>
+        <Text style={styles.stockUnit}>({UnitConverter.packsToBase(item, item.openingStock).toLocaleString()} {UnitConverter.getBaseUnit(item)})</Text>
+        {valuation && (
+          <Text style={styles.stockValue}>
+            Value: ₹{Math.round(valuation.value).toLocaleString()}
+            {valuation.lotQuantity < valuation.quantity ? ' (part at purchase price)' : ' (FIFO lot cost)'}
+          </Text>
+        )}
+        {openLots.map(lot => (
+          <Text key={lot.id} style={styles.lotText}>
+            {lot.billNo || 'Lot'} • {formatDate(lot.date)} • {lot.remaining.toLocaleString()} {baseUnit} @ ₹{lot.rate}
+          </Text>
+        ))}
+      </View>
+
+      {/* Movements List */}
+      <View style={styles.entriesContainer}>
+        <Text style={styles.sectionTitle}>Stock Movements ({entries.length})</Text>
+
+        {entries.length > 0 ? (
+          <FlatList
+            data={entries}
+            renderItem={({ item: entry }) => <LedgerRow entry={entry} />}
+            keyExtractor={(entry) => `stock-movement-${entry.id}`}
+            showsVerticalScrollIndicator={false}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                colors={[Colors.primary]} // Android
+                tintColor={Colors.primary} // iOS
+              />
+            }
+          />
+        ) : (
+          <View style={styles.emptyState}>
+            <Ionicons name="swap-vertical-outline" size={64} color={Colors.textTertiary} />
+            <Text style={styles.emptyStateTitle}>No Movements</Text>
+            <Text style={styles.emptyStateSubtitle}>
+              Stock movements for this item will appear here.
+            </Text>
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  stockInfoContainer: {
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: Colors.surface,
+    marginBottom: 20,
+  },
+  stockLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  stockAmount: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  stockUnit: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  stockValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginTop: 8,
+  },
+  lotText: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  entriesContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 16,
+  },
+  entryItem: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  entryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  entryInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  entryType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  entryNote: {
+    fontSize: 12,
+    color: Colors.textTertiary,
+    marginTop: 2,
+  },
+  entryQuantities: {
+    alignItems: 'flex-end',
+  },
+  entryQuantity: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtitle: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,324 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Colors } from '../constants/Colors';
+import { syncOfflineQueue } from '../utils/api';
+import { OfflineStore, PendingMutation } from '../utils/offlineStore';
+
+// Android-specific utilities
+const isAndroid = Platform.OS === 'android';
+
+// Android-specific constants
+const ANDROID_CONSTANTS = {
+  statusBarHeight: isAndroid ? StatusBar.currentHeight || 24 : 0,
+  touchTargetMinSize: 48, // Android Material Design minimum touch target
+  elevation: {
+    low: isAndroid ? 2 : 0,
+  },
+  rippleColor: isAndroid ? 'rgba(0, 0, 0, 0.1)' : undefined,
+};
+
+const RESOURCE_LABELS: Record<string, string> = {
+  'sales': 'sale invoice',
+  'credit-notes': 'credit note',
+  'quotations': 'quotation',
+  'sales-orders': 'sales order',
+  'delivery-challans': 'delivery challan',
+  'purchases': 'purchase bill',
+  'debit-notes': 'debit note',
+  'payments': 'payment',
+  'parties': 'party',
+  'items': 'item',
+};
+
+const METHOD_LABELS: Record<PendingMutation['method'], string> = {
+  POST: 'New',
+  PUT: 'Edited',
+  DELETE: 'Deleted',
+};
+
+// What the user entered, e.g. "New sale invoice • Shah & Sons • ₹1,200"
+const describeMutation = (mutation: PendingMutation): string => {
+  let body: Record<string, any> = {};
+  try {
+    body = mutation.body ? JSON.parse(mutation.body) : {};
+  } catch {
+    body = {};
+  }
+
+  const resource = RESOURCE_LABELS[mutation.resource] || mutation.resource;
+  const name = body.partyName || body.name || body.itemName;
+  const amount = body.totalAmount ?? body.amount;
+  return [
+    `${METHOD_LABELS[mutation.method]} ${resource}`,
+    name,
+    typeof amount === 'number' ? `₹${amount.toLocaleString()}` : undefined,
+  ].filter(Boolean).join(' • ');
+};
+
+export default function SyncIssuesScreen() {
+  const [mutations, setMutations] = useState<PendingMutation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadMutations = async () => {
+    try {
+      setMutations(await OfflineStore.getFailedMutations());
+    } catch (error) {
+      console.error('Error loading failed offline changes:', error);
+      Alert.alert('Error', 'Failed to load changes that did not sync');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadMutations();
+    }, [])
+  );
+
+  const handleRetry = async (mutation: PendingMutation) => {
+    try {
+      setBusyId(mutation.id);
+      await OfflineStore.retryMutation(mutation.id);
+      await syncOfflineQueue();
+
+      const stillFailed = (await OfflineStore.getFailedMutations()).find(entry => entry.id === mutation.id);
+      const stillQueued = (await OfflineStore.getQueue()).some(entry => entry.id === mutation.id);
+      if (stillFailed) {
+        Alert.alert('Error', `The server rejected this change again: ${stillFailed.error || 'unknown error'}`);
+      } else if (stillQueued) {
+        Alert.alert('Offline', 'The server cannot be reached. The change will sync when you are back online.');
+      } else {
+        Alert.alert('Success', 'Change synced');
+      }
+    } catch (error) {
+      console.error('Error retrying offline change:', error);
+      Alert.alert('Error', 'Failed to retry the change. Please try again.');
+    } finally {
+      setBusyId(null);
+      await loadMutations();
+    }
+  };
+
+  const handleDiscard = (mutation: PendingMutation) => {
+    Alert.alert(
+      'Discard Change',
+      `${describeMutation(mutation)} will be removed from this device and never reach the server. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await OfflineStore.discardMutation(mutation.id);
+            } catch (error) {
+              console.error('Error discarding offline change:', error);
+              Alert.alert('Error', 'Failed to discard the change. Please try again.');
+            } finally {
+              await loadMutations();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMutation = ({ item }: { item: PendingMutation }) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{describeMutation(item)}</Text>
+      <Text style={styles.cardMeta}>
+        Entered {new Date(item.createdAt).toLocaleString('en-IN')}
+      </Text>
+      <Text style={styles.cardError}>{item.error || 'Rejected by the server'}</Text>
+      <View style={styles.cardActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.discardButton]}
+          onPress={() => handleDiscard(item)}
+          disabled={busyId !== null}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+        >
+          <Ionicons name="trash-outline" size={18} color={Colors.error} />
+          <Text style={[styles.actionText, { color: Colors.error }]}>Discard</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.retryButton]}
+          onPress={() => handleRetry(item)}
+          disabled={busyId !== null}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+        >
+          {busyId === item.id ? (
+            <ActivityIndicator size="small" color={Colors.text} />
+          ) : (
+            <>
+              <Ionicons name="refresh-outline" size={18} color={Colors.text} />
+              <Text style={styles.actionText}>Retry</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={isAndroid ? 0.7 : 0.2}
+          {...(isAndroid && {
+            android_ripple: { color: ANDROID_CONSTANTS.rippleColor },
+          })}
+        >
+          <Ionicons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Sync Issues</Text>
+          <Text style={styles.headerSubtitle}>Offline changes the server rejected</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={mutations}
+          keyExtractor={item => item.id}
+          renderItem={renderMutation}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="cloud-done-outline" size={64} color={Colors.success} />
+              <Text style={styles.emptyText}>All offline changes have synced</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: isAndroid ? 60 : 20,
+    backgroundColor: Colors.surface,
+    ...(isAndroid && {
+      elevation: ANDROID_CONSTANTS.elevation.low,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.22,
+      shadowRadius: 2.22,
+    }),
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 12,
+    minWidth: ANDROID_CONSTANTS.touchTargetMinSize,
+    minHeight: ANDROID_CONSTANTS.touchTargetMinSize,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.text,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  list: {
+    padding: 20,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.error,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: Colors.textTertiary,
+    marginTop: 4,
+  },
+  cardError: {
+    fontSize: 14,
+    color: Colors.error,
+    marginTop: 8,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    minHeight: 40,
+  },
+  discardButton: {
+    borderWidth: 1,
+    borderColor: Colors.error,
+  },
+  retryButton: {
+    backgroundColor: Colors.primary,
+    minWidth: 96,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 80,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { PAYMENT_STATUS_LABELS, PaymentStatus } from '../utils/paymentAllocation';
+
+interface PaymentStatusBadgeProps {
+  status: PaymentStatus;
+  dueAmount?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+const STATUS_COLORS: Record<PaymentStatus, string> = {
+  unpaid: Colors.textSecondary,
+  partial: Colors.warning,
+  paid: Colors.success,
+  overdue: Colors.error,
+};
+
+export default function PaymentStatusBadge({ status, dueAmount, style }: PaymentStatusBadgeProps) {
+  const color = STATUS_COLORS[status];
+
+  return (
+    <View style={[styles.badge, { borderColor: color, backgroundColor: color + '15' }, style]}>
+      <Text style={[styles.badgeText, { color }]}>
+        {PAYMENT_STATUS_LABELS[status]}
+        {status !== 'paid' && dueAmount ? ` • Due ₹${Math.round(dueAmount).toLocaleString()}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
+});
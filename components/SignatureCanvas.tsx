@@ -19,7 +19,8 @@ const { width } = Dimensions.get('window');
 export default function SignatureCanvas({ onSave, onCancel }: SignatureCanvasProps) {
   const [paths, setPaths] = useState<Array<{ x: number; y: number }[]>>([]);
   const [currentPath, setCurrentPath] = useState<Array<{ x: number; y: number }>>([]);
-  const [isDrawing, setIsDrawing] = useState(false);
+  // Stroke being drawn; the responder is created once, so it cannot read state
+  const strokeRef = useRef<{ x: number; y: number }[]>([]);
 
   const panResponder = useRef(
     PanResponder.create({
@@ -27,18 +28,20 @@ export default function SignatureCanvas({ onSave, onCancel }: SignatureCanvasPro
       onMoveShouldSetPanResponder: () => true,
       onPanResponderGrant: (evt) => {
         const { locationX, locationY } = evt.nativeEvent;
-        setIsDrawing(true);
-        setCurrentPath([{ x: locationX, y: locationY }]);
+        strokeRef.current = [{ x: locationX, y: locationY }];
+        setCurrentPath(strokeRef.current);
       },
       onPanResponderMove: (evt) => {
-        if (isDrawing) {
-          const { locationX, locationY } = evt.nativeEvent;
-          setCurrentPath(prev => [...prev, { x: locationX, y: locationY }]);
-        }
+        const { locationX, locationY } = evt.nativeEvent;
+        strokeRef.current = [...strokeRef.current, { x: locationX, y: locationY }];
+        setCurrentPath(strokeRef.current);
       },
       onPanResponderRelease: () => {
-        setIsDrawing(false);
-        setPaths(prev => [...prev, currentPath]);
+        const stroke = strokeRef.current;
+        if (stroke.length > 0) {
+          setPaths(prev => [...prev, stroke]);
+        }
+        strokeRef.current = [];
         setCurrentPath([]);
       },
     })
@@ -4,7 +4,7 @@ export const Messages = {
     INVOICE_CREATED: 'Invoice created successfully!',
     INVOICE_UPDATED: 'Invoice updated successfully! Stock levels have been updated.',
     PURCHASE_BILL_CREATED: 'Purchase bill created successfully!',
-    PURCHASE_BILL_UPDATED: 'Purchase bill updated successfully!',
+    PURCHASE_BILL_UPDATED: 'Purchase bill updated successfully! Stock levels have been updated.',
     PAYMENT_RECORDED: 'Payment recorded successfully!',
     PAYMENT_UPDATED: 'Payment updated successfully!',
     PAYMENT_DELETED: 'Payment deleted successfully!',
@@ -13,6 +13,7 @@ export const Messages = {
     TRANSACTION_DELETED: 'Transaction deleted successfully!',
     ITEMS_ADDED: 'Items have been added to your bill.',
     COMPANY_DETAILS_SAVED: 'Company details saved successfully!',
+    STOCK_ADJUSTMENTS_POSTED: 'Stock adjustments posted successfully!',
   },
 
   // Error messages
@@ -46,6 +47,12 @@ export const Messages = {
     FAILED_TO_DELETE_TRANSACTION: 'Failed to delete transaction. Please try again.',
     FAILED_TO_ADD_ITEMS: 'Failed to add items. Please try again.',
     FAILED_TO_SAVE_COMPANY_DETAILS: 'Failed to save company details. Please try again.',
+    INVALID_GSTIN: 'Please enter a valid 15 character GSTIN',
+    INVALID_PARTY_GSTIN: 'Party GSTIN is not valid. Check the 15 characters and the state code, or leave it blank for an unregistered party.',
+    NO_STOCK_ADJUSTMENTS: 'Enter a quantity for at least one item',
+    FAILED_TO_POST_STOCK_ADJUSTMENTS: 'Failed to post stock adjustments. Please try again.',
+    STOCK_UPDATE_RETRY: 'Retry now, or correct the stock later from Stock Adjustment.',
+    STOCK_UPDATE_ADJUST: 'Correct the stock from Stock Adjustment.',
   },
 
   // Confirmation messages
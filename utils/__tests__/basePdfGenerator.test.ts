@@ -0,0 +1,91 @@
+import { CompanyDetails } from '../api';
+import { BasePdfGenerator } from '../basePdfGenerator';
+import { InvoiceTemplates } from '../invoiceTemplates';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Typed into a party or item name; must print as text, never run or break out of an attribute
+const PARTY_NAME = '<script>alert("party")</script> "Shah" & Sons';
+const ITEM_NAME = '<script>alert("item")</script> 25" pipe';
+
+const company = { businessName: 'Shah Traders', phoneNumber1: '9876543210' } as CompanyDetails;
+
+const item = { id: 'line-1', itemName: ITEM_NAME, quantity: 2, rate: 500, total: 1000, gstRate: 18 };
+
+const taxDocument = {
+  id: 'doc-1',
+  partyName: PARTY_NAME,
+  phoneNumber: '9123456789',
+  items: [item],
+  totalAmount: 1180,
+  date: '05/04/2025',
+  taxableAmount: 1000,
+  cgstAmount: 90,
+  sgstAmount: 90,
+  totalTax: 180,
+};
+
+const expectEscaped = (output: string, ...names: string[]) => {
+  expect(output).not.toContain('<script>');
+  expect(output).not.toMatch(/alert\("/);
+  names.forEach(name => {
+    expect(output).toContain(name.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;'));
+  });
+};
+
+describe('BasePdfGenerator HTML', () => {
+  it.each(InvoiceTemplates.list().map(template => [template.id]))('escapes party and item names on the %s invoice', templateId => {
+    const output = BasePdfGenerator.buildInvoiceHTML(
+      { ...taxDocument, invoiceNo: '12' },
+      { ...company, invoiceTemplate: templateId }
+    );
+
+    expectEscaped(output, PARTY_NAME, ITEM_NAME);
+  });
+
+  it.each([
+    ['quotation', () => BasePdfGenerator.buildQuotationHTML({ ...taxDocument, quotationNo: '3', validUntil: '2025-04-20T00:00:00.000Z' }, company)],
+    ['credit note', () => BasePdfGenerator.buildCreditNoteHTML({ ...taxDocument, creditNoteNo: '4', invoiceNo: '12' }, company)],
+    ['debit note', () => BasePdfGenerator.buildDebitNoteHTML({ ...taxDocument, debitNoteNo: '5', billNo: '7' }, company)],
+    ['purchase bill', () => BasePdfGenerator.buildPurchaseBillHTML({ ...taxDocument, billNo: '7' }, company)],
+  ])('escapes party and item names on the %s', (_label, build) => {
+    expectEscaped(build(), PARTY_NAME, ITEM_NAME);
+  });
+
+  it.each([
+    ['payment receipt', () => BasePdfGenerator.buildPaymentInHTML({ id: 'pay-1', paymentNo: '8', partyName: PARTY_NAME, phoneNumber: '', received: 500, totalAmount: 500, date: '05/04/2025' }, company)],
+    ['payment voucher', () => BasePdfGenerator.buildPaymentOutHTML({ id: 'pay-2', paymentNo: '9', partyName: PARTY_NAME, phoneNumber: '', paid: 500, totalAmount: 500, date: '05/04/2025' }, company)],
+    ['party statement', () => BasePdfGenerator.buildPartyStatementHTML({
+      partyName: PARTY_NAME,
+      phoneNumber: '9123456789',
+      openingBalance: 0,
+      entries: [{ id: 'doc-1', partyId: 'party-1', type: 'invoice', amount: 1180, date: '05/04/2025', reference: '12', debit: 1180, credit: 0, balance: 1180 }],
+      totalDebit: 1180,
+      totalCredit: 0,
+      closingBalance: 1180,
+    }, company)],
+  ])('escapes the party name on the %s', (_label, build) => {
+    expectEscaped(build(), PARTY_NAME);
+  });
+
+  it('escapes item names on the profit and loss report', () => {
+    const row = { name: ITEM_NAME, quantity: 2, revenue: 1000, cost: 800, margin: 200, marginPercent: 20 };
+    const output = BasePdfGenerator.buildProfitLossHTML({
+      startDate: '2025-04-01',
+      endDate: '2025-04-30',
+      invoiceCount: 1,
+      billCount: 1,
+      revenue: 1000,
+      costOfGoodsSold: 800,
+      grossMargin: 200,
+      grossMarginPercent: 20,
+      purchases: 800,
+      byItem: [row],
+      byCategory: [{ ...row, name: 'Pipes' }],
+    }, company);
+
+    expectEscaped(output, ITEM_NAME);
+  });
+});
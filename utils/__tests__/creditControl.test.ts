@@ -0,0 +1,66 @@
+import { Party } from '../api';
+import { CreditControl } from '../creditControl';
+import { OpenDocument } from '../paymentAllocation';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const party: Party = { id: 'party-1', name: 'Shah Traders', phoneNumber: '9876543210', balance: 0, creditLimit: 50000, creditDays: 30 };
+
+// 15 May 2025
+const asOfDate = new Date(2025, 4, 15);
+
+const openInvoice = (id: string, dueAmount: number, dates: { date: string; createdAt?: string }): OpenDocument => ({
+  id,
+  documentNo: id,
+  partyId: party.id,
+  partyName: party.name,
+  phoneNumber: party.phoneNumber,
+  totalAmount: dueAmount,
+  documentId: id,
+  paidAmount: 0,
+  dueAmount,
+  dueDate: '',
+  status: 'unpaid',
+  ...dates,
+});
+
+describe('CreditControl.evaluate', () => {
+  it('reads day-first invoice dates when deciding what is overdue', () => {
+    const status = CreditControl.evaluate(party, 20000, [
+      openInvoice('1', 8000, { date: '25/03/2025' }), // 51 days old
+      openInvoice('2', 5000, { date: '01/04/2025' }), // 44 days old
+      openInvoice('3', 7000, { date: '10/05/2025' }), // 5 days old, within the credit period
+    ], asOfDate);
+
+    expect(status.reasons).toEqual(['overdue']);
+    expect(status).toMatchObject({ overdueCount: 2, overdueAmount: 13000, oldestOverdueDays: 21 });
+  });
+
+  it('ages an invoice by its creation time when it has one', () => {
+    const status = CreditControl.evaluate(party, 8000, [
+      openInvoice('1', 8000, { date: '5/4/2025', createdAt: new Date(2025, 3, 5).toISOString() }),
+    ], asOfDate);
+
+    expect(status).toMatchObject({ reasons: ['overdue'], oldestOverdueDays: 10 });
+  });
+
+  it('does not treat an unreadable date as overdue', () => {
+    const status = CreditControl.evaluate(party, 8000, [openInvoice('1', 8000, { date: 'not a date' })], asOfDate);
+
+    expect(status.reasons).toEqual([]);
+  });
+
+  it('puts the party on hold when the balance goes over its limit', () => {
+    expect(CreditControl.evaluate(party, 60000, [], asOfDate).reasons).toEqual(['over-limit']);
+    expect(CreditControl.evaluate(party, 50000, [], asOfDate).reasons).toEqual([]);
+    expect(CreditControl.evaluate({ ...party, creditLimit: 0 }, 60000, [], asOfDate).reasons).toEqual([]);
+  });
+
+  it('reports both reasons together', () => {
+    const status = CreditControl.evaluate(party, 60000, [openInvoice('1', 8000, { date: '25/03/2025' })], asOfDate);
+
+    expect(status.reasons).toEqual(['over-limit', 'overdue']);
+  });
+});
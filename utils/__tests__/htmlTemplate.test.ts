@@ -0,0 +1,39 @@
+import { escapeHtml, html, raw, SafeHtml } from '../htmlTemplate';
+
+describe('escapeHtml', () => {
+  it('escapes markup and quote characters', () => {
+    expect(escapeHtml(`<b title="x">Shah & Sons's</b>`))
+      .toBe('&lt;b title=&quot;x&quot;&gt;Shah &amp; Sons&#39;s&lt;/b&gt;');
+  });
+
+  it('prints null and undefined as nothing and other values as text', () => {
+    expect(escapeHtml(null)).toBe('');
+    expect(escapeHtml(undefined)).toBe('');
+    expect(escapeHtml(0)).toBe('0');
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated text but not the template itself', () => {
+    const name = '<script>alert("x")</script>';
+
+    expect(html`<td class="name">${name}</td>`.toString())
+      .toBe('<td class="name">&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</td>');
+  });
+
+  it('keeps nested templates and raw markup as they are', () => {
+    const rows = ['Rice', 'Dal & Oil'].map(item => html`<tr><td>${item}</td></tr>`);
+    const result = html`<style>${raw('td > b { color: red; }')}</style><table>${rows}</table>`;
+
+    expect(result).toBeInstanceOf(SafeHtml);
+    expect(result.toString()).toBe(
+      '<style>td > b { color: red; }</style><table><tr><td>Rice</td></tr><tr><td>Dal &amp; Oil</td></tr></table>'
+    );
+  });
+
+  it('prints nothing for null, undefined and booleans so conditions can be inlined', () => {
+    const gstin: string | undefined = undefined;
+
+    expect(html`<p>${gstin}${false}${null}${true && 'GST'}</p>`.toString()).toBe('<p>GST</p>');
+  });
+});
@@ -0,0 +1,24 @@
+import { CompanyDetails } from '../api';
+import { DEFAULT_ACCENT_COLOR, InvoiceTemplates } from '../invoiceTemplates';
+
+const company = (invoiceAccentColor?: string) => ({ businessName: 'Shah Traders', invoiceAccentColor }) as CompanyDetails;
+
+describe('InvoiceTemplates.getAccentColor', () => {
+  it('uses a valid #rrggbb colour from company details', () => {
+    expect(InvoiceTemplates.getAccentColor(company(' #0EA5E9 '))).toBe('#0EA5E9');
+  });
+
+  it.each([
+    ['not set', undefined],
+    ['short hex', '#fff'],
+    ['named colour', 'red'],
+    ['CSS injection', '#000000; background: url(x)'],
+    ['closing the style tag', '</style><script>alert(1)</script>'],
+  ])('falls back to the default for %s', (_label, color) => {
+    expect(InvoiceTemplates.getAccentColor(company(color))).toBe(DEFAULT_ACCENT_COLOR);
+  });
+
+  it('falls back to the default without company details', () => {
+    expect(InvoiceTemplates.getAccentColor(null)).toBe(DEFAULT_ACCENT_COLOR);
+  });
+});
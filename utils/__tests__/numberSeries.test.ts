@@ -0,0 +1,45 @@
+import { DEFAULT_NUMBER_SERIES, NumberSeries } from '../numberSeries';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const yearlySeries = { ...DEFAULT_NUMBER_SERIES, resetEachYear: true };
+
+// 5 April 2025, the first week of FY 25-26
+const newInvoiceDate = new Date(2025, 3, 5);
+
+describe('NumberSeries.getNextNumber', () => {
+  it('restarts the series when the only invoice was created in the previous financial year', () => {
+    const next = NumberSeries.getNextNumber(
+      yearlySeries,
+      [{ number: '7', date: 'not a date', createdAt: new Date(2025, 2, 20).toISOString() }],
+      newInvoiceDate
+    );
+
+    expect(next).toBe('1');
+  });
+
+  it('continues from invoices created in the current financial year', () => {
+    const next = NumberSeries.getNextNumber(
+      yearlySeries,
+      [
+        { number: '7', date: 'not a date', createdAt: new Date(2025, 2, 20).toISOString() },
+        { number: '2', date: 'not a date', createdAt: new Date(2025, 3, 2).toISOString() },
+      ],
+      newInvoiceDate
+    );
+
+    expect(next).toBe('3');
+  });
+
+  it('keeps counting across years when the series does not reset', () => {
+    const next = NumberSeries.getNextNumber(
+      DEFAULT_NUMBER_SERIES,
+      [{ number: '7', date: 'not a date', createdAt: new Date(2025, 2, 20).toISOString() }],
+      newInvoiceDate
+    );
+
+    expect(next).toBe('8');
+  });
+});
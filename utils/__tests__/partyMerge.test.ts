@@ -0,0 +1,112 @@
+import { PartyMerge } from '../partyMerge';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// In-memory backend: each resource is a list of records with a partyId
+const mockDb: Record<string, any[]> = {};
+
+jest.mock('../api', () => {
+  const list = (resource: string) => async () => mockDb[resource];
+  const update = (resource: string) => async (id: string, changes: object) => {
+    const record = mockDb[resource].find(entry => entry.id === id);
+    Object.assign(record, changes);
+    return record;
+  };
+
+  return {
+    PartyApiService: {
+      getParties: list('parties'),
+      updateParty: update('parties'),
+      deleteParty: jest.fn(async (id: string) => {
+        mockDb.parties = mockDb.parties.filter(party => party.id !== id);
+      }),
+    },
+    SaleApiService: { getSales: list('sales'), updateSale: update('sales') },
+    CreditNoteApiService: { getCreditNotes: list('creditNotes'), updateCreditNote: jest.fn(update('creditNotes')) },
+    QuotationApiService: { getQuotations: list('quotations'), updateQuotation: update('quotations') },
+    SalesOrderApiService: { getSalesOrders: list('salesOrders'), updateSalesOrder: update('salesOrders') },
+    DeliveryChallanApiService: { getDeliveryChallans: list('challans'), updateDeliveryChallan: update('challans') },
+    PurchaseApiService: { getPurchases: list('purchases'), updatePurchase: update('purchases') },
+    DebitNoteApiService: { getDebitNotes: list('debitNotes'), updateDebitNote: update('debitNotes') },
+    PaymentApiService: { getPayments: list('payments'), updatePayment: update('payments') },
+  };
+});
+
+const { CreditNoteApiService, PartyApiService } = jest.requireMock('../api');
+
+const survivor = { id: 'party-1', name: 'Shah Traders', phoneNumber: '9876543210', balance: 0 };
+const duplicate = { id: 'party-2', name: 'Shah Traders', phoneNumber: '', balance: 0 };
+
+const creditNote = (id: string, partyId: string) => ({
+  id,
+  creditNoteNo: id,
+  invoiceId: 'sale-1',
+  invoiceNo: '1',
+  partyId,
+  partyName: 'Shah Traders',
+  phoneNumber: '',
+  items: [],
+  totalAmount: 500,
+  date: '01/04/2025',
+});
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+  Object.assign(mockDb, {
+    parties: [{ ...survivor }, { ...duplicate }],
+    sales: [{ id: 'sale-1', invoiceNo: '1', partyId: 'party-1', partyName: 'Shah Traders', phoneNumber: '9876543210', items: [], totalAmount: 1000, date: '01/04/2025' }],
+    creditNotes: [creditNote('cn-1', 'party-2')],
+    quotations: [],
+    salesOrders: [],
+    challans: [],
+    purchases: [],
+    debitNotes: [],
+    payments: [],
+  });
+});
+
+const mergeDuplicate = async () => {
+  const [group] = await PartyMerge.findDuplicates();
+  const survivorEntry = group.parties.find(member => member.party.id === survivor.id)!;
+  const duplicates = group.parties.filter(member => member.party.id !== survivor.id);
+  return PartyMerge.mergeParties(survivorEntry.party, duplicates);
+};
+
+describe('PartyMerge.mergeParties', () => {
+  it('moves a credit note of the duplicate to the survivor before deleting the duplicate', async () => {
+    const result = await mergeDuplicate();
+
+    expect(CreditNoteApiService.updateCreditNote).toHaveBeenCalledWith('cn-1', { partyId: 'party-1' });
+    expect(mockDb.creditNotes[0].partyId).toBe('party-1');
+    expect(PartyApiService.deleteParty).toHaveBeenCalledWith('party-2');
+    expect(result).toMatchObject({ recordsMoved: 1, failed: 0, partiesRemoved: 1 });
+  });
+
+  it('keeps the duplicate when its credit note cannot be moved', async () => {
+    CreditNoteApiService.updateCreditNote.mockRejectedValueOnce(new Error('Network request failed'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await mergeDuplicate();
+
+    expect(PartyApiService.deleteParty).not.toHaveBeenCalled();
+    expect(mockDb.creditNotes[0].partyId).toBe('party-2');
+    expect(result).toMatchObject({ recordsMoved: 0, failed: 1, partiesRemoved: 0 });
+  });
+
+  it('keeps the duplicate when a credit note saved after the review still points at it', async () => {
+    const [group] = await PartyMerge.findDuplicates();
+    mockDb.creditNotes.push(creditNote('cn-2', 'party-2'));
+
+    const survivorEntry = group.parties.find(member => member.party.id === survivor.id)!;
+    const result = await PartyMerge.mergeParties(
+      survivorEntry.party,
+      group.parties.filter(member => member.party.id !== survivor.id)
+    );
+
+    expect(PartyApiService.deleteParty).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ recordsMoved: 1, failed: 1, partiesRemoved: 0 });
+  });
+});
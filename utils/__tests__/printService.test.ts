@@ -0,0 +1,40 @@
+import { CompanyDetails } from '../api';
+import { PRINT_PAGE_SIZE_LABELS, PrintDocument, PrintPageSize, PrintService } from '../printService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const PARTY_NAME = '<script>alert("party")</script> "Shah" & Sons';
+const ITEM_NAME = '<script>alert("item")</script> 25" pipe';
+
+const company = { businessName: 'Shah Traders', phoneNumber1: '9876543210' } as CompanyDetails;
+
+const document: PrintDocument = {
+  type: 'sale',
+  title: 'TAX INVOICE',
+  number: 'INV-12',
+  date: '05/04/2025',
+  partyLabel: 'Bill To',
+  partyName: PARTY_NAME,
+  phoneNumber: '9123456789',
+  lines: [{ name: ITEM_NAME, quantity: '2 pcs', rate: 500, gstRate: 18, amount: 1000 }],
+  taxableAmount: 1000,
+  cgstAmount: 90,
+  sgstAmount: 90,
+  totalAmount: 1180,
+  notes: [],
+};
+
+const escaped = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+describe('PrintService.buildHTML', () => {
+  it.each(Object.keys(PRINT_PAGE_SIZE_LABELS))('escapes party and item names on %s', pageSize => {
+    const output = PrintService.buildHTML(document, company, pageSize as PrintPageSize);
+
+    expect(output).not.toContain('<script>');
+    expect(output).not.toMatch(/alert\("/);
+    expect(output).toContain(escaped(PARTY_NAME));
+    expect(output).toContain(escaped(ITEM_NAME));
+  });
+});
@@ -0,0 +1,28 @@
+import { ReturnNotes } from '../returnNotes';
+
+const invoice = {
+  isInterState: false,
+  items: [
+    { id: 'line-1', itemName: 'Rice 25kg', quantity: 10, rate: 1000, total: 10000, gstRate: 5 },
+    { id: 'line-2', itemName: 'Sugar 50kg', quantity: 4, rate: 2000, total: 8000, gstRate: 5 },
+  ],
+};
+
+const earlierNote = { items: [{ ...invoice.items[0], quantity: 3, total: 3000 }] };
+
+describe('ReturnNotes', () => {
+  it('leaves only what earlier notes have not returned', () => {
+    const lines = ReturnNotes.getReturnableLines(invoice, [earlierNote]);
+
+    expect(lines.map(line => line.returnableQuantity)).toEqual([7, 4]);
+    expect(() => ReturnNotes.checkQuantities(lines, { 'line-1': 8 })).toThrow('Only 7 of Rice 25kg can be returned');
+    expect(() => ReturnNotes.checkQuantities(lines, { 'line-1': 7, 'line-2': 4 })).not.toThrow();
+  });
+
+  it('prices and taxes returned lines as on the invoice', () => {
+    const note = ReturnNotes.buildReturnNote(invoice, { 'line-2': 1 });
+
+    expect(note.items).toHaveLength(1);
+    expect(note).toMatchObject({ taxableAmount: 2000, cgstAmount: 50, sgstAmount: 50, igstAmount: 0, totalAmount: 2100 });
+  });
+});
@@ -0,0 +1,137 @@
+import { PartyApiService, PaymentApiService, PurchaseApiService, SaleApiService } from './api';
+import { PartyManager } from './partyManager';
+import { PaymentAllocations } from './paymentAllocation';
+
+export type AgeingKind = 'receivables' | 'payables';
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string; maxDays: number }[] = [
+  { key: '0-30', label: '0–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+];
+
+// Invoice or bill with the amount left after payments were allocated to it
+export interface AgeingDocument {
+  id: string;
+  reference: string;
+  date: string;
+  amount: number;
+  outstanding: number;
+  ageDays: number;
+  bucket: AgeingBucket;
+}
+
+// Outstanding amounts of one party split by age
+export interface AgeingRow {
+  partyName: string;
+  phoneNumber: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  oldestDays: number; // age of the oldest unpaid document
+  documents: AgeingDocument[];
+}
+
+export interface AgeingReportData {
+  kind: AgeingKind;
+  asOfDate: string;
+  rows: AgeingRow[];
+  totals: Record<AgeingBucket, number>;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): Record<AgeingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export class AgeingReport {
+  /**
+   * Get the bucket a document falls in by its age in days
+   */
+  static getBucket(ageDays: number): AgeingBucket {
+    return (AGEING_BUCKETS.find(bucket => ageDays <= bucket.maxDays) || AGEING_BUCKETS[AGEING_BUCKETS.length - 1]).key;
+  }
+
+  /**
+   * Build the ageing report. Payments count against the invoices or bills they
+   * were allocated to, and any unallocated remainder against the party's
+   * oldest documents: payments-in for receivables, payments-out for payables.
+   * @param kind - Receivables or payables
+   * @param asOfDate - Date ages are measured from (defaults to today)
+   */
+  static async build(kind: AgeingKind, asOfDate: Date = new Date()): Promise<AgeingReportData> {
+    const [documents, payments, parties] = await Promise.all([
+      kind === 'receivables'
+        ? SaleApiService.getSales().then(sales => sales.map(sale => PaymentAllocations.fromSale(sale)))
+        : PurchaseApiService.getPurchases().then(purchases => purchases.map(bill => PaymentAllocations.fromPurchase(bill))),
+      PaymentApiService.getPayments({ type: kind === 'receivables' ? 'payment-in' : 'payment-out' }),
+      PartyApiService.getParties(),
+    ]);
+    const statuses = PaymentAllocations.computeStatuses(documents, payments, parties, asOfDate);
+    const getPartyKey = PartyManager.createPartyKeyResolver(parties);
+
+    // Group open documents by party, oldest first
+    const asOf = asOfDate.getTime();
+    const partyRows = new Map<string, { partyName: string; phoneNumber: string; documents: AgeingDocument[] }>();
+    [...documents]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .forEach(document => {
+        const outstanding = statuses.get(document.id)?.dueAmount || 0;
+        if (outstanding <= 0) return;
+
+        const key = getPartyKey(document);
+        if (!partyRows.has(key)) {
+          partyRows.set(key, { partyName: document.partyName, phoneNumber: document.phoneNumber, documents: [] });
+        }
+        const ageDays = Math.max(0, Math.floor((asOf - new Date(document.date).getTime()) / DAY_MS));
+        partyRows.get(key)!.documents.push({
+          id: document.id,
+          reference: document.documentNo,
+          date: document.date,
+          amount: document.totalAmount,
+          outstanding,
+          ageDays,
+          bucket: this.getBucket(ageDays),
+        });
+      });
+
+    const rows: AgeingRow[] = [];
+    partyRows.forEach(party => {
+      const buckets = emptyBuckets();
+      party.documents.forEach(document => {
+        buckets[document.bucket] = round(buckets[document.bucket] + document.outstanding);
+      });
+
+      rows.push({
+        partyName: party.partyName,
+        phoneNumber: party.phoneNumber,
+        buckets,
+        total: round(party.documents.reduce((sum, document) => sum + document.outstanding, 0)),
+        oldestDays: party.documents[0].ageDays,
+        documents: party.documents,
+      });
+    });
+
+    // Most overdue first, larger balances first within the same age
+    rows.sort((a, b) => b.oldestDays - a.oldestDays || b.total - a.total);
+
+    const totals = emptyBuckets();
+    rows.forEach(row => {
+      AGEING_BUCKETS.forEach(({ key }) => {
+        totals[key] = round(totals[key] + row.buckets[key]);
+      });
+    });
+
+    return {
+      kind,
+      asOfDate: asOfDate.toISOString(),
+      rows,
+      totals,
+      total: round(rows.reduce((sum, row) => sum + row.total, 0)),
+    };
+  }
+}
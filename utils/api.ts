@@ -1,3 +1,5 @@
+import { MutationMethod, OfflineStore } from './offlineStore';
+
 // API Configuration
 const API_BASE_URL = 'https://backend-app-v43g.onrender.com'; // Update this to your backend URL
 // const API_BASE_URL = 'http://192.168.29.111:5000'
@@ -14,10 +16,23 @@ export interface CompanyDetails {
   businessDescription: string;
   signature: string;
   profileImage?: string;
+  gstin?: string;
+  creditOverridePinHash?: string; // "salt:sha256" of the manager PIN to invoice parties on credit hold; unset blocks them
+  creditOverridePin?: string; // plaintext PIN from older versions, hashed and cleared on the next save
+  invoiceTemplate?: string; // InvoiceTemplateId, classic when unset
+  invoiceAccentColor?: string; // #rrggbb
+  invoiceTerms?: string; // one term per line; unset prints the default terms
+  invoiceFooterNote?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Alternate unit of measure, e.g. 1 quintal = 100 kg
+export interface AlternateUnit {
+  name: string;
+  factor: number; // base units per 1 of this unit
+}
+
 // Item Interface
 export interface Item {
   _id?: string;
@@ -26,9 +41,15 @@ export interface Item {
   category: 'Primary' | 'Kirana';
   purchasePrice: number;
   salePrice: number;
-  openingStock: number; // in bags
+  openingStock: number; // in packs (bags)
   asOfDate: string;
-  lowStockAlert: number; // in bags
+  lowStockAlert: number; // in packs (bags)
+  baseUnit?: string; // unit for quantities and prices, defaults to kg
+  packUnit?: string; // unit stock is kept in, defaults to bag
+  packSize?: number; // base units per pack, defaults to 30
+  alternateUnits?: AlternateUnit[];
+  hsnCode?: string;
+  gstRate?: number; // in percent
   isUniversal?: boolean;
   createdAt?: string;
   updatedAt?: string;
@@ -59,10 +80,26 @@ export interface Party {
   balance: number;
   address?: string;
   email?: string;
+  gstin?: string;
+  creditLimit?: number; // maximum balance allowed; 0 or unset means no limit
+  creditDays?: number | null; // credit period in days; unset means invoices never go on hold
+  openingBalance?: number; // carried over from before using the app; positive: receivable, negative: payable
+  openingBalanceDate?: string; // as-of date of the opening balance (ISO)
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Net balance of one party, as returned by the balances endpoint
+export interface PartyBalance {
+  partyId: string;
+  balance: number; // including the opening balance; positive: party owes you, negative: you owe party
+  totalInvoiced: number;
+  totalBilled: number;
+  totalPaymentIn: number;
+  totalPaymentOut: number;
+  transactionCount: number;
+}
+
 // Sale Item Interface
 export interface SaleItem {
   id: string;
@@ -70,6 +107,15 @@ export interface SaleItem {
   quantity: number;
   rate: number;
   total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
 // Sale Invoice Interface
@@ -81,8 +127,127 @@ export interface SaleInvoice {
   items: SaleItem[];
   totalAmount: number;
   date: string;
+  dueDate?: string; // payment due date (ISO)
+  pdfUri?: string;
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  creditOverrideAt?: string; // when a manager approved invoicing a party on credit hold (ISO)
+  returnedAmount?: number; // total of credit notes raised against this invoice
+  challanIds?: string[]; // delivery challans billed on this invoice; their stock moved on delivery
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Credit Note Interface: goods returned against a sale invoice.
+// Items carry the id of the invoice line and the quantity returned.
+export interface CreditNote {
+  id: string;
+  creditNoteNo: string;
+  invoiceId: string;
+  invoiceNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: SaleItem[];
+  totalAmount: number;
+  date: string;
+  reason?: string;
+  pdfUri?: string;
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Quotation status; expired is also derived once validUntil has passed
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired';
+
+// Quotation Interface: a price quote for a customer that can later be
+// converted into a sale invoice
+export interface Quotation {
+  id: string;
+  quotationNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: SaleItem[];
+  totalAmount: number;
+  date: string;
+  validUntil: string; // last day the quoted prices hold (ISO)
+  status: QuotationStatus;
+  invoiceId?: string; // set once converted into a sale invoice
+  invoiceNo?: string;
+  notes?: string;
   pdfUri?: string;
   partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Sales order status; updated as challans are delivered against the order
+export type SalesOrderStatus = 'open' | 'partially-delivered' | 'delivered' | 'closed';
+
+// Sales Order Interface: goods ordered by a customer, delivered over one or
+// more delivery challans and billed later
+export interface SalesOrder {
+  id: string;
+  orderNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: SaleItem[];
+  totalAmount: number;
+  date: string;
+  status: SalesOrderStatus;
+  notes?: string;
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Delivery Challan Interface: one delivery against a sales order. Moves stock
+// without invoicing. Items carry the id of the order line and the quantity delivered.
+export interface DeliveryChallan {
+  id: string;
+  challanNo: string;
+  orderId: string;
+  orderNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: SaleItem[];
+  totalAmount: number; // value at order rates, before tax
+  date: string;
+  vehicleNo?: string;
+  invoiceId?: string; // set once billed on a sale invoice
+  invoiceNo?: string;
+  partyId?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -94,6 +259,15 @@ export interface PurchaseItem {
   quantity: number;
   rate: number;
   total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
 // Purchase Bill Interface
@@ -105,12 +279,56 @@ export interface PurchaseBill {
   items: PurchaseItem[];
   totalAmount: number;
   date: string;
+  dueDate?: string; // payment due date (ISO)
+  pdfUri?: string;
+  partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  returnedAmount?: number; // total of debit notes raised against this bill
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Debit Note Interface: goods sent back to the supplier against a purchase bill.
+// Items carry the id of the bill line and the quantity returned.
+export interface DebitNote {
+  id: string;
+  debitNoteNo: string;
+  billId: string;
+  billNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: PurchaseItem[];
+  totalAmount: number;
+  date: string;
+  reason?: string;
   pdfUri?: string;
   partyId?: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Share of a payment applied to a specific invoice or bill
+export interface PaymentAllocation {
+  documentId: string;
+  documentNo: string;
+  amount: number;
+}
+
 // Payment Interface
 export interface Payment {
   id: string;
@@ -124,6 +342,7 @@ export interface Payment {
   description?: string;
   paymentMethod: 'cash' | 'bank_transfer' | 'cheque' | 'upi' | 'card' | 'other';
   reference?: string;
+  allocations?: PaymentAllocation[]; // unallocated remainder is applied to the oldest documents
   partyId?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -157,11 +376,15 @@ class ApiError extends Error {
   }
 }
 
+// Network failures carry no HTTP status
+const isNetworkError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === undefined;
+
 // Request deduplication cache
 const requestCache = new Map<string, Promise<any>>();
 
 // Generic API request function with deduplication
-async function apiRequest<T>(
+async function sendRequest<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
@@ -231,11 +454,156 @@ async function apiRequest<T>(
   return requestPromise;
 }
 
+// API request with offline support: GET responses are cached and mutations
+// are queued with client-generated IDs while the backend is unreachable
+async function apiRequest<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const offlineEndpoint = OfflineStore.parseEndpoint(endpoint);
+  if (!offlineEndpoint) {
+    return sendRequest<T>(endpoint, options);
+  }
+
+  const method = (options.method || 'GET').toUpperCase();
+
+  if (method === 'GET') {
+    // Records created offline only exist on the device until synced
+    if (offlineEndpoint.recordId && OfflineStore.isClientId(offlineEndpoint.recordId)) {
+      const record = await OfflineStore.findCachedRecord<T>(offlineEndpoint.resource, offlineEndpoint.recordId);
+      return OfflineStore.applyPendingMutations<T>(endpoint, (record || {}) as T);
+    }
+
+    try {
+      const data = await sendRequest<T>(endpoint, options);
+      await OfflineStore.setCachedResponse(endpoint, data);
+      return OfflineStore.applyPendingMutations<T>(endpoint, data);
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+
+      const cached = offlineEndpoint.recordId
+        ? await OfflineStore.getCachedResponse<T>(endpoint) ??
+          await OfflineStore.findCachedRecord<T>(offlineEndpoint.resource, offlineEndpoint.recordId)
+        : await OfflineStore.getCachedResponse<T>(endpoint);
+
+      if (cached === null) {
+        throw error;
+      }
+      return OfflineStore.applyPendingMutations<T>(endpoint, cached);
+    }
+  }
+
+  // Only plain create (collection POST) and update/delete (record PUT/DELETE) are queued
+  const isQueueable = offlineEndpoint.recordId
+    ? method === 'PUT' || method === 'DELETE'
+    : method === 'POST';
+
+  if (!isQueueable) {
+    return sendRequest<T>(endpoint, options);
+  }
+
+  const mutation = {
+    endpoint,
+    method: method as MutationMethod,
+    body: typeof options.body === 'string' ? options.body : undefined,
+    resource: offlineEndpoint.resource,
+    recordId: offlineEndpoint.recordId || OfflineStore.generateClientId(),
+  };
+
+  // Keep mutations in order: anything made while earlier ones are pending waits behind them
+  const hasPendingMutations = await OfflineStore.hasPendingMutations();
+  if (!hasPendingMutations && !OfflineStore.isClientId(mutation.recordId)) {
+    try {
+      return await sendRequest<T>(endpoint, options);
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  await OfflineStore.enqueue(mutation);
+  return OfflineStore.buildOptimisticResponse<T>(mutation);
+}
+
+// Replay queued mutations in order; stops at the first network failure.
+// Mutations the backend rejects stay in the queue as failed for the user to retry or discard.
+let isSyncing = false;
+export const syncOfflineQueue = async (): Promise<number> => {
+  if (isSyncing) {
+    return 0;
+  }
+
+  isSyncing = true;
+  let syncedCount = 0;
+
+  try {
+    while (true) {
+      const mutation = await OfflineStore.getNextPendingMutation();
+      if (!mutation) {
+        break;
+      }
+
+      try {
+        const result = await sendRequest<any>(mutation.endpoint, {
+          method: mutation.method,
+          body: mutation.body,
+        });
+
+        if (mutation.method === 'POST' && OfflineStore.isClientId(mutation.recordId)) {
+          const serverId = result?._id || result?.id;
+          if (serverId) {
+            await OfflineStore.replaceRecordId(mutation.recordId, serverId);
+            // Stock applied while offline is tracked under the client ID
+            const { StockManager } = await import('./stockManager');
+            await StockManager.replaceDocumentId(mutation.recordId, serverId);
+          }
+        }
+        syncedCount++;
+        await OfflineStore.removeFromQueue(mutation.id);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          break;
+        }
+        // Rejected by the backend; set aside so later mutations are not blocked
+        console.error(`Offline mutation ${mutation.method} ${mutation.endpoint} was rejected:`, error);
+        await OfflineStore.markFailed(mutation.id, handleApiError(error));
+      }
+    }
+  } finally {
+    isSyncing = false;
+  }
+
+  return syncedCount;
+};
+
 // Company API Service
 export class CompanyApiService {
-  // Get company details
-  static async getCompanyDetails(): Promise<CompanyDetails> {
-    return apiRequest<CompanyDetails>('/company/details');
+  // Get company details. Offline, the last copy is returned without the credit override PIN,
+  // so GST state and PDF headers still work; pass false where the details are edited and saved back.
+  static async getCompanyDetails(allowOfflineCopy: boolean = true): Promise<CompanyDetails> {
+    try {
+      const details = await apiRequest<CompanyDetails>('/company/details');
+      if (details) {
+        const offlineCopy = { ...details };
+        delete offlineCopy.creditOverridePinHash;
+        delete offlineCopy.creditOverridePin;
+        await OfflineStore.setCachedResponse('/company/details', offlineCopy);
+      }
+      return details;
+    } catch (error) {
+      if (!allowOfflineCopy || !isNetworkError(error)) {
+        throw error;
+      }
+
+      const cached = await OfflineStore.getCachedResponse<CompanyDetails>('/company/details');
+      if (cached === null) {
+        throw error;
+      }
+      return cached;
+    }
   }
 
   // Create or update company details
@@ -305,6 +673,10 @@ export const handleApiError = (error: unknown): string => {
 export const checkApiHealth = async (): Promise<boolean> => {
   try {
     const response = await fetch(`${API_BASE_URL}/`);
+    if (response.ok) {
+      // Backend is reachable again, push anything queued while offline
+      await syncOfflineQueue();
+    }
     return response.ok;
   } catch {
     return false;
@@ -538,12 +910,100 @@ export class PartyApiService {
     });
   }
 
+  // Get the net balance of every party in one request
+  static async getBalances(): Promise<PartyBalance[]> {
+    try {
+      const balances = await apiRequest<any[]>('/api/parties/balances');
+      return balances.map(balance => ({
+        ...balance,
+        partyId: balance.partyId || balance._id,
+      }));
+    } catch (error) {
+      // Older backends have no balances endpoint; work them out from the full lists instead
+      console.error('Error loading party balances, calculating locally:', error);
+      return this.calculateBalances();
+    }
+  }
+
+  // Fetch parties, sales, purchases, their returns and payments once and total them per party.
+  // Records without a partyId are matched by lowercase name and phone number.
+  private static async calculateBalances(): Promise<PartyBalance[]> {
+    const [parties, sales, creditNotes, purchases, debitNotes, payments] = await Promise.all([
+      this.getParties(),
+      SaleApiService.getSales(),
+      CreditNoteApiService.getCreditNotes(),
+      PurchaseApiService.getPurchases(),
+      DebitNoteApiService.getDebitNotes(),
+      PaymentApiService.getPayments(),
+    ]);
+
+    const getLegacyKey = (partyName: string, phoneNumber: string) => `${partyName.toLowerCase()}-${phoneNumber}`;
+    const idsByLegacyKey = new Map(parties.map(party => [getLegacyKey(party.name, party.phoneNumber), party.id]));
+    const balances = new Map<string, PartyBalance>(parties.map(party => [party.id, {
+      partyId: party.id,
+      balance: party.openingBalance || 0,
+      totalInvoiced: 0,
+      totalBilled: 0,
+      totalPaymentIn: 0,
+      totalPaymentOut: 0,
+      transactionCount: 0,
+    }]));
+
+    const getBalance = (record: { partyId?: string; partyName: string; phoneNumber: string }) =>
+      balances.get(record.partyId || idsByLegacyKey.get(getLegacyKey(record.partyName, record.phoneNumber)) || '');
+
+    sales.forEach(sale => {
+      const balance = getBalance(sale);
+      if (!balance) return;
+      balance.totalInvoiced += sale.totalAmount || 0;
+      balance.balance += sale.totalAmount || 0;
+      balance.transactionCount++;
+    });
+
+    creditNotes.forEach(creditNote => {
+      const balance = getBalance(creditNote);
+      if (!balance) return;
+      balance.balance -= creditNote.totalAmount || 0;
+      balance.transactionCount++;
+    });
+
+    purchases.forEach(bill => {
+      const balance = getBalance(bill);
+      if (!balance) return;
+      balance.totalBilled += bill.totalAmount || 0;
+      balance.balance -= bill.totalAmount || 0;
+      balance.transactionCount++;
+    });
+
+    debitNotes.forEach(debitNote => {
+      const balance = getBalance(debitNote);
+      if (!balance) return;
+      balance.balance += debitNote.totalAmount || 0;
+      balance.transactionCount++;
+    });
+
+    payments.forEach(payment => {
+      const balance = getBalance(payment);
+      if (!balance) return;
+      if (payment.type === 'payment-in') {
+        balance.totalPaymentIn += payment.amount || 0;
+        balance.balance -= payment.amount || 0;
+      } else {
+        balance.totalPaymentOut += payment.amount || 0;
+        balance.balance += payment.amount || 0;
+      }
+      balance.transactionCount++;
+    });
+
+    return Array.from(balances.values());
+  }
+
   // Get all transactions for a party
   static async getPartyTransactions(id: string): Promise<{
     party: Party;
     transactions: Array<{
       id: string;
-      type: 'sale' | 'purchase' | 'payment-in' | 'payment-out';
+      type: 'sale' | 'credit-note' | 'purchase' | 'debit-note' | 'payment-in' | 'payment-out';
       transactionId: string;
       partyName: string;
       phoneNumber: string;
@@ -610,7 +1070,7 @@ export class SaleApiService {
   }
 
   // Create new sale
-  static async createSale(saleData: Omit<SaleInvoice, 'id' | 'invoiceNo' | 'createdAt' | 'updatedAt'>): Promise<SaleInvoice> {
+  static async createSale(saleData: Omit<SaleInvoice, 'id' | 'invoiceNo' | 'createdAt' | 'updatedAt'> & { invoiceNo?: string; createdAt?: string }): Promise<SaleInvoice> {
     return apiRequest<SaleInvoice>('/api/sales', {
       method: 'POST',
       body: JSON.stringify(saleData),
@@ -655,6 +1115,186 @@ export class SaleApiService {
   }
 }
 
+// Credit Note API Service
+export class CreditNoteApiService {
+  // Get all credit notes with optional filtering
+  static async getCreditNotes(params?: {
+    invoiceId?: string;
+  }): Promise<CreditNote[]> {
+    const queryParams = new URLSearchParams();
+    
+    if (params?.invoiceId) {
+      queryParams.append('invoiceId', params.invoiceId);
+    }
+    
+    const endpoint = `/api/credit-notes${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiRequest<CreditNote[]>(endpoint);
+  }
+
+  // Get single credit note by ID
+  static async getCreditNoteById(id: string): Promise<CreditNote> {
+    return apiRequest<CreditNote>(`/api/credit-notes/${id}`);
+  }
+
+  // Create new credit note
+  static async createCreditNote(creditNoteData: Omit<CreditNote, 'id' | 'createdAt' | 'updatedAt'>): Promise<CreditNote> {
+    return apiRequest<CreditNote>('/api/credit-notes', {
+      method: 'POST',
+      body: JSON.stringify(creditNoteData),
+    });
+  }
+
+  // Update existing credit note
+  static async updateCreditNote(id: string, creditNoteData: Partial<Omit<CreditNote, 'id' | 'createdAt' | 'updatedAt'>>): Promise<CreditNote> {
+    return apiRequest<CreditNote>(`/api/credit-notes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(creditNoteData),
+    });
+  }
+
+  // Delete credit note
+  static async deleteCreditNote(id: string): Promise<void> {
+    return apiRequest<void>(`/api/credit-notes/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
+// Quotation API Service
+export class QuotationApiService {
+  // Get all quotations with optional filtering
+  static async getQuotations(params?: {
+    status?: QuotationStatus;
+  }): Promise<Quotation[]> {
+    const queryParams = new URLSearchParams();
+    
+    if (params?.status) {
+      queryParams.append('status', params.status);
+    }
+    
+    const endpoint = `/api/quotations${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiRequest<Quotation[]>(endpoint);
+  }
+
+  // Get single quotation by ID
+  static async getQuotationById(id: string): Promise<Quotation> {
+    return apiRequest<Quotation>(`/api/quotations/${id}`);
+  }
+
+  // Create new quotation
+  static async createQuotation(quotationData: Omit<Quotation, 'id' | 'createdAt' | 'updatedAt'>): Promise<Quotation> {
+    return apiRequest<Quotation>('/api/quotations', {
+      method: 'POST',
+      body: JSON.stringify(quotationData),
+    });
+  }
+
+  // Update existing quotation
+  static async updateQuotation(id: string, quotationData: Partial<Omit<Quotation, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Quotation> {
+    return apiRequest<Quotation>(`/api/quotations/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(quotationData),
+    });
+  }
+
+  // Delete quotation
+  static async deleteQuotation(id: string): Promise<void> {
+    return apiRequest<void>(`/api/quotations/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
+// Sales Order API Service
+export class SalesOrderApiService {
+  // Get all sales orders with optional filtering
+  static async getSalesOrders(params?: {
+    status?: SalesOrderStatus;
+  }): Promise<SalesOrder[]> {
+    const queryParams = new URLSearchParams();
+    
+    if (params?.status) {
+      queryParams.append('status', params.status);
+    }
+    
+    const endpoint = `/api/sales-orders${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiRequest<SalesOrder[]>(endpoint);
+  }
+
+  // Get single sales order by ID
+  static async getSalesOrderById(id: string): Promise<SalesOrder> {
+    return apiRequest<SalesOrder>(`/api/sales-orders/${id}`);
+  }
+
+  // Create new sales order
+  static async createSalesOrder(orderData: Omit<SalesOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<SalesOrder> {
+    return apiRequest<SalesOrder>('/api/sales-orders', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  // Update existing sales order
+  static async updateSalesOrder(id: string, orderData: Partial<Omit<SalesOrder, 'id' | 'createdAt' | 'updatedAt'>>): Promise<SalesOrder> {
+    return apiRequest<SalesOrder>(`/api/sales-orders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  // Delete sales order
+  static async deleteSalesOrder(id: string): Promise<void> {
+    return apiRequest<void>(`/api/sales-orders/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
+// Delivery Challan API Service
+export class DeliveryChallanApiService {
+  // Get all delivery challans with optional filtering
+  static async getDeliveryChallans(params?: {
+    orderId?: string;
+  }): Promise<DeliveryChallan[]> {
+    const queryParams = new URLSearchParams();
+    
+    if (params?.orderId) {
+      queryParams.append('orderId', params.orderId);
+    }
+    
+    const endpoint = `/api/delivery-challans${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiRequest<DeliveryChallan[]>(endpoint);
+  }
+
+  // Get single delivery challan by ID
+  static async getDeliveryChallanById(id: string): Promise<DeliveryChallan> {
+    return apiRequest<DeliveryChallan>(`/api/delivery-challans/${id}`);
+  }
+
+  // Create new delivery challan
+  static async createDeliveryChallan(challanData: Omit<DeliveryChallan, 'id' | 'createdAt' | 'updatedAt'>): Promise<DeliveryChallan> {
+    return apiRequest<DeliveryChallan>('/api/delivery-challans', {
+      method: 'POST',
+      body: JSON.stringify(challanData),
+    });
+  }
+
+  // Update existing delivery challan
+  static async updateDeliveryChallan(id: string, challanData: Partial<Omit<DeliveryChallan, 'id' | 'createdAt' | 'updatedAt'>>): Promise<DeliveryChallan> {
+    return apiRequest<DeliveryChallan>(`/api/delivery-challans/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(challanData),
+    });
+  }
+
+  // Delete delivery challan
+  static async deleteDeliveryChallan(id: string): Promise<void> {
+    return apiRequest<void>(`/api/delivery-challans/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
 // Purchase API Service
 export class PurchaseApiService {
   // Get all purchases with optional filtering
@@ -692,7 +1332,7 @@ export class PurchaseApiService {
   }
 
   // Create new purchase
-  static async createPurchase(purchaseData: Omit<PurchaseBill, 'id' | 'billNo' | 'createdAt' | 'updatedAt'>): Promise<PurchaseBill> {
+  static async createPurchase(purchaseData: Omit<PurchaseBill, 'id' | 'billNo' | 'createdAt' | 'updatedAt'> & { billNo?: string; createdAt?: string }): Promise<PurchaseBill> {
     return apiRequest<PurchaseBill>('/api/purchases', {
       method: 'POST',
       body: JSON.stringify(purchaseData),
@@ -737,6 +1377,51 @@ export class PurchaseApiService {
   }
 }
 
+// Debit Note API Service
+export class DebitNoteApiService {
+  // Get all debit notes with optional filtering
+  static async getDebitNotes(params?: {
+    billId?: string;
+  }): Promise<DebitNote[]> {
+    const queryParams = new URLSearchParams();
+    
+    if (params?.billId) {
+      queryParams.append('billId', params.billId);
+    }
+    
+    const endpoint = `/api/debit-notes${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return apiRequest<DebitNote[]>(endpoint);
+  }
+
+  // Get single debit note by ID
+  static async getDebitNoteById(id: string): Promise<DebitNote> {
+    return apiRequest<DebitNote>(`/api/debit-notes/${id}`);
+  }
+
+  // Create new debit note
+  static async createDebitNote(debitNoteData: Omit<DebitNote, 'id' | 'createdAt' | 'updatedAt'>): Promise<DebitNote> {
+    return apiRequest<DebitNote>('/api/debit-notes', {
+      method: 'POST',
+      body: JSON.stringify(debitNoteData),
+    });
+  }
+
+  // Update existing debit note
+  static async updateDebitNote(id: string, debitNoteData: Partial<Omit<DebitNote, 'id' | 'createdAt' | 'updatedAt'>>): Promise<DebitNote> {
+    return apiRequest<DebitNote>(`/api/debit-notes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(debitNoteData),
+    });
+  }
+
+  // Delete debit note
+  static async deleteDebitNote(id: string): Promise<void> {
+    return apiRequest<void>(`/api/debit-notes/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
 // Payment API Service
 export class PaymentApiService {
   // Get all payments with optional filtering
@@ -807,8 +1492,8 @@ export class PaymentApiService {
     return apiRequest<Payment>(`/api/payments/${id}`);
   }
 
-  // Create new payment
-  static async createPayment(paymentData: Omit<Payment, 'id' | 'paymentNo' | 'createdAt' | 'updatedAt'>): Promise<Payment> {
+  // Create new payment; the backend numbers it when no paymentNo is sent
+  static async createPayment(paymentData: Omit<Payment, 'id' | 'paymentNo' | 'createdAt' | 'updatedAt'> & { paymentNo?: string }): Promise<Payment> {
     return apiRequest<Payment>('/api/payments', {
       method: 'POST',
       body: JSON.stringify(paymentData),
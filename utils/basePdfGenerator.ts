@@ -2,7 +2,14 @@ import * as FileSystem from 'expo-file-system';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 import { CompanyApiService, CompanyDetails } from './api';
+import { CompanyBranding } from './companyBranding';
 import { DocumentService } from './documentService';
+import { GstCalculator } from './gstCalculator';
+import { html, raw, SafeHtml } from './htmlTemplate';
+import { InvoiceTemplates } from './invoiceTemplates';
+import { PartyStatement, PartyTransaction } from './partyManager';
+import { ProfitLossReportData, ProfitLossRow } from './profitLossReport';
+import { UnitConverter } from './unitConverter';
 
 // Common interfaces - CompanyDetails is now imported from api.ts
 
@@ -12,19 +19,76 @@ interface BaseItem {
   quantity: number;
   rate: number;
   total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
 }
 
-interface SaleInvoice {
+// GST fields shared by invoices and bills
+interface TaxDetails {
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+}
+
+interface SaleInvoice extends TaxDetails {
+  id: string;
+  invoiceNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: BaseItem[];
+  totalAmount: number;
+  date: string;
+}
+
+interface CreditNote extends TaxDetails {
   id: string;
+  creditNoteNo: string;
   invoiceNo: string;
   partyName: string;
   phoneNumber: string;
   items: BaseItem[];
   totalAmount: number;
   date: string;
+  reason?: string;
 }
 
-interface PurchaseBill {
+interface DebitNote extends TaxDetails {
+  id: string;
+  debitNoteNo: string;
+  billNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: BaseItem[];
+  totalAmount: number;
+  date: string;
+  reason?: string;
+}
+
+interface Quotation extends TaxDetails {
+  id: string;
+  quotationNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: BaseItem[];
+  totalAmount: number;
+  date: string;
+  validUntil: string;
+  notes?: string;
+}
+
+interface PurchaseBill extends TaxDetails {
   id: string;
   billNo: string;
   partyName: string;
@@ -64,8 +128,9 @@ export class BasePdfGenerator {
     }
   }
 
-  private static generateCommonCSS(primaryColor: string): string {
-    return `
+  // primaryColor is always a constant or a validated #rrggbb accent, so the stylesheet is trusted
+  private static generateCommonCSS(primaryColor: string): SafeHtml {
+    return raw(`
       body {
         font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
         margin: 0;
@@ -161,7 +226,8 @@ export class BasePdfGenerator {
       .table-header th:first-child { text-align: center; }
       .table-header th:nth-child(3),
       .table-header th:nth-child(4),
-      .table-header th:nth-child(5) { text-align: center; }
+      .table-header th:nth-child(6) { text-align: center; }
+      .table-header th:nth-child(5) { text-align: right; }
       .table-header th:last-child { text-align: right; }
       .total-section {
         margin-top: 30px;
@@ -244,6 +310,31 @@ export class BasePdfGenerator {
         pointer-events: none;
         z-index: -1;
       }
+      .tax-summary-title {
+        font-size: 14px;
+        font-weight: 600;
+        color: ${primaryColor};
+        margin-top: 20px;
+      }
+      .tax-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 10px 0;
+        font-size: 12px;
+      }
+      .tax-table th {
+        background: ${primaryColor}1a;
+        color: #374151;
+        padding: 8px;
+        text-align: right;
+      }
+      .tax-table td {
+        padding: 8px;
+        border-bottom: 1px solid #e5e7eb;
+        text-align: right;
+      }
+      .tax-table th:first-child,
+      .tax-table td:first-child { text-align: left; }
       .payment-details {
         background: ${primaryColor}0a;
         border: 2px solid ${primaryColor}33;
@@ -281,495 +372,1117 @@ export class BasePdfGenerator {
         color: ${primaryColor};
         font-size: 18px;
       }
-    `;
+    `);
   }
 
-  private static generateItemsTableHTML(items: BaseItem[]): string {
-    return items.map((item, index) => `
+  private static generateItemsTableHTML(items: BaseItem[]): SafeHtml {
+    return html`${items.map((item, index) => html`
       <tr>
         <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: left;">${index + 1}</td>
         <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: left;">${item.itemName}</td>
-        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center;">${item.quantity}</td>
+        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center;">${item.hsnCode || '-'}</td>
+        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center;">${UnitConverter.formatQuantity(item, item.quantity)}</td>
         <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">₹${item.rate.toLocaleString()}</td>
+        <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center;">${item.gstRate || 0}%</td>
         <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">₹${item.total.toLocaleString()}</td>
       </tr>
-    `).join('');
+    `)}`;
+  }
+
+  private static generateItemsTableHeaderHTML(): SafeHtml {
+    return html`
+      <tr>
+        <th>Sr. No.</th>
+        <th>Item Description</th>
+        <th>HSN</th>
+        <th>Quantity</th>
+        <th>Rate (₹)</th>
+        <th>GST</th>
+        <th>Amount (₹)</th>
+      </tr>
+    `;
+  }
+
+  // HSN/rate-wise CGST, SGST or IGST breakup
+  private static generateTaxSummaryHTML(items: BaseItem[], isInterState: boolean): SafeHtml {
+    const taxSummary = GstCalculator.buildTaxSummary(items);
+    const taxColumns = isInterState
+      ? html`<th>IGST (₹)</th>`
+      : html`<th>CGST (₹)</th><th>SGST (₹)</th>`;
+
+    const rows = taxSummary.map(row => html`
+      <tr>
+        <td>${row.hsnCode}</td>
+        <td>₹${row.taxableValue.toLocaleString()}</td>
+        <td>${row.gstRate}%</td>
+        ${isInterState
+          ? html`<td>₹${row.igstAmount.toLocaleString()}</td>`
+          : html`<td>₹${row.cgstAmount.toLocaleString()}</td><td>₹${row.sgstAmount.toLocaleString()}</td>`}
+        <td>₹${row.totalTax.toLocaleString()}</td>
+      </tr>
+    `);
+
+    return html`
+      <div class="tax-summary-title">Tax Summary</div>
+      <table class="tax-table">
+        <thead>
+          <tr>
+            <th>HSN</th>
+            <th>Taxable Value (₹)</th>
+            <th>Rate</th>
+            ${taxColumns}
+            <th>Total Tax (₹)</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `;
+  }
+
+  // Taxable value, tax split and grand total rows
+  private static generateTaxTotalsHTML(document: TaxDetails & { totalAmount: number }): SafeHtml {
+    const taxableAmount = document.taxableAmount ?? document.totalAmount;
+    const taxRows = document.isInterState
+      ? html`
+        <div class="total-row">
+          <span class="total-label">IGST:</span>
+          <span class="total-amount">₹${(document.igstAmount || 0).toLocaleString()}</span>
+        </div>
+      `
+      : html`
+        <div class="total-row">
+          <span class="total-label">CGST:</span>
+          <span class="total-amount">₹${(document.cgstAmount || 0).toLocaleString()}</span>
+        </div>
+        <div class="total-row">
+          <span class="total-label">SGST:</span>
+          <span class="total-amount">₹${(document.sgstAmount || 0).toLocaleString()}</span>
+        </div>
+      `;
+
+    return html`
+      <div class="total-section">
+        <div class="total-row">
+          <span class="total-label">Taxable Amount:</span>
+          <span class="total-amount">₹${taxableAmount.toLocaleString()}</span>
+        </div>
+        ${taxRows}
+        <div class="total-row grand-total">
+          <span class="total-label">Grand Total:</span>
+          <span class="total-amount">₹${document.totalAmount.toLocaleString()}</span>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Invoice HTML in the design, accent colour and terms picked in company details
+   * @param invoice - Invoice to render
+   * @param companyDetails - Company details with the invoice settings
+   */
+  static buildInvoiceHTML(invoice: SaleInvoice, companyDetails: CompanyDetails | null): string {
+    const accentColor = InvoiceTemplates.getAccentColor(companyDetails);
+    return InvoiceTemplates.get(companyDetails?.invoiceTemplate).render({
+      invoice,
+      company: companyDetails,
+      accentColor,
+      terms: InvoiceTemplates.getTerms(companyDetails),
+      footerNote: companyDetails?.invoiceFooterNote?.trim() || undefined,
+      parts: {
+        css: this.generateCommonCSS(accentColor),
+        itemsHeader: this.generateItemsTableHeaderHTML(),
+        itemsRows: this.generateItemsTableHTML(invoice.items),
+        taxSummary: this.generateTaxSummaryHTML(invoice.items, !!invoice.isInterState),
+        taxTotals: this.generateTaxTotalsHTML(invoice),
+      },
+    });
   }
 
   // Invoice PDF Generation
   static async generateInvoicePDF(invoice: SaleInvoice): Promise<string | null> {
     try {
       const companyDetails = await this.getCompanyDetails();
-      const currentDate = new Date().toLocaleDateString('en-IN');
-      const invoiceDate = invoice.date || currentDate;
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <title>Invoice #${invoice.invoiceNo}</title>
-          <style>${this.generateCommonCSS('#6366f1')}</style>
-        </head>
-        <body>
-          <div class="watermark">${companyDetails?.businessName || 'INVOICE'}</div>
-          <div class="container">
-            <div class="header">
-              <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
-              <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
-              <div class="title">TAX INVOICE</div>
-              <div class="number">Invoice #${invoice.invoiceNo}</div>
-            </div>
-            
-            <div class="content">
-              <div class="info-section">
-                <div class="info-block">
-                  <div class="info-title">Bill To</div>
-                  <div class="info-item">
-                    <span class="info-label">Name:</span>
-                    <span class="info-value">${invoice.partyName}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${invoice.phoneNumber}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Date:</span>
-                    <span class="info-value">${invoiceDate}</span>
-                  </div>
-                </div>
-                
-                <div class="info-block">
-                  <div class="info-title">From</div>
-                  <div class="info-item">
-                    <span class="info-label">Business:</span>
-                    <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Address:</span>
-                    <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Pincode:</span>
-                    <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Email:</span>
-                    <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
-                  </div>
+      return await this.generatePDF(this.buildInvoiceHTML(invoice, companyDetails), `invoice-${invoice.invoiceNo}-${Date.now()}.pdf`);
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Quotation HTML with validity date and notes
+   * @param quotation - Quotation to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildQuotationHTML(quotation: Quotation, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const quotationDate = quotation.date || currentDate;
+    const validUntil = new Date(quotation.validUntil).toLocaleDateString('en-IN');
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Quotation #${quotation.quotationNo}</title>
+        <style>${this.generateCommonCSS('#0ea5e9')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'QUOTATION'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">QUOTATION</div>
+            <div class="number">Quotation #${quotation.quotationNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Quote For</div>
+                <div class="info-item">
+                  <span class="info-label">Name:</span>
+                  <span class="info-value">${quotation.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${quotation.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${quotation.partyGstin || 'Unregistered'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${quotationDate}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Valid Until:</span>
+                  <span class="info-value">${validUntil}</span>
                 </div>
               </div>
               
-              <table class="items-table">
-                <thead class="table-header">
-                  <tr>
-                    <th>Sr. No.</th>
-                    <th>Item Description</th>
-                    <th>Quantity</th>
-                    <th>Rate (₹)</th>
-                    <th>Amount (₹)</th>
-                  </tr>
-                </thead>
-                <tbody>${this.generateItemsTableHTML(invoice.items)}</tbody>
-              </table>
-              
-              <div class="total-section">
-                <div class="total-row">
-                  <span class="total-label">Total Amount:</span>
-                  <span class="total-amount">₹${invoice.totalAmount.toLocaleString()}</span>
+              <div class="info-block">
+                <div class="info-title">From</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
                 </div>
-                <div class="total-row grand-total">
-                  <span class="total-label">Grand Total:</span>
-                  <span class="total-amount">₹${invoice.totalAmount.toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">Email:</span>
+                  <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
                 </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${companyDetails?.gstin || 'GSTIN'}</span>
+                </div>
+              </div>
+            </div>
+            
+            <table class="items-table">
+              <thead class="table-header">${this.generateItemsTableHeaderHTML()}</thead>
+              <tbody>${this.generateItemsTableHTML(quotation.items)}</tbody>
+            </table>
+            
+            ${this.generateTaxSummaryHTML(quotation.items, !!quotation.isInterState)}
+            
+            ${this.generateTaxTotalsHTML(quotation)}
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
               </div>
               
-              <div class="footer">
-                <div class="signature-section">
-                  <div class="signature-title">Authorized Signature</div>
-                  <div class="signature-line"></div>
-                  <div class="signature-name">${companyDetails?.signature || 'Authorized Person'}</div>
-                </div>
-                
-                <div class="terms-section">
-                  <div class="terms-title">Terms & Conditions</div>
-                  <div class="terms-text">
-                    • Payment is due within 30 days of invoice date<br>
-                    • Late payments may incur additional charges<br>
-                    • Goods once sold will not be taken back<br>
-                    • Subject to local jurisdiction
-                  </div>
+              <div class="terms-section">
+                <div class="terms-title">Terms & Conditions</div>
+                <div class="terms-text">
+                  ${quotation.notes ? html`${quotation.notes}<br>` : ''}
+                  • Prices are valid until ${validUntil}<br>
+                  • Stock is subject to availability at the time of order<br>
+                  • This is a quotation, not a tax invoice
                 </div>
               </div>
             </div>
           </div>
-        </body>
-        </html>
-      `;
-      
-      return await this.generatePDF(html, `invoice-${invoice.invoiceNo}-${Date.now()}.pdf`);
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Quotation PDF Generation
+  static async generateQuotationPDF(quotation: Quotation): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildQuotationHTML(quotation, companyDetails), `quotation-${quotation.quotationNo}-${Date.now()}.pdf`);
     } catch (error) {
-      console.error('Error generating invoice PDF:', error);
+      console.error('Error generating quotation PDF:', error);
       return null;
     }
   }
 
-  // Purchase Bill PDF Generation
-  static async generatePurchaseBillPDF(bill: PurchaseBill): Promise<string | null> {
+  /**
+   * Credit note HTML
+   * @param creditNote - Credit note to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildCreditNoteHTML(creditNote: CreditNote, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const creditNoteDate = creditNote.date || currentDate;
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Credit Note #${creditNote.creditNoteNo}</title>
+        <style>${this.generateCommonCSS('#f59e0b')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'CREDIT NOTE'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">CREDIT NOTE</div>
+            <div class="number">Credit Note #${creditNote.creditNoteNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Issued To</div>
+                <div class="info-item">
+                  <span class="info-label">Name:</span>
+                  <span class="info-value">${creditNote.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${creditNote.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${creditNote.partyGstin || 'Unregistered'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Against Invoice:</span>
+                  <span class="info-value">#${creditNote.invoiceNo}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${creditNoteDate}</span>
+                </div>
+              </div>
+              
+              <div class="info-block">
+                <div class="info-title">From</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${companyDetails?.gstin || 'GSTIN'}</span>
+                </div>
+              </div>
+            </div>
+            
+            <table class="items-table">
+              <thead class="table-header">${this.generateItemsTableHeaderHTML()}</thead>
+              <tbody>${this.generateItemsTableHTML(creditNote.items)}</tbody>
+            </table>
+            
+            ${this.generateTaxSummaryHTML(creditNote.items, !!creditNote.isInterState)}
+            
+            ${this.generateTaxTotalsHTML(creditNote)}
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
+              </div>
+              
+              <div class="terms-section">
+                <div class="terms-title">Reason for Return</div>
+                <div class="terms-text">
+                  ${creditNote.reason || 'Goods returned by customer'}<br>
+                  • The amount above has been credited to your account
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Credit Note PDF Generation
+  static async generateCreditNotePDF(creditNote: CreditNote): Promise<string | null> {
     try {
       const companyDetails = await this.getCompanyDetails();
-      const currentDate = new Date().toLocaleDateString('en-IN');
-      const billDate = bill.date || currentDate;
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <title>Purchase Bill #${bill.billNo}</title>
-          <style>${this.generateCommonCSS('#dc2626')}</style>
-        </head>
-        <body>
-          <div class="watermark">${companyDetails?.businessName || 'PURCHASE BILL'}</div>
-          <div class="container">
-            <div class="header">
-              <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
-              <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
-              <div class="title">PURCHASE BILL</div>
-              <div class="number">Bill #${bill.billNo}</div>
+      return await this.generatePDF(this.buildCreditNoteHTML(creditNote, companyDetails), `credit-note-${creditNote.creditNoteNo}-${Date.now()}.pdf`);
+    } catch (error) {
+      console.error('Error generating credit note PDF:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Debit note HTML
+   * @param debitNote - Debit note to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildDebitNoteHTML(debitNote: DebitNote, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const debitNoteDate = debitNote.date || currentDate;
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Debit Note #${debitNote.debitNoteNo}</title>
+        <style>${this.generateCommonCSS('#ea580c')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'DEBIT NOTE'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">DEBIT NOTE</div>
+            <div class="number">Debit Note #${debitNote.debitNoteNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Returned To</div>
+                <div class="info-item">
+                  <span class="info-label">Name:</span>
+                  <span class="info-value">${debitNote.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${debitNote.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${debitNote.partyGstin || 'Unregistered'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Against Bill:</span>
+                  <span class="info-value">#${debitNote.billNo}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${debitNoteDate}</span>
+                </div>
+              </div>
+              
+              <div class="info-block">
+                <div class="info-title">From</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${companyDetails?.gstin || 'GSTIN'}</span>
+                </div>
+              </div>
             </div>
             
-            <div class="content">
-              <div class="info-section">
-                <div class="info-block">
-                  <div class="info-title">Bill From</div>
-                  <div class="info-item">
-                    <span class="info-label">Supplier:</span>
-                    <span class="info-value">${bill.partyName}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${bill.phoneNumber}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Date:</span>
-                    <span class="info-value">${billDate}</span>
-                  </div>
-                </div>
-                
-                <div class="info-block">
-                  <div class="info-title">Bill To</div>
-                  <div class="info-item">
-                    <span class="info-label">Business:</span>
-                    <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Address:</span>
-                    <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Pincode:</span>
-                    <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Email:</span>
-                    <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
-                  </div>
-                </div>
+            <table class="items-table">
+              <thead class="table-header">${this.generateItemsTableHeaderHTML()}</thead>
+              <tbody>${this.generateItemsTableHTML(debitNote.items)}</tbody>
+            </table>
+            
+            ${this.generateTaxSummaryHTML(debitNote.items, !!debitNote.isInterState)}
+            
+            ${this.generateTaxTotalsHTML(debitNote)}
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
               </div>
               
-              <table class="items-table">
-                <thead class="table-header">
-                  <tr>
-                    <th>Sr. No.</th>
-                    <th>Item Description</th>
-                    <th>Quantity</th>
-                    <th>Rate (₹)</th>
-                    <th>Amount (₹)</th>
-                  </tr>
-                </thead>
-                <tbody>${this.generateItemsTableHTML(bill.items)}</tbody>
-              </table>
+              <div class="terms-section">
+                <div class="terms-title">Reason for Return</div>
+                <div class="terms-text">
+                  ${debitNote.reason || 'Goods returned to supplier'}<br>
+                  • Please debit the amount above from our account
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Debit Note PDF Generation
+  static async generateDebitNotePDF(debitNote: DebitNote): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildDebitNoteHTML(debitNote, companyDetails), `debit-note-${debitNote.debitNoteNo}-${Date.now()}.pdf`);
+    } catch (error) {
+      console.error('Error generating debit note PDF:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Purchase bill HTML
+   * @param bill - Purchase bill to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildPurchaseBillHTML(bill: PurchaseBill, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const billDate = bill.date || currentDate;
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Purchase Bill #${bill.billNo}</title>
+        <style>${this.generateCommonCSS('#dc2626')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'PURCHASE BILL'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">PURCHASE BILL</div>
+            <div class="number">Bill #${bill.billNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Bill From</div>
+                <div class="info-item">
+                  <span class="info-label">Supplier:</span>
+                  <span class="info-value">${bill.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${bill.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${bill.partyGstin || 'Unregistered'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${billDate}</span>
+                </div>
+              </div>
               
-              <div class="total-section">
-                <div class="total-row">
-                  <span class="total-label">Total Amount:</span>
-                  <span class="total-amount">₹${bill.totalAmount.toLocaleString()}</span>
+              <div class="info-block">
+                <div class="info-title">Bill To</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
                 </div>
-                <div class="total-row grand-total">
-                  <span class="total-label">Grand Total:</span>
-                  <span class="total-amount">₹${bill.totalAmount.toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Pincode:</span>
+                  <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Email:</span>
+                  <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${companyDetails?.gstin || 'GSTIN'}</span>
                 </div>
               </div>
+            </div>
+            
+            <table class="items-table">
+              <thead class="table-header">${this.generateItemsTableHeaderHTML()}</thead>
+              <tbody>${this.generateItemsTableHTML(bill.items)}</tbody>
+            </table>
+            
+            ${this.generateTaxSummaryHTML(bill.items, !!bill.isInterState)}
+            
+            ${this.generateTaxTotalsHTML(bill)}
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
+              </div>
               
-              <div class="footer">
-                <div class="signature-section">
-                  <div class="signature-title">Authorized Signature</div>
-                  <div class="signature-line"></div>
-                  <div class="signature-name">${companyDetails?.signature || 'Authorized Person'}</div>
-                </div>
-                
-                <div class="terms-section">
-                  <div class="terms-title">Terms & Conditions</div>
-                  <div class="terms-text">
-                    • Payment will be made within 30 days of bill date<br>
-                    • Goods received in good condition<br>
-                    • Any defects must be reported within 7 days<br>
-                    • Subject to local jurisdiction
-                  </div>
+              <div class="terms-section">
+                <div class="terms-title">Terms & Conditions</div>
+                <div class="terms-text">
+                  • Payment will be made within 30 days of bill date<br>
+                  • Goods received in good condition<br>
+                  • Any defects must be reported within 7 days<br>
+                  • Subject to local jurisdiction
                 </div>
               </div>
             </div>
           </div>
-        </body>
-        </html>
-      `;
-      
-      return await this.generatePDF(html, `purchase-bill-${bill.billNo}-${Date.now()}.pdf`);
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Purchase Bill PDF Generation
+  static async generatePurchaseBillPDF(bill: PurchaseBill): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildPurchaseBillHTML(bill, companyDetails), `purchase-bill-${bill.billNo}-${Date.now()}.pdf`);
     } catch (error) {
       console.error('Error generating purchase bill PDF:', error);
       return null;
     }
   }
 
-  // Payment In PDF Generation
-  static async generatePaymentInPDF(payment: PaymentIn): Promise<string | null> {
-    try {
-      const companyDetails = await this.getCompanyDetails();
-      const currentDate = new Date().toLocaleDateString('en-IN');
-      const paymentDate = payment.date || currentDate;
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <title>Payment Receipt #${payment.paymentNo}</title>
-          <style>${this.generateCommonCSS('#059669')}</style>
-        </head>
-        <body>
-          <div class="watermark">${companyDetails?.businessName || 'PAYMENT RECEIPT'}</div>
-          <div class="container">
-            <div class="header">
-              <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
-              <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
-              <div class="title">PAYMENT RECEIPT</div>
-              <div class="number">Receipt #${payment.paymentNo}</div>
-            </div>
-            
-            <div class="content">
-              <div class="info-section">
-                <div class="info-block">
-                  <div class="info-title">Received From</div>
-                  <div class="info-item">
-                    <span class="info-label">Customer Name:</span>
-                    <span class="info-value">${payment.partyName}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone Number:</span>
-                    <span class="info-value">${payment.phoneNumber}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Date:</span>
-                    <span class="info-value">${paymentDate}</span>
-                  </div>
-                </div>
-                
-                <div class="info-block">
-                  <div class="info-title">Business Details</div>
-                  <div class="info-item">
-                    <span class="info-label">Business:</span>
-                    <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Address:</span>
-                    <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Pincode:</span>
-                    <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Email:</span>
-                    <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
-                  </div>
+  /**
+   * Payment receipt HTML
+   * @param payment - Payment to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildPaymentInHTML(payment: PaymentIn, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const paymentDate = payment.date || currentDate;
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Payment Receipt #${payment.paymentNo}</title>
+        <style>${this.generateCommonCSS('#059669')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'PAYMENT RECEIPT'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">PAYMENT RECEIPT</div>
+            <div class="number">Receipt #${payment.paymentNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Received From</div>
+                <div class="info-item">
+                  <span class="info-label">Customer Name:</span>
+                  <span class="info-value">${payment.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone Number:</span>
+                  <span class="info-value">${payment.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${paymentDate}</span>
                 </div>
               </div>
               
-              <div class="payment-details">
-                <div class="payment-details-title">Payment Summary</div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Outstanding Balance:</span>
-                  <span class="payment-amount">₹${payment.totalAmount.toLocaleString()}</span>
+              <div class="info-block">
+                <div class="info-title">Business Details</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
                 </div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Amount Received:</span>
-                  <span class="payment-amount">₹${payment.received.toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">Pincode:</span>
+                  <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
                 </div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Remaining Balance:</span>
-                  <span class="payment-amount">₹${(payment.totalAmount - payment.received).toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
                 </div>
+                <div class="info-item">
+                  <span class="info-label">Email:</span>
+                  <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
+                </div>
+              </div>
+            </div>
+            
+            <div class="payment-details">
+              <div class="payment-details-title">Payment Summary</div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Outstanding Balance:</span>
+                <span class="payment-amount">₹${payment.totalAmount.toLocaleString()}</span>
+              </div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Amount Received:</span>
+                <span class="payment-amount">₹${payment.received.toLocaleString()}</span>
+              </div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Remaining Balance:</span>
+                <span class="payment-amount">₹${(payment.totalAmount - payment.received).toLocaleString()}</span>
+              </div>
+            </div>
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
               </div>
               
-              <div class="footer">
-                <div class="signature-section">
-                  <div class="signature-title">Authorized Signature</div>
-                  <div class="signature-line"></div>
-                  <div class="signature-name">${companyDetails?.signature || 'Authorized Person'}</div>
-                </div>
-                
-                <div class="terms-section">
-                  <div class="terms-title">Terms & Conditions</div>
-                  <div class="terms-text">
-                    • This receipt confirms payment received<br>
-                    • Payment is non-refundable<br>
-                    • Receipt is valid for accounting purposes<br>
-                    • Subject to local jurisdiction
-                  </div>
+              <div class="terms-section">
+                <div class="terms-title">Terms & Conditions</div>
+                <div class="terms-text">
+                  • This receipt confirms payment received<br>
+                  • Payment is non-refundable<br>
+                  • Receipt is valid for accounting purposes<br>
+                  • Subject to local jurisdiction
                 </div>
               </div>
             </div>
           </div>
-        </body>
-        </html>
-      `;
-      
-      return await this.generatePDF(html, `payment-receipt-${payment.paymentNo}-${Date.now()}.pdf`);
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Payment In PDF Generation
+  static async generatePaymentInPDF(payment: PaymentIn): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildPaymentInHTML(payment, companyDetails), `payment-receipt-${payment.paymentNo}-${Date.now()}.pdf`);
     } catch (error) {
       console.error('Error generating payment receipt PDF:', error);
       return null;
     }
   }
 
+  /**
+   * Payment voucher HTML
+   * @param payment - Payment to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildPaymentOutHTML(payment: PaymentOut, companyDetails: CompanyDetails | null): string {
+    const currentDate = new Date().toLocaleDateString('en-IN');
+    const paymentDate = payment.date || currentDate;
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Payment Voucher #${payment.paymentNo}</title>
+        <style>${this.generateCommonCSS('#dc2626')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'PAYMENT VOUCHER'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">PAYMENT VOUCHER</div>
+            <div class="number">Voucher #${payment.paymentNo}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Paid To</div>
+                <div class="info-item">
+                  <span class="info-label">Supplier Name:</span>
+                  <span class="info-value">${payment.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone Number:</span>
+                  <span class="info-value">${payment.phoneNumber}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Date:</span>
+                  <span class="info-value">${paymentDate}</span>
+                </div>
+              </div>
+              
+              <div class="info-block">
+                <div class="info-title">Business Details</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Address:</span>
+                  <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Pincode:</span>
+                  <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Email:</span>
+                  <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
+                </div>
+              </div>
+            </div>
+            
+            <div class="payment-details">
+              <div class="payment-details-title">Payment Summary</div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Outstanding Balance:</span>
+                <span class="payment-amount">₹${payment.totalAmount.toLocaleString()}</span>
+              </div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Amount Paid:</span>
+                <span class="payment-amount">₹${payment.paid.toLocaleString()}</span>
+              </div>
+              
+              <div class="payment-row">
+                <span class="payment-label">Remaining Balance:</span>
+                <span class="payment-amount">₹${(payment.totalAmount - payment.paid).toLocaleString()}</span>
+              </div>
+            </div>
+            
+            <div class="footer">
+              <div class="signature-section">
+                <div class="signature-title">Authorized Signature</div>
+                ${CompanyBranding.signatureHTML(companyDetails)}
+              </div>
+              
+              <div class="terms-section">
+                <div class="terms-title">Terms & Conditions</div>
+                <div class="terms-text">
+                  • This voucher confirms payment made<br>
+                  • Payment is non-refundable<br>
+                  • Voucher is valid for accounting purposes<br>
+                  • Subject to local jurisdiction
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
   // Payment Out PDF Generation
   static async generatePaymentOutPDF(payment: PaymentOut): Promise<string | null> {
     try {
       const companyDetails = await this.getCompanyDetails();
-      const currentDate = new Date().toLocaleDateString('en-IN');
-      const paymentDate = payment.date || currentDate;
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <title>Payment Voucher #${payment.paymentNo}</title>
-          <style>${this.generateCommonCSS('#dc2626')}</style>
-        </head>
-        <body>
-          <div class="watermark">${companyDetails?.businessName || 'PAYMENT VOUCHER'}</div>
-          <div class="container">
-            <div class="header">
-              <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
-              <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
-              <div class="title">PAYMENT VOUCHER</div>
-              <div class="number">Voucher #${payment.paymentNo}</div>
-            </div>
-            
-            <div class="content">
-              <div class="info-section">
-                <div class="info-block">
-                  <div class="info-title">Paid To</div>
-                  <div class="info-item">
-                    <span class="info-label">Supplier Name:</span>
-                    <span class="info-value">${payment.partyName}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone Number:</span>
-                    <span class="info-value">${payment.phoneNumber}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Date:</span>
-                    <span class="info-value">${paymentDate}</span>
-                  </div>
-                </div>
-                
-                <div class="info-block">
-                  <div class="info-title">Business Details</div>
-                  <div class="info-item">
-                    <span class="info-label">Business:</span>
-                    <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Address:</span>
-                    <span class="info-value">${companyDetails?.businessAddress || 'Business Address'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Pincode:</span>
-                    <span class="info-value">${companyDetails?.pincode || 'Pincode'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Phone:</span>
-                    <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
-                  </div>
-                  <div class="info-item">
-                    <span class="info-label">Email:</span>
-                    <span class="info-value">${companyDetails?.emailId || 'Email Address'}</span>
-                  </div>
+      return await this.generatePDF(this.buildPaymentOutHTML(payment, companyDetails), `payment-voucher-${payment.paymentNo}-${Date.now()}.pdf`);
+    } catch (error) {
+      console.error('Error generating payment voucher PDF:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Party ledger statement HTML
+   * @param statement - Statement to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildPartyStatementHTML(statement: PartyStatement, companyDetails: CompanyDetails | null): string {
+    const period = `${statement.startDate || 'Beginning'} to ${statement.endDate || new Date().toLocaleDateString('en-IN')}`;
+    const typeLabels: Record<PartyTransaction['type'], string> = {
+      'opening-balance': 'Opening Balance',
+      'invoice': 'Sale Invoice',
+      'credit-note': 'Credit Note',
+      'bill': 'Purchase Bill',
+      'debit-note': 'Debit Note',
+      'payment-in': 'Payment In',
+      'payment-out': 'Payment Out',
+    };
+    const formatBalance = (balance: number) =>
+      `₹${Math.abs(balance).toLocaleString()} ${balance >= 0 ? 'Dr' : 'Cr'}`;
+
+    const rows = statement.entries.map(entry => html`
+      <tr>
+        <td>${new Date(entry.date).toLocaleDateString('en-IN')}</td>
+        <td>${typeLabels[entry.type]}</td>
+        <td>${entry.reference}</td>
+        <td>${entry.debit ? `₹${entry.debit.toLocaleString()}` : '-'}</td>
+        <td>${entry.credit ? `₹${entry.credit.toLocaleString()}` : '-'}</td>
+        <td>${formatBalance(entry.balance)}</td>
+      </tr>
+    `);
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Statement - ${statement.partyName}</title>
+        <style>${this.generateCommonCSS('#0891b2')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'STATEMENT'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">ACCOUNT STATEMENT</div>
+            <div class="number">${period}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Party</div>
+                <div class="info-item">
+                  <span class="info-label">Name:</span>
+                  <span class="info-value">${statement.partyName}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${statement.phoneNumber}</span>
                 </div>
               </div>
               
-              <div class="payment-details">
-                <div class="payment-details-title">Payment Summary</div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Outstanding Balance:</span>
-                  <span class="payment-amount">₹${payment.totalAmount.toLocaleString()}</span>
+              <div class="info-block">
+                <div class="info-title">From</div>
+                <div class="info-item">
+                  <span class="info-label">Business:</span>
+                  <span class="info-value">${companyDetails?.businessName || 'Your Business Name'}</span>
                 </div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Amount Paid:</span>
-                  <span class="payment-amount">₹${payment.paid.toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">Phone:</span>
+                  <span class="info-value">${companyDetails?.phoneNumber1 || 'Phone Number'}</span>
                 </div>
-                
-                <div class="payment-row">
-                  <span class="payment-label">Remaining Balance:</span>
-                  <span class="payment-amount">₹${(payment.totalAmount - payment.paid).toLocaleString()}</span>
+                <div class="info-item">
+                  <span class="info-label">GSTIN:</span>
+                  <span class="info-value">${companyDetails?.gstin || 'GSTIN'}</span>
                 </div>
               </div>
-              
-              <div class="footer">
-                <div class="signature-section">
-                  <div class="signature-title">Authorized Signature</div>
-                  <div class="signature-line"></div>
-                  <div class="signature-name">${companyDetails?.signature || 'Authorized Person'}</div>
-                </div>
-                
-                <div class="terms-section">
-                  <div class="terms-title">Terms & Conditions</div>
-                  <div class="terms-text">
-                    • This voucher confirms payment made<br>
-                    • Payment is non-refundable<br>
-                    • Voucher is valid for accounting purposes<br>
-                    • Subject to local jurisdiction
-                  </div>
+            </div>
+            
+            <table class="tax-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Reference</th>
+                  <th>Debit (₹)</th>
+                  <th>Credit (₹)</th>
+                  <th>Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td colspan="5"><strong>Opening Balance</strong></td>
+                  <td><strong>${formatBalance(statement.openingBalance)}</strong></td>
+                </tr>
+                ${rows}
+              </tbody>
+            </table>
+            
+            <div class="total-section">
+              <div class="total-row">
+                <span class="total-label">Total Debit:</span>
+                <span class="total-amount">₹${statement.totalDebit.toLocaleString()}</span>
+              </div>
+              <div class="total-row">
+                <span class="total-label">Total Credit:</span>
+                <span class="total-amount">₹${statement.totalCredit.toLocaleString()}</span>
+              </div>
+              <div class="total-row grand-total">
+                <span class="total-label">Closing Balance:</span>
+                <span class="total-amount">${formatBalance(statement.closingBalance)}</span>
+              </div>
+            </div>
+            
+            <div class="footer">
+              <div class="terms-section">
+                <div class="terms-title">Note</div>
+                <div class="terms-text">
+                  • Dr: amount receivable from the party, Cr: amount payable to the party<br>
+                  • Please report any discrepancy within 7 days
                 </div>
               </div>
             </div>
           </div>
-        </body>
-        </html>
-      `;
-      
-      return await this.generatePDF(html, `payment-voucher-${payment.paymentNo}-${Date.now()}.pdf`);
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Party Ledger Statement PDF Generation
+  static async generatePartyStatementPDF(statement: PartyStatement): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildPartyStatementHTML(statement, companyDetails), `statement-${statement.partyName.replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}.pdf`);
     } catch (error) {
-      console.error('Error generating payment voucher PDF:', error);
+      console.error('Error generating party statement PDF:', error);
+      return null;
+    }
+  }
+
+  // Revenue / cost / margin table used by the profit & loss report
+  private static generateMarginTableHTML(title: string, rows: ProfitLossRow[]): SafeHtml {
+    const body = rows.map(row => html`
+      <tr>
+        <td>${row.name}</td>
+        <td>${row.quantity.toLocaleString()}</td>
+        <td>₹${row.revenue.toLocaleString()}</td>
+        <td>₹${row.cost.toLocaleString()}</td>
+        <td>₹${row.margin.toLocaleString()}</td>
+        <td>${row.marginPercent}%</td>
+      </tr>
+    `);
+
+    return html`
+      <div class="tax-summary-title">${title}</div>
+      <table class="tax-table">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Qty</th>
+            <th>Revenue (₹)</th>
+            <th>Cost (₹)</th>
+            <th>Margin (₹)</th>
+            <th>Margin %</th>
+          </tr>
+        </thead>
+        <tbody>${rows.length > 0 ? body : html`<tr><td colspan="6">No sales in this period</td></tr>`}</tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Profit & loss report HTML
+   * @param report - Report to render
+   * @param companyDetails - Company details for the header and signature
+   */
+  static buildProfitLossHTML(report: ProfitLossReportData, companyDetails: CompanyDetails | null): string {
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Profit & Loss ${report.startDate} to ${report.endDate}</title>
+        <style>${this.generateCommonCSS('#7c3aed')}</style>
+      </head>
+      <body>
+        <div class="watermark">${companyDetails?.businessName || 'PROFIT & LOSS'}</div>
+        <div class="container">
+          <div class="header">
+            ${CompanyBranding.logoHTML(companyDetails)}
+            <div class="company-name">${companyDetails?.businessName || 'Your Business Name'}</div>
+            <div class="company-description">${companyDetails?.businessDescription || 'Business Description'}</div>
+            <div class="title">PROFIT & LOSS</div>
+            <div class="number">${report.startDate} to ${report.endDate}</div>
+          </div>
+          
+          <div class="content">
+            <div class="info-section">
+              <div class="info-block">
+                <div class="info-title">Period</div>
+                <div class="info-item">
+                  <span class="info-label">Invoices:</span>
+                  <span class="info-value">${report.invoiceCount}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Purchase Bills:</span>
+                  <span class="info-value">${report.billCount}</span>
+                </div>
+                <div class="info-item">
+                  <span class="info-label">Purchases:</span>
+                  <span class="info-value">₹${report.purchases.toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+            
+            ${this.generateMarginTableHTML('By Category', report.byCategory)}
+            
+            ${this.generateMarginTableHTML('By Item', report.byItem)}
+            
+            <div class="total-section">
+              <div class="total-row">
+                <span class="total-label">Revenue (excl. GST):</span>
+                <span class="total-amount">₹${report.revenue.toLocaleString()}</span>
+              </div>
+              <div class="total-row">
+                <span class="total-label">Cost of Goods Sold:</span>
+                <span class="total-amount">₹${report.costOfGoodsSold.toLocaleString()}</span>
+              </div>
+              <div class="total-row grand-total">
+                <span class="total-label">Gross Margin (${report.grossMarginPercent}%):</span>
+                <span class="total-amount">₹${report.grossMargin.toLocaleString()}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  // Profit & Loss Report PDF Generation
+  static async generateProfitLossPDF(report: ProfitLossReportData): Promise<string | null> {
+    try {
+      const companyDetails = await this.getCompanyDetails();
+      return await this.generatePDF(this.buildProfitLossHTML(report, companyDetails), `profit-loss-${report.startDate}-${report.endDate}-${Date.now()}.pdf`);
+    } catch (error) {
+      console.error('Error generating profit & loss PDF:', error);
       return null;
     }
   }
@@ -910,6 +1623,22 @@ export class BasePdfGenerator {
     return false;
   }
 
+  static async generateAndShareQuotation(quotation: Quotation): Promise<boolean> {
+    const pdfUri = await this.generateQuotationPDF(quotation);
+    if (pdfUri) {
+      return await this.sharePDF(pdfUri, `Quotation #${quotation.quotationNo}`);
+    }
+    return false;
+  }
+
+  static async generateAndShareCreditNote(creditNote: CreditNote): Promise<boolean> {
+    const pdfUri = await this.generateCreditNotePDF(creditNote);
+    if (pdfUri) {
+      return await this.sharePDF(pdfUri, `Credit Note #${creditNote.creditNoteNo}`);
+    }
+    return false;
+  }
+
   static async generateAndSharePurchaseBill(bill: PurchaseBill): Promise<boolean> {
     const pdfUri = await this.generatePurchaseBillPDF(bill);
     if (pdfUri) {
@@ -918,6 +1647,14 @@ export class BasePdfGenerator {
     return false;
   }
 
+  static async generateAndShareDebitNote(debitNote: DebitNote): Promise<boolean> {
+    const pdfUri = await this.generateDebitNotePDF(debitNote);
+    if (pdfUri) {
+      return await this.sharePDF(pdfUri, `Debit Note #${debitNote.debitNoteNo}`);
+    }
+    return false;
+  }
+
   static async generateAndSharePaymentReceipt(payment: PaymentIn): Promise<boolean> {
     const pdfUri = await this.generatePaymentInPDF(payment);
     if (pdfUri) {
@@ -934,6 +1671,22 @@ export class BasePdfGenerator {
     return false;
   }
 
+  static async generateAndSharePartyStatement(statement: PartyStatement): Promise<boolean> {
+    const pdfUri = await this.generatePartyStatementPDF(statement);
+    if (pdfUri) {
+      return await this.sharePDF(pdfUri, `Statement - ${statement.partyName}`);
+    }
+    return false;
+  }
+
+  static async generateAndShareProfitLossReport(report: ProfitLossReportData): Promise<boolean> {
+    const pdfUri = await this.generateProfitLossPDF(report);
+    if (pdfUri) {
+      return await this.sharePDF(pdfUri, `Profit & Loss ${report.startDate} to ${report.endDate}`);
+    }
+    return false;
+  }
+
   // Convenience methods for saving to documents
   static async saveInvoiceToDocuments(invoice: SaleInvoice): Promise<string | null> {
     const pdfUri = await this.generateInvoicePDF(invoice);
@@ -0,0 +1,105 @@
+import { CompanyDetails } from './api';
+import { html, raw, SafeHtml } from './htmlTemplate';
+
+// A point of a pen stroke, in canvas pixels
+interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+// Blank space kept around the strokes, in canvas pixels
+const SIGNATURE_PADDING = 4;
+
+// Image sources a logo may use; anything else (javascript:, other schemes) is dropped
+const LOGO_SOURCE_PATTERN = /^(https?:|file:|data:image\/)/i;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+export class CompanyBranding {
+  /**
+   * Pen strokes saved by SignatureCanvas, a JSON array of point arrays
+   * @param signature - CompanyDetails.signature
+   * @returns Strokes with at least one point, or null for text or empty signatures
+   */
+  static parseSignature(signature?: string): StrokePoint[][] | null {
+    if (!signature || !signature.trim().startsWith('[')) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(signature);
+      if (!Array.isArray(parsed)) {
+        return null;
+      }
+      const strokes = parsed
+        .filter(Array.isArray)
+        .map(stroke => (stroke as unknown[]).filter((point): point is StrokePoint =>
+          !!point && typeof (point as StrokePoint).x === 'number' && typeof (point as StrokePoint).y === 'number'
+        ))
+        .filter(stroke => stroke.length > 0);
+      return strokes.length > 0 ? strokes : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * SVG drawing of a saved signature, cropped to the strokes
+   * @param signature - CompanyDetails.signature
+   * @param height - Printed height in pixels; the width follows the strokes, up to four times the height
+   * @param color - Ink colour
+   * @returns SVG markup, or null when there is no drawn signature
+   */
+  static signatureToSvg(signature?: string, height: number = 60, color: string = '#111827'): string | null {
+    const strokes = this.parseSignature(signature);
+    if (!strokes) {
+      return null;
+    }
+
+    const points = strokes.flat();
+    const minX = Math.min(...points.map(point => point.x)) - SIGNATURE_PADDING;
+    const minY = Math.min(...points.map(point => point.y)) - SIGNATURE_PADDING;
+    const viewWidth = Math.max(...points.map(point => point.x)) - minX + SIGNATURE_PADDING;
+    const viewHeight = Math.max(...points.map(point => point.y)) - minY + SIGNATURE_PADDING;
+
+    // Very wide signatures are shrunk to fit rather than cropped
+    const scale = Math.min(height / viewHeight, (height * 4) / viewWidth);
+
+    const paths = strokes.map(stroke => {
+      // A single tap is drawn as a dot
+      const drawn = stroke.length === 1 ? [stroke[0], { x: stroke[0].x + 0.1, y: stroke[0].y }] : stroke;
+      const d = drawn
+        .map((point, index) => `${index === 0 ? 'M' : 'L'} ${round(point.x - minX)} ${round(point.y - minY)}`)
+        .join(' ');
+      return `<path d="${d}" />`;
+    }).join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(viewWidth * scale)}" height="${round(viewHeight * scale)}" viewBox="0 0 ${round(viewWidth)} ${round(viewHeight)}" preserveAspectRatio="xMinYMid meet" fill="none" stroke="${color}" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${paths}</svg>`;
+  }
+
+  /**
+   * Signature block for PDFs: the drawn signature above the line, the business name below it
+   * @param company - Company details
+   */
+  static signatureHTML(company: CompanyDetails | null): SafeHtml {
+    const svg = this.signatureToSvg(company?.signature);
+    return html`
+      ${svg ? html`<div class="signature-image" style="margin-bottom: 4px;">${raw(svg)}</div>` : ''}
+      <div class="signature-line"></div>
+      <div class="signature-name">${company?.businessName || 'Authorized Person'}</div>
+    `;
+  }
+
+  /**
+   * Company logo for PDF headers, empty when no usable profile image is set
+   * @param company - Company details
+   * @param maxHeight - Tallest the logo may be, in pixels
+   */
+  static logoHTML(company: CompanyDetails | null, maxHeight: number = 64): SafeHtml {
+    const image = company?.profileImage?.trim();
+    if (!image || !LOGO_SOURCE_PATTERN.test(image)) {
+      return html``;
+    }
+    return html`<img class="company-logo" src="${image}" alt="" style="max-height: ${maxHeight}px; max-width: 160px; object-fit: contain; margin-bottom: 8px;" />`;
+  }
+}
@@ -0,0 +1,186 @@
+import * as Crypto from 'expo-crypto';
+import { CompanyApiService, Party, PartyApiService, PaymentApiService, SaleApiService } from './api';
+import { DocumentDates } from './documentDates';
+import { PartyManager } from './partyManager';
+import { OpenDocument, PaymentAllocations } from './paymentAllocation';
+
+export type CreditHoldReason = 'over-limit' | 'overdue';
+
+// Where a party stands against its credit terms
+export interface CreditStatus {
+  partyId: string;
+  partyName: string;
+  phoneNumber: string;
+  balance: number; // including the new invoice being checked, if any
+  creditLimit?: number;
+  creditDays?: number;
+  overdueAmount: number;
+  overdueCount: number;
+  oldestOverdueDays: number;
+  reasons: CreditHoldReason[]; // empty when the party is not on hold
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CreditControl {
+  /**
+   * Whether a party has a credit limit or credit period set. Parties without
+   * credit terms are never put on hold.
+   */
+  static hasCreditTerms(party: Pick<Party, 'creditLimit' | 'creditDays'>): boolean {
+    return (party.creditLimit || 0) > 0 || typeof party.creditDays === 'number';
+  }
+
+  /**
+   * Check a party against its credit terms
+   * @param party - Party
+   * @param balance - Net balance of the party, including any new invoice amount
+   * @param openInvoices - Party's sale invoices with an amount still due
+   * @param asOfDate - Date used to decide which invoices are past the credit period
+   */
+  static evaluate(
+    party: Party,
+    balance: number,
+    openInvoices: OpenDocument[],
+    asOfDate: Date = new Date()
+  ): CreditStatus {
+    const reasons: CreditHoldReason[] = [];
+
+    if ((party.creditLimit || 0) > 0 && balance > party.creditLimit!) {
+      reasons.push('over-limit');
+    }
+
+    // Days since an invoice was made; 0 when its date cannot be read
+    const getAgeDays = (invoice: OpenDocument): number => {
+      const invoiceDate = DocumentDates.getDocumentDate(invoice);
+      return invoiceDate ? (asOfDate.getTime() - invoiceDate.getTime()) / DAY_MS : 0;
+    };
+
+    // Invoices unpaid for longer than the party's credit period
+    const overdue = typeof party.creditDays === 'number'
+      ? openInvoices.filter(invoice => getAgeDays(invoice) > party.creditDays!)
+      : [];
+    if (overdue.length > 0) {
+      reasons.push('overdue');
+    }
+
+    const oldestOverdueDays = overdue.reduce((oldest, invoice) => Math.max(
+      oldest,
+      Math.floor(getAgeDays(invoice)) - party.creditDays!
+    ), 0);
+
+    return {
+      partyId: party.id,
+      partyName: party.name,
+      phoneNumber: party.phoneNumber,
+      balance,
+      creditLimit: party.creditLimit,
+      creditDays: party.creditDays ?? undefined,
+      overdueAmount: overdue.reduce((sum, invoice) => sum + invoice.dueAmount, 0),
+      overdueCount: overdue.length,
+      oldestOverdueDays,
+      reasons,
+    };
+  }
+
+  /**
+   * Check whether a new invoice for a party is allowed by its credit terms
+   * @param party - Party being invoiced
+   * @param amount - Amount of the new invoice
+   */
+  static async checkInvoice(party: Party, amount: number): Promise<CreditStatus> {
+    if (!this.hasCreditTerms(party)) {
+      return this.evaluate(party, 0, []);
+    }
+
+    const [balance, openInvoices] = await Promise.all([
+      PartyManager.getPartyBalance(party),
+      PaymentAllocations.getOpenDocuments('payment-in', party),
+    ]);
+    return this.evaluate(party, balance + amount, openInvoices);
+  }
+
+  /**
+   * Get every party currently on credit hold, longest overdue first
+   */
+  static async getCreditHolds(): Promise<CreditStatus[]> {
+    const parties = (await PartyApiService.getParties()).filter(party => this.hasCreditTerms(party));
+    if (parties.length === 0) {
+      return [];
+    }
+
+    const [balances, sales, payments] = await Promise.all([
+      PartyApiService.getBalances(),
+      SaleApiService.getSales(),
+      PaymentApiService.getPayments({ type: 'payment-in' }),
+    ]);
+
+    const balancesById = new Map(balances.map(balance => [balance.partyId, balance.balance]));
+    const invoices = sales.map(sale => PaymentAllocations.fromSale(sale));
+    const statuses = PaymentAllocations.computeStatuses(invoices, payments, parties);
+    const getPartyKey = PartyManager.createPartyKeyResolver(parties);
+
+    const openInvoicesByParty = new Map<string, OpenDocument[]>();
+    invoices.forEach(invoice => {
+      const status = statuses.get(invoice.id)!;
+      if (status.dueAmount <= 0) return;
+      const key = getPartyKey(invoice);
+      openInvoicesByParty.set(key, [...(openInvoicesByParty.get(key) || []), { ...invoice, ...status }]);
+    });
+
+    return parties
+      .map(party => this.evaluate(party, balancesById.get(party.id) || 0, openInvoicesByParty.get(party.id) || []))
+      .filter(status => status.reasons.length > 0)
+      .sort((a, b) => b.oldestOverdueDays - a.oldestOverdueDays || b.balance - a.balance);
+  }
+
+  /**
+   * Explanation of why a party is on hold, one line per reason
+   */
+  static describeHold(status: CreditStatus): string {
+    return status.reasons.map(reason => {
+      if (reason === 'over-limit') {
+        return `Balance ₹${Math.round(status.balance).toLocaleString()} exceeds limit ₹${Math.round(status.creditLimit || 0).toLocaleString()}`;
+      }
+      return `${status.overdueCount} invoice(s) worth ₹${Math.round(status.overdueAmount).toLocaleString()} past the ${status.creditDays}-day credit period`;
+    }).join('\n');
+  }
+
+  /**
+   * Whether invoices for parties on hold can be approved with a manager PIN.
+   * Without a PIN set in company details, parties on hold cannot be invoiced.
+   * The same holds offline, since the cached company details carry no PIN.
+   */
+  static async isOverrideEnabled(): Promise<boolean> {
+    try {
+      const details = await CompanyApiService.getCompanyDetails();
+      return !!(details.creditOverridePinHash || details.creditOverridePin);
+    } catch (error) {
+      console.error('Error loading credit override settings:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Salted SHA-256 of a manager PIN as "salt:hash", so the PIN itself is never saved
+   * @param pin - PIN as entered
+   * @param salt - Salt of a stored hash to check against; a new one is made when omitted
+   */
+  static async hashOverridePin(pin: string, salt: string = Crypto.randomUUID()): Promise<string> {
+    const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin.trim()}`);
+    return `${salt}:${hash}`;
+  }
+
+  /**
+   * Check a manager PIN against the hash set in company details
+   */
+  static async verifyOverridePin(pin: string): Promise<boolean> {
+    const details = await CompanyApiService.getCompanyDetails();
+    if (details.creditOverridePinHash) {
+      const [salt] = details.creditOverridePinHash.split(':');
+      return await this.hashOverridePin(pin, salt) === details.creditOverridePinHash;
+    }
+    // PIN saved before hashing, until company details are saved again
+    return !!details.creditOverridePin && details.creditOverridePin === pin.trim();
+  }
+}
@@ -0,0 +1,135 @@
+import { CreditNote, CreditNoteApiService, SaleApiService, SaleInvoice, SaleItem } from './api';
+import { BasePdfGenerator } from './basePdfGenerator';
+import { NumberSeries } from './numberSeries';
+import { ReturnableLine, ReturnNotes, ReturnNoteTotals } from './returnNotes';
+import { StockManager } from './stockManager';
+
+// Round to paise
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Outcome of saving or deleting a credit note; the note is saved even if its stock failed
+export interface CreditNoteStockResult {
+  creditNote: CreditNote;
+  stockError: unknown; // null when stock was fully updated
+}
+
+export class CreditNoteManager {
+  /**
+   * Next credit note number, one more than the highest used so far
+   * @param creditNotes - Existing credit notes
+   */
+  static getNextCreditNoteNo(creditNotes: CreditNote[]): string {
+    return NumberSeries.getNextRunningNumber(creditNotes.map(creditNote => creditNote.creditNoteNo));
+  }
+
+  /**
+   * Lines of an invoice with the quantity already returned on its credit notes
+   * @param invoice - Sale invoice
+   * @param creditNotes - Credit notes raised against the invoice
+   */
+  static getReturnableLines(invoice: SaleInvoice, creditNotes: CreditNote[]): ReturnableLine[] {
+    return ReturnNotes.getReturnableLines(invoice, creditNotes.filter(creditNote => creditNote.invoiceId === invoice.id));
+  }
+
+  /**
+   * Build the returned lines and tax of a credit note from returned quantities.
+   * Lines are priced and taxed the same way as on the invoice.
+   * @param invoice - Sale invoice the goods were sold on
+   * @param quantities - Returned quantity per invoice line id
+   */
+  static buildCreditNote(invoice: SaleInvoice, quantities: Record<string, number>): ReturnNoteTotals<SaleItem> {
+    return ReturnNotes.buildReturnNote(invoice, quantities);
+  }
+
+  /**
+   * Record goods returned against an invoice: save the credit note with its
+   * PDF, add the stock back and reduce what is still due on the invoice.
+   * The party balance drops because credit notes count against it.
+   * @param invoice - Sale invoice the goods were sold on
+   * @param quantities - Returned quantity per invoice line id
+   * @param reason - Optional reason shown on the credit note
+   * @returns The credit note, with the stock error if some items were not added back
+   */
+  static async createCreditNote(
+    invoice: SaleInvoice,
+    quantities: Record<string, number>,
+    reason?: string
+  ): Promise<CreditNoteStockResult> {
+    const existing = await CreditNoteApiService.getCreditNotes();
+    ReturnNotes.checkQuantities(this.getReturnableLines(invoice, existing), quantities);
+
+    const creditNoteData: Omit<CreditNote, 'id' | 'createdAt' | 'updatedAt'> = {
+      ...this.buildCreditNote(invoice, quantities),
+      creditNoteNo: this.getNextCreditNoteNo(existing),
+      invoiceId: invoice.id,
+      invoiceNo: invoice.invoiceNo,
+      partyId: invoice.partyId,
+      partyName: invoice.partyName,
+      phoneNumber: invoice.phoneNumber,
+      partyGstin: invoice.partyGstin,
+      isInterState: invoice.isInterState,
+      placeOfSupply: invoice.placeOfSupply,
+      date: new Date().toLocaleDateString(),
+      reason: reason?.trim() || undefined,
+    };
+    if (creditNoteData.items.length === 0) {
+      throw new Error('Enter a returned quantity for at least one item');
+    }
+
+    const pdfUri = await BasePdfGenerator.generateCreditNotePDF({ id: '', ...creditNoteData });
+    const creditNote = await CreditNoteApiService.createCreditNote({ ...creditNoteData, pdfUri: pdfUri || undefined });
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.updateStockOnSaleReturn(
+        creditNote.items || creditNoteData.items,
+        invoice.id,
+        creditNote.id,
+        `CN-${creditNote.creditNoteNo}`
+      );
+    } catch (error) {
+      console.error('Error updating stock for credit note:', error);
+      stockError = error;
+    }
+
+    await SaleApiService.updateSale(invoice.id, {
+      returnedAmount: roundAmount((invoice.returnedAmount || 0) + creditNote.totalAmount),
+    });
+
+    return { creditNote, stockError };
+  }
+
+  /**
+   * Delete a credit note, taking the returned stock out again and restoring
+   * the amount due on its invoice
+   * @param creditNote - Credit note to delete
+   * @returns The deleted credit note, with the stock error if some items were not taken out again
+   */
+  static async deleteCreditNote(creditNote: CreditNote): Promise<CreditNoteStockResult> {
+    await CreditNoteApiService.deleteCreditNote(creditNote.id);
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.revertStockOnSaleReturn(
+        creditNote.items,
+        creditNote.invoiceId,
+        creditNote.id,
+        `CN-${creditNote.creditNoteNo}`
+      );
+    } catch (error) {
+      console.error('Error reverting stock for credit note:', error);
+      stockError = error;
+    }
+
+    try {
+      const invoice = await SaleApiService.getSaleById(creditNote.invoiceId);
+      await SaleApiService.updateSale(creditNote.invoiceId, {
+        returnedAmount: Math.max(0, roundAmount((invoice.returnedAmount || 0) - creditNote.totalAmount)),
+      });
+    } catch (error) {
+      console.error('Error updating returned amount of invoice:', error);
+    }
+
+    return { creditNote, stockError };
+  }
+}
@@ -0,0 +1,166 @@
+import { DebitNote, DebitNoteApiService, PurchaseApiService, PurchaseBill, PurchaseItem } from './api';
+import { BasePdfGenerator } from './basePdfGenerator';
+import { DocumentService } from './documentService';
+import { NumberSeries } from './numberSeries';
+import { ReturnableLine, ReturnNotes, ReturnNoteTotals } from './returnNotes';
+import { StockManager } from './stockManager';
+
+// Round to paise
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Outcome of saving or deleting a debit note; the note is saved even if its stock failed
+export interface DebitNoteStockResult {
+  debitNote: DebitNote;
+  stockError: unknown; // null when stock was fully updated
+}
+
+export class DebitNoteManager {
+  /**
+   * Next debit note number, one more than the highest used so far
+   * @param debitNotes - Existing debit notes
+   */
+  static getNextDebitNoteNo(debitNotes: DebitNote[]): string {
+    return NumberSeries.getNextRunningNumber(debitNotes.map(debitNote => debitNote.debitNoteNo));
+  }
+
+  /**
+   * Lines of a bill with the quantity already sent back on its debit notes
+   * @param bill - Purchase bill
+   * @param debitNotes - Debit notes raised against the bill
+   */
+  static getReturnableLines(bill: PurchaseBill, debitNotes: DebitNote[]): ReturnableLine[] {
+    return ReturnNotes.getReturnableLines(bill, debitNotes.filter(debitNote => debitNote.billId === bill.id));
+  }
+
+  /**
+   * Build the returned lines and tax of a debit note from returned quantities.
+   * Lines are priced and taxed the same way as on the bill.
+   * @param bill - Purchase bill the goods were bought on
+   * @param quantities - Returned quantity per bill line id
+   */
+  static buildDebitNote(bill: PurchaseBill, quantities: Record<string, number>): ReturnNoteTotals<PurchaseItem> {
+    return ReturnNotes.buildReturnNote(bill, quantities);
+  }
+
+  /**
+   * Record goods sent back to the supplier against a bill: save the debit note
+   * with its PDF voucher, take the stock out and reduce what is still payable
+   * on the bill. The supplier balance moves because debit notes count against it.
+   * @param bill - Purchase bill the goods were bought on
+   * @param quantities - Returned quantity per bill line id
+   * @param reason - Optional reason shown on the debit note, e.g. rejected lot
+   * @returns The debit note, with the stock error if some items were not taken out
+   */
+  static async createDebitNote(
+    bill: PurchaseBill,
+    quantities: Record<string, number>,
+    reason?: string
+  ): Promise<DebitNoteStockResult> {
+    const existing = await DebitNoteApiService.getDebitNotes();
+    ReturnNotes.checkQuantities(this.getReturnableLines(bill, existing), quantities);
+
+    const debitNoteData: Omit<DebitNote, 'id' | 'createdAt' | 'updatedAt'> = {
+      ...this.buildDebitNote(bill, quantities),
+      debitNoteNo: this.getNextDebitNoteNo(existing),
+      billId: bill.id,
+      billNo: bill.billNo,
+      partyId: bill.partyId,
+      partyName: bill.partyName,
+      phoneNumber: bill.phoneNumber,
+      partyGstin: bill.partyGstin,
+      isInterState: bill.isInterState,
+      placeOfSupply: bill.placeOfSupply,
+      date: new Date().toLocaleDateString(),
+      reason: reason?.trim() || undefined,
+    };
+    if (debitNoteData.items.length === 0) {
+      throw new Error('Enter a returned quantity for at least one item');
+    }
+
+    const pdfUri = await BasePdfGenerator.generateDebitNotePDF({ id: '', ...debitNoteData });
+    const debitNote = await DebitNoteApiService.createDebitNote({ ...debitNoteData, pdfUri: pdfUri || undefined });
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.updateStockOnPurchaseReturn(
+        debitNote.items || debitNoteData.items,
+        bill.id,
+        debitNote.id,
+        `DN-${debitNote.debitNoteNo}`
+      );
+    } catch (error) {
+      console.error('Error updating stock for debit note:', error);
+      stockError = error;
+    }
+
+    await PurchaseApiService.updatePurchase(bill.id, {
+      returnedAmount: roundAmount((bill.returnedAmount || 0) + debitNote.totalAmount),
+    });
+
+    return { debitNote, stockError };
+  }
+
+  /**
+   * Delete a debit note, adding the returned stock back and restoring the
+   * amount payable on its bill
+   * @param debitNote - Debit note to delete
+   * @returns The deleted debit note, with the stock error if some items were not added back
+   */
+  static async deleteDebitNote(debitNote: DebitNote): Promise<DebitNoteStockResult> {
+    await DebitNoteApiService.deleteDebitNote(debitNote.id);
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.revertStockOnPurchaseReturn(
+        debitNote.items,
+        debitNote.billId,
+        debitNote.id,
+        `DN-${debitNote.debitNoteNo}`
+      );
+    } catch (error) {
+      console.error('Error reverting stock for debit note:', error);
+      stockError = error;
+    }
+
+    try {
+      const bill = await PurchaseApiService.getPurchaseById(debitNote.billId);
+      await PurchaseApiService.updatePurchase(debitNote.billId, {
+        returnedAmount: Math.max(0, roundAmount((bill.returnedAmount || 0) - debitNote.totalAmount)),
+      });
+    } catch (error) {
+      console.error('Error updating returned amount of bill:', error);
+    }
+
+    return { debitNote, stockError };
+  }
+
+  /**
+   * Send a debit note voucher to the supplier on WhatsApp, generating the PDF
+   * first if the debit note has none
+   * @param debitNote - Debit note to send
+   * @returns Whether the message was sent
+   */
+  static async sendViaWhatsApp(debitNote: DebitNote): Promise<boolean> {
+    let pdfUri = debitNote.pdfUri;
+    if (!pdfUri) {
+      pdfUri = await BasePdfGenerator.generateDebitNotePDF(debitNote) || undefined;
+      if (!pdfUri) {
+        return false;
+      }
+      await DebitNoteApiService.updateDebitNote(debitNote.id, { pdfUri });
+    }
+
+    const result = await DocumentService.sendDebitNoteViaWhatsApp(
+      debitNote.phoneNumber,
+      pdfUri,
+      debitNote.debitNoteNo,
+      debitNote.billNo,
+      debitNote.partyName,
+      debitNote.totalAmount
+    );
+    if (!result.success) {
+      console.warn('Failed to send debit note via WhatsApp:', result.error);
+    }
+    return result.success;
+  }
+}
@@ -0,0 +1,41 @@
+// Date as printed on documents, day first: 05/04/2025 is 5 April 2025
+const DISPLAY_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+// A document with its display date and, when saved by a recent version, its creation time
+export interface DatedDocument {
+  date?: string;
+  createdAt?: string; // ISO
+}
+
+export class DocumentDates {
+  /**
+   * Read a document date: a dd/mm/yyyy display date or an ISO timestamp
+   * @param value - Date text
+   * @returns The date, or null if it cannot be read
+   */
+  static parse(value?: string): Date | null {
+    if (!value) {
+      return null;
+    }
+
+    const match = value.trim().match(DISPLAY_DATE_PATTERN);
+    if (match) {
+      const [, day, month, year] = match.map(Number);
+      const date = new Date(year, month - 1, day);
+      // Reject dates that roll over, e.g. 31/02/2025
+      return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * When a document was made: its creation time, else its display date
+   * @param document - Document with a date and optional createdAt
+   * @returns The date, or null if neither can be read
+   */
+  static getDocumentDate(document: DatedDocument): Date | null {
+    return this.parse(document.createdAt) || this.parse(document.date);
+  }
+}
@@ -110,15 +110,19 @@ export class DocumentService {
     phoneNumber: string,
     documentUrl: string,
     fileName: string,
-    documentType: 'invoice' | 'purchase-bill' | 'payment-receipt' | 'payment-voucher',
+    documentType: 'invoice' | 'quotation' | 'purchase-bill' | 'debit-note' | 'payment-receipt' | 'payment-voucher' | 'statement',
     documentData: {
       invoiceNo?: string;
+      quotationNo?: string;
+      validUntil?: string;
       customerName?: string;
       amount?: number;
       billNo?: string;
+      debitNoteNo?: string;
       supplierName?: string;
       receiptNo?: string;
       voucherNo?: string;
+      statementPeriod?: string;
     }
   ): Promise<WhatsAppSendResponse> {
     try {
@@ -188,6 +192,32 @@ export class DocumentService {
     });
   }
 
+  /**
+   * Send quotation via WhatsApp
+   * @param phoneNumber - Customer's phone number
+   * @param documentUrl - Quotation PDF URL
+   * @param quotationNo - Quotation number
+   * @param customerName - Customer name
+   * @param amount - Quoted amount
+   * @param validUntil - Date the quoted prices hold until
+   */
+  static async sendQuotationViaWhatsApp(
+    phoneNumber: string,
+    documentUrl: string,
+    quotationNo: string,
+    customerName: string,
+    amount: number,
+    validUntil: string
+  ): Promise<WhatsAppSendResponse> {
+    const fileName = `Quotation-${quotationNo}.pdf`;
+    return this.sendDocumentViaWhatsApp(phoneNumber, documentUrl, fileName, 'quotation', {
+      quotationNo,
+      customerName,
+      amount,
+      validUntil
+    });
+  }
+
   /**
    * Send purchase bill via WhatsApp
    * @param phoneNumber - Supplier's phone number
@@ -211,6 +241,32 @@ export class DocumentService {
     });
   }
 
+  /**
+   * Send debit note via WhatsApp
+   * @param phoneNumber - Supplier's phone number
+   * @param documentUrl - Debit note PDF URL
+   * @param debitNoteNo - Debit note number
+   * @param billNo - Number of the bill the goods were returned against
+   * @param supplierName - Supplier name
+   * @param amount - Debit note amount
+   */
+  static async sendDebitNoteViaWhatsApp(
+    phoneNumber: string,
+    documentUrl: string,
+    debitNoteNo: string,
+    billNo: string,
+    supplierName: string,
+    amount: number
+  ): Promise<WhatsAppSendResponse> {
+    const fileName = `Debit-Note-${debitNoteNo}.pdf`;
+    return this.sendDocumentViaWhatsApp(phoneNumber, documentUrl, fileName, 'debit-note', {
+      debitNoteNo,
+      billNo,
+      supplierName,
+      amount
+    });
+  }
+
   /**
    * Send payment receipt via WhatsApp
    * @param phoneNumber - Customer's phone number
@@ -257,6 +313,29 @@ export class DocumentService {
     });
   }
 
+  /**
+   * Send party ledger statement via WhatsApp
+   * @param phoneNumber - Party's phone number
+   * @param documentUrl - Statement PDF URL
+   * @param partyName - Party name
+   * @param closingBalance - Balance at the end of the statement period
+   * @param statementPeriod - Period covered, e.g. 2024-04-01 to 2025-03-31
+   */
+  static async sendPartyStatementViaWhatsApp(
+    phoneNumber: string,
+    documentUrl: string,
+    partyName: string,
+    closingBalance: number,
+    statementPeriod: string
+  ): Promise<WhatsAppSendResponse> {
+    const fileName = `Statement-${partyName.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
+    return this.sendDocumentViaWhatsApp(phoneNumber, documentUrl, fileName, 'statement', {
+      customerName: partyName,
+      amount: closingBalance,
+      statementPeriod
+    });
+  }
+
   /**
    * Test WhatsApp service connection
    */
@@ -0,0 +1,196 @@
+// GST rate slabs supported on items (in percent)
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+// Line item shape shared by sale invoices and purchase bills
+interface TaxableItem {
+  id: string;
+  itemName: string;
+  quantity: number;
+  rate: number;
+  total: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+// HSN/rate-wise row of the tax summary table
+export interface TaxSummaryRow {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+// Result of applying GST to a document's items
+export interface DocumentTaxBreakup<T extends TaxableItem> {
+  items: T[];
+  isInterState: boolean;
+  placeOfSupply: string;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+  totalAmount: number;
+  taxSummary: TaxSummaryRow[];
+}
+
+// GSTIN format: 2 digit state code, 10 char PAN, entity code, 'Z', checksum
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// GST state codes: 01-38 for states and union territories, 97 other territory, 99 centre jurisdiction
+const isKnownStateCode = (code: string): boolean => {
+  const value = parseInt(code, 10);
+  return (value >= 1 && value <= 38) || value === 97 || value === 99;
+};
+
+// Round to paise
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+export class GstCalculator {
+  /**
+   * Normalize a GSTIN entered by the user (trim and uppercase)
+   * @param gstin - Raw GSTIN input
+   */
+  static normalizeGstin(gstin?: string): string {
+    return (gstin || '').trim().toUpperCase();
+  }
+
+  /**
+   * Check whether a GSTIN is structurally valid and starts with a known state code
+   * @param gstin - GSTIN to validate
+   */
+  static isValidGstin(gstin?: string): boolean {
+    const normalized = this.normalizeGstin(gstin);
+    return GSTIN_PATTERN.test(normalized) && isKnownStateCode(normalized.substring(0, 2));
+  }
+
+  /**
+   * Get the two digit state code from a GSTIN
+   * @param gstin - GSTIN of the business or party
+   * @returns State code, or empty string if the GSTIN is missing/invalid
+   */
+  static getStateCode(gstin?: string): string {
+    const normalized = this.normalizeGstin(gstin);
+    return this.isValidGstin(normalized) ? normalized.substring(0, 2) : '';
+  }
+
+  /**
+   * Determine whether a supply is inter-state (IGST) or intra-state (CGST + SGST).
+   * Parties without a GSTIN (B2C) are treated as intra-state supplies.
+   * @param companyGstin - Our GSTIN
+   * @param partyGstin - Customer/supplier GSTIN
+   */
+  static isInterState(companyGstin?: string, partyGstin?: string): boolean {
+    const companyState = this.getStateCode(companyGstin);
+    const partyState = this.getStateCode(partyGstin);
+
+    if (!companyState || !partyState) {
+      return false;
+    }
+
+    return companyState !== partyState;
+  }
+
+  /**
+   * Calculate tax amounts for a single line item
+   * @param item - Line item whose total is the taxable value
+   * @param interState - Whether IGST applies
+   */
+  static calculateItemTax<T extends TaxableItem>(item: T, interState: boolean): T {
+    const gstRate = item.gstRate || 0;
+    const taxableValue = roundAmount(item.total || 0);
+    const totalTax = roundAmount((taxableValue * gstRate) / 100);
+
+    if (interState) {
+      return {
+        ...item,
+        taxableValue,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: totalTax,
+      };
+    }
+
+    const halfTax = roundAmount(totalTax / 2);
+    return {
+      ...item,
+      taxableValue,
+      cgstAmount: halfTax,
+      sgstAmount: roundAmount(totalTax - halfTax),
+      igstAmount: 0,
+    };
+  }
+
+  /**
+   * Apply GST to all items of a sale invoice or purchase bill
+   * @param items - Line items (rates are exclusive of tax)
+   * @param companyGstin - Our GSTIN
+   * @param partyGstin - Customer/supplier GSTIN
+   */
+  static calculateDocumentTax<T extends TaxableItem>(
+    items: T[],
+    companyGstin?: string,
+    partyGstin?: string
+  ): DocumentTaxBreakup<T> {
+    const interState = this.isInterState(companyGstin, partyGstin);
+    const taxedItems = items.map(item => this.calculateItemTax(item, interState));
+
+    const taxableAmount = roundAmount(taxedItems.reduce((sum, item) => sum + (item.taxableValue || 0), 0));
+    const cgstAmount = roundAmount(taxedItems.reduce((sum, item) => sum + (item.cgstAmount || 0), 0));
+    const sgstAmount = roundAmount(taxedItems.reduce((sum, item) => sum + (item.sgstAmount || 0), 0));
+    const igstAmount = roundAmount(taxedItems.reduce((sum, item) => sum + (item.igstAmount || 0), 0));
+    const totalTax = roundAmount(cgstAmount + sgstAmount + igstAmount);
+
+    return {
+      items: taxedItems,
+      isInterState: interState,
+      placeOfSupply: this.getStateCode(partyGstin) || this.getStateCode(companyGstin),
+      taxableAmount,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      totalTax,
+      totalAmount: roundAmount(taxableAmount + totalTax),
+      taxSummary: this.buildTaxSummary(taxedItems),
+    };
+  }
+
+  /**
+   * Group taxed items by HSN code and GST rate for the tax summary table
+   * @param items - Items that already carry tax amounts
+   */
+  static buildTaxSummary(items: TaxableItem[]): TaxSummaryRow[] {
+    const rows = new Map<string, TaxSummaryRow>();
+
+    items.forEach(item => {
+      const hsnCode = item.hsnCode || '-';
+      const gstRate = item.gstRate || 0;
+      const key = `${hsnCode}-${gstRate}`;
+      const row = rows.get(key) || {
+        hsnCode,
+        gstRate,
+        taxableValue: 0,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: 0,
+        totalTax: 0,
+      };
+
+      row.taxableValue = roundAmount(row.taxableValue + (item.taxableValue ?? item.total ?? 0));
+      row.cgstAmount = roundAmount(row.cgstAmount + (item.cgstAmount || 0));
+      row.sgstAmount = roundAmount(row.sgstAmount + (item.sgstAmount || 0));
+      row.igstAmount = roundAmount(row.igstAmount + (item.igstAmount || 0));
+      row.totalTax = roundAmount(row.cgstAmount + row.sgstAmount + row.igstAmount);
+      rows.set(key, row);
+    });
+
+    return Array.from(rows.values());
+  }
+}
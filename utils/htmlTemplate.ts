@@ -0,0 +1,56 @@
+// Characters with a meaning in HTML text and attribute values
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Markup that is already safe to print as-is, produced by `html` or `raw`
+ */
+export class SafeHtml {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Escape text so it prints literally inside HTML text or a quoted attribute
+ * @param value - Text to escape; null and undefined give an empty string
+ */
+export const escapeHtml = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
+/**
+ * Mark trusted markup (stylesheets, generated SVG) so `html` does not escape it.
+ * Never pass text typed by a user.
+ */
+export const raw = (markup: string): SafeHtml => new SafeHtml(markup);
+
+const renderValue = (value: unknown): string => {
+  if (value instanceof SafeHtml) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(renderValue).join('');
+  }
+  if (value === null || value === undefined || value === false || value === true) {
+    return '';
+  }
+  return escapeHtml(value);
+};
+
+/**
+ * Tagged template for document HTML. Interpolated values are escaped unless they
+ * are SafeHtml, so party names, item names and company fields print as text.
+ * Arrays are joined without a separator; null, undefined and booleans print nothing.
+ *
+ * @example html`<td>${item.itemName}</td>` // "Shah & Sons" prints as "Shah &amp; Sons"
+ */
+export const html = (strings: TemplateStringsArray, ...values: unknown[]): SafeHtml =>
+  new SafeHtml(strings.reduce((markup, text, index) =>
+    markup + text + (index < values.length ? renderValue(values[index]) : ''), ''));
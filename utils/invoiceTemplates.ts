@@ -0,0 +1,463 @@
+import { CompanyDetails } from './api';
+import { CompanyBranding } from './companyBranding';
+import { html, raw, SafeHtml } from './htmlTemplate';
+import { UnitConverter } from './unitConverter';
+
+export type InvoiceTemplateId = 'classic' | 'compact' | 'gst-detailed' | 'bilingual-hi' | 'bilingual-mr';
+
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplateId = 'classic';
+
+export const DEFAULT_ACCENT_COLOR = '#6366f1';
+
+// Accent colours offered in company details; any #rrggbb colour also works
+export const ACCENT_COLORS = ['#6366f1', '#0ea5e9', '#059669', '#dc2626', '#ea580c', '#111827'];
+
+// Printed when the company has not written its own terms, one per line
+export const DEFAULT_INVOICE_TERMS = [
+  'Payment is due within 30 days of invoice date',
+  'Late payments may incur additional charges',
+  'Goods once sold will not be taken back',
+  'Subject to local jurisdiction',
+].join('\n');
+
+// Invoice line with the GST split worked out by GstCalculator
+export interface TemplateInvoiceItem {
+  id: string;
+  itemName: string;
+  quantity: number;
+  rate: number;
+  total: number;
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  hsnCode?: string;
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+export interface TemplateInvoice {
+  invoiceNo: string;
+  partyName: string;
+  phoneNumber: string;
+  items: TemplateInvoiceItem[];
+  totalAmount: number;
+  date: string;
+  partyGstin?: string;
+  isInterState?: boolean;
+  placeOfSupply?: string;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+}
+
+// HTML pieces shared with the other PDFs, already rendered in the accent colour
+export interface InvoiceTemplateParts {
+  css: SafeHtml;
+  itemsHeader: SafeHtml;
+  itemsRows: SafeHtml;
+  taxSummary: SafeHtml;
+  taxTotals: SafeHtml;
+}
+
+export interface InvoiceTemplateContext {
+  invoice: TemplateInvoice;
+  company: CompanyDetails | null;
+  accentColor: string;
+  terms: string[];
+  footerNote?: string;
+  parts: InvoiceTemplateParts;
+}
+
+export interface InvoiceTemplate {
+  id: InvoiceTemplateId;
+  name: string;
+  description: string;
+  render: (context: InvoiceTemplateContext) => string;
+}
+
+// A caption: plain text, or markup for the two-language captions
+type Label = string | SafeHtml;
+
+// Captions printed on an invoice
+interface InvoiceLabels {
+  title: Label;
+  invoiceNo: Label;
+  billTo: Label;
+  from: Label;
+  name: Label;
+  phone: Label;
+  date: Label;
+  placeOfSupply: Label;
+  business: Label;
+  address: Label;
+  srNo: Label;
+  item: Label;
+  quantity: Label;
+  rate: Label;
+  amount: Label;
+  taxableAmount: Label;
+  grandTotal: Label;
+  signature: Label;
+  terms: Label;
+}
+
+const ENGLISH_LABELS: InvoiceLabels = {
+  title: 'TAX INVOICE',
+  invoiceNo: 'Invoice',
+  billTo: 'Bill To',
+  from: 'From',
+  name: 'Name',
+  phone: 'Phone',
+  date: 'Date',
+  placeOfSupply: 'Place of Supply',
+  business: 'Business',
+  address: 'Address',
+  srNo: 'Sr. No.',
+  item: 'Item Description',
+  quantity: 'Quantity',
+  rate: 'Rate (₹)',
+  amount: 'Amount (₹)',
+  taxableAmount: 'Taxable Amount',
+  grandTotal: 'Grand Total',
+  signature: 'Authorized Signature',
+  terms: 'Terms & Conditions',
+};
+
+const HINDI_LABELS: InvoiceLabels = {
+  title: 'कर बीजक',
+  invoiceNo: 'बीजक क्र.',
+  billTo: 'प्राप्तकर्ता',
+  from: 'विक्रेता',
+  name: 'नाम',
+  phone: 'फ़ोन',
+  date: 'दिनांक',
+  placeOfSupply: 'आपूर्ति का स्थान',
+  business: 'व्यवसाय',
+  address: 'पता',
+  srNo: 'क्र.सं.',
+  item: 'वस्तु',
+  quantity: 'मात्रा',
+  rate: 'दर',
+  amount: 'राशि',
+  taxableAmount: 'कर योग्य राशि',
+  grandTotal: 'कुल योग',
+  signature: 'अधिकृत हस्ताक्षर',
+  terms: 'नियम व शर्तें',
+};
+
+const MARATHI_LABELS: InvoiceLabels = {
+  title: 'कर बीजक',
+  invoiceNo: 'बीजक क्र.',
+  billTo: 'खरेदीदार',
+  from: 'विक्रेता',
+  name: 'नाव',
+  phone: 'फोन',
+  date: 'दिनांक',
+  placeOfSupply: 'पुरवठ्याचे ठिकाण',
+  business: 'व्यवसाय',
+  address: 'पत्ता',
+  srNo: 'अ.क्र.',
+  item: 'वस्तू',
+  quantity: 'प्रमाण',
+  rate: 'दर',
+  amount: 'रक्कम',
+  taxableAmount: 'करपात्र रक्कम',
+  grandTotal: 'एकूण रक्कम',
+  signature: 'अधिकृत स्वाक्षरी',
+  terms: 'अटी व शर्ती',
+};
+
+// English caption with the local one underneath
+const bilingualLabels = (local: InvoiceLabels): InvoiceLabels =>
+  (Object.keys(ENGLISH_LABELS) as (keyof InvoiceLabels)[]).reduce((labels, key) => {
+    labels[key] = html`${ENGLISH_LABELS[key]}<br><span class="local-label">${local[key]}</span>`;
+    return labels;
+  }, {} as InvoiceLabels);
+
+const renderInfoSection = ({ invoice, company }: InvoiceTemplateContext, labels: InvoiceLabels): SafeHtml => html`
+  <div class="info-section">
+    <div class="info-block">
+      <div class="info-title">${labels.billTo}</div>
+      <div class="info-item"><span class="info-label">${labels.name}:</span> <span class="info-value">${invoice.partyName}</span></div>
+      <div class="info-item"><span class="info-label">${labels.phone}:</span> <span class="info-value">${invoice.phoneNumber}</span></div>
+      <div class="info-item"><span class="info-label">GSTIN:</span> <span class="info-value">${invoice.partyGstin || 'Unregistered'}</span></div>
+      <div class="info-item"><span class="info-label">${labels.placeOfSupply}:</span> <span class="info-value">${invoice.placeOfSupply || '-'}</span></div>
+      <div class="info-item"><span class="info-label">${labels.date}:</span> <span class="info-value">${invoice.date || new Date().toLocaleDateString('en-IN')}</span></div>
+    </div>
+    <div class="info-block">
+      <div class="info-title">${labels.from}</div>
+      <div class="info-item"><span class="info-label">${labels.business}:</span> <span class="info-value">${company?.businessName || 'Your Business Name'}</span></div>
+      <div class="info-item"><span class="info-label">${labels.address}:</span> <span class="info-value">${company?.businessAddress || 'Business Address'}${company?.pincode ? html` - ${company.pincode}` : ''}</span></div>
+      <div class="info-item"><span class="info-label">${labels.phone}:</span> <span class="info-value">${company?.phoneNumber1 || 'Phone Number'}</span></div>
+      <div class="info-item"><span class="info-label">Email:</span> <span class="info-value">${company?.emailId || 'Email Address'}</span></div>
+      <div class="info-item"><span class="info-label">GSTIN:</span> <span class="info-value">${company?.gstin || 'GSTIN'}</span></div>
+    </div>
+  </div>
+`;
+
+const renderFooter = ({ company, terms, footerNote }: InvoiceTemplateContext, labels: InvoiceLabels): SafeHtml => html`
+  <div class="footer">
+    <div class="signature-section">
+      <div class="signature-title">${labels.signature}</div>
+      ${CompanyBranding.signatureHTML(company)}
+    </div>
+    ${terms.length > 0 ? html`
+      <div class="terms-section">
+        <div class="terms-title">${labels.terms}</div>
+        <div class="terms-text">${terms.map((term, index) => html`${index > 0 ? html`<br>` : ''}• ${term}`)}</div>
+      </div>
+    ` : ''}
+  </div>
+  ${footerNote ? html`<div class="footer-note">${footerNote}</div>` : ''}
+`;
+
+const renderDocument = (context: InvoiceTemplateContext, extraCss: string, body: SafeHtml): string => html`
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Invoice #${context.invoice.invoiceNo}</title>
+    <style>
+      ${context.parts.css}
+      .footer-note { margin-top: 20px; text-align: center; font-size: 12px; color: #6b7280; }
+      ${raw(extraCss)}
+    </style>
+  </head>
+  <body>${body}</body>
+  </html>
+`.toString();
+
+const renderHeader = ({ invoice, company }: InvoiceTemplateContext, labels: InvoiceLabels): SafeHtml => html`
+  <div class="header">
+    ${CompanyBranding.logoHTML(company)}
+    <div class="company-name">${company?.businessName || 'Your Business Name'}</div>
+    <div class="company-description">${company?.businessDescription || 'Business Description'}</div>
+    <div class="title">${labels.title}</div>
+    <div class="number">${labels.invoiceNo} #${invoice.invoiceNo}</div>
+  </div>
+`;
+
+// The original design: gradient header, watermark and HSN-wise tax summary
+const classicTemplate: InvoiceTemplate = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Coloured header with tax summary',
+  render: context => renderDocument(context, '', html`
+    <div class="watermark">${context.company?.businessName || 'INVOICE'}</div>
+    <div class="container">
+      ${renderHeader(context, ENGLISH_LABELS)}
+      <div class="content">
+        ${renderInfoSection(context, ENGLISH_LABELS)}
+        <table class="items-table">
+          <thead class="table-header">${context.parts.itemsHeader}</thead>
+          <tbody>${context.parts.itemsRows}</tbody>
+        </table>
+        ${context.parts.taxSummary}
+        ${context.parts.taxTotals}
+        ${renderFooter(context, ENGLISH_LABELS)}
+      </div>
+    </div>
+  `),
+};
+
+// Fits more lines on a page: plain header, tighter spacing, no tax summary table
+const compactTemplate: InvoiceTemplate = {
+  id: 'compact',
+  name: 'Compact',
+  description: 'Plain header, small print, more items per page',
+  render: context => renderDocument(context, `
+    body { padding: 10px; font-size: 12px; line-height: 1.3; }
+    .container { box-shadow: none; border: 1px solid #e5e7eb; }
+    .header { background: none; color: #1f2937; text-align: left; padding: 12px 16px; border-bottom: 3px solid ${context.accentColor}; }
+    .company-name { font-size: 20px; margin-bottom: 2px; }
+    .company-description { font-size: 12px; margin-bottom: 6px; }
+    .title { font-size: 16px; color: ${context.accentColor}; margin-bottom: 2px; }
+    .number { font-size: 13px; }
+    .content { padding: 12px 16px; }
+    .info-section { margin-bottom: 12px; }
+    .info-title { font-size: 13px; margin-bottom: 4px; }
+    .info-item { font-size: 12px; margin-bottom: 2px; }
+    .items-table { margin: 8px 0; }
+    .table-header th { padding: 6px; font-size: 12px; }
+    .items-table td { padding: 4px 6px !important; font-size: 12px; }
+    .total-section { margin-top: 8px; }
+    .total-row { padding: 2px 0; font-size: 13px; }
+    .grand-total { font-size: 16px; }
+    .footer { margin-top: 16px; padding-top: 8px; }
+  `, html`
+    <div class="container">
+      ${renderHeader(context, ENGLISH_LABELS)}
+      <div class="content">
+        ${renderInfoSection(context, ENGLISH_LABELS)}
+        <table class="items-table">
+          <thead class="table-header">${context.parts.itemsHeader}</thead>
+          <tbody>${context.parts.itemsRows}</tbody>
+        </table>
+        ${context.parts.taxTotals}
+        ${renderFooter(context, ENGLISH_LABELS)}
+      </div>
+    </div>
+  `),
+};
+
+// Taxable value and CGST/SGST or IGST on every line, as some buyers need for input credit
+const gstDetailedTemplate: InvoiceTemplate = {
+  id: 'gst-detailed',
+  name: 'GST Detailed',
+  description: 'Taxable value and GST split on every line',
+  render: context => {
+    const { invoice } = context;
+    const taxHeaders = invoice.isInterState ? html`<th>IGST (₹)</th>` : html`<th>CGST (₹)</th><th>SGST (₹)</th>`;
+    const rows = invoice.items.map((item, index) => html`
+      <tr>
+        <td>${index + 1}</td>
+        <td>${item.itemName}</td>
+        <td>${item.hsnCode || '-'}</td>
+        <td>${UnitConverter.formatQuantity(item, item.quantity)}</td>
+        <td>₹${item.rate.toLocaleString()}</td>
+        <td>₹${(item.taxableValue ?? item.total).toLocaleString()}</td>
+        <td>${item.gstRate || 0}%</td>
+        ${invoice.isInterState
+          ? html`<td>₹${(item.igstAmount || 0).toLocaleString()}</td>`
+          : html`<td>₹${(item.cgstAmount || 0).toLocaleString()}</td><td>₹${(item.sgstAmount || 0).toLocaleString()}</td>`}
+        <td>₹${item.total.toLocaleString()}</td>
+      </tr>
+    `);
+
+    return renderDocument(context, `
+      .gst-table { width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 12px; }
+      .gst-table th { background: ${context.accentColor}; color: white; padding: 8px 6px; text-align: right; }
+      .gst-table td { padding: 8px 6px; border-bottom: 1px solid #e5e7eb; text-align: right; }
+      .gst-table th:nth-child(2), .gst-table td:nth-child(2) { text-align: left; }
+    `, html`
+      <div class="container">
+        ${renderHeader(context, ENGLISH_LABELS)}
+        <div class="content">
+          ${renderInfoSection(context, ENGLISH_LABELS)}
+          <table class="gst-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Item</th>
+                <th>HSN</th>
+                <th>Qty</th>
+                <th>Rate (₹)</th>
+                <th>Taxable (₹)</th>
+                <th>GST</th>
+                ${taxHeaders}
+                <th>Amount (₹)</th>
+              </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+          ${context.parts.taxSummary}
+          ${context.parts.taxTotals}
+          ${renderFooter(context, ENGLISH_LABELS)}
+        </div>
+      </div>
+    `);
+  },
+};
+
+// English captions with Hindi or Marathi underneath
+const createBilingualTemplate = (id: InvoiceTemplateId, language: string, local: InvoiceLabels): InvoiceTemplate => ({
+  id,
+  name: `English + ${language}`,
+  description: `Captions in English and ${language}`,
+  render: context => {
+    const labels = bilingualLabels(local);
+    const { invoice } = context;
+    const taxableAmount = invoice.taxableAmount ?? invoice.totalAmount;
+
+    return renderDocument(context, `
+      body { font-family: 'Noto Sans Devanagari', 'Segoe UI', sans-serif; }
+      .local-label { font-weight: normal; font-size: 0.85em; opacity: 0.85; }
+    `, html`
+      <div class="container">
+        ${renderHeader(context, labels)}
+        <div class="content">
+          ${renderInfoSection(context, labels)}
+          <table class="items-table">
+            <thead class="table-header">
+              <tr>
+                <th>${labels.srNo}</th>
+                <th>${labels.item}</th>
+                <th>HSN</th>
+                <th>${labels.quantity}</th>
+                <th>${labels.rate}</th>
+                <th>GST</th>
+                <th>${labels.amount}</th>
+              </tr>
+            </thead>
+            <tbody>${context.parts.itemsRows}</tbody>
+          </table>
+          ${context.parts.taxSummary}
+          <div class="total-section">
+            <div class="total-row">
+              <span class="total-label">${labels.taxableAmount}:</span>
+              <span class="total-amount">₹${taxableAmount.toLocaleString()}</span>
+            </div>
+            <div class="total-row">
+              <span class="total-label">GST:</span>
+              <span class="total-amount">₹${(invoice.totalTax || 0).toLocaleString()}</span>
+            </div>
+            <div class="total-row grand-total">
+              <span class="total-label">${labels.grandTotal}:</span>
+              <span class="total-amount">₹${invoice.totalAmount.toLocaleString()}</span>
+            </div>
+          </div>
+          ${renderFooter(context, labels)}
+        </div>
+      </div>
+    `);
+  },
+});
+
+const INVOICE_TEMPLATES: Record<InvoiceTemplateId, InvoiceTemplate> = {
+  'classic': classicTemplate,
+  'compact': compactTemplate,
+  'gst-detailed': gstDetailedTemplate,
+  'bilingual-hi': createBilingualTemplate('bilingual-hi', 'Hindi', HINDI_LABELS),
+  'bilingual-mr': createBilingualTemplate('bilingual-mr', 'Marathi', MARATHI_LABELS),
+};
+
+export class InvoiceTemplates {
+  /**
+   * All invoice designs, in the order they are offered
+   */
+  static list(): InvoiceTemplate[] {
+    return Object.values(INVOICE_TEMPLATES);
+  }
+
+  /**
+   * Template by ID, falling back to the classic design for unknown IDs
+   * @param id - Template ID saved in company details
+   */
+  static get(id?: string): InvoiceTemplate {
+    return INVOICE_TEMPLATES[id as InvoiceTemplateId] || INVOICE_TEMPLATES[DEFAULT_INVOICE_TEMPLATE];
+  }
+
+  /**
+   * Accent colour from company details, if it is a valid #rrggbb colour
+   */
+  static getAccentColor(company: CompanyDetails | null): string {
+    const color = company?.invoiceAccentColor?.trim() || '';
+    return /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_ACCENT_COLOR;
+  }
+
+  /**
+   * Terms printed on invoices, one per line; the defaults until the company writes its own
+   */
+  static getTerms(company: CompanyDetails | null): string[] {
+    return (company?.invoiceTerms ?? DEFAULT_INVOICE_TERMS)
+      .split('\n')
+      .map(term => term.trim())
+      .filter(term => term.length > 0);
+  }
+}
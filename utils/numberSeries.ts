@@ -0,0 +1,272 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DocumentDates } from './documentDates';
+
+// Storage key for the numbering settings of each document type
+const NUMBER_SERIES_KEY = '@number_series';
+
+// Replaced with the financial year of the document, e.g. 26-27
+export const FY_TOKEN = '{FY}';
+
+// Gaps longer than this are counted but not listed one by one
+const MAX_LISTED_MISSING = 50;
+
+export type NumberSeriesType = 'invoice' | 'bill' | 'payment-in' | 'payment-out';
+
+// Format of one document number series
+export interface NumberSeriesSettings {
+  prefix: string; // may contain {FY}
+  suffix: string; // may contain {FY}
+  padding: number; // minimum digits, 0 for none
+  startingNumber: number;
+  resetEachYear: boolean; // start again from startingNumber every 1 April
+}
+
+export type NumberSeriesConfig = Record<NumberSeriesType, NumberSeriesSettings>;
+
+// A numbered document and when it was made
+export interface NumberedDocument {
+  number: string;
+  date?: string;
+  createdAt?: string;
+}
+
+// Missing and repeated numbers found in one series (per financial year when it resets)
+export interface NumberSeriesIssue {
+  financialYear?: string; // e.g. 26-27, only for series that reset every year
+  missing: string[]; // first few missing numbers
+  missingCount: number;
+  duplicates: string[]; // numbers used on more than one document
+  unrecognised: string[]; // numbers that do not match the series format
+}
+
+export const NUMBER_SERIES_LABELS: Record<NumberSeriesType, string> = {
+  'invoice': 'Sale Invoice',
+  'bill': 'Purchase Bill',
+  'payment-in': 'Payment In',
+  'payment-out': 'Payment Out',
+};
+
+// Plain running numbers, the way documents were numbered before series were configurable
+export const DEFAULT_NUMBER_SERIES: NumberSeriesSettings = {
+  prefix: '',
+  suffix: '',
+  padding: 0,
+  startingNumber: 1,
+  resetEachYear: false,
+};
+
+export class NumberSeries {
+  /**
+   * Numbering settings of every document type, with defaults for types never configured
+   */
+  static async getConfig(): Promise<NumberSeriesConfig> {
+    let stored: Partial<Record<NumberSeriesType, Partial<NumberSeriesSettings>>> = {};
+    try {
+      const raw = await AsyncStorage.getItem(NUMBER_SERIES_KEY);
+      stored = raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error('Error loading number series settings:', error);
+    }
+
+    return (Object.keys(NUMBER_SERIES_LABELS) as NumberSeriesType[]).reduce((config, type) => {
+      config[type] = { ...DEFAULT_NUMBER_SERIES, ...stored[type] };
+      return config;
+    }, {} as NumberSeriesConfig);
+  }
+
+  /**
+   * Save the numbering settings of every document type
+   * @param config - Settings per document type
+   */
+  static async saveConfig(config: NumberSeriesConfig): Promise<void> {
+    await AsyncStorage.setItem(NUMBER_SERIES_KEY, JSON.stringify(config));
+  }
+
+  /**
+   * Check settings before saving
+   * @returns Reason the settings cannot be used, or null
+   */
+  static getSettingsError(settings: NumberSeriesSettings): string | null {
+    if (!Number.isInteger(settings.startingNumber) || settings.startingNumber < 1) {
+      return 'Starting number must be a whole number of 1 or more';
+    }
+    if (!Number.isInteger(settings.padding) || settings.padding < 0 || settings.padding > 10) {
+      return 'Padding must be between 0 and 10 digits';
+    }
+    if (/\d$/.test(this.expand(settings.prefix, 2026)) || /^\d/.test(this.expand(settings.suffix, 2026))) {
+      return 'Prefix cannot end, and suffix cannot start, with a digit';
+    }
+    return null;
+  }
+
+  /**
+   * Year the Indian financial year of a date starts in; it runs from 1 April to 31 March
+   * @param date - Any date
+   */
+  static getFinancialYear(date: Date = new Date()): number {
+    return date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  }
+
+  /**
+   * Short label of a financial year, e.g. 26-27 for April 2026 to March 2027
+   * @param startYear - Year the financial year starts in
+   */
+  static formatFinancialYear(startYear: number): string {
+    const short = (year: number) => (year % 100).toString().padStart(2, '0');
+    return `${short(startYear)}-${short(startYear + 1)}`;
+  }
+
+  /**
+   * Format a running number with the series prefix, suffix and padding
+   * @param settings - Series settings
+   * @param value - Running number
+   * @param date - Document date, used for {FY}
+   */
+  static format(settings: NumberSeriesSettings, value: number, date: Date = new Date()): string {
+    const financialYear = this.getFinancialYear(date);
+    const padded = value.toString().padStart(settings.padding, '0');
+    return `${this.expand(settings.prefix, financialYear)}${padded}${this.expand(settings.suffix, financialYear)}`;
+  }
+
+  /**
+   * Running number inside a formatted document number. Plain numbers saved
+   * before the series was set up are read as they are.
+   * @param settings - Series settings
+   * @param documentNo - Formatted number
+   * @param date - Document date, used for {FY}
+   * @returns Running number, or null if the number does not match the series
+   */
+  static parse(settings: NumberSeriesSettings, documentNo: string, date: Date = new Date()): number | null {
+    const value = (documentNo || '').trim();
+    if (/^\d+$/.test(value)) {
+      return parseInt(value, 10);
+    }
+
+    const financialYear = this.getFinancialYear(date);
+    const prefix = this.expand(settings.prefix, financialYear);
+    const suffix = this.expand(settings.suffix, financialYear);
+    if (!value.startsWith(prefix) || !value.endsWith(suffix) || value.length <= prefix.length + suffix.length) {
+      return null;
+    }
+
+    const running = value.slice(prefix.length, value.length - suffix.length);
+    return /^\d+$/.test(running) ? parseInt(running, 10) : null;
+  }
+
+  /**
+   * Next number of a series: one more than the highest used in the current
+   * period, and never below the starting number
+   * @param settings - Series settings
+   * @param documents - Documents already numbered in the series
+   * @param date - Date of the new document
+   */
+  static getNextNumber(settings: NumberSeriesSettings, documents: NumberedDocument[], date: Date = new Date()): string {
+    const financialYear = this.getFinancialYear(date);
+    const highest = documents.reduce((max, document) => {
+      const documentDate = DocumentDates.getDocumentDate(document);
+      if (settings.resetEachYear && documentDate && this.getFinancialYear(documentDate) !== financialYear) {
+        return max;
+      }
+      const value = this.parse(settings, document.number, documentDate || date);
+      return value === null ? max : Math.max(max, value);
+    }, 0);
+
+    return this.format(settings, Math.max(settings.startingNumber, highest + 1), date);
+  }
+
+  /**
+   * Next plain running number, one more than the highest used so far. For
+   * documents without a configurable series: quotations, orders, challans and notes.
+   * @param numbers - Numbers already used
+   */
+  static getNextRunningNumber(numbers: string[]): string {
+    const highest = numbers.reduce((max, value) => {
+      const num = parseInt(value);
+      return isNaN(num) ? max : Math.max(max, num);
+    }, 0);
+    return (highest + 1).toString();
+  }
+
+  /**
+   * Find missing and repeated numbers in a series. Series that reset every
+   * year are checked one financial year at a time.
+   * @param settings - Series settings
+   * @param documents - Documents numbered in the series
+   * @returns Issues per period; periods without issues are left out
+   */
+  static check(settings: NumberSeriesSettings, documents: NumberedDocument[]): NumberSeriesIssue[] {
+    const periods = new Map<string, { year?: number; documents: NumberedDocument[] }>();
+    documents.forEach(document => {
+      const documentDate = DocumentDates.getDocumentDate(document);
+      const year = settings.resetEachYear && documentDate ? this.getFinancialYear(documentDate) : undefined;
+      const key = year === undefined ? '' : year.toString();
+      const period = periods.get(key) || { year, documents: [] };
+      period.documents.push(document);
+      periods.set(key, period);
+    });
+
+    const issues: NumberSeriesIssue[] = [];
+    Array.from(periods.values())
+      .sort((a, b) => (a.year || 0) - (b.year || 0))
+      .forEach(period => {
+        // Any date in the period formats {FY} the same way
+        const periodDate = period.year === undefined ? new Date() : new Date(period.year, 3, 1);
+        // Times each number was used, keyed case-insensitively, with the first spelling seen
+        const seen = new Map<string, { number: string; count: number }>();
+        const values = new Set<number>();
+        const unrecognised: string[] = [];
+
+        period.documents.forEach(document => {
+          const key = (document.number || '').trim().toLowerCase();
+          const entry = seen.get(key) || { number: document.number, count: 0 };
+          seen.set(key, { ...entry, count: entry.count + 1 });
+          const value = this.parse(settings, document.number, DocumentDates.getDocumentDate(document) || periodDate);
+          if (value === null) {
+            unrecognised.push(document.number);
+          } else {
+            values.add(value);
+          }
+        });
+
+        const duplicates = Array.from(seen.values())
+          .filter(entry => entry.count > 1)
+          .map(entry => entry.number);
+
+        const missing: string[] = [];
+        let missingCount = 0;
+        if (values.size > 0) {
+          const sorted = Array.from(values).sort((a, b) => a - b);
+          // Numbers below the starting number were issued before it was changed
+          const from = sorted[0] >= settings.startingNumber ? settings.startingNumber : sorted[0];
+          const highest = sorted[sorted.length - 1];
+          for (let value = from; value <= highest; value++) {
+            if (!values.has(value)) {
+              missingCount++;
+              if (missing.length < MAX_LISTED_MISSING) {
+                missing.push(this.format(settings, value, periodDate));
+              }
+            }
+          }
+        }
+
+        if (missingCount > 0 || duplicates.length > 0 || unrecognised.length > 0) {
+          issues.push({
+            financialYear: period.year === undefined ? undefined : this.formatFinancialYear(period.year),
+            missing,
+            missingCount,
+            duplicates,
+            unrecognised,
+          });
+        }
+      });
+
+    return issues;
+  }
+
+  /**
+   * Replace {FY} in a prefix or suffix
+   */
+  private static expand(template: string, financialYear: number): string {
+    return (template || '').split(FY_TOKEN).join(this.formatFinancialYear(financialYear));
+  }
+}
@@ -0,0 +1,389 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Storage keys
+const CACHE_PREFIX = '@offline_cache:';
+const QUEUE_KEY = '@offline_queue';
+
+// Records created while offline get a client-generated ID with this prefix
+const CLIENT_ID_PREFIX = 'local-';
+
+// Resources whose lists are cached and whose mutations can be queued.
+// Company details stay out: CompanyApiService caches them without the credit override PIN.
+const OFFLINE_ENDPOINT_PATTERN = /^\/api\/(sales|credit-notes|quotations|sales-orders|delivery-challans|purchases|debit-notes|payments|parties|items)(?:\/([^/?]+))?(?:\?(.*))?$/;
+
+export type MutationMethod = 'POST' | 'PUT' | 'DELETE';
+
+// A create/update/delete waiting to be replayed against the backend
+export interface PendingMutation {
+  id: string;
+  endpoint: string;
+  method: MutationMethod;
+  body?: string;
+  resource: string;
+  recordId: string;
+  createdAt: string;
+  failedAt?: string; // set when the backend rejected it; kept until retried or discarded
+  error?: string;
+}
+
+// Parsed form of an offline-capable endpoint
+export interface OfflineEndpoint {
+  resource: string;
+  recordId?: string;
+  query: URLSearchParams;
+}
+
+const getRecordId = (record: any): string => record?._id || record?.id || '';
+
+const parseBody = (body?: string): Record<string, any> => {
+  if (!body) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return {};
+  }
+};
+
+// Swap a synced record's client ID wherever it appears in a queued body,
+// e.g. a payment allocation or credit note naming an invoice created offline
+const replaceIdInValue = (value: unknown, clientId: string, serverId: string): unknown => {
+  if (value === clientId) {
+    return serverId;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceIdInValue(item, clientId, serverId));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceIdInValue(item, clientId, serverId)])
+    );
+  }
+  return value;
+};
+
+// Only compare query params that exist on the record (type, partyName, ...);
+// params like search or startDate are left to the server
+const matchesQuery = (record: any, query: URLSearchParams): boolean => {
+  let matches = true;
+  query.forEach((value, key) => {
+    if (record[key] !== undefined && String(record[key]) !== value) {
+      matches = false;
+    }
+  });
+  return matches;
+};
+
+export class OfflineStore {
+  /**
+   * Parse an API endpoint if it belongs to an offline-capable resource
+   * @param endpoint - API endpoint, e.g. /api/sales/123 or /api/payments?type=payment-in
+   */
+  static parseEndpoint(endpoint: string): OfflineEndpoint | null {
+    const match = endpoint.match(OFFLINE_ENDPOINT_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      resource: match[1],
+      recordId: match[2] ? decodeURIComponent(match[2]) : undefined,
+      query: new URLSearchParams(match[3] || ''),
+    };
+  }
+
+  /**
+   * Generate an ID for a record created while offline
+   */
+  static generateClientId(): string {
+    return `${CLIENT_ID_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  /**
+   * Check whether an ID was generated on the device and is not yet known to the backend
+   * @param id - Record ID
+   */
+  static isClientId(id?: string): boolean {
+    return !!id && id.startsWith(CLIENT_ID_PREFIX);
+  }
+
+  // ==================== RESPONSE CACHE ====================
+
+  /**
+   * Store the last successful response of a GET request
+   * @param endpoint - API endpoint
+   * @param data - Response data
+   */
+  static async setCachedResponse(endpoint: string, data: unknown): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${CACHE_PREFIX}${endpoint}`, JSON.stringify(data));
+    } catch (error) {
+      console.error('Error caching response:', error);
+    }
+  }
+
+  /**
+   * Get the last successful response of a GET request
+   * @param endpoint - API endpoint
+   * @returns Cached data, or null if nothing is cached
+   */
+  static async getCachedResponse<T>(endpoint: string): Promise<T | null> {
+    try {
+      const cached = await AsyncStorage.getItem(`${CACHE_PREFIX}${endpoint}`);
+      return cached ? (JSON.parse(cached) as T) : null;
+    } catch (error) {
+      console.error('Error reading cached response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find a single record in the cached list of its resource
+   * @param resource - Resource name, e.g. sales
+   * @param recordId - Record ID
+   */
+  static async findCachedRecord<T>(resource: string, recordId: string): Promise<T | null> {
+    const cachedList = await this.getCachedResponse<any[]>(`/api/${resource}`);
+    const record = cachedList?.find(item => getRecordId(item) === recordId);
+    return (record as T) || null;
+  }
+
+  // ==================== MUTATION QUEUE ====================
+
+  /**
+   * Get all queued mutations in the order they were made
+   */
+  static async getQueue(): Promise<PendingMutation[]> {
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_KEY);
+      return stored ? (JSON.parse(stored) as PendingMutation[]) : [];
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+      return [];
+    }
+  }
+
+  private static async saveQueue(queue: PendingMutation[]): Promise<void> {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+
+  /**
+   * Queue a mutation for replay once the backend is reachable.
+   * Deleting a record that was never synced just drops its queued mutations.
+   * @param mutation - Mutation details without queue ID and timestamp
+   */
+  static async enqueue(mutation: Omit<PendingMutation, 'id' | 'createdAt'>): Promise<void> {
+    const queue = await this.getQueue();
+
+    if (mutation.method === 'DELETE' && this.isClientId(mutation.recordId)) {
+      await this.saveQueue(queue.filter(entry => entry.recordId !== mutation.recordId));
+      return;
+    }
+
+    queue.push({
+      ...mutation,
+      id: `${Date.now()}-${queue.length}`,
+      createdAt: new Date().toISOString(),
+    });
+    await this.saveQueue(queue);
+  }
+
+  /**
+   * Remove a mutation from the queue after it has been replayed
+   * @param mutationId - Queue entry ID
+   */
+  static async removeFromQueue(mutationId: string): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.filter(entry => entry.id !== mutationId));
+  }
+
+  /**
+   * Point queued mutations at the backend ID once a client-created record is synced,
+   * including references to it inside queued bodies
+   * @param clientId - Client-generated ID
+   * @param serverId - ID assigned by the backend
+   */
+  static async replaceRecordId(clientId: string, serverId: string): Promise<void> {
+    const queue = await this.getQueue();
+    const updatedQueue = queue.map(entry => {
+      const body = entry.body && entry.body.includes(clientId)
+        ? JSON.stringify(replaceIdInValue(parseBody(entry.body), clientId, serverId))
+        : entry.body;
+
+      if (entry.recordId !== clientId) {
+        return { ...entry, body };
+      }
+
+      return {
+        ...entry,
+        body,
+        recordId: serverId,
+        endpoint: entry.endpoint.replace(`/${clientId}`, `/${serverId}`),
+      };
+    });
+    await this.saveQueue(updatedQueue);
+  }
+
+  /**
+   * Next mutation to replay: the oldest one that has not failed and does not touch
+   * or reference a record with a failed mutation, since it would be rejected the same way
+   */
+  static async getNextPendingMutation(): Promise<PendingMutation | null> {
+    const queue = await this.getQueue();
+    const blockedRecordIds = queue.filter(entry => entry.failedAt).map(entry => entry.recordId);
+    const isBlocked = (entry: PendingMutation) => blockedRecordIds.some(recordId =>
+      entry.recordId === recordId || (this.isClientId(recordId) && !!entry.body?.includes(recordId))
+    );
+    return queue.find(entry => !entry.failedAt && !isBlocked(entry)) || null;
+  }
+
+  /**
+   * Whether any mutation is still waiting to be replayed (failed ones are not counted)
+   */
+  static async hasPendingMutations(): Promise<boolean> {
+    return (await this.getQueue()).some(entry => !entry.failedAt);
+  }
+
+  /**
+   * Keep a mutation the backend rejected so the user can retry or discard it
+   * @param mutationId - Queue entry ID
+   * @param error - Reason given by the backend
+   */
+  static async markFailed(mutationId: string, error: string): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.map(entry =>
+      entry.id === mutationId ? { ...entry, failedAt: new Date().toISOString(), error } : entry
+    ));
+  }
+
+  /**
+   * Mutations the backend rejected, oldest first
+   */
+  static async getFailedMutations(): Promise<PendingMutation[]> {
+    return (await this.getQueue()).filter(entry => entry.failedAt);
+  }
+
+  /**
+   * Put a failed mutation back in line for the next sync
+   * @param mutationId - Queue entry ID
+   */
+  static async retryMutation(mutationId: string): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.map(entry =>
+      entry.id === mutationId ? { ...entry, failedAt: undefined, error: undefined } : entry
+    ));
+  }
+
+  /**
+   * Drop a failed mutation. Discarding the create of a record made offline also
+   * drops the later edits of that record, which can never be replayed.
+   * @param mutationId - Queue entry ID
+   */
+  static async discardMutation(mutationId: string): Promise<void> {
+    const queue = await this.getQueue();
+    const discarded = queue.find(entry => entry.id === mutationId);
+    if (!discarded) {
+      return;
+    }
+
+    const dropsRecord = discarded.method === 'POST' && this.isClientId(discarded.recordId);
+    await this.saveQueue(queue.filter(entry =>
+      entry.id !== mutationId && !(dropsRecord && entry.recordId === discarded.recordId)
+    ));
+  }
+
+  /**
+   * Get IDs of records with mutations that have not reached the backend yet
+   */
+  static async getPendingRecordIds(): Promise<Set<string>> {
+    const queue = (await this.getQueue()).filter(entry => !entry.failedAt);
+    return new Set(queue.map(entry => entry.recordId));
+  }
+
+  // ==================== OPTIMISTIC VIEW ====================
+
+  /**
+   * Apply queued mutations on top of server (or cached) data so the app
+   * shows records created, edited or deleted while offline
+   * @param endpoint - API endpoint the data was fetched from
+   * @param data - Server or cached response
+   */
+  static async applyPendingMutations<T>(endpoint: string, data: T): Promise<T> {
+    const parsed = this.parseEndpoint(endpoint);
+    if (!parsed) {
+      return data;
+    }
+
+    // Rejected mutations are listed on the sync issues screen instead
+    const queue = (await this.getQueue()).filter(entry => entry.resource === parsed.resource && !entry.failedAt);
+    if (queue.length === 0) {
+      return data;
+    }
+
+    // Single record
+    if (parsed.recordId && !Array.isArray(data)) {
+      return queue
+        .filter(entry => entry.recordId === parsed.recordId)
+        .reduce((record: any, entry) => {
+          if (entry.method === 'DELETE') {
+            return record;
+          }
+          return { ...record, ...parseBody(entry.body), id: entry.recordId };
+        }, data as any);
+    }
+
+    // Only the plain list endpoint can be patched; sub-routes like /date-range are left as is
+    if (parsed.recordId || !Array.isArray(data)) {
+      return data;
+    }
+
+    let records: any[] = [...data];
+    queue.forEach(entry => {
+      const body = parseBody(entry.body);
+
+      switch (entry.method) {
+        case 'POST':
+          records.push({ ...body, id: entry.recordId, createdAt: entry.createdAt, updatedAt: entry.createdAt });
+          break;
+
+        case 'PUT':
+          records = records.map(record =>
+            getRecordId(record) === entry.recordId ? { ...record, ...body } : record
+          );
+          break;
+
+        case 'DELETE':
+          records = records.filter(record => getRecordId(record) !== entry.recordId);
+          break;
+      }
+    });
+
+    return records.filter(record => matchesQuery(record, parsed.query)) as T;
+  }
+
+  /**
+   * Build the response returned to the caller for a queued mutation
+   * @param mutation - Queued mutation
+   */
+  static async buildOptimisticResponse<T>(mutation: Omit<PendingMutation, 'id' | 'createdAt'>): Promise<T> {
+    if (mutation.method === 'DELETE') {
+      return undefined as T;
+    }
+
+    const now = new Date().toISOString();
+    const body = parseBody(mutation.body);
+
+    if (mutation.method === 'POST') {
+      return { ...body, id: mutation.recordId, createdAt: now, updatedAt: now } as T;
+    }
+
+    const existing = await this.findCachedRecord<Record<string, any>>(mutation.resource, mutation.recordId);
+    const record = await this.applyPendingMutations(
+      `/api/${mutation.resource}/${mutation.recordId}`,
+      existing || {}
+    );
+    return { ...record, id: mutation.recordId, updatedAt: now } as T;
+  }
+}
@@ -1,4 +1,5 @@
-import { PartyApiService, PaymentApiService, PurchaseApiService, SaleApiService } from './api';
+import { CreditNoteApiService, DebitNoteApiService, PartyApiService, PaymentApiService, PurchaseApiService, SaleApiService } from './api';
+import { GstCalculator } from './gstCalculator';
 
 export interface Party {
   id: string;
@@ -7,6 +8,9 @@ export interface Party {
   balance: number;
   address?: string;
   email?: string;
+  gstin?: string;
+  openingBalance?: number;
+  openingBalanceDate?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -14,13 +18,108 @@ export interface Party {
 export interface PartyTransaction {
   id: string;
   partyId: string;
-  type: 'invoice' | 'bill' | 'payment-in' | 'payment-out';
-  amount: number;
+  type: 'opening-balance' | 'invoice' | 'credit-note' | 'bill' | 'debit-note' | 'payment-in' | 'payment-out';
+  amount: number; // positive, except an opening balance which is negative when payable
   date: string;
-  reference: string; // Invoice No, Bill No, or Payment No
+  reference: string; // Invoice No, Credit/Debit Note No, Bill No, or Payment No
 }
 
+// One line of a party ledger statement; debit raises what the party owes
+export interface StatementEntry extends PartyTransaction {
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this entry
+}
+
+export interface PartyStatement {
+  partyName: string;
+  phoneNumber: string;
+  startDate?: string;
+  endDate?: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number; // positive: party owes you, negative: you owe party
+}
+
+// Party fields carried on a sale, purchase or payment
+export interface PartyLinked {
+  partyId?: string;
+  partyName: string;
+  phoneNumber: string;
+}
+
+export type PartyRef = Pick<Party, 'id' | 'name' | 'phoneNumber' | 'openingBalance' | 'openingBalanceDate'>;
+
+// Name+phone key used to link records saved before they carried a partyId
+const getLegacyPartyKey = (partyName: string, phoneNumber: string) => `${partyName.toLowerCase()}-${phoneNumber}`;
+
 export class PartyManager {
+  /**
+   * Check whether a sale, purchase or payment belongs to a party.
+   * Records with a partyId are matched by id only; older records without one
+   * fall back to the name and phone number they were saved with.
+   */
+  static belongsToParty(record: PartyLinked, party: PartyRef): boolean {
+    if (record.partyId) {
+      return record.partyId === party.id;
+    }
+    return getLegacyPartyKey(record.partyName, record.phoneNumber) === getLegacyPartyKey(party.name, party.phoneNumber);
+  }
+
+  /**
+   * Build a function that returns the party id of a record, for grouping many
+   * records at once. Records that match no party are keyed by name and phone.
+   * @param parties - All parties
+   */
+  static createPartyKeyResolver(parties: PartyRef[]): (record: PartyLinked) => string {
+    const idsByLegacyKey = new Map(parties.map(party => [getLegacyPartyKey(party.name, party.phoneNumber), party.id]));
+    return record => record.partyId ||
+      idsByLegacyKey.get(getLegacyPartyKey(record.partyName, record.phoneNumber)) ||
+      getLegacyPartyKey(record.partyName, record.phoneNumber);
+  }
+
+  /**
+   * Find the party for a name and phone number, creating it if needed
+   * @param partyName - Party name
+   * @param phoneNumber - Phone number
+   * @param parties - Already loaded parties to search first
+   * @param gstin - GSTIN entered on the document; saved on the party when it changed
+   */
+  static async resolveParty(partyName: string, phoneNumber: string, parties?: Party[], gstin?: string): Promise<Party> {
+    const key = getLegacyPartyKey(partyName.trim(), phoneNumber.trim());
+    const normalizedGstin = GstCalculator.normalizeGstin(gstin) || undefined;
+    const existing = (parties || await this.getAllParties())
+      .find(party => getLegacyPartyKey(party.name, party.phoneNumber) === key);
+
+    if (!existing) {
+      return this.findOrCreateParty({ name: partyName.trim(), phoneNumber: phoneNumber.trim(), gstin: normalizedGstin });
+    }
+    // Remember the GSTIN entered on the document for the next one
+    if (normalizedGstin && normalizedGstin !== GstCalculator.normalizeGstin(existing.gstin)) {
+      return this.updateParty(existing.id, { gstin: normalizedGstin });
+    }
+    return existing;
+  }
+
+  /**
+   * Party id for a record being edited: keeps the existing link unless the
+   * party name or phone number on the record was changed
+   * @param partyName - Party name after the edit
+   * @param phoneNumber - Phone number after the edit
+   * @param original - Record before the edit
+   */
+  static async resolvePartyId(partyName: string, phoneNumber: string, original?: PartyLinked): Promise<string> {
+    if (
+      original?.partyId &&
+      getLegacyPartyKey(original.partyName, original.phoneNumber) === getLegacyPartyKey(partyName, phoneNumber)
+    ) {
+      return original.partyId;
+    }
+    return (await this.resolveParty(partyName, phoneNumber)).id;
+  }
+
   /**
    * Get party balance based on all transactions
    * Balance calculation rules:
@@ -37,26 +136,37 @@ export class PartyManager {
    * 3. Payment In: (Net Balance) - Payment In Amount
    * 4. Payment Out: (Net Balance) + Payment Out Amount
    * 
-   * @param partyName - Party name
-   * @param phoneNumber - Phone number
+   * @param party - Party
    */
-  static async getPartyBalance(partyName: string, phoneNumber: string): Promise<number> {
+  static async getPartyBalance(party: PartyRef): Promise<number> {
     try {
       // Get all transactions for this party
-      const transactions = await this.getPartyTransactions(partyName, phoneNumber);
+      const transactions = await this.getPartyTransactions(party);
       
       let balance = 0;
       
       transactions.forEach(transaction => {
         switch (transaction.type) {
+          case 'opening-balance':
+            // Opening Balance: receivable is positive, payable is negative
+            balance = balance + transaction.amount;
+            break;
           case 'invoice':
             // Sale Invoice: Always (Net Balance) + Invoice Amount
             balance = balance + transaction.amount;
             break;
+          case 'credit-note':
+            // Credit Note: Always (Net Balance) - Returned Amount
+            balance = balance - transaction.amount;
+            break;
           case 'bill':
             // Purchase Bill: Always (Net Balance) - Purchase Amount
             balance = balance - transaction.amount;
             break;
+          case 'debit-note':
+            // Debit Note: Always (Net Balance) + Returned Amount
+            balance = balance + transaction.amount;
+            break;
           case 'payment-in':
             // Payment In: Always (Net Balance) - Payment In Amount
             balance = balance - transaction.amount;
@@ -75,6 +185,70 @@ export class PartyManager {
     }
   }
 
+  /**
+   * Build a ledger statement for a party over a date range.
+   * Transactions before the start date are rolled into the opening balance.
+   * @param party - Party
+   * @param startDate - Optional start date (YYYY-MM-DD, inclusive)
+   * @param endDate - Optional end date (YYYY-MM-DD, inclusive)
+   */
+  static async getPartyStatement(
+    party: PartyRef,
+    startDate?: string,
+    endDate?: string
+  ): Promise<PartyStatement> {
+    const transactions = await this.getPartyTransactions(party);
+    const start = startDate ? new Date(`${startDate}T00:00:00`).getTime() : -Infinity;
+    const end = endDate ? new Date(`${endDate}T23:59:59`).getTime() : Infinity;
+
+    // Oldest first for running balances (transactions come newest first, opening balance last)
+    const ordered = [...transactions].reverse();
+
+    // Signed effect on the balance: positive is a debit, negative a credit
+    const getAmount = (transaction: PartyTransaction) =>
+      transaction.type === 'invoice' || transaction.type === 'debit-note' ||
+      transaction.type === 'payment-out' || transaction.type === 'opening-balance'
+        ? transaction.amount
+        : -transaction.amount;
+
+    let openingBalance = 0;
+    ordered
+      .filter(transaction => new Date(transaction.date).getTime() < start)
+      .forEach(transaction => {
+        openingBalance += getAmount(transaction);
+      });
+
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+    const entries: StatementEntry[] = ordered
+      .filter(transaction => {
+        const time = new Date(transaction.date).getTime();
+        return time >= start && time <= end;
+      })
+      .map(transaction => {
+        const amount = getAmount(transaction);
+        const debit = Math.max(amount, 0);
+        const credit = Math.max(-amount, 0);
+        balance += debit - credit;
+        totalDebit += debit;
+        totalCredit += credit;
+        return { ...transaction, debit, credit, balance };
+      });
+
+    return {
+      partyName: party.name,
+      phoneNumber: party.phoneNumber,
+      startDate,
+      endDate,
+      openingBalance,
+      entries,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance,
+    };
+  }
+
   /**
    * Get all parties from the backend
    */
@@ -87,66 +261,114 @@ export class PartyManager {
     }
   }
 
+  /**
+   * Opening balance of a party as a transaction, or null when it has none.
+   * Dated at the as-of date, falling back to when the party was created.
+   * @param party - Party
+   */
+  static getOpeningBalanceTransaction(party: PartyRef & { createdAt?: string }): PartyTransaction | null {
+    if (!party.openingBalance) {
+      return null;
+    }
+    return {
+      id: `opening-${party.id}`,
+      partyId: party.id,
+      type: 'opening-balance',
+      amount: party.openingBalance,
+      date: party.openingBalanceDate || party.createdAt || new Date(0).toISOString(),
+      reference: 'Opening Balance',
+    };
+  }
+
   /**
    * Get party transactions for a specific party
    */
-  static async getPartyTransactions(partyName: string, phoneNumber: string): Promise<PartyTransaction[]> {
+  static async getPartyTransactions(party: PartyRef): Promise<PartyTransaction[]> {
     try {
       const transactions: PartyTransaction[] = [];
-      const partyId = `${partyName.toLowerCase()}-${phoneNumber}`;
+      const partyId = party.id;
+      const opening = this.getOpeningBalanceTransaction(party);
       
       // Get sales (invoices)
       const sales = await SaleApiService.getSales();
       sales.forEach(sale => {
-        if (sale.partyName.toLowerCase() === partyName.toLowerCase() && 
-            sale.phoneNumber === phoneNumber) {
-            transactions.push({
+        if (this.belongsToParty(sale, party)) {
+          transactions.push({
             id: sale.id,
-              partyId,
-              type: 'invoice',
+            partyId,
+            type: 'invoice',
             amount: sale.totalAmount,
             date: sale.date,
             reference: sale.invoiceNo,
-            });
-          }
-        });
+          });
+        }
+      });
+        
+      // Get credit notes (sale returns)
+      const creditNotes = await CreditNoteApiService.getCreditNotes();
+      creditNotes.forEach(creditNote => {
+        if (this.belongsToParty(creditNote, party)) {
+          transactions.push({
+            id: creditNote.id,
+            partyId,
+            type: 'credit-note',
+            amount: creditNote.totalAmount,
+            date: creditNote.date,
+            reference: creditNote.creditNoteNo,
+          });
+        }
+      });
         
       // Get purchases (bills)
       const purchases = await PurchaseApiService.getPurchases();
       purchases.forEach(purchase => {
-        if (purchase.partyName.toLowerCase() === partyName.toLowerCase() &&
-            purchase.phoneNumber === phoneNumber) {
-            transactions.push({
+        if (this.belongsToParty(purchase, party)) {
+          transactions.push({
             id: purchase.id,
-              partyId,
-              type: 'bill',
+            partyId,
+            type: 'bill',
             amount: purchase.totalAmount,
             date: purchase.date,
             reference: purchase.billNo,
-            });
-          }
-        });
+          });
+        }
+      });
+        
+      // Get debit notes (purchase returns)
+      const debitNotes = await DebitNoteApiService.getDebitNotes();
+      debitNotes.forEach(debitNote => {
+        if (this.belongsToParty(debitNote, party)) {
+          transactions.push({
+            id: debitNote.id,
+            partyId,
+            type: 'debit-note',
+            amount: debitNote.totalAmount,
+            date: debitNote.date,
+            reference: debitNote.debitNoteNo,
+          });
+        }
+      });
         
       // Get payments
       const payments = await PaymentApiService.getPayments();
-        payments.forEach(payment => {
-          if (payment.partyName.toLowerCase() === partyName.toLowerCase() && 
-              payment.phoneNumber === phoneNumber) {
-            transactions.push({
-              id: payment.id,
-              partyId,
+      payments.forEach(payment => {
+        if (this.belongsToParty(payment, party)) {
+          transactions.push({
+            id: payment.id,
+            partyId,
             type: payment.type as 'payment-in' | 'payment-out',
-              amount: payment.amount,
-              date: payment.date,
-              reference: payment.paymentNo,
-            });
-          }
-        });
+            amount: payment.amount,
+            date: payment.date,
+            reference: payment.paymentNo,
+          });
+        }
+      });
       
-      // Sort by date (newest first)
-      return transactions.sort((a, b) => 
+      // Sort by date (newest first), with the opening balance always the oldest line
+      transactions.sort((a, b) => 
         new Date(b.date).getTime() - new Date(a.date).getTime()
       );
+      return opening ? [...transactions, opening] : transactions;
     } catch (error) {
       console.error('Error getting party transactions:', error);
       return [];
@@ -161,6 +383,7 @@ export class PartyManager {
     phoneNumber: string;
     address?: string;
     email?: string;
+    gstin?: string;
   }): Promise<Party> {
     try {
       return await PartyApiService.findOrCreateParty({
@@ -217,6 +440,7 @@ export class PartyManager {
     phoneNumber: string;
     address?: string;
     email?: string;
+    gstin?: string;
   }): Promise<Party> {
     try {
       return await PartyApiService.createParty({
@@ -237,6 +461,7 @@ export class PartyManager {
     phoneNumber?: string;
     address?: string;
     email?: string;
+    gstin?: string;
     balance?: number;
   }): Promise<Party> {
     try {
@@ -264,7 +489,7 @@ export class PartyManager {
    * This method calculates balance by fetching all transactions and computing the balance
    * Uses the exact formula: Payment In always subtracts, Payment Out always adds
    */
-  static async calculatePartyBalanceFromTransactions(partyName: string, phoneNumber: string): Promise<{
+  static async calculatePartyBalanceFromTransactions(party: PartyRef): Promise<{
     balance: number;
     totalInvoiced: number;
     totalBilled: number;
@@ -273,7 +498,7 @@ export class PartyManager {
     transactionCount: number;
   }> {
     try {
-      const transactions = await this.getPartyTransactions(partyName, phoneNumber);
+      const transactions = await this.getPartyTransactions(party);
       
       let balance = 0;
       let totalInvoiced = 0;
@@ -283,16 +508,28 @@ export class PartyManager {
       
       transactions.forEach(transaction => {
         switch (transaction.type) {
+          case 'opening-balance':
+            // Opening Balance: receivable is positive, payable is negative
+            balance = balance + transaction.amount;
+            break;
           case 'invoice':
             // Sale Invoice: Always (Net Balance) + Invoice Amount
             balance = balance + transaction.amount;
             totalInvoiced += transaction.amount;
             break;
+          case 'credit-note':
+            // Credit Note: Always (Net Balance) - Returned Amount
+            balance = balance - transaction.amount;
+            break;
           case 'bill':
             // Purchase Bill: Always (Net Balance) - Purchase Amount
             balance = balance - transaction.amount;
             totalBilled += transaction.amount;
             break;
+          case 'debit-note':
+            // Debit Note: Always (Net Balance) + Returned Amount
+            balance = balance + transaction.amount;
+            break;
           case 'payment-in':
             totalPaymentIn += transaction.amount;
             // Payment In: Always (Net Balance) - Payment In Amount
@@ -327,6 +564,20 @@ export class PartyManager {
     }
   }
 
+  /**
+   * Get net balances of parties keyed by party id. Parties without transactions
+   * get 0; look up records by the key from createPartyKeyResolver.
+   * @param parties - Parties to include
+   */
+  static async getBalanceLookup(parties: PartyRef[]): Promise<Record<string, number>> {
+    const balances = await PartyApiService.getBalances();
+    const balancesById = new Map(balances.map(balance => [balance.partyId, balance.balance]));
+    return parties.reduce<Record<string, number>>((lookup, party) => {
+      lookup[party.id] = balancesById.get(party.id) || 0;
+      return lookup;
+    }, {});
+  }
+
   /**
    * Get parties with their calculated balances
    */
@@ -339,23 +590,24 @@ export class PartyManager {
     transactionCount: number;
   }>> {
     try {
-      const parties = await this.getAllParties();
-      const partiesWithBalances = await Promise.all(
-        parties.map(async (party) => {
-          const balanceData = await this.calculatePartyBalanceFromTransactions(party.name, party.phoneNumber);
-          return {
-            ...party,
-            calculatedBalance: balanceData.balance,
-            totalInvoiced: balanceData.totalInvoiced,
-            totalBilled: balanceData.totalBilled,
-            totalPaymentIn: balanceData.totalPaymentIn,
-            totalPaymentOut: balanceData.totalPaymentOut,
-            transactionCount: balanceData.transactionCount
-          };
-        })
-      );
-      
-      return partiesWithBalances;
+      const [parties, balances] = await Promise.all([
+        this.getAllParties(),
+        PartyApiService.getBalances(),
+      ]);
+      const balancesById = new Map(balances.map(balance => [balance.partyId, balance]));
+
+      return parties.map(party => {
+        const balanceData = balancesById.get(party.id);
+        return {
+          ...party,
+          calculatedBalance: balanceData?.balance || 0,
+          totalInvoiced: balanceData?.totalInvoiced || 0,
+          totalBilled: balanceData?.totalBilled || 0,
+          totalPaymentIn: balanceData?.totalPaymentIn || 0,
+          totalPaymentOut: balanceData?.totalPaymentOut || 0,
+          transactionCount: balanceData?.transactionCount || 0
+        };
+      });
     } catch (error) {
       console.error('Error getting parties with balances:', error);
       return [];
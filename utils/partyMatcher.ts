@@ -0,0 +1,113 @@
+// Name and phone comparison used to link records to parties
+export class PartyMatcher {
+  /**
+   * Lowercase, drop punctuation and collapse spaces
+   */
+  static normalizeName(name: string): string {
+    return (name || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\u0900-\u097F\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Keep the last 10 digits so +91 / 0 prefixes compare equal
+   */
+  static normalizePhone(phoneNumber: string): string {
+    return (phoneNumber || '').replace(/\D/g, '').slice(-10);
+  }
+
+  /**
+   * Sound-alike key of a name (Soundex of each word), so spellings such as
+   * "Suresh" and "Sooresh" compare equal. Non-Latin words are kept as they are.
+   */
+  static getPhoneticKey(name: string): string {
+    return this.normalizeName(name)
+      .split(' ')
+      .filter(word => word.length > 0)
+      .map(word => this.getSoundex(word))
+      .join(' ');
+  }
+
+  /**
+   * Similarity of two names from 0 (different) to 1 (same after normalizing).
+   * A name whose words are all contained in the other ("Ramesh" / "Ramesh Traders")
+   * scores at least 0.85.
+   */
+  static getNameSimilarity(a: string, b: string): number {
+    const left = this.normalizeName(a);
+    const right = this.normalizeName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const distance = this.getEditDistance(left, right);
+    const ratio = 1 - distance / Math.max(left.length, right.length);
+
+    const leftWords = left.split(' ');
+    const rightWords = right.split(' ');
+    const [shorter, longer] = leftWords.length <= rightWords.length ? [leftWords, rightWords] : [rightWords, leftWords];
+    const contained = shorter.every(word => longer.includes(word));
+
+    return contained ? Math.max(ratio, 0.85) : ratio;
+  }
+
+  /**
+   * Score how likely a record's name and phone belong to a party, from 0 to 1.
+   * A matching phone number counts for half; the name similarity makes up the rest.
+   */
+  static scoreMatch(
+    record: { partyName: string; phoneNumber: string },
+    party: { name: string; phoneNumber: string }
+  ): number {
+    const recordPhone = this.normalizePhone(record.phoneNumber);
+    const phoneMatches = recordPhone !== '' && recordPhone === this.normalizePhone(party.phoneNumber);
+    const nameSimilarity = this.getNameSimilarity(record.partyName, party.name);
+    return Math.round(((phoneMatches ? 0.5 : 0) + nameSimilarity * 0.5) * 100) / 100;
+  }
+
+  // Soundex code of one word
+  private static getSoundex(word: string): string {
+    if (!/^[a-z]/.test(word)) return word;
+
+    const codes: Record<string, string> = {
+      b: '1', f: '1', p: '1', v: '1',
+      c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+      d: '3', t: '3',
+      l: '4',
+      m: '5', n: '5',
+      r: '6',
+    };
+
+    let key = word[0].toUpperCase();
+    let previous = codes[word[0]] || '';
+    for (const letter of word.slice(1)) {
+      const code = codes[letter] || '';
+      if (code && code !== previous) {
+        key += code;
+      }
+      // h and w do not separate letters with the same code
+      if (letter !== 'h' && letter !== 'w') {
+        previous = code;
+      }
+    }
+    return key.padEnd(4, '0').slice(0, 4);
+  }
+
+  // Levenshtein distance between two strings
+  private static getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
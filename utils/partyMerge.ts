@@ -0,0 +1,232 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Party, PartyApiService } from './api';
+import { PartyManager } from './partyManager';
+import { PartyMatcher } from './partyMatcher';
+import { PartyMigration, PartyRecord } from './partyMigration';
+
+// Storage keys
+const AUDIT_LOG_KEY = '@party_merge_audit';
+
+// Oldest audit entries are dropped beyond this
+const MAX_AUDIT_ENTRIES = 100;
+
+// Parties sharing a phone number are only flagged if their names are at least this close
+const SAME_PHONE_NAME_SIMILARITY = 0.6;
+
+export type DuplicateReason = 'same-name' | 'same-phone' | 'sounds-alike';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  'same-name': 'Same name',
+  'same-phone': 'Same phone',
+  'sounds-alike': 'Sounds alike',
+};
+
+export interface DuplicateParty {
+  party: Party;
+  records: PartyRecord[];
+}
+
+// Parties that look like the same customer or supplier
+export interface DuplicateGroup {
+  key: string;
+  parties: DuplicateParty[];
+  reasons: DuplicateReason[];
+  suggestedSurvivorId: string; // party with the most records
+}
+
+export interface PartyMergeResult {
+  recordsMoved: number;
+  failed: number;
+  partiesRemoved: number;
+  balance: number;
+}
+
+export interface PartyMergeAuditEntry {
+  id: string;
+  mergedAt: string;
+  survivorId: string;
+  survivorName: string;
+  mergedParties: { id: string; name: string; phoneNumber: string }[];
+  recordsMoved: number;
+  failed: number;
+}
+
+export class PartyMerge {
+  /**
+   * Reasons two parties look like duplicates, empty if they do not
+   */
+  static getDuplicateReasons(a: Party, b: Party): DuplicateReason[] {
+    const reasons: DuplicateReason[] = [];
+
+    const nameA = PartyMatcher.normalizeName(a.name);
+    if (nameA && nameA === PartyMatcher.normalizeName(b.name)) {
+      reasons.push('same-name');
+    }
+
+    const phoneA = PartyMatcher.normalizePhone(a.phoneNumber);
+    if (
+      phoneA &&
+      phoneA === PartyMatcher.normalizePhone(b.phoneNumber) &&
+      PartyMatcher.getNameSimilarity(a.name, b.name) >= SAME_PHONE_NAME_SIMILARITY
+    ) {
+      reasons.push('same-phone');
+    }
+
+    const keyA = PartyMatcher.getPhoneticKey(a.name);
+    if (!reasons.includes('same-name') && keyA && keyA === PartyMatcher.getPhoneticKey(b.name)) {
+      reasons.push('sounds-alike');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Find groups of parties that are probably the same, each with the records
+   * currently linked to every party in the group
+   */
+  static async findDuplicates(): Promise<DuplicateGroup[]> {
+    const [parties, records] = await Promise.all([
+      PartyApiService.getParties(),
+      PartyMigration.getAllRecords(),
+    ]);
+
+    // Union-find over parties, so A~B and B~C end up in one group
+    const roots = parties.map((_, index) => index);
+    const findRoot = (index: number): number => {
+      while (roots[index] !== index) {
+        roots[index] = roots[roots[index]];
+        index = roots[index];
+      }
+      return index;
+    };
+
+    const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+    const pairReasons: { a: number; b: number; reasons: DuplicateReason[] }[] = [];
+    for (let a = 0; a < parties.length; a++) {
+      for (let b = a + 1; b < parties.length; b++) {
+        const reasons = this.getDuplicateReasons(parties[a], parties[b]);
+        if (reasons.length === 0) continue;
+        roots[findRoot(b)] = findRoot(a);
+        pairReasons.push({ a, b, reasons });
+      }
+    }
+
+    pairReasons.forEach(({ a, reasons }) => {
+      const root = findRoot(a);
+      if (!reasonsByRoot.has(root)) {
+        reasonsByRoot.set(root, new Set());
+      }
+      reasons.forEach(reason => reasonsByRoot.get(root)!.add(reason));
+    });
+
+    const groups: DuplicateGroup[] = [];
+    reasonsByRoot.forEach((reasons, root) => {
+      const members = parties
+        .filter((_, index) => findRoot(index) === root)
+        .map(party => ({
+          party,
+          records: records.filter(record => PartyManager.belongsToParty(record, party)),
+        }))
+        .sort((a, b) => b.records.length - a.records.length);
+
+      groups.push({
+        key: members.map(member => member.party.id).join('-'),
+        parties: members,
+        reasons: Array.from(reasons),
+        suggestedSurvivorId: members[0].party.id,
+      });
+    });
+
+    return groups.sort((a, b) => b.parties.length - a.parties.length);
+  }
+
+  /**
+   * Move every document and payment of the duplicates to the survivor,
+   * recompute the survivor's balance and delete the duplicates.
+   * A duplicate is only deleted once all of its records were moved and no
+   * record refers to it any more; its opening balance is then added to the survivor's.
+   * @param survivor - Party to keep
+   * @param duplicates - Parties merged into the survivor, with their records
+   */
+  static async mergeParties(survivor: Party, duplicates: DuplicateParty[]): Promise<PartyMergeResult> {
+    const result: PartyMergeResult = { recordsMoved: 0, failed: 0, partiesRemoved: 0, balance: survivor.balance };
+    let openingBalance = survivor.openingBalance || 0;
+    const openingDates = survivor.openingBalanceDate ? [survivor.openingBalanceDate] : [];
+
+    const movedDuplicates: DuplicateParty[] = [];
+    for (const duplicate of duplicates) {
+      const linked = await PartyMigration.linkRecords(duplicate.records, survivor.id);
+      result.recordsMoved += linked.updated;
+      result.failed += linked.failed;
+      if (linked.failed === 0) {
+        movedDuplicates.push(duplicate);
+      }
+    }
+
+    // Records saved since the duplicates were found may still point at them
+    const remaining = movedDuplicates.length > 0 ? await PartyMigration.getAllRecords() : [];
+
+    for (const duplicate of movedDuplicates) {
+      const stillLinked = remaining.filter(record => record.partyId === duplicate.party.id).length;
+      if (stillLinked > 0) {
+        result.failed += stillLinked;
+        continue;
+      }
+
+      try {
+        await PartyApiService.deleteParty(duplicate.party.id);
+        result.partiesRemoved++;
+        if (duplicate.party.openingBalance) {
+          openingBalance += duplicate.party.openingBalance;
+          openingDates.push(duplicate.party.openingBalanceDate || duplicate.party.createdAt || new Date(0).toISOString());
+        }
+      } catch (error) {
+        console.error(`Error deleting merged party ${duplicate.party.id}:`, error);
+      }
+    }
+
+    // Earliest as-of date of the combined opening balances
+    const openingBalanceDate = openingDates.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+    const { balance } = await PartyManager.calculatePartyBalanceFromTransactions({
+      ...survivor,
+      openingBalance,
+      openingBalanceDate,
+    });
+    await PartyApiService.updateParty(survivor.id, { balance, openingBalance, openingBalanceDate });
+    result.balance = balance;
+
+    await this.addAuditEntry({
+      id: Date.now().toString(),
+      mergedAt: new Date().toISOString(),
+      survivorId: survivor.id,
+      survivorName: survivor.name,
+      mergedParties: duplicates.map(({ party }) => ({ id: party.id, name: party.name, phoneNumber: party.phoneNumber })),
+      recordsMoved: result.recordsMoved,
+      failed: result.failed,
+    });
+
+    return result;
+  }
+
+  /**
+   * Get past merges, newest first
+   */
+  static async getAuditLog(): Promise<PartyMergeAuditEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(AUDIT_LOG_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading party merge audit log:', error);
+      return [];
+    }
+  }
+
+  private static async addAuditEntry(entry: PartyMergeAuditEntry): Promise<void> {
+    try {
+      const entries = await this.getAuditLog();
+      await AsyncStorage.setItem(AUDIT_LOG_KEY, JSON.stringify([entry, ...entries].slice(0, MAX_AUDIT_ENTRIES)));
+    } catch (error) {
+      console.error('Error saving party merge audit entry:', error);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  CreditNoteApiService,
+  DebitNoteApiService,
+  DeliveryChallanApiService,
+  Party,
+  PartyApiService,
+  PaymentApiService,
+  PurchaseApiService,
+  QuotationApiService,
+  SaleApiService,
+  SalesOrderApiService,
+} from './api';
+import { PartyMatcher } from './partyMatcher';
+
+export type PartyRecordKind =
+  | 'sale'
+  | 'credit-note'
+  | 'quotation'
+  | 'sales-order'
+  | 'delivery-challan'
+  | 'purchase'
+  | 'debit-note'
+  | 'payment';
+
+// Document or payment as shown when linking it to a party
+export interface PartyRecord {
+  kind: PartyRecordKind;
+  id: string;
+  reference: string;
+  date: string;
+  amount: number;
+  partyName: string;
+  phoneNumber: string;
+}
+
+export interface PartyMatchCandidate {
+  party: Party;
+  score: number; // 0-1, see PartyMatcher.scoreMatch
+}
+
+// Unlinked records sharing the same name and phone, reviewed together
+export interface PartyLinkGroup {
+  key: string;
+  partyName: string;
+  phoneNumber: string;
+  records: PartyRecord[];
+  totalAmount: number;
+  candidates: PartyMatchCandidate[];
+  suggestedPartyId?: string;
+}
+
+export interface PartyLinkResult {
+  updated: number;
+  failed: number;
+}
+
+// Candidates scoring at least this are pre-selected on the review screen
+export const AUTO_LINK_SCORE = 0.8;
+
+// Candidates below this are not offered at all
+const MIN_CANDIDATE_SCORE = 0.4;
+
+const MAX_CANDIDATES = 3;
+
+export class PartyMigration {
+  /**
+   * Get every document and payment that names a party, with the party fields
+   * they were saved with
+   */
+  static async getAllRecords(): Promise<(PartyRecord & { partyId?: string })[]> {
+    const [sales, creditNotes, quotations, salesOrders, challans, purchases, debitNotes, payments] = await Promise.all([
+      SaleApiService.getSales(),
+      CreditNoteApiService.getCreditNotes(),
+      QuotationApiService.getQuotations(),
+      SalesOrderApiService.getSalesOrders(),
+      DeliveryChallanApiService.getDeliveryChallans(),
+      PurchaseApiService.getPurchases(),
+      DebitNoteApiService.getDebitNotes(),
+      PaymentApiService.getPayments(),
+    ]);
+
+    return [
+      ...sales.map(sale => ({
+        kind: 'sale' as const,
+        id: sale.id,
+        reference: `INV-${sale.invoiceNo}`,
+        date: sale.date,
+        amount: sale.totalAmount,
+        partyId: sale.partyId,
+        partyName: sale.partyName,
+        phoneNumber: sale.phoneNumber,
+      })),
+      ...creditNotes.map(creditNote => ({
+        kind: 'credit-note' as const,
+        id: creditNote.id,
+        reference: `CN-${creditNote.creditNoteNo}`,
+        date: creditNote.date,
+        amount: creditNote.totalAmount,
+        partyId: creditNote.partyId,
+        partyName: creditNote.partyName,
+        phoneNumber: creditNote.phoneNumber,
+      })),
+      ...quotations.map(quotation => ({
+        kind: 'quotation' as const,
+        id: quotation.id,
+        reference: `Quotation #${quotation.quotationNo}`,
+        date: quotation.date,
+        amount: quotation.totalAmount,
+        partyId: quotation.partyId,
+        partyName: quotation.partyName,
+        phoneNumber: quotation.phoneNumber,
+      })),
+      ...salesOrders.map(order => ({
+        kind: 'sales-order' as const,
+        id: order.id,
+        reference: `Order #${order.orderNo}`,
+        date: order.date,
+        amount: order.totalAmount,
+        partyId: order.partyId,
+        partyName: order.partyName,
+        phoneNumber: order.phoneNumber,
+      })),
+      ...challans.map(challan => ({
+        kind: 'delivery-challan' as const,
+        id: challan.id,
+        reference: `DC-${challan.challanNo}`,
+        date: challan.date,
+        amount: challan.totalAmount,
+        partyId: challan.partyId,
+        partyName: challan.partyName,
+        phoneNumber: challan.phoneNumber,
+      })),
+      ...purchases.map(bill => ({
+        kind: 'purchase' as const,
+        id: bill.id,
+        reference: `BILL-${bill.billNo}`,
+        date: bill.date,
+        amount: bill.totalAmount,
+        partyId: bill.partyId,
+        partyName: bill.partyName,
+        phoneNumber: bill.phoneNumber,
+      })),
+      ...debitNotes.map(debitNote => ({
+        kind: 'debit-note' as const,
+        id: debitNote.id,
+        reference: `DN-${debitNote.debitNoteNo}`,
+        date: debitNote.date,
+        amount: debitNote.totalAmount,
+        partyId: debitNote.partyId,
+        partyName: debitNote.partyName,
+        phoneNumber: debitNote.phoneNumber,
+      })),
+      ...payments.map(payment => ({
+        kind: 'payment' as const,
+        id: payment.id,
+        reference: payment.paymentNo,
+        date: payment.date,
+        amount: payment.amount,
+        partyId: payment.partyId,
+        partyName: payment.partyName,
+        phoneNumber: payment.phoneNumber,
+      })),
+    ];
+  }
+
+  /**
+   * Find records without a partyId (or pointing at a deleted party), grouped by
+   * the name and phone they were saved with, each with its best matching parties
+   */
+  static async findUnlinkedRecords(): Promise<PartyLinkGroup[]> {
+    const [parties, allRecords] = await Promise.all([
+      PartyApiService.getParties(),
+      this.getAllRecords(),
+    ]);
+
+    const partyIds = new Set(parties.map(party => party.id));
+    const records = allRecords.filter(record => !record.partyId || !partyIds.has(record.partyId));
+
+    const groups = new Map<string, PartyLinkGroup>();
+    records.forEach(record => {
+      const key = `${PartyMatcher.normalizeName(record.partyName)}-${PartyMatcher.normalizePhone(record.phoneNumber)}`;
+      if (!groups.has(key)) {
+        const candidates = parties
+          .map(party => ({ party, score: PartyMatcher.scoreMatch(record, party) }))
+          .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_CANDIDATES);
+
+        groups.set(key, {
+          key,
+          partyName: record.partyName,
+          phoneNumber: record.phoneNumber,
+          records: [],
+          totalAmount: 0,
+          candidates,
+          suggestedPartyId: candidates[0]?.score >= AUTO_LINK_SCORE ? candidates[0].party.id : undefined,
+        });
+      }
+
+      const group = groups.get(key)!;
+      group.records.push(record);
+      group.totalAmount += record.amount || 0;
+    });
+
+    // Groups with the most records first
+    return Array.from(groups.values()).sort((a, b) => b.records.length - a.records.length);
+  }
+
+  /**
+   * Set the partyId of each record. The stored party name and phone are left as they were.
+   * @param records - Records to link
+   * @param partyId - Party to link them to
+   */
+  static async linkRecords(records: PartyRecord[], partyId: string): Promise<PartyLinkResult> {
+    const result: PartyLinkResult = { updated: 0, failed: 0 };
+
+    for (const record of records) {
+      try {
+        switch (record.kind) {
+          case 'sale':
+            await SaleApiService.updateSale(record.id, { partyId });
+            break;
+          case 'credit-note':
+            await CreditNoteApiService.updateCreditNote(record.id, { partyId });
+            break;
+          case 'quotation':
+            await QuotationApiService.updateQuotation(record.id, { partyId });
+            break;
+          case 'sales-order':
+            await SalesOrderApiService.updateSalesOrder(record.id, { partyId });
+            break;
+          case 'delivery-challan':
+            await DeliveryChallanApiService.updateDeliveryChallan(record.id, { partyId });
+            break;
+          case 'purchase':
+            await PurchaseApiService.updatePurchase(record.id, { partyId });
+            break;
+          case 'debit-note':
+            await DebitNoteApiService.updateDebitNote(record.id, { partyId });
+            break;
+          case 'payment':
+            await PaymentApiService.updatePayment(record.id, { partyId });
+            break;
+        }
+        result.updated++;
+      } catch (error) {
+        console.error(`Error linking ${record.kind} ${record.id} to party:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
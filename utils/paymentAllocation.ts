@@ -0,0 +1,242 @@
+import { PartyApiService, Payment, PaymentAllocation, PaymentApiService, PurchaseApiService, PurchaseBill, SaleApiService, SaleInvoice } from './api';
+import { PartyManager, PartyRef } from './partyManager';
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'overdue';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partial: 'Partial',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+// Credit period used when a document has no due date of its own
+export const DEFAULT_CREDIT_DAYS = 30;
+
+// Sale invoice or purchase bill that payments can be allocated to
+export interface PayableDocument {
+  id: string;
+  documentNo: string;
+  partyId?: string;
+  partyName: string;
+  phoneNumber: string;
+  date: string;
+  createdAt?: string; // ISO; the display date above is locale formatted
+  dueDate?: string;
+  totalAmount: number;
+}
+
+export interface DocumentPaymentInfo {
+  documentId: string;
+  paidAmount: number;
+  dueAmount: number;
+  dueDate: string; // ISO
+  status: PaymentStatus;
+}
+
+export type OpenDocument = PayableDocument & DocumentPaymentInfo;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class PaymentAllocations {
+  static fromSale(invoice: SaleInvoice): PayableDocument {
+    return {
+      id: invoice.id,
+      documentNo: invoice.invoiceNo,
+      partyId: invoice.partyId,
+      partyName: invoice.partyName,
+      phoneNumber: invoice.phoneNumber,
+      date: invoice.date,
+      createdAt: invoice.createdAt,
+      dueDate: invoice.dueDate,
+      // Goods returned on credit notes are no longer payable
+      totalAmount: (invoice.totalAmount || 0) - (invoice.returnedAmount || 0),
+    };
+  }
+
+  static fromPurchase(bill: PurchaseBill): PayableDocument {
+    return {
+      id: bill.id,
+      documentNo: bill.billNo,
+      partyId: bill.partyId,
+      partyName: bill.partyName,
+      phoneNumber: bill.phoneNumber,
+      date: bill.date,
+      createdAt: bill.createdAt,
+      dueDate: bill.dueDate,
+      // Goods sent back on debit notes are no longer payable
+      totalAmount: (bill.totalAmount || 0) - (bill.returnedAmount || 0),
+    };
+  }
+
+  /**
+   * Due date for a new document dated today
+   * @param creditDays - Days of credit allowed
+   */
+  static getDefaultDueDate(creditDays: number = DEFAULT_CREDIT_DAYS): string {
+    return new Date(Date.now() + creditDays * DAY_MS).toISOString();
+  }
+
+  /**
+   * Due date of a document, falling back to the default credit period from its date
+   */
+  static getDueDate(document: Pick<PayableDocument, 'date' | 'dueDate'>): Date {
+    if (document.dueDate) {
+      return new Date(document.dueDate);
+    }
+    return new Date(new Date(document.date).getTime() + DEFAULT_CREDIT_DAYS * DAY_MS);
+  }
+
+  /**
+   * Work out how much of each document has been paid.
+   * Explicit allocations are applied first (never more than the payment or
+   * document amount); whatever is left of a party's payments is applied to
+   * that party's oldest documents, so statuses always agree with the balance.
+   * @param documents - Sale invoices or purchase bills
+   * @param payments - Payments-in for invoices, payments-out for bills
+   * @param parties - Parties, used to link records saved without a partyId
+   * @param asOfDate - Date used to decide whether a document is overdue
+   */
+  static computeStatuses(
+    documents: PayableDocument[],
+    payments: Payment[],
+    parties: PartyRef[] = [],
+    asOfDate: Date = new Date()
+  ): Map<string, DocumentPaymentInfo> {
+    const getPartyKey = PartyManager.createPartyKeyResolver(parties);
+    const documentsById = new Map(documents.map(document => [document.id, document]));
+    const paid = new Map<string, number>();
+    const unallocated = new Map<string, number>();
+
+    payments.forEach(payment => {
+      let available = payment.amount || 0;
+      (payment.allocations || []).forEach(allocation => {
+        const document = documentsById.get(allocation.documentId);
+        if (!document || available <= 0) return;
+        const alreadyPaid = paid.get(document.id) || 0;
+        const amount = Math.min(allocation.amount, available, document.totalAmount - alreadyPaid);
+        if (amount <= 0) return;
+        paid.set(document.id, alreadyPaid + amount);
+        available -= amount;
+      });
+
+      if (available > 0) {
+        const key = getPartyKey(payment);
+        unallocated.set(key, (unallocated.get(key) || 0) + available);
+      }
+    });
+
+    // Apply on-account amounts to each party's oldest documents
+    const sorted = [...documents].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    sorted.forEach(document => {
+      const key = getPartyKey(document);
+      const available = unallocated.get(key) || 0;
+      if (available <= 0) return;
+      const alreadyPaid = paid.get(document.id) || 0;
+      const amount = Math.min(available, document.totalAmount - alreadyPaid);
+      if (amount <= 0) return;
+      paid.set(document.id, alreadyPaid + amount);
+      unallocated.set(key, available - amount);
+    });
+
+    const statuses = new Map<string, DocumentPaymentInfo>();
+    documents.forEach(document => {
+      const paidAmount = round(paid.get(document.id) || 0);
+      const dueAmount = round(Math.max(0, document.totalAmount - paidAmount));
+      const dueDate = this.getDueDate(document);
+
+      let status: PaymentStatus;
+      if (dueAmount <= 0) {
+        status = 'paid';
+      } else if (dueDate.getTime() < asOfDate.getTime()) {
+        status = 'overdue';
+      } else {
+        status = paidAmount > 0 ? 'partial' : 'unpaid';
+      }
+
+      statuses.set(document.id, {
+        documentId: document.id,
+        paidAmount,
+        dueAmount,
+        dueDate: dueDate.toISOString(),
+        status,
+      });
+    });
+
+    return statuses;
+  }
+
+  /**
+   * Get paid/due amounts and status of every sale invoice
+   */
+  static async getSaleStatuses(): Promise<Map<string, DocumentPaymentInfo>> {
+    const [sales, payments, parties] = await Promise.all([
+      SaleApiService.getSales(),
+      PaymentApiService.getPayments({ type: 'payment-in' }),
+      PartyApiService.getParties(),
+    ]);
+    return this.computeStatuses(sales.map(sale => this.fromSale(sale)), payments, parties);
+  }
+
+  /**
+   * Get paid/due amounts and status of every purchase bill
+   */
+  static async getPurchaseStatuses(): Promise<Map<string, DocumentPaymentInfo>> {
+    const [purchases, payments, parties] = await Promise.all([
+      PurchaseApiService.getPurchases(),
+      PaymentApiService.getPayments({ type: 'payment-out' }),
+      PartyApiService.getParties(),
+    ]);
+    return this.computeStatuses(purchases.map(bill => this.fromPurchase(bill)), payments, parties);
+  }
+
+  /**
+   * Get a party's documents that still have an amount due, oldest first
+   * @param type - 'payment-in' for sale invoices, 'payment-out' for purchase bills
+   * @param party - Party
+   * @param excludePaymentId - Payment being edited, left out so its own allocations are available again
+   */
+  static async getOpenDocuments(
+    type: Payment['type'],
+    party: PartyRef,
+    excludePaymentId?: string
+  ): Promise<OpenDocument[]> {
+    const [documents, payments] = await Promise.all([
+      type === 'payment-in'
+        ? SaleApiService.getSales().then(sales => sales.map(sale => this.fromSale(sale)))
+        : PurchaseApiService.getPurchases().then(purchases => purchases.map(bill => this.fromPurchase(bill))),
+      PaymentApiService.getPayments({ type }),
+    ]);
+
+    const partyDocuments = documents.filter(document => PartyManager.belongsToParty(document, party));
+    const statuses = this.computeStatuses(
+      partyDocuments,
+      payments.filter(payment => payment.id !== excludePaymentId && PartyManager.belongsToParty(payment, party)),
+      [party]
+    );
+
+    return partyDocuments
+      .map(document => ({ ...document, ...statuses.get(document.id)! }))
+      .filter(document => document.dueAmount > 0)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  /**
+   * Spread an amount over open documents, oldest first
+   * @param amount - Payment amount
+   * @param documents - Open documents, oldest first
+   */
+  static allocateOldestFirst(amount: number, documents: OpenDocument[]): PaymentAllocation[] {
+    let available = amount;
+    const allocations: PaymentAllocation[] = [];
+    documents.forEach(document => {
+      if (available <= 0) return;
+      const allocated = round(Math.min(available, document.dueAmount));
+      allocations.push({ documentId: document.id, documentNo: document.documentNo, amount: allocated });
+      available = round(available - allocated);
+    });
+    return allocations;
+  }
+}
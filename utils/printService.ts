@@ -0,0 +1,426 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Print from 'expo-print';
+import {
+  CompanyApiService,
+  CompanyDetails,
+  CreditNoteApiService,
+  DebitNoteApiService,
+  Payment,
+  PaymentApiService,
+  PurchaseApiService,
+  PurchaseItem,
+  SaleApiService,
+  SaleItem
+} from './api';
+import { CompanyBranding } from './companyBranding';
+import { html, raw } from './htmlTemplate';
+import { UnitConverter } from './unitConverter';
+
+// Storage key for the last page size picked on the print preview
+const PAGE_SIZE_KEY = '@print_page_size';
+
+export type PrintDocumentType = 'sale' | 'credit-note' | 'purchase' | 'debit-note' | 'payment-in' | 'payment-out';
+
+export type PrintPageSize = 'A4' | 'A5' | 'thermal-80' | 'thermal-58';
+
+export const PRINT_PAGE_SIZE_LABELS: Record<PrintPageSize, string> = {
+  'A4': 'A4',
+  'A5': 'A5',
+  'thermal-80': '80mm Receipt',
+  'thermal-58': '58mm Receipt',
+};
+
+// Paper size in points (1/72 inch) and as a CSS @page size; receipts are as long as their content
+const PAGE_DIMENSIONS: Record<PrintPageSize, { width: number; height?: number; css: string }> = {
+  'A4': { width: 595, height: 842, css: 'A4' },
+  'A5': { width: 420, height: 595, css: 'A5' },
+  'thermal-80': { width: 227, css: '80mm auto' },
+  'thermal-58': { width: 164, css: '58mm auto' },
+};
+
+const PAYMENT_METHOD_LABELS: Record<Payment['paymentMethod'], string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  upi: 'UPI',
+  card: 'Card',
+  other: 'Other',
+};
+
+// One item row as printed
+export interface PrintLine {
+  name: string;
+  hsnCode?: string;
+  quantity: string; // formatted with units, e.g. 2 bags (100 kg)
+  rate: number;
+  gstRate?: number;
+  amount: number;
+}
+
+// Everything a printed document shows, shared by the page and receipt layouts
+export interface PrintDocument {
+  type: PrintDocumentType;
+  title: string; // e.g. TAX INVOICE
+  number: string; // display number with prefix, e.g. INV-12
+  date: string;
+  partyLabel: string; // e.g. Bill To
+  partyName: string;
+  phoneNumber: string;
+  partyGstin?: string;
+  placeOfSupply?: string;
+  lines: PrintLine[];
+  isInterState?: boolean;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalAmount: number;
+  notes: string[]; // extra lines such as the invoice a return was made against
+}
+
+// Fields of invoices, bills and notes that are printed the same way
+interface PrintableTaxDocument {
+  partyName: string;
+  phoneNumber: string;
+  partyGstin?: string;
+  placeOfSupply?: string;
+  items: (SaleItem | PurchaseItem)[];
+  isInterState?: boolean;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalAmount: number;
+  date: string;
+}
+
+const formatAmount = (amount: number = 0): string => `₹${amount.toLocaleString()}`;
+
+export class PrintService {
+  /**
+   * Load a saved document and turn it into the print model
+   * @param type - Document type, as used on the dashboard
+   * @param id - Document ID
+   */
+  static async loadDocument(type: PrintDocumentType, id: string): Promise<PrintDocument> {
+    switch (type) {
+      case 'sale': {
+        const sale = await SaleApiService.getSaleById(id);
+        return this.fromTaxDocument(type, 'TAX INVOICE', `INV-${sale.invoiceNo}`, 'Bill To', sale, []);
+      }
+      case 'credit-note': {
+        const creditNote = await CreditNoteApiService.getCreditNoteById(id);
+        return this.fromTaxDocument(type, 'CREDIT NOTE', `CN-${creditNote.creditNoteNo}`, 'Bill To', creditNote, [
+          `Against invoice INV-${creditNote.invoiceNo}`,
+          ...(creditNote.reason ? [`Reason: ${creditNote.reason}`] : []),
+        ]);
+      }
+      case 'purchase': {
+        const bill = await PurchaseApiService.getPurchaseById(id);
+        return this.fromTaxDocument(type, 'PURCHASE BILL', `BILL-${bill.billNo}`, 'Supplier', bill, []);
+      }
+      case 'debit-note': {
+        const debitNote = await DebitNoteApiService.getDebitNoteById(id);
+        return this.fromTaxDocument(type, 'DEBIT NOTE', `DN-${debitNote.debitNoteNo}`, 'Supplier', debitNote, [
+          `Against bill BILL-${debitNote.billNo}`,
+          ...(debitNote.reason ? [`Reason: ${debitNote.reason}`] : []),
+        ]);
+      }
+      case 'payment-in':
+      case 'payment-out': {
+        const payment = await PaymentApiService.getPaymentById(id);
+        return this.fromPayment(payment);
+      }
+    }
+  }
+
+  private static fromTaxDocument(
+    type: PrintDocumentType,
+    title: string,
+    number: string,
+    partyLabel: string,
+    document: PrintableTaxDocument,
+    notes: string[]
+  ): PrintDocument {
+    return {
+      type,
+      title,
+      number,
+      date: document.date,
+      partyLabel,
+      partyName: document.partyName,
+      phoneNumber: document.phoneNumber,
+      partyGstin: document.partyGstin,
+      placeOfSupply: document.placeOfSupply,
+      lines: (document.items || []).map(item => ({
+        name: item.itemName,
+        hsnCode: item.hsnCode,
+        quantity: UnitConverter.formatQuantity(item, item.quantity),
+        rate: item.rate,
+        gstRate: item.gstRate,
+        amount: item.total,
+      })),
+      isInterState: document.isInterState,
+      taxableAmount: document.taxableAmount,
+      cgstAmount: document.cgstAmount,
+      sgstAmount: document.sgstAmount,
+      igstAmount: document.igstAmount,
+      totalAmount: document.totalAmount,
+      notes,
+    };
+  }
+
+  private static fromPayment(payment: Payment): PrintDocument {
+    const received = payment.type === 'payment-in';
+    return {
+      type: payment.type,
+      title: received ? 'PAYMENT RECEIPT' : 'PAYMENT VOUCHER',
+      number: payment.paymentNo || payment.id,
+      date: payment.date,
+      partyLabel: received ? 'Received From' : 'Paid To',
+      partyName: payment.partyName,
+      phoneNumber: payment.phoneNumber,
+      lines: [],
+      totalAmount: payment.amount || payment.totalAmount || 0,
+      notes: [
+        `Mode: ${PAYMENT_METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod}`,
+        ...(payment.reference ? [`Reference: ${payment.reference}`] : []),
+        ...(payment.allocations || []).map(allocation => `Against #${allocation.documentNo}: ${formatAmount(allocation.amount)}`),
+        ...(payment.description ? [payment.description] : []),
+      ],
+    };
+  }
+
+  /**
+   * Page size picked last time, A4 by default
+   */
+  static async getPageSize(): Promise<PrintPageSize> {
+    try {
+      const stored = await AsyncStorage.getItem(PAGE_SIZE_KEY);
+      return stored && stored in PAGE_DIMENSIONS ? (stored as PrintPageSize) : 'A4';
+    } catch (error) {
+      console.error('Error loading print page size:', error);
+      return 'A4';
+    }
+  }
+
+  /**
+   * Remember the page size for the next print
+   */
+  static async savePageSize(pageSize: PrintPageSize): Promise<void> {
+    await AsyncStorage.setItem(PAGE_SIZE_KEY, pageSize);
+  }
+
+  /**
+   * Company details printed in the header; documents still print without them
+   */
+  static async getCompanyDetails(): Promise<CompanyDetails | null> {
+    try {
+      return await CompanyApiService.getCompanyDetails();
+    } catch (error) {
+      console.error('Error loading company details for printing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * HTML of a document laid out for the page size: a full invoice on A4/A5,
+   * a narrow receipt on thermal paper
+   */
+  static buildHTML(document: PrintDocument, company: CompanyDetails | null, pageSize: PrintPageSize): string {
+    return pageSize === 'A4' || pageSize === 'A5'
+      ? this.buildPageHTML(document, company, pageSize)
+      : this.buildReceiptHTML(document, company, pageSize);
+  }
+
+  /**
+   * Open the system print dialog for a document
+   * @returns Whether the print job was handed to the printer
+   */
+  static async print(document: PrintDocument, company: CompanyDetails | null, pageSize: PrintPageSize): Promise<boolean> {
+    const dimensions = PAGE_DIMENSIONS[pageSize];
+    try {
+      await Print.printAsync({
+        html: this.buildHTML(document, company, pageSize),
+        width: dimensions.width,
+        // Roughly the printed length of a receipt
+        height: dimensions.height ?? 260 + document.lines.length * 40 + document.notes.length * 14,
+      });
+      return true;
+    } catch (error) {
+      // Cancelling the dialog also ends up here on some platforms
+      console.error('Error printing document:', error);
+      return false;
+    }
+  }
+
+  private static buildTaxRows(document: PrintDocument): { label: string; amount: number }[] {
+    if (document.taxableAmount === undefined) {
+      return [];
+    }
+    return [
+      { label: 'Taxable Amount', amount: document.taxableAmount },
+      ...(document.isInterState
+        ? [{ label: 'IGST', amount: document.igstAmount || 0 }]
+        : [
+          { label: 'CGST', amount: document.cgstAmount || 0 },
+          { label: 'SGST', amount: document.sgstAmount || 0 },
+        ]),
+    ];
+  }
+
+  private static buildPageHTML(document: PrintDocument, company: CompanyDetails | null, pageSize: 'A4' | 'A5'): string {
+    const fontSize = pageSize === 'A4' ? 12 : 10;
+    const itemRows = document.lines.map((line, index) => html`
+      <tr>
+        <td>${index + 1}</td>
+        <td>${line.name}</td>
+        <td class="center">${line.hsnCode || '-'}</td>
+        <td class="center">${line.quantity}</td>
+        <td class="right">${formatAmount(line.rate)}</td>
+        <td class="center">${line.gstRate || 0}%</td>
+        <td class="right">${formatAmount(line.amount)}</td>
+      </tr>
+    `);
+    const totalRows = this.buildTaxRows(document).map(row => html`
+      <tr><td>${row.label}</td><td class="right">${formatAmount(row.amount)}</td></tr>
+    `);
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${document.title} ${document.number}</title>
+        <style>
+          @page { size: ${PAGE_DIMENSIONS[pageSize].css}; margin: 12mm; }
+          body { font-family: Arial, sans-serif; font-size: ${fontSize}px; color: #111827; margin: 0; }
+          .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111827; padding-bottom: 8px; }
+          .company-name { font-size: ${fontSize + 8}px; font-weight: bold; }
+          .title { font-size: ${fontSize + 4}px; font-weight: bold; text-align: right; }
+          .muted { color: #4b5563; }
+          .party { margin: 12px 0; }
+          .label { font-weight: bold; text-transform: uppercase; font-size: ${fontSize - 1}px; color: #4b5563; }
+          table { width: 100%; border-collapse: collapse; }
+          .items th { background: #f3f4f6; text-align: left; padding: 6px; border-bottom: 1px solid #d1d5db; }
+          .items td { padding: 6px; border-bottom: 1px solid #e5e7eb; }
+          .center { text-align: center; }
+          .right { text-align: right; }
+          .totals { width: 50%; margin-left: 50%; margin-top: 12px; }
+          .totals td { padding: 4px 6px; }
+          .grand-total td { font-weight: bold; font-size: ${fontSize + 2}px; border-top: 2px solid #111827; }
+          .notes { margin-top: 12px; }
+          .signature { margin-top: 40px; text-align: right; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div>
+            ${CompanyBranding.logoHTML(company, 48)}
+            <div class="company-name">${company?.businessName || 'Your Business Name'}</div>
+            <div class="muted">${company?.businessAddress || ''}${company?.pincode ? html` - ${company.pincode}` : ''}</div>
+            <div class="muted">${company?.phoneNumber1 || ''}${company?.emailId ? html` • ${company.emailId}` : ''}</div>
+            ${company?.gstin ? html`<div class="muted">GSTIN: ${company.gstin}</div>` : ''}
+          </div>
+          <div>
+            <div class="title">${document.title}</div>
+            <div class="right">#${document.number}</div>
+            <div class="right muted">Date: ${document.date}</div>
+          </div>
+        </div>
+
+        <div class="party">
+          <div class="label">${document.partyLabel}</div>
+          <div><strong>${document.partyName}</strong></div>
+          <div>${document.phoneNumber}</div>
+          ${document.partyGstin ? html`<div>GSTIN: ${document.partyGstin}</div>` : ''}
+          ${document.placeOfSupply ? html`<div>Place of Supply: ${document.placeOfSupply}</div>` : ''}
+        </div>
+
+        ${document.lines.length > 0 ? html`
+          <table class="items">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Item</th>
+                <th class="center">HSN</th>
+                <th class="center">Qty</th>
+                <th class="right">Rate</th>
+                <th class="center">GST</th>
+                <th class="right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>${itemRows}</tbody>
+          </table>
+        ` : ''}
+
+        <table class="totals">
+          ${totalRows}
+          <tr class="grand-total"><td>Total</td><td class="right">${formatAmount(document.totalAmount)}</td></tr>
+        </table>
+
+        ${document.notes.length > 0 ? html`<div class="notes muted">${document.notes.map((note, index) => html`${index > 0 ? html`<br>` : ''}${note}`)}</div>` : ''}
+
+        <div class="signature">
+          <div>For ${company?.businessName || 'Your Business Name'}</div>
+          <div style="min-height: 32px; margin-top: 8px;">${raw(CompanyBranding.signatureToSvg(company?.signature, 48) || '')}</div>
+          <div>Authorized Signature</div>
+        </div>
+      </body>
+      </html>
+    `.toString();
+  }
+
+  private static buildReceiptHTML(document: PrintDocument, company: CompanyDetails | null, pageSize: 'thermal-80' | 'thermal-58'): string {
+    // Printable width of the roll, a few mm narrower than the paper
+    const contentWidth = pageSize === 'thermal-80' ? '72mm' : '48mm';
+    const fontSize = pageSize === 'thermal-80' ? 12 : 10;
+    const itemRows = document.lines.map(line => html`
+      <div class="line-name">${line.name}</div>
+      <div class="row"><span>${line.quantity} x ${formatAmount(line.rate)}</span><span>${formatAmount(line.amount)}</span></div>
+    `);
+    const totalRows = this.buildTaxRows(document).map(row => html`
+      <div class="row"><span>${row.label}</span><span>${formatAmount(row.amount)}</span></div>
+    `);
+
+    return html`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${document.title} ${document.number}</title>
+        <style>
+          @page { size: ${PAGE_DIMENSIONS[pageSize].css}; margin: 2mm; }
+          body { font-family: 'Courier New', monospace; font-size: ${fontSize}px; color: #000; margin: 0 auto; width: ${contentWidth}; }
+          .center { text-align: center; }
+          .bold { font-weight: bold; }
+          .divider { border-top: 1px dashed #000; margin: 6px 0; }
+          .row { display: flex; justify-content: space-between; }
+          .line-name { margin-top: 4px; }
+          .total { font-weight: bold; font-size: ${fontSize + 2}px; }
+        </style>
+      </head>
+      <body>
+        <div class="center bold">${company?.businessName || 'Your Business Name'}</div>
+        ${company?.businessAddress ? html`<div class="center">${company.businessAddress}</div>` : ''}
+        ${company?.phoneNumber1 ? html`<div class="center">Ph: ${company.phoneNumber1}</div>` : ''}
+        ${company?.gstin ? html`<div class="center">GSTIN: ${company.gstin}</div>` : ''}
+        <div class="divider"></div>
+        <div class="center bold">${document.title}</div>
+        <div class="row"><span>#${document.number}</span><span>${document.date}</span></div>
+        <div>${document.partyLabel}: ${document.partyName}</div>
+        ${document.partyGstin ? html`<div>GSTIN: ${document.partyGstin}</div>` : ''}
+        ${document.lines.length > 0 ? html`<div class="divider"></div>${itemRows}` : ''}
+        <div class="divider"></div>
+        ${totalRows}
+        <div class="row total"><span>TOTAL</span><span>${formatAmount(document.totalAmount)}</span></div>
+        ${document.notes.length > 0 ? html`<div class="divider"></div>${document.notes.map(note => html`<div>${note}</div>`)}` : ''}
+        <div class="divider"></div>
+        <div class="center">Thank you!</div>
+      </body>
+      </html>
+    `.toString();
+  }
+}
@@ -0,0 +1,155 @@
+import { CreditNote, CreditNoteApiService, Item, ItemsApiService, PurchaseApiService, SaleApiService, SaleInvoice } from './api';
+import { LotConsumption, StockLots } from './stockLots';
+
+// Revenue, cost and margin of one item or category
+export interface ProfitLossRow {
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number;
+}
+
+export interface ProfitLossReportData {
+  startDate: string;
+  endDate: string;
+  invoiceCount: number;
+  billCount: number;
+  revenue: number; // taxable value of sales less returns, GST excluded
+  costOfGoodsSold: number;
+  grossMargin: number;
+  grossMarginPercent: number;
+  purchases: number; // taxable value of purchases in the period
+  byItem: ProfitLossRow[];
+  byCategory: ProfitLossRow[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toRow = (name: string, quantity: number, revenue: number, cost: number): ProfitLossRow => ({
+  name,
+  quantity: round(quantity),
+  revenue: round(revenue),
+  cost: round(cost),
+  margin: round(revenue - cost),
+  marginPercent: revenue > 0 ? round(((revenue - cost) / revenue) * 100) : 0,
+});
+
+export class ProfitLossReport {
+  /**
+   * Cost of one sale line: actual lot costs when the invoice was costed FIFO,
+   * otherwise quantity at the item's current purchase price
+   */
+  private static getLineCost(
+    invoice: SaleInvoice,
+    itemName: string,
+    quantity: number,
+    item: Item | undefined,
+    consumptions: LotConsumption[]
+  ): number {
+    const lineConsumptions = consumptions.filter(consumption =>
+      consumption.source === 'sale' &&
+      consumption.documentId === invoice.id &&
+      consumption.itemName === itemName
+    );
+
+    if (lineConsumptions.length > 0) {
+      return lineConsumptions.reduce((sum, consumption) => sum + consumption.quantity * consumption.rate, 0);
+    }
+    return quantity * (item?.purchasePrice || 0);
+  }
+
+  /**
+   * Build the profit & loss report for a date range
+   * @param startDate - Start date (YYYY-MM-DD)
+   * @param endDate - End date (YYYY-MM-DD)
+   */
+  static async build(startDate: string, endDate: string): Promise<ProfitLossReportData> {
+    const [sales, purchases, items, consumptions, creditNotes] = await Promise.all([
+      SaleApiService.getSalesByDateRange(startDate, endDate),
+      PurchaseApiService.getPurchasesByDateRange(startDate, endDate),
+      ItemsApiService.getItems(),
+      StockLots.getConsumptions(),
+      CreditNoteApiService.getCreditNotes(),
+    ]);
+
+    const creditNotesByInvoice = new Map<string, CreditNote[]>();
+    creditNotes.forEach(creditNote => {
+      creditNotesByInvoice.set(creditNote.invoiceId, [...(creditNotesByInvoice.get(creditNote.invoiceId) || []), creditNote]);
+    });
+
+    const itemsByName = new Map(items.map(item => [item.productName, item]));
+    const itemTotals = new Map<string, { quantity: number; revenue: number; cost: number }>();
+
+    sales.forEach(invoice => {
+      // A line may repeat an item; cost lookups are per invoice and item, so group first
+      const lines = new Map<string, { quantity: number; revenue: number }>();
+      invoice.items.forEach(line => {
+        const current = lines.get(line.itemName) || { quantity: 0, revenue: 0 };
+        lines.set(line.itemName, {
+          quantity: current.quantity + (line.quantity || 0),
+          revenue: current.revenue + (line.taxableValue ?? line.total ?? 0),
+        });
+      });
+
+      // Returned goods are taken off the invoice they were sold on
+      (creditNotesByInvoice.get(invoice.id) || []).forEach(creditNote => creditNote.items.forEach(line => {
+        const current = lines.get(line.itemName);
+        if (!current) return;
+        lines.set(line.itemName, {
+          quantity: current.quantity - (line.quantity || 0),
+          revenue: current.revenue - (line.taxableValue ?? line.total ?? 0),
+        });
+      }));
+
+      lines.forEach((line, itemName) => {
+        const cost = this.getLineCost(invoice, itemName, line.quantity, itemsByName.get(itemName), consumptions);
+        const current = itemTotals.get(itemName) || { quantity: 0, revenue: 0, cost: 0 };
+        itemTotals.set(itemName, {
+          quantity: current.quantity + line.quantity,
+          revenue: current.revenue + line.revenue,
+          cost: current.cost + cost,
+        });
+      });
+    });
+
+    const byItem = Array.from(itemTotals.entries())
+      .map(([name, totals]) => toRow(name, totals.quantity, totals.revenue, totals.cost))
+      .sort((a, b) => b.revenue - a.revenue);
+
+    const categoryTotals = new Map<string, { quantity: number; revenue: number; cost: number }>();
+    byItem.forEach(row => {
+      const category = itemsByName.get(row.name)?.category || UNCATEGORIZED;
+      const current = categoryTotals.get(category) || { quantity: 0, revenue: 0, cost: 0 };
+      categoryTotals.set(category, {
+        quantity: current.quantity + row.quantity,
+        revenue: current.revenue + row.revenue,
+        cost: current.cost + row.cost,
+      });
+    });
+
+    const byCategory = Array.from(categoryTotals.entries())
+      .map(([name, totals]) => toRow(name, totals.quantity, totals.revenue, totals.cost));
+
+    const revenue = byItem.reduce((sum, row) => sum + row.revenue, 0);
+    const costOfGoodsSold = byItem.reduce((sum, row) => sum + row.cost, 0);
+    const totals = toRow('Total', 0, revenue, costOfGoodsSold);
+
+    return {
+      startDate,
+      endDate,
+      invoiceCount: sales.length,
+      billCount: purchases.length,
+      revenue: totals.revenue,
+      costOfGoodsSold: totals.cost,
+      grossMargin: totals.margin,
+      grossMarginPercent: totals.marginPercent,
+      purchases: round(purchases.reduce((sum, bill) => sum + (bill.taxableAmount ?? bill.totalAmount ?? 0), 0)),
+      byItem,
+      byCategory,
+    };
+  }
+}
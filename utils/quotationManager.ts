@@ -0,0 +1,165 @@
+import { Quotation, QuotationApiService, QuotationStatus, SaleInvoice, SaleItem } from './api';
+import { BasePdfGenerator } from './basePdfGenerator';
+import { DocumentService } from './documentService';
+import { GstCalculator } from './gstCalculator';
+import { NumberSeries } from './numberSeries';
+
+// Days a quotation stays valid unless another date is picked
+export const DEFAULT_QUOTATION_VALIDITY_DAYS = 15;
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  expired: 'Expired',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Customer and items entered on the quotation form
+export interface QuotationInput {
+  partyName: string;
+  phoneNumber: string;
+  partyGstin?: string;
+  partyId?: string;
+  items: SaleItem[];
+  validUntil: string; // ISO
+  notes?: string;
+}
+
+export class QuotationManager {
+  /**
+   * Next quotation number, one more than the highest used so far
+   * @param quotations - Existing quotations
+   */
+  static getNextQuotationNo(quotations: Quotation[]): string {
+    return NumberSeries.getNextRunningNumber(quotations.map(quotation => quotation.quotationNo));
+  }
+
+  /**
+   * Validity date a given number of days from today, at the end of that day
+   * @param days - Days the quoted prices hold
+   */
+  static getDefaultValidUntil(days: number = DEFAULT_QUOTATION_VALIDITY_DAYS): string {
+    const validUntil = new Date(Date.now() + days * DAY_MS);
+    validUntil.setHours(23, 59, 59, 999);
+    return validUntil.toISOString();
+  }
+
+  /**
+   * Current status of a quotation. Quotations that were not accepted expire
+   * once their validity date has passed, whatever status was saved.
+   * @param quotation - Quotation
+   * @param now - Date to check against
+   */
+  static getStatus(quotation: Pick<Quotation, 'status' | 'validUntil'>, now: Date = new Date()): QuotationStatus {
+    if (quotation.status === 'accepted') {
+      return 'accepted';
+    }
+    if (quotation.validUntil && new Date(quotation.validUntil).getTime() < now.getTime()) {
+      return 'expired';
+    }
+    return quotation.status;
+  }
+
+  /**
+   * Save a quotation with its PDF. Items are taxed the same way as on a sale invoice.
+   * @param input - Customer, items and validity entered on the form
+   * @param companyGstin - Our GSTIN, used to decide between CGST/SGST and IGST
+   */
+  static async createQuotation(input: QuotationInput, companyGstin?: string): Promise<Quotation> {
+    if (input.items.length === 0) {
+      throw new Error('Please add at least one item');
+    }
+
+    const existing = await QuotationApiService.getQuotations();
+    const tax = GstCalculator.calculateDocumentTax(input.items, companyGstin, input.partyGstin);
+
+    const quotationData: Omit<Quotation, 'id' | 'createdAt' | 'updatedAt'> = {
+      quotationNo: this.getNextQuotationNo(existing),
+      partyId: input.partyId,
+      partyName: input.partyName.trim(),
+      phoneNumber: input.phoneNumber.trim(),
+      partyGstin: input.partyGstin || undefined,
+      items: tax.items,
+      totalAmount: tax.totalAmount,
+      date: new Date().toLocaleDateString(),
+      validUntil: input.validUntil,
+      status: 'draft',
+      notes: input.notes?.trim() || undefined,
+      isInterState: tax.isInterState,
+      placeOfSupply: tax.placeOfSupply,
+      taxableAmount: tax.taxableAmount,
+      cgstAmount: tax.cgstAmount,
+      sgstAmount: tax.sgstAmount,
+      igstAmount: tax.igstAmount,
+      totalTax: tax.totalTax,
+    };
+
+    const pdfUri = await BasePdfGenerator.generateQuotationPDF({ id: '', ...quotationData });
+    return QuotationApiService.createQuotation({ ...quotationData, pdfUri: pdfUri || undefined });
+  }
+
+  /**
+   * Send a quotation to the customer on WhatsApp, generating the PDF first if
+   * it has none. Draft quotations are marked as sent.
+   * @param quotation - Quotation to send
+   * @returns Whether the message was sent
+   */
+  static async sendViaWhatsApp(quotation: Quotation): Promise<boolean> {
+    let pdfUri = quotation.pdfUri;
+    if (!pdfUri) {
+      pdfUri = await BasePdfGenerator.generateQuotationPDF(quotation) || undefined;
+      if (!pdfUri) {
+        return false;
+      }
+      await QuotationApiService.updateQuotation(quotation.id, { pdfUri });
+    }
+
+    const result = await DocumentService.sendQuotationViaWhatsApp(
+      quotation.phoneNumber,
+      pdfUri,
+      quotation.quotationNo,
+      quotation.partyName,
+      quotation.totalAmount,
+      new Date(quotation.validUntil).toLocaleDateString()
+    );
+    if (!result.success) {
+      console.warn('Failed to send quotation via WhatsApp:', result.error);
+      return false;
+    }
+
+    if (quotation.status === 'draft') {
+      await QuotationApiService.updateQuotation(quotation.id, { status: 'sent' });
+    }
+    return true;
+  }
+
+  /**
+   * Check that a quotation can still be turned into an invoice
+   * @param quotation - Quotation to convert
+   * @returns Reason it cannot be converted, or null
+   */
+  static getConversionError(quotation: Quotation): string | null {
+    if (quotation.invoiceId) {
+      return `Quotation #${quotation.quotationNo} was already converted into invoice #${quotation.invoiceNo || ''}`;
+    }
+    if (this.getStatus(quotation) === 'expired') {
+      return `Quotation #${quotation.quotationNo} expired on ${new Date(quotation.validUntil).toLocaleDateString()}`;
+    }
+    return null;
+  }
+
+  /**
+   * Mark a quotation as accepted and link it to the invoice it was converted into
+   * @param quotationId - Quotation ID
+   * @param invoice - Sale invoice created from the quotation
+   */
+  static async markConverted(quotationId: string, invoice: Pick<SaleInvoice, 'id' | 'invoiceNo'>): Promise<Quotation> {
+    return QuotationApiService.updateQuotation(quotationId, {
+      status: 'accepted',
+      invoiceId: invoice.id,
+      invoiceNo: invoice.invoiceNo,
+    });
+  }
+}
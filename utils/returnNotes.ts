@@ -0,0 +1,108 @@
+import { SaleItem } from './api';
+import { GstCalculator } from './gstCalculator';
+
+// Round to paise
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Invoice or bill that goods are returned against
+interface ReturnSource<T extends SaleItem> {
+  items: T[];
+  isInterState?: boolean;
+}
+
+// One invoice or bill line with how much of it can still be returned
+export interface ReturnableLine {
+  lineId: string;
+  itemName: string;
+  rate: number;
+  quantity: number;
+  returnedQuantity: number; // on earlier credit or debit notes
+  returnableQuantity: number;
+}
+
+// Returned lines and tax of a credit or debit note
+export interface ReturnNoteTotals<T extends SaleItem> {
+  items: T[];
+  totalAmount: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+/**
+ * Shared rules of credit notes (sale returns) and debit notes (purchase returns)
+ */
+export class ReturnNotes {
+  /**
+   * Lines of an invoice or bill with the quantity already returned on its notes
+   * @param source - Invoice or bill
+   * @param notes - Credit or debit notes raised against that invoice or bill
+   */
+  static getReturnableLines<T extends SaleItem>(source: ReturnSource<T>, notes: { items: T[] }[]): ReturnableLine[] {
+    const returned = new Map<string, number>();
+    notes.forEach(note => note.items.forEach(item => {
+      returned.set(item.id, (returned.get(item.id) || 0) + (item.quantity || 0));
+    }));
+
+    return source.items.map(item => {
+      const returnedQuantity = returned.get(item.id) || 0;
+      return {
+        lineId: item.id,
+        itemName: item.itemName,
+        rate: item.rate,
+        quantity: item.quantity,
+        returnedQuantity,
+        returnableQuantity: Math.max(0, roundAmount(item.quantity - returnedQuantity)),
+      };
+    });
+  }
+
+  /**
+   * Check returned quantities against what is still returnable
+   * @param lines - Returnable lines of the invoice or bill
+   * @param quantities - Returned quantity per line id
+   * @throws Error naming the first line returned beyond its quantity
+   */
+  static checkQuantities(lines: ReturnableLine[], quantities: Record<string, number>): void {
+    lines.forEach(line => {
+      if ((quantities[line.lineId] || 0) > line.returnableQuantity) {
+        throw new Error(`Only ${line.returnableQuantity} of ${line.itemName} can be returned`);
+      }
+    });
+  }
+
+  /**
+   * Build the returned lines and tax of a note from returned quantities.
+   * Lines are priced and taxed the same way as on the invoice or bill.
+   * @param source - Invoice or bill the goods were sold or bought on
+   * @param quantities - Returned quantity per line id
+   */
+  static buildReturnNote<T extends SaleItem>(source: ReturnSource<T>, quantities: Record<string, number>): ReturnNoteTotals<T> {
+    const interState = !!source.isInterState;
+    const items = source.items
+      .filter(item => (quantities[item.id] || 0) > 0)
+      .map(item => GstCalculator.calculateItemTax({
+        ...item,
+        quantity: quantities[item.id],
+        total: roundAmount(quantities[item.id] * item.rate),
+      }, interState));
+
+    const taxableAmount = roundAmount(items.reduce((sum, item) => sum + (item.taxableValue || 0), 0));
+    const cgstAmount = roundAmount(items.reduce((sum, item) => sum + (item.cgstAmount || 0), 0));
+    const sgstAmount = roundAmount(items.reduce((sum, item) => sum + (item.sgstAmount || 0), 0));
+    const igstAmount = roundAmount(items.reduce((sum, item) => sum + (item.igstAmount || 0), 0));
+    const totalTax = roundAmount(cgstAmount + sgstAmount + igstAmount);
+
+    return {
+      items,
+      totalAmount: roundAmount(taxableAmount + totalTax),
+      taxableAmount,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      totalTax,
+    };
+  }
+}
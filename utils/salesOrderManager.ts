@@ -0,0 +1,342 @@
+import {
+  DeliveryChallan,
+  DeliveryChallanApiService,
+  SaleInvoice,
+  SaleItem,
+  SalesOrder,
+  SalesOrderApiService,
+  SalesOrderStatus,
+} from './api';
+import { GstCalculator } from './gstCalculator';
+import { NumberSeries } from './numberSeries';
+import { StockManager } from './stockManager';
+
+export const SALES_ORDER_STATUS_LABELS: Record<SalesOrderStatus, string> = {
+  'open': 'Open',
+  'partially-delivered': 'Partially Delivered',
+  'delivered': 'Delivered',
+  'closed': 'Closed',
+};
+
+// Round to paise / to two decimals of the base unit
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Customer and items entered on the sales order form
+export interface SalesOrderInput {
+  partyName: string;
+  phoneNumber: string;
+  partyGstin?: string;
+  partyId?: string;
+  items: SaleItem[];
+  notes?: string;
+}
+
+// Ordered, delivered and invoiced quantity of one order line
+export interface OrderLineProgress {
+  lineId: string;
+  itemName: string;
+  rate: number;
+  ordered: number;
+  delivered: number; // on all challans
+  invoiced: number; // on challans already billed
+  pending: number; // still to be delivered
+}
+
+// Outcome of saving or deleting a challan; the challan is saved even if its stock failed
+export interface ChallanStockResult {
+  challan: DeliveryChallan;
+  stockError: unknown; // null when stock was fully updated
+}
+
+export class SalesOrderManager {
+  /**
+   * Next sales order number
+   * @param orders - Existing sales orders
+   */
+  static getNextOrderNo(orders: SalesOrder[]): string {
+    return NumberSeries.getNextRunningNumber(orders.map(order => order.orderNo));
+  }
+
+  /**
+   * Next delivery challan number, shared by all orders
+   * @param challans - Existing delivery challans
+   */
+  static getNextChallanNo(challans: DeliveryChallan[]): string {
+    return NumberSeries.getNextRunningNumber(challans.map(challan => challan.challanNo));
+  }
+
+  /**
+   * Ordered vs delivered vs invoiced quantity of each order line
+   * @param order - Sales order
+   * @param challans - Delivery challans raised against the order
+   */
+  static getLineProgress(order: SalesOrder, challans: DeliveryChallan[]): OrderLineProgress[] {
+    const delivered = new Map<string, number>();
+    const invoiced = new Map<string, number>();
+    challans
+      .filter(challan => challan.orderId === order.id)
+      .forEach(challan => challan.items.forEach(item => {
+        delivered.set(item.id, (delivered.get(item.id) || 0) + (item.quantity || 0));
+        if (challan.invoiceId) {
+          invoiced.set(item.id, (invoiced.get(item.id) || 0) + (item.quantity || 0));
+        }
+      }));
+
+    return order.items.map(item => {
+      const deliveredQuantity = round(delivered.get(item.id) || 0);
+      return {
+        lineId: item.id,
+        itemName: item.itemName,
+        rate: item.rate,
+        ordered: item.quantity,
+        delivered: deliveredQuantity,
+        invoiced: round(invoiced.get(item.id) || 0),
+        pending: Math.max(0, round(item.quantity - deliveredQuantity)),
+      };
+    });
+  }
+
+  /**
+   * Status of an order from what has been delivered against it.
+   * Closed orders stay closed.
+   * @param order - Sales order
+   * @param challans - Delivery challans raised against the order
+   */
+  static getStatus(order: SalesOrder, challans: DeliveryChallan[]): SalesOrderStatus {
+    if (order.status === 'closed') {
+      return 'closed';
+    }
+
+    const progress = this.getLineProgress(order, challans);
+    if (progress.every(line => line.pending <= 0)) {
+      return 'delivered';
+    }
+    return progress.some(line => line.delivered > 0) ? 'partially-delivered' : 'open';
+  }
+
+  /**
+   * Save a sales order. Items are taxed the same way as on a sale invoice.
+   * @param input - Customer and items entered on the form
+   * @param companyGstin - Our GSTIN, used to decide between CGST/SGST and IGST
+   */
+  static async createOrder(input: SalesOrderInput, companyGstin?: string): Promise<SalesOrder> {
+    if (input.items.length === 0) {
+      throw new Error('Please add at least one item');
+    }
+
+    const existing = await SalesOrderApiService.getSalesOrders();
+    const tax = GstCalculator.calculateDocumentTax(input.items, companyGstin, input.partyGstin);
+
+    return SalesOrderApiService.createSalesOrder({
+      orderNo: this.getNextOrderNo(existing),
+      partyId: input.partyId,
+      partyName: input.partyName.trim(),
+      phoneNumber: input.phoneNumber.trim(),
+      partyGstin: input.partyGstin || undefined,
+      items: tax.items,
+      totalAmount: tax.totalAmount,
+      date: new Date().toLocaleDateString(),
+      status: 'open',
+      notes: input.notes?.trim() || undefined,
+      isInterState: tax.isInterState,
+      placeOfSupply: tax.placeOfSupply,
+      taxableAmount: tax.taxableAmount,
+      cgstAmount: tax.cgstAmount,
+      sgstAmount: tax.sgstAmount,
+      igstAmount: tax.igstAmount,
+      totalTax: tax.totalTax,
+    });
+  }
+
+  /**
+   * Record one delivery against an order: save the challan, take the goods
+   * out of stock and update the order status
+   * @param order - Sales order being delivered
+   * @param quantities - Delivered quantity per order line id
+   * @param vehicleNo - Optional truck/vehicle number
+   * @returns The challan, with the stock error if some items were not taken out of stock
+   */
+  static async createChallan(
+    order: SalesOrder,
+    quantities: Record<string, number>,
+    vehicleNo?: string
+  ): Promise<ChallanStockResult> {
+    if (order.status === 'closed') {
+      throw new Error(`Order #${order.orderNo} is closed`);
+    }
+
+    const existing = await DeliveryChallanApiService.getDeliveryChallans();
+    const forOrder = existing.filter(challan => challan.orderId === order.id);
+    this.getLineProgress(order, forOrder).forEach(line => {
+      if ((quantities[line.lineId] || 0) > line.pending) {
+        throw new Error(`Only ${line.pending} of ${line.itemName} is left to deliver`);
+      }
+    });
+
+    const items = order.items
+      .filter(item => (quantities[item.id] || 0) > 0)
+      .map(item => ({
+        id: item.id,
+        itemName: item.itemName,
+        quantity: quantities[item.id],
+        rate: item.rate,
+        total: round(quantities[item.id] * item.rate),
+        baseUnit: item.baseUnit,
+        packUnit: item.packUnit,
+        packSize: item.packSize,
+        hsnCode: item.hsnCode,
+        gstRate: item.gstRate,
+      }));
+    if (items.length === 0) {
+      throw new Error('Enter a delivered quantity for at least one item');
+    }
+
+    const challan = await DeliveryChallanApiService.createDeliveryChallan({
+      challanNo: this.getNextChallanNo(existing),
+      orderId: order.id,
+      orderNo: order.orderNo,
+      partyId: order.partyId,
+      partyName: order.partyName,
+      phoneNumber: order.phoneNumber,
+      items,
+      totalAmount: round(items.reduce((sum, item) => sum + item.total, 0)),
+      date: new Date().toLocaleDateString(),
+      vehicleNo: vehicleNo?.trim() || undefined,
+    });
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.updateStockOnDelivery(challan.items || items, challan.id, `DC-${challan.challanNo}`);
+    } catch (error) {
+      console.error('Error updating stock for delivery challan:', error);
+      stockError = error;
+    }
+
+    await this.refreshStatus(order, [...forOrder, challan]);
+    return { challan, stockError };
+  }
+
+  /**
+   * Delete a challan that has not been billed, putting its goods back into stock
+   * @param challan - Delivery challan to delete
+   * @returns The deleted challan, with the stock error if some items were not put back
+   */
+  static async deleteChallan(challan: DeliveryChallan): Promise<ChallanStockResult> {
+    if (challan.invoiceId) {
+      throw new Error(`Challan DC-${challan.challanNo} is billed on invoice #${challan.invoiceNo || ''}. Delete the invoice first.`);
+    }
+
+    await DeliveryChallanApiService.deleteDeliveryChallan(challan.id);
+
+    let stockError: unknown = null;
+    try {
+      await StockManager.revertStockOnDelivery(challan.items, challan.id, `DC-${challan.challanNo}`);
+    } catch (error) {
+      console.error('Error reverting stock for delivery challan:', error);
+      stockError = error;
+    }
+
+    try {
+      const [order, challans] = await Promise.all([
+        SalesOrderApiService.getSalesOrderById(challan.orderId),
+        DeliveryChallanApiService.getDeliveryChallans({ orderId: challan.orderId }),
+      ]);
+      await this.refreshStatus(order, challans.filter(entry => entry.orderId === order.id && entry.id !== challan.id));
+    } catch (error) {
+      console.error('Error updating sales order status:', error);
+    }
+
+    return { challan, stockError };
+  }
+
+  /**
+   * Close an order so nothing more is delivered against it
+   * @param order - Sales order to close
+   */
+  static async closeOrder(order: SalesOrder): Promise<SalesOrder> {
+    return SalesOrderApiService.updateSalesOrder(order.id, { status: 'closed' });
+  }
+
+  /**
+   * Save the order status if deliveries changed it
+   * @param order - Sales order
+   * @param challans - All challans of the order
+   */
+  private static async refreshStatus(order: SalesOrder, challans: DeliveryChallan[]): Promise<void> {
+    const status = this.getStatus(order, challans);
+    if (status !== order.status) {
+      await SalesOrderApiService.updateSalesOrder(order.id, { status });
+    }
+  }
+
+  /**
+   * Check that challans can be billed together on one invoice
+   * @param challans - Challans picked for billing
+   * @returns Reason they cannot be billed, or null
+   */
+  static getBillingError(challans: DeliveryChallan[]): string | null {
+    if (challans.length === 0) {
+      return 'Select at least one delivery challan';
+    }
+
+    const billed = challans.find(challan => challan.invoiceId);
+    if (billed) {
+      return `Challan DC-${billed.challanNo} is already billed on invoice #${billed.invoiceNo || ''}`;
+    }
+
+    const [first] = challans;
+    const otherParty = challans.find(challan =>
+      challan.partyName.toLowerCase() !== first.partyName.toLowerCase() ||
+      challan.phoneNumber !== first.phoneNumber
+    );
+    if (otherParty) {
+      return 'Only challans of the same customer can be billed together';
+    }
+    return null;
+  }
+
+  /**
+   * Invoice lines for a set of challans; the same order line delivered on
+   * several challans becomes one line with the total quantity
+   * @param challans - Challans to bill
+   */
+  static buildInvoiceItems(challans: DeliveryChallan[]): SaleItem[] {
+    const lines = new Map<string, SaleItem>();
+    challans.forEach(challan => challan.items.forEach(item => {
+      const key = `${challan.orderId}-${item.id}`;
+      const line = lines.get(key);
+      if (line) {
+        line.quantity = round(line.quantity + item.quantity);
+        line.total = round(line.quantity * line.rate);
+      } else {
+        lines.set(key, { ...item });
+      }
+    }));
+    return Array.from(lines.values());
+  }
+
+  /**
+   * Link challans to the invoice they were billed on
+   * @param challanIds - Billed challan IDs
+   * @param invoice - Sale invoice created from the challans
+   */
+  static async markChallansInvoiced(challanIds: string[], invoice: Pick<SaleInvoice, 'id' | 'invoiceNo'>): Promise<void> {
+    await Promise.all(challanIds.map(challanId =>
+      DeliveryChallanApiService.updateDeliveryChallan(challanId, {
+        invoiceId: invoice.id,
+        invoiceNo: invoice.invoiceNo,
+      })
+    ));
+  }
+
+  /**
+   * Make the challans of a deleted invoice available for billing again
+   * @param invoiceId - Deleted invoice ID
+   */
+  static async releaseChallans(invoiceId: string): Promise<void> {
+    const challans = await DeliveryChallanApiService.getDeliveryChallans();
+    await Promise.all(challans
+      .filter(challan => challan.invoiceId === invoiceId)
+      .map(challan => DeliveryChallanApiService.updateDeliveryChallan(challan.id, { invoiceId: '', invoiceNo: '' })));
+  }
+}
@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UnitConfig, UnitConverter } from './unitConverter';
+
+// Storage key for the append-only movement log
+const STOCK_LEDGER_KEY = '@stock_ledger';
+
+export type StockMovementType =
+  | 'opening'
+  | 'sale'
+  | 'delivery'
+  | 'purchase'
+  | 'sale-return'
+  | 'purchase-return'
+  | 'edit-adjustment'
+  | 'deletion-revert'
+  | 'manual-adjustment'
+  | 'bardana';
+
+// Why stock was corrected by hand
+export type StockAdjustmentReason = 'damage' | 'wastage' | 'shrinkage' | 'stock-take' | 'other';
+
+// A single change to an item's stock
+export interface StockMovement {
+  id: string;
+  itemId?: string;
+  itemName: string;
+  type: StockMovementType;
+  quantity: number; // in the item's base unit; positive adds stock, negative removes it
+  reference?: string; // Invoice/bill number, e.g. INV-12 or BILL-4
+  reason?: StockAdjustmentReason; // Only for manual adjustments
+  note?: string;
+  date: string; // ISO timestamp
+}
+
+// Ledger row with the running balance after the movement
+export interface StockLedgerEntry extends StockMovement {
+  balance: number; // in base units
+  balancePacks: number;
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  'opening': 'Opening Stock',
+  'sale': 'Sale',
+  'delivery': 'Delivery Challan',
+  'purchase': 'Purchase',
+  'sale-return': 'Sale Return',
+  'purchase-return': 'Purchase Return',
+  'edit-adjustment': 'Edit Adjustment',
+  'deletion-revert': 'Deletion Revert',
+  'manual-adjustment': 'Manual Adjustment',
+  'bardana': 'Bardana',
+};
+
+export const STOCK_ADJUSTMENT_REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  'damage': 'Damage',
+  'wastage': 'Wastage',
+  'shrinkage': 'Shrinkage',
+  'stock-take': 'Physical Count',
+  'other': 'Other',
+};
+
+const roundQuantity = (value: number): number => Math.round(value * 100) / 100;
+
+export class StockLedger {
+  /**
+   * Get every recorded movement, oldest first
+   */
+  static async getAllMovements(): Promise<StockMovement[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STOCK_LEDGER_KEY);
+      return stored ? (JSON.parse(stored) as StockMovement[]) : [];
+    } catch (error) {
+      console.error('Error reading stock ledger:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Append movements to the log. Existing entries are never modified.
+   * @param movements - Movements without ID and date
+   */
+  static async recordMovements(movements: (Omit<StockMovement, 'id' | 'date'> & { date?: string })[]): Promise<void> {
+    const entries = movements.filter(movement => movement.quantity !== 0);
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      const existing = await this.getAllMovements();
+      const now = new Date().toISOString();
+      const newEntries: StockMovement[] = entries.map((movement, index) => ({
+        ...movement,
+        quantity: roundQuantity(movement.quantity),
+        id: `${Date.now()}-${existing.length + index}`,
+        date: movement.date || now,
+      }));
+
+      await AsyncStorage.setItem(STOCK_LEDGER_KEY, JSON.stringify([...existing, ...newEntries]));
+    } catch (error) {
+      console.error('Error recording stock movements:', error);
+    }
+  }
+
+  /**
+   * Append a single movement to the log
+   * @param movement - Movement without ID and date
+   */
+  static async recordMovement(movement: Omit<StockMovement, 'id' | 'date'> & { date?: string }): Promise<void> {
+    await this.recordMovements([movement]);
+  }
+
+  /**
+   * Get movements of one item, oldest first
+   * @param itemName - Product name
+   * @param itemId - Optional item ID (matches movements recorded before a rename)
+   */
+  static async getItemMovements(itemName: string, itemId?: string): Promise<StockMovement[]> {
+    const movements = await this.getAllMovements();
+    return movements.filter(movement =>
+      (itemId && movement.itemId === itemId) || movement.itemName === itemName
+    );
+  }
+
+  /**
+   * Build the ledger of an item with running balances.
+   * Stock that existed before the log started is shown as a derived opening row.
+   * @param itemName - Product name
+   * @param currentStockPacks - Current stock of the item in packs
+   * @param itemId - Optional item ID
+   * @param unitConfig - Item unit settings used to convert packs to base units
+   */
+  static async getItemLedger(
+    itemName: string,
+    currentStockPacks: number,
+    itemId?: string,
+    unitConfig?: UnitConfig
+  ): Promise<StockLedgerEntry[]> {
+    const movements = await this.getItemMovements(itemName, itemId);
+    const currentStock = UnitConverter.packsToBase(unitConfig, currentStockPacks);
+    const moved = movements.reduce((sum, movement) => sum + movement.quantity, 0);
+    const untracked = roundQuantity(currentStock - moved);
+
+    const rows: StockMovement[] = [...movements];
+    if (untracked !== 0) {
+      rows.unshift({
+        id: `derived-opening-${itemName}`,
+        itemId,
+        itemName,
+        type: 'opening',
+        quantity: untracked,
+        note: 'Stock before movement history was recorded',
+        date: movements[0]?.date || new Date().toISOString(),
+      });
+    }
+
+    let balance = 0;
+    return rows.map(movement => {
+      balance = roundQuantity(balance + movement.quantity);
+      return {
+        ...movement,
+        balance,
+        balancePacks: roundQuantity(UnitConverter.baseToPacks(unitConfig, balance)),
+      };
+    });
+  }
+}
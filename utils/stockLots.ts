@@ -0,0 +1,460 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Item, ItemsApiService } from './api';
+import { UnitConverter } from './unitConverter';
+
+// Storage keys
+const STOCK_LOTS_KEY = '@stock_lots';
+const LOT_CONSUMPTIONS_KEY = '@stock_lot_consumptions';
+
+// Quantity received on one purchase bill line, consumed oldest first
+export interface StockLot {
+  id: string;
+  itemName: string;
+  billId?: string;
+  billNo?: string;
+  line?: number; // position of the bill line the lot came from
+  date: string; // ISO timestamp
+  quantity: number; // in the item's base unit
+  remaining: number;
+  rate: number; // cost per base unit
+}
+
+// Quantity taken out of a lot by a sale or stock adjustment.
+// lotId is missing when stock ran out of lots and was costed at the item's purchase price.
+export interface LotConsumption {
+  id: string;
+  lotId?: string;
+  itemName: string;
+  source: 'sale' | 'adjustment';
+  documentId?: string;
+  reference?: string;
+  date: string;
+  quantity: number;
+  rate: number;
+}
+
+// Stock value of one item built from its open lots
+export interface ItemValuation {
+  itemName: string;
+  quantity: number;
+  lotQuantity: number; // part of quantity covered by lots
+  value: number;
+}
+
+// Line item fields needed for lot tracking
+interface LotLineItem {
+  itemName: string;
+  quantity: number;
+  rate: number;
+}
+
+// Document a lot movement belongs to
+interface LotDocument {
+  documentId?: string;
+  reference?: string;
+  date?: string;
+}
+
+const roundQuantity = (value: number): number => Math.round(value * 100) / 100;
+
+const generateId = (prefix: string, index: number): string =>
+  `${prefix}-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 6)}`;
+
+export class StockLots {
+  // ==================== STORAGE ====================
+
+  /**
+   * Get all lots, oldest first
+   */
+  static async getLots(): Promise<StockLot[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STOCK_LOTS_KEY);
+      const lots: StockLot[] = stored ? JSON.parse(stored) : [];
+      return lots.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    } catch (error) {
+      console.error('Error reading stock lots:', error);
+      return [];
+    }
+  }
+
+  private static async saveLots(lots: StockLot[]): Promise<void> {
+    await AsyncStorage.setItem(STOCK_LOTS_KEY, JSON.stringify(lots));
+  }
+
+  /**
+   * Get every recorded lot consumption
+   */
+  static async getConsumptions(): Promise<LotConsumption[]> {
+    try {
+      const stored = await AsyncStorage.getItem(LOT_CONSUMPTIONS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading lot consumptions:', error);
+      return [];
+    }
+  }
+
+  private static async saveConsumptions(consumptions: LotConsumption[]): Promise<void> {
+    await AsyncStorage.setItem(LOT_CONSUMPTIONS_KEY, JSON.stringify(consumptions));
+  }
+
+  /**
+   * Get items whose stock is tracked in lots (Primary items, not Bardana), keyed by name
+   */
+  private static async getTrackedItems(): Promise<Map<string, Item>> {
+    const items = await ItemsApiService.getItems();
+    return new Map(
+      items
+        .filter(item => item.category === 'Primary' && !item.isUniversal)
+        .map(item => [item.productName, item])
+    );
+  }
+
+  /**
+   * Point lots and consumptions of a document created offline at its server ID
+   * @param clientId Temporary ID the document was saved with
+   * @param serverId ID assigned by the backend
+   */
+  static async replaceDocumentId(clientId: string, serverId: string): Promise<void> {
+    const lots = await this.getLots();
+    if (lots.some(lot => lot.billId === clientId)) {
+      await this.saveLots(lots.map(lot => lot.billId === clientId ? { ...lot, billId: serverId } : lot));
+    }
+
+    const consumptions = await this.getConsumptions();
+    if (consumptions.some(consumption => consumption.documentId === clientId)) {
+      await this.saveConsumptions(consumptions.map(consumption =>
+        consumption.documentId === clientId ? { ...consumption, documentId: serverId } : consumption
+      ));
+    }
+  }
+
+  // ==================== PURCHASES ====================
+
+  /**
+   * Create one lot per purchased line of a tracked item
+   * @param items Purchase bill items (quantities in base units)
+   * @param document Bill ID, bill number and date
+   */
+  static async receivePurchase(items: LotLineItem[], document: LotDocument): Promise<void> {
+    const tracked = await this.getTrackedItems();
+    const date = document.date || new Date().toISOString();
+    const newLots: StockLot[] = items
+      .map((item, line) => ({ item, line }))
+      .filter(({ item }) => tracked.has(item.itemName) && item.quantity > 0)
+      .map(({ item, line }, index) => ({
+        id: generateId('lot', index),
+        itemName: item.itemName,
+        billId: document.documentId,
+        billNo: document.reference,
+        line,
+        date,
+        quantity: roundQuantity(item.quantity),
+        remaining: roundQuantity(item.quantity),
+        rate: item.rate,
+      }));
+
+    if (newLots.length === 0) {
+      return;
+    }
+
+    const lots = await this.getLots();
+    await this.saveLots([...lots, ...newLots]);
+  }
+
+  /**
+   * Update the lots of an edited bill. Quantity already consumed stays consumed.
+   * Each line keeps the lot created for its position on the bill, so the same
+   * item on two lines keeps two lots; lines that moved fall back to the item name.
+   * @param billId Bill ID
+   * @param items Bill items after the edit
+   * @param reference Optional bill number
+   */
+  static async updatePurchase(billId: string, items: LotLineItem[], reference?: string): Promise<void> {
+    const tracked = await this.getTrackedItems();
+    const lots = await this.getLots();
+    const billLots = lots.filter(lot => lot.billId === billId);
+    const otherLots = lots.filter(lot => lot.billId !== billId);
+    const date = billLots[0]?.date || new Date().toISOString();
+
+    const lines = items
+      .map((item, line) => ({ item, line }))
+      .filter(({ item }) => tracked.has(item.itemName) && item.quantity > 0);
+
+    const unmatchedLots = [...billLots];
+    const takeLot = (matches: (lot: StockLot) => boolean): StockLot | undefined => {
+      const index = unmatchedLots.findIndex(matches);
+      return index >= 0 ? unmatchedLots.splice(index, 1)[0] : undefined;
+    };
+    const existingLots = lines.map(({ item, line }) =>
+      takeLot(lot => lot.line === line && lot.itemName === item.itemName)
+    );
+    lines.forEach(({ item }, index) => {
+      existingLots[index] = existingLots[index] || takeLot(lot => lot.itemName === item.itemName);
+    });
+
+    const updatedLots: StockLot[] = lines
+      .map(({ item, line }, index) => {
+        const existing = existingLots[index];
+        const consumed = existing ? existing.quantity - existing.remaining : 0;
+        return {
+          id: existing?.id || generateId('lot', index),
+          itemName: item.itemName,
+          billId,
+          billNo: reference || existing?.billNo,
+          line,
+          date,
+          quantity: roundQuantity(item.quantity),
+          remaining: roundQuantity(Math.max(0, item.quantity - consumed)),
+          rate: item.rate,
+        };
+      });
+
+    await this.saveLots([...otherLots, ...updatedLots]);
+  }
+
+  /**
+   * Remove the lots of a deleted bill. Past consumptions keep their cost.
+   * @param billId Bill ID
+   */
+  static async removePurchase(billId: string): Promise<void> {
+    const lots = await this.getLots();
+    await this.saveLots(lots.filter(lot => lot.billId !== billId));
+  }
+
+  /**
+   * Take quantity sent back to the supplier out of a bill's lots. Only what is
+   * still in the lots can come out; quantity already sold keeps its cost.
+   * @param billId Bill the goods were bought on
+   * @param items Returned items (quantities in base units)
+   */
+  static async returnPurchase(billId: string, items: LotLineItem[]): Promise<void> {
+    const lots = await this.getLots();
+
+    items.forEach(line => {
+      let pending = line.quantity;
+      lots
+        .filter(lot => lot.billId === billId && lot.itemName === line.itemName && lot.remaining > 0)
+        .forEach(lot => {
+          if (pending <= 0) return;
+          const returned = Math.min(lot.remaining, pending);
+          lot.quantity = roundQuantity(lot.quantity - returned);
+          lot.remaining = roundQuantity(lot.remaining - returned);
+          pending = roundQuantity(pending - returned);
+        });
+    });
+
+    await this.saveLots(lots.filter(lot => lot.quantity > 0));
+  }
+
+  /**
+   * Put quantity back into a bill's lots when its purchase return is cancelled.
+   * A lot emptied by the return is created again at the returned line's rate.
+   * @param billId Bill the goods were bought on
+   * @param items Items that were returned (quantities in base units)
+   */
+  static async cancelPurchaseReturn(billId: string, items: LotLineItem[]): Promise<void> {
+    const tracked = await this.getTrackedItems();
+    const lots = await this.getLots();
+    const newLots: StockLot[] = [];
+
+    items
+      .filter(line => tracked.has(line.itemName) && line.quantity > 0)
+      .forEach((line, index) => {
+        const lot = lots.find(entry => entry.billId === billId && entry.itemName === line.itemName);
+        if (lot) {
+          lot.quantity = roundQuantity(lot.quantity + line.quantity);
+          lot.remaining = roundQuantity(lot.remaining + line.quantity);
+          return;
+        }
+        newLots.push({
+          id: generateId('lot', index),
+          itemName: line.itemName,
+          billId,
+          date: new Date().toISOString(),
+          quantity: roundQuantity(line.quantity),
+          remaining: roundQuantity(line.quantity),
+          rate: line.rate,
+        });
+      });
+
+    await this.saveLots([...lots, ...newLots]);
+  }
+
+  // ==================== SALES / ADJUSTMENTS ====================
+
+  /**
+   * Take stock out of lots oldest first and record the cost of what was taken
+   * @param items Items taken out (quantities in base units)
+   * @param source Sale or stock adjustment
+   * @param document Invoice or adjustment reference
+   * @returns Cost of the consumed quantity
+   */
+  static async consume(items: LotLineItem[], source: LotConsumption['source'], document: LotDocument): Promise<number> {
+    const tracked = await this.getTrackedItems();
+    const lots = await this.getLots();
+    const date = document.date || new Date().toISOString();
+    const newConsumptions: LotConsumption[] = [];
+
+    items.forEach(line => {
+      const item = tracked.get(line.itemName);
+      if (!item || line.quantity <= 0) {
+        return;
+      }
+
+      let pending = line.quantity;
+      lots
+        .filter(lot => lot.itemName === line.itemName && lot.remaining > 0)
+        .forEach(lot => {
+          if (pending <= 0) return;
+          const taken = Math.min(lot.remaining, pending);
+          lot.remaining = roundQuantity(lot.remaining - taken);
+          pending = roundQuantity(pending - taken);
+          newConsumptions.push({
+            id: generateId('use', newConsumptions.length),
+            lotId: lot.id,
+            itemName: line.itemName,
+            source,
+            documentId: document.documentId,
+            reference: document.reference,
+            date,
+            quantity: roundQuantity(taken),
+            rate: lot.rate,
+          });
+        });
+
+      // Stock older than lot tracking is costed at the current purchase price
+      if (pending > 0) {
+        newConsumptions.push({
+          id: generateId('use', newConsumptions.length),
+          itemName: line.itemName,
+          source,
+          documentId: document.documentId,
+          reference: document.reference,
+          date,
+          quantity: pending,
+          rate: item.purchasePrice,
+        });
+      }
+    });
+
+    if (newConsumptions.length === 0) {
+      return 0;
+    }
+
+    const consumptions = await this.getConsumptions();
+    await this.saveLots(lots);
+    await this.saveConsumptions([...consumptions, ...newConsumptions]);
+    return newConsumptions.reduce((sum, consumption) => sum + consumption.quantity * consumption.rate, 0);
+  }
+
+  /**
+   * Put stock taken by a document back into its lots, e.g. when a sale is edited or deleted
+   * @param documentId Invoice or delivery challan ID
+   * @returns Date of the released consumption, if any
+   */
+  static async release(documentId: string): Promise<string | undefined> {
+    const consumptions = await this.getConsumptions();
+    const released = consumptions.filter(consumption => consumption.documentId === documentId);
+    if (released.length === 0) {
+      return undefined;
+    }
+
+    const lots = await this.getLots();
+    released.forEach(consumption => {
+      const lot = lots.find(entry => entry.id === consumption.lotId);
+      if (lot) {
+        lot.remaining = roundQuantity(Math.min(lot.quantity, lot.remaining + consumption.quantity));
+      }
+    });
+
+    await this.saveLots(lots);
+    await this.saveConsumptions(consumptions.filter(consumption => consumption.documentId !== documentId));
+    return released[0].date;
+  }
+
+  /**
+   * Put returned quantity back into the lots an invoice took it from, latest
+   * consumption first, and reduce the invoice's cost of goods sold to match
+   * @param invoiceId Invoice the goods were sold on
+   * @param items Returned items (quantities in base units)
+   */
+  static async returnSale(invoiceId: string, items: LotLineItem[]): Promise<void> {
+    const consumptions = await this.getConsumptions();
+    const lots = await this.getLots();
+
+    items.forEach(line => {
+      let pending = line.quantity;
+      consumptions
+        .filter(consumption => consumption.documentId === invoiceId && consumption.itemName === line.itemName)
+        .reverse()
+        .forEach(consumption => {
+          if (pending <= 0) return;
+          const returned = Math.min(consumption.quantity, pending);
+          consumption.quantity = roundQuantity(consumption.quantity - returned);
+          pending = roundQuantity(pending - returned);
+          const lot = lots.find(entry => entry.id === consumption.lotId);
+          if (lot) {
+            lot.remaining = roundQuantity(Math.min(lot.quantity, lot.remaining + returned));
+          }
+        });
+    });
+
+    await this.saveLots(lots);
+    await this.saveConsumptions(consumptions.filter(consumption => consumption.quantity > 0));
+  }
+
+  // ==================== VALUATION ====================
+
+  /**
+   * Value an item's current stock from its open lots, newest lots first since
+   * FIFO leaves the latest purchases in stock. Stock not covered by lots is
+   * valued at the item's purchase price.
+   * @param item Item with current stock
+   * @param lots All lots
+   */
+  static valueItem(item: Item, lots: StockLot[]): ItemValuation {
+    const quantity = UnitConverter.packsToBase(item, item.openingStock);
+    const openLots = lots
+      .filter(lot => lot.itemName === item.productName && lot.remaining > 0)
+      .reverse();
+
+    let pending = quantity;
+    let value = 0;
+    openLots.forEach(lot => {
+      if (pending <= 0) return;
+      const taken = Math.min(lot.remaining, pending);
+      value += taken * lot.rate;
+      pending -= taken;
+    });
+
+    const lotQuantity = roundQuantity(quantity - Math.max(0, pending));
+    value += Math.max(0, pending) * item.purchasePrice;
+    return { itemName: item.productName, quantity, lotQuantity, value };
+  }
+
+  /**
+   * Total value of the given items' stock
+   * @param items Items to value
+   */
+  static async getStockValue(items: Item[]): Promise<number> {
+    const lots = await this.getLots();
+    return items.reduce((total, item) => total + this.valueItem(item, lots).value, 0);
+  }
+
+  /**
+   * Cost of goods sold from recorded sale consumptions
+   * @param startDate Optional start date (inclusive)
+   * @param endDate Optional end date (inclusive)
+   */
+  static async getCostOfGoodsSold(startDate?: Date, endDate?: Date): Promise<number> {
+    const consumptions = await this.getConsumptions();
+    return consumptions
+      .filter(consumption => {
+        if (consumption.source !== 'sale') return false;
+        const date = new Date(consumption.date);
+        return (!startDate || date >= startDate) && (!endDate || date <= endDate);
+      })
+      .reduce((sum, consumption) => sum + consumption.quantity * consumption.rate, 0);
+  }
+}
@@ -1,4 +1,15 @@
-import { Item, ItemsApiService } from './api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CreditNoteApiService, Item, ItemsApiService } from './api';
+import {
+  STOCK_ADJUSTMENT_REASON_LABELS,
+  STOCK_MOVEMENT_LABELS,
+  StockAdjustmentReason,
+  StockLedger,
+  StockMovement,
+  StockMovementType,
+} from './stockLedger';
+import { StockLots } from './stockLots';
+import { UnitConverter } from './unitConverter';
 
 // Environment-based logging helper
 const isDevelopment = __DEV__ || process.env.NODE_ENV === 'development';
@@ -25,10 +36,51 @@ interface SaleItem {
   total: number;
 }
 
-export class StockManager {
-  // Track processed invoices to prevent duplicate stock updates
-  private static processedInvoices = new Set<string>();
+type StockDocumentType = 'sale' | 'delivery' | 'purchase' | 'sale-return' | 'purchase-return';
+
+// What caused a stock change, recorded in the stock ledger
+interface StockMovementContext {
+  type: StockMovementType;
+  reference?: string;
+}
+
+// A manual correction to one item's stock
+export interface StockAdjustment {
+  item: Item;
+  quantity: number; // in the item's base unit; positive adds stock, negative removes it
+  reason: StockAdjustmentReason;
+  note?: string;
+}
 
+// Outcome of posting a batch of adjustments
+export interface StockAdjustmentResult {
+  reference: string;
+  applied: number;
+  failed: string[];
+}
+
+// Raised when some items of a document could not be updated; the rest were applied
+export class StockUpdateError extends Error {
+  constructor(public readonly failedItems: string[]) {
+    super(`Stock could not be updated for ${failedItems.join(', ')}.`);
+    this.name = 'StockUpdateError';
+  }
+}
+
+// Items applied and failed by one pass over a set of stock changes
+interface StockChangeResult {
+  applied: string[]; // change keys: item names and BARDANA_CHANGE_KEY
+  failed: string[]; // item names shown to the user
+}
+
+// Persisted list of documents whose stock movement has been applied
+const PROCESSED_DOCUMENTS_KEY = '@stock_processed_documents';
+// Document key to the change keys already applied, for documents that partly failed
+const PARTIAL_DOCUMENTS_KEY = '@stock_partial_documents';
+// Change key of the Bardana movement, which can fail on its own like any item
+const BARDANA_CHANGE_KEY = '@bardana';
+
+export class StockManager {
   /**
    * Initialize the universal Bardana item if it doesn't exist
    */
@@ -43,12 +95,328 @@ export class StockManager {
     }
   }
 
+  // ==================== PROCESSED DOCUMENTS ====================
+
+  private static getDocumentKey(type: StockDocumentType, documentId: string): string {
+    return `${type}:${documentId}`;
+  }
+
+  private static async getProcessedDocuments(): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(PROCESSED_DOCUMENTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      logError('Error reading processed documents:', error);
+      return [];
+    }
+  }
+
+  private static async saveProcessedDocuments(documentKeys: string[]): Promise<void> {
+    await AsyncStorage.setItem(PROCESSED_DOCUMENTS_KEY, JSON.stringify(documentKeys));
+  }
+
+  private static async isDocumentProcessed(type: StockDocumentType, documentId: string): Promise<boolean> {
+    const processed = await this.getProcessedDocuments();
+    return processed.includes(this.getDocumentKey(type, documentId));
+  }
+
+  private static async markDocumentProcessed(type: StockDocumentType, documentId: string): Promise<void> {
+    const processed = await this.getProcessedDocuments();
+    const documentKey = this.getDocumentKey(type, documentId);
+    if (!processed.includes(documentKey)) {
+      await this.saveProcessedDocuments([...processed, documentKey]);
+    }
+  }
+
+  private static async unmarkDocumentProcessed(type: StockDocumentType, documentId: string): Promise<void> {
+    const processed = await this.getProcessedDocuments();
+    const documentKey = this.getDocumentKey(type, documentId);
+    await this.saveProcessedDocuments(processed.filter(key => key !== documentKey));
+  }
+
+  private static async getPartialDocuments(): Promise<Record<string, string[]>> {
+    try {
+      const stored = await AsyncStorage.getItem(PARTIAL_DOCUMENTS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      logError('Error reading partly applied documents:', error);
+      return {};
+    }
+  }
+
+  private static async savePartialDocuments(documents: Record<string, string[]>): Promise<void> {
+    await AsyncStorage.setItem(PARTIAL_DOCUMENTS_KEY, JSON.stringify(documents));
+  }
+
+  /**
+   * Change keys already applied for a document whose stock update partly failed
+   */
+  private static async getPartiallyApplied(type: StockDocumentType, documentId: string): Promise<string[]> {
+    const partial = await this.getPartialDocuments();
+    return partial[this.getDocumentKey(type, documentId)] || [];
+  }
+
+  private static async setPartiallyApplied(type: StockDocumentType, documentId: string, applied: string[]): Promise<void> {
+    const partial = await this.getPartialDocuments();
+    const documentKey = this.getDocumentKey(type, documentId);
+    if (applied.length > 0) {
+      partial[documentKey] = applied;
+    } else if (partial[documentKey]) {
+      delete partial[documentKey];
+    } else {
+      return;
+    }
+    await this.savePartialDocuments(partial);
+  }
+
+  /**
+   * Move stock records of a document created offline to its server ID once it syncs
+   * @param clientId Temporary ID the document was saved with
+   * @param serverId ID assigned by the backend
+   */
+  static async replaceDocumentId(clientId: string, serverId: string): Promise<void> {
+    const suffix = `:${clientId}`;
+    const renameKey = (key: string) => key.endsWith(suffix) ? `${key.slice(0, -suffix.length)}:${serverId}` : key;
+
+    const processed = await this.getProcessedDocuments();
+    if (processed.some(key => key.endsWith(suffix))) {
+      await this.saveProcessedDocuments(processed.map(renameKey));
+    }
+
+    const partial = await this.getPartialDocuments();
+    if (Object.keys(partial).some(key => key.endsWith(suffix))) {
+      await this.savePartialDocuments(
+        Object.fromEntries(Object.entries(partial).map(([key, applied]) => [renameKey(key), applied]))
+      );
+    }
+
+    await StockLots.replaceDocumentId(clientId, serverId);
+  }
+
+  // ==================== STOCK MOVEMENTS ====================
+
+  /**
+   * Consolidate line items into a per-item quantity map
+   * @param items Line items (quantities in kg)
+   * @param sign +1 to add to stock, -1 to remove from stock
+   */
+  private static buildStockChanges(items: SaleItem[], sign: 1 | -1): Map<string, number> {
+    const changes = new Map<string, number>();
+    items.forEach(item => {
+      const currentQty = changes.get(item.itemName) || 0;
+      changes.set(item.itemName, currentQty + sign * (item.quantity || 0));
+    });
+    return changes;
+  }
+
+  /**
+   * Net stock change between the old and new items of an edited document
+   * @param oldItems Items before the edit
+   * @param newItems Items after the edit
+   * @param sign +1 for purchases (stock in), -1 for sales (stock out)
+   */
+  private static diffStockChanges(oldItems: SaleItem[], newItems: SaleItem[], sign: 1 | -1): Map<string, number> {
+    const changes = this.buildStockChanges(newItems, sign);
+    this.buildStockChanges(oldItems, sign).forEach((quantity, itemName) => {
+      changes.set(itemName, (changes.get(itemName) || 0) - quantity);
+    });
+    return changes;
+  }
+
+  /**
+   * Quantity per item returned on an invoice's credit notes whose stock was applied
+   * @param invoiceId Invoice the goods were sold on
+   */
+  private static async getReturnedQuantities(invoiceId: string): Promise<Map<string, number>> {
+    const [creditNotes, processed] = await Promise.all([
+      CreditNoteApiService.getCreditNotes({ invoiceId }),
+      this.getProcessedDocuments(),
+    ]);
+
+    const returned = new Map<string, number>();
+    creditNotes
+      .filter(creditNote => creditNote.invoiceId === invoiceId && processed.includes(this.getDocumentKey('sale-return', creditNote.id)))
+      .forEach(creditNote => creditNote.items.forEach(item => {
+        returned.set(item.itemName, (returned.get(item.itemName) || 0) + (item.quantity || 0));
+      }));
+    return returned;
+  }
+
+  /**
+   * Line items less the given quantities per item, taken from the first lines of each item
+   * @param items Line items
+   * @param quantities Quantity to take off per item name
+   */
+  private static subtractQuantities(items: SaleItem[], quantities: Map<string, number>): SaleItem[] {
+    const pending = new Map(quantities);
+    return items.map(item => {
+      const taken = Math.min(item.quantity || 0, pending.get(item.itemName) || 0);
+      if (taken <= 0) {
+        return item;
+      }
+      pending.set(item.itemName, Math.round(((pending.get(item.itemName) || 0) - taken) * 100) / 100);
+      return { ...item, quantity: Math.round((item.quantity - taken) * 100) / 100 };
+    });
+  }
+
+  /**
+   * Apply stock changes to items and Bardana and record them in the stock ledger.
+   * Each kg of an item moved in or out moves 1 kg of Bardana the same way.
+   * An item that fails does not stop the others; it is reported in the result.
+   * @param changes Map of item name to change in base units (positive adds stock)
+   * @param context Movement type and document reference for the ledger
+   * @param include Change keys to apply (item names and BARDANA_CHANGE_KEY); all by default
+   * @returns Change keys applied and names of items that failed
+   */
+  private static async applyStockChanges(
+    changes: Map<string, number>,
+    context: StockMovementContext,
+    include: (key: string) => boolean = () => true
+  ): Promise<StockChangeResult> {
+    log('Applying stock changes by item:');
+    changes.forEach((quantity, itemName) => {
+      log(`- ${itemName}: ${quantity > 0 ? '+' : ''}${quantity} kg`);
+    });
+
+    const movements: Omit<StockMovement, 'id' | 'date'>[] = [];
+    const applied: string[] = [];
+    const failed: string[] = [];
+
+    let bardanaChange = 0;
+    changes.forEach(quantity => {
+      bardanaChange += quantity;
+    });
+
+    // Update Bardana stock using backend API
+    if (bardanaChange !== 0 && include(BARDANA_CHANGE_KEY)) {
+      try {
+        const bardana = await ItemsApiService.updateBardanaStock(bardanaChange > 0 ? 'add' : 'subtract', Math.abs(bardanaChange));
+        log(`Bardana stock ${bardanaChange > 0 ? 'increased' : 'reduced'} by ${Math.abs(bardanaChange)} kg via backend`);
+        applied.push(BARDANA_CHANGE_KEY);
+        movements.push({
+          itemId: bardana?.id || bardana?._id,
+          itemName: bardana?.productName || 'Bardana',
+          type: 'bardana',
+          quantity: bardanaChange,
+          reference: context.reference,
+          note: STOCK_MOVEMENT_LABELS[context.type],
+        });
+      } catch (error) {
+        logError('Error updating Bardana stock:', error);
+        failed.push('Bardana');
+      }
+    }
+
+    // Update individual item stocks
+    for (const [itemName, quantity] of changes) {
+      if (quantity === 0 || !include(itemName)) {
+        continue;
+      }
+
+      try {
+        // Get the item from backend
+        const items = await ItemsApiService.getItems({ search: itemName });
+        const item = items.find(i => i.productName === itemName);
+
+        if (item && item.id) {
+          // Stock is kept in packs; convert using the item's pack size
+          const changedPacks = UnitConverter.baseToPacks(item, quantity);
+          const newStock = Math.max(0, Math.round((item.openingStock + changedPacks) * 100) / 100);
+
+          // Update item stock via backend
+          await ItemsApiService.updateItem(item.id, { openingStock: newStock });
+          log(`${itemName} stock changed from ${item.openingStock} to ${newStock} ${UnitConverter.getPackUnit(item)}s`);
+          applied.push(itemName);
+
+          // Record what was actually applied (stock never goes below zero)
+          movements.push({
+            itemId: item.id,
+            itemName,
+            type: context.type,
+            quantity: UnitConverter.packsToBase(item, newStock - item.openingStock),
+            reference: context.reference,
+          });
+        } else {
+          logWarn(`Item ${itemName} not found in backend`);
+          failed.push(itemName);
+        }
+      } catch (error) {
+        logError(`Error updating stock for ${itemName}:`, error);
+        failed.push(itemName);
+      }
+    }
+
+    await StockLedger.recordMovements(movements);
+    return { applied, failed };
+  }
+
+  /**
+   * Apply a new document's stock changes. When some items fail, the ones that
+   * succeeded are remembered so calling again for the same document only
+   * applies the rest.
+   * @throws StockUpdateError when any item failed; the document is not processed yet
+   */
+  private static async applyDocumentStockChanges(
+    type: StockDocumentType,
+    documentId: string | undefined,
+    changes: Map<string, number>,
+    context: StockMovementContext
+  ): Promise<void> {
+    const alreadyApplied = documentId ? await this.getPartiallyApplied(type, documentId) : [];
+    const { applied, failed } = await this.applyStockChanges(changes, context, key => !alreadyApplied.includes(key));
+
+    if (documentId) {
+      await this.setPartiallyApplied(type, documentId, failed.length > 0 ? [...alreadyApplied, ...applied] : []);
+    }
+    if (failed.length > 0) {
+      throw new StockUpdateError(failed);
+    }
+  }
+
+  /**
+   * Take back a document's stock changes before it is deleted. A document whose
+   * update partly failed only has the applied part taken back.
+   * @returns Names of items that could not be reverted, or null when the document moved no stock
+   */
+  private static async revertDocumentStockChanges(
+    type: StockDocumentType,
+    documentId: string | undefined,
+    changes: Map<string, number>,
+    context: StockMovementContext
+  ): Promise<string[] | null> {
+    if (!documentId) {
+      return (await this.applyStockChanges(changes, context)).failed;
+    }
+
+    if (await this.isDocumentProcessed(type, documentId)) {
+      return (await this.applyStockChanges(changes, context)).failed;
+    }
+
+    const partlyApplied = await this.getPartiallyApplied(type, documentId);
+    if (partlyApplied.length === 0) {
+      return null;
+    }
+
+    const { failed } = await this.applyStockChanges(changes, context, key => partlyApplied.includes(key));
+    await this.setPartiallyApplied(type, documentId, []);
+    return failed;
+  }
+
+  /**
+   * Message for a stock update that threw, naming the failed items when known
+   * @param error Error thrown by a StockManager update
+   */
+  static getUpdateErrorMessage(error: unknown): string {
+    return error instanceof StockUpdateError ? error.message : 'Stock could not be updated.';
+  }
+
   /**
    * Update stock levels when items are sold
    * @param soldItems Array of items that were sold
    * @param invoiceId Optional invoice ID to prevent duplicate processing
+   * @param reference Optional invoice number shown in the stock ledger, e.g. INV-12
    */
-  static async updateStockOnSale(soldItems: SaleItem[], invoiceId?: string): Promise<void> {
+  static async updateStockOnSale(soldItems: SaleItem[], invoiceId?: string, reference?: string): Promise<void> {
     try {
       // Validate input
       if (!soldItems || soldItems.length === 0) {
@@ -57,70 +425,18 @@ export class StockManager {
       }
 
       // Check if this invoice has already been processed
-      if (invoiceId && this.processedInvoices.has(invoiceId)) {
+      if (invoiceId && await this.isDocumentProcessed('sale', invoiceId)) {
         log(`Invoice ${invoiceId} has already been processed for stock update`);
         return;
       }
 
       log(`Updating stock for ${soldItems.length} sold items`);
-      soldItems.forEach(item => {
-        log(`- ${item.itemName}: ${item.quantity} kg`);
-      });
-
-      // Create a map of sold items by name for quick lookup
-      const soldItemsMap = new Map<string, number>();
-      soldItems.forEach(item => {
-        const currentQty = soldItemsMap.get(item.itemName) || 0;
-        soldItemsMap.set(item.itemName, currentQty + item.quantity);
-      });
-
-      // Log consolidated quantities for debugging
-      log('Consolidated quantities by item:');
-      soldItemsMap.forEach((quantity, itemName) => {
-        log(`- ${itemName}: ${quantity} kg total`);
-      });
-
-      // Calculate total Bardana reduction needed
-      let totalBardanaReduction = 0;
-      soldItems.forEach(item => {
-        // For each kg of item sold, reduce 1 kg of Bardana
-        totalBardanaReduction += item.quantity;
-      });
-      
-      log(`Total Bardana reduction needed: ${totalBardanaReduction} kg`);
-
-      // Update Bardana stock using backend API
-      if (totalBardanaReduction > 0) {
-        await ItemsApiService.updateBardanaStock('subtract', totalBardanaReduction);
-        log(`Bardana stock reduced by ${totalBardanaReduction} kg via backend`);
-      }
-
-      // Update individual item stocks
-      for (const [itemName, quantity] of soldItemsMap) {
-        try {
-          // Get the item from backend
-          const items = await ItemsApiService.getItems({ search: itemName });
-          const item = items.find(i => i.productName === itemName);
-          
-          if (item && item.id) {
-            // Convert kg to bags (1 bag = 30 kg)
-            const soldBags = quantity / 30;
-            const newStock = Math.max(0, Math.round((item.openingStock - soldBags) * 100) / 100);
-            
-            // Update item stock via backend
-            await ItemsApiService.updateItem(item.id, { openingStock: newStock });
-            log(`${itemName} stock reduced from ${item.openingStock} bags to ${newStock} bags`);
-          } else {
-            logWarn(`Item ${itemName} not found in backend`);
-          }
-        } catch (error) {
-          logError(`Error updating stock for ${itemName}:`, error);
-        }
-      }
+      await this.applyDocumentStockChanges('sale', invoiceId, this.buildStockChanges(soldItems, -1), { type: 'sale', reference });
+      await StockLots.consume(soldItems, 'sale', { documentId: invoiceId, reference });
 
       // Mark this invoice as processed if ID was provided
       if (invoiceId) {
-        this.processedInvoices.add(invoiceId);
+        await this.markDocumentProcessed('sale', invoiceId);
         log(`Invoice ${invoiceId} marked as processed for stock update`);
       }
     } catch (error) {
@@ -132,8 +448,10 @@ export class StockManager {
   /**
    * Update stock levels when items are purchased
    * @param purchasedItems Array of items that were purchased
+   * @param billId Optional bill ID to prevent duplicate processing
+   * @param reference Optional bill number shown in the stock ledger, e.g. BILL-4
    */
-  static async updateStockOnPurchase(purchasedItems: SaleItem[]): Promise<void> {
+  static async updateStockOnPurchase(purchasedItems: SaleItem[], billId?: string, reference?: string): Promise<void> {
     try {
       // Validate input
       if (!purchasedItems || purchasedItems.length === 0) {
@@ -141,58 +459,20 @@ export class StockManager {
         return;
       }
 
+      // Check if this bill has already been processed
+      if (billId && await this.isDocumentProcessed('purchase', billId)) {
+        log(`Bill ${billId} has already been processed for stock update`);
+        return;
+      }
+
       log(`Updating stock for ${purchasedItems.length} purchased items`);
-      purchasedItems.forEach(item => {
-        log(`- ${item.itemName}: ${item.quantity} kg`);
-      });
-
-      // Create a map of purchased items by name for quick lookup
-      const purchasedItemsMap = new Map<string, number>();
-      purchasedItems.forEach(item => {
-        const currentQty = purchasedItemsMap.get(item.itemName) || 0;
-        purchasedItemsMap.set(item.itemName, currentQty + item.quantity);
-      });
-
-      // Log consolidated quantities for debugging
-      log('Consolidated quantities by item:');
-      purchasedItemsMap.forEach((quantity, itemName) => {
-        log(`- ${itemName}: ${quantity} kg total`);
-      });
-
-      // Calculate total Bardana addition needed
-      let totalBardanaAddition = 0;
-      purchasedItems.forEach(item => {
-        // For each kg of item purchased, add 1 kg of Bardana
-        totalBardanaAddition += item.quantity;
-      });
-
-      // Update Bardana stock using backend API
-      if (totalBardanaAddition > 0) {
-        await ItemsApiService.updateBardanaStock('add', totalBardanaAddition);
-        log(`Bardana stock increased by ${totalBardanaAddition} kg via backend`);
-      }
-
-      // Update individual item stocks
-      for (const [itemName, quantity] of purchasedItemsMap) {
-        try {
-          // Get the item from backend
-          const items = await ItemsApiService.getItems({ search: itemName });
-          const item = items.find(i => i.productName === itemName);
-          
-          if (item && item.id) {
-            // Convert kg to bags (1 bag = 30 kg)
-            const purchasedBags = quantity / 30;
-            const newStock = Math.round((item.openingStock + purchasedBags) * 100) / 100;
-            
-            // Update item stock via backend
-            await ItemsApiService.updateItem(item.id, { openingStock: newStock });
-            log(`${itemName} stock increased from ${item.openingStock} bags to ${newStock} bags`);
-          } else {
-            logWarn(`Item ${itemName} not found in backend`);
-          }
-        } catch (error) {
-          logError(`Error updating stock for ${itemName}:`, error);
-        }
+      await this.applyDocumentStockChanges('purchase', billId, this.buildStockChanges(purchasedItems, 1), { type: 'purchase', reference });
+      await StockLots.receivePurchase(purchasedItems, { documentId: billId, reference });
+
+      // Mark this bill as processed if ID was provided
+      if (billId) {
+        await this.markDocumentProcessed('purchase', billId);
+        log(`Bill ${billId} marked as processed for stock update`);
       }
     } catch (error) {
       logError('Error updating stock on purchase:', error);
@@ -200,70 +480,358 @@ export class StockManager {
     }
   }
 
+  /**
+   * Adjust stock when a sale invoice is edited.
+   * Only invoices whose stock was applied by this app are adjusted.
+   * @param oldItems Items before the edit
+   * @param newItems Items after the edit
+   * @param invoiceId Invoice ID
+   * @param reference Optional invoice number shown in the stock ledger
+   */
+  static async updateStockOnSaleEdit(oldItems: SaleItem[], newItems: SaleItem[], invoiceId: string, reference?: string): Promise<void> {
+    try {
+      if (!await this.isDocumentProcessed('sale', invoiceId)) {
+        log(`Invoice ${invoiceId} has no recorded stock movement, skipping edit adjustment`);
+        return;
+      }
+
+      const { failed } = await this.applyStockChanges(this.diffStockChanges(oldItems, newItems, -1), { type: 'edit-adjustment', reference });
+
+      // Re-cost the invoice against lots, keeping its original sale date. Quantity
+      // returned on credit notes is already back in the lots and is not taken again.
+      const returned = await this.getReturnedQuantities(invoiceId);
+      const saleDate = await StockLots.release(invoiceId);
+      await StockLots.consume(this.subtractQuantities(newItems, returned), 'sale', { documentId: invoiceId, reference, date: saleDate });
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error updating stock on sale edit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adjust stock when a purchase bill is edited.
+   * Only bills whose stock was applied by this app are adjusted.
+   * @param oldItems Items before the edit
+   * @param newItems Items after the edit
+   * @param billId Bill ID
+   * @param reference Optional bill number shown in the stock ledger
+   */
+  static async updateStockOnPurchaseEdit(oldItems: SaleItem[], newItems: SaleItem[], billId: string, reference?: string): Promise<void> {
+    try {
+      if (!await this.isDocumentProcessed('purchase', billId)) {
+        log(`Bill ${billId} has no recorded stock movement, skipping edit adjustment`);
+        return;
+      }
+
+      const { failed } = await this.applyStockChanges(this.diffStockChanges(oldItems, newItems, 1), { type: 'edit-adjustment', reference });
+      await StockLots.updatePurchase(billId, newItems, reference);
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error updating stock on purchase edit:', error);
+      throw error;
+    }
+  }
+
   /**
    * Revert stock changes when an invoice is deleted or cancelled
    * @param soldItems Array of items that were sold (to be reverted)
+   * @param invoiceId Optional invoice ID; when given, only processed invoices are reverted
+   * @param reference Optional invoice number shown in the stock ledger
    */
-  static async revertStockOnSale(soldItems: SaleItem[]): Promise<void> {
+  static async revertStockOnSale(soldItems: SaleItem[], invoiceId?: string, reference?: string): Promise<void> {
     try {
-      // Create a map of sold items by name for quick lookup
-      const soldItemsMap = new Map<string, number>();
-      soldItems.forEach(item => {
-        const currentQty = soldItemsMap.get(item.itemName) || 0;
-        soldItemsMap.set(item.itemName, currentQty + item.quantity);
-      });
-
-      // Log consolidated quantities for debugging
-      console.log('Consolidated quantities by item for reversion:');
-      soldItemsMap.forEach((quantity, itemName) => {
-        console.log(`- ${itemName}: ${quantity} kg total to restore`);
-      });
-
-      // Calculate total Bardana restoration needed
-      let totalBardanaRestoration = 0;
-      soldItems.forEach(item => {
-        // For each kg of item restored, restore 1 kg of Bardana
-        totalBardanaRestoration += item.quantity;
-      });
-
-      // Restore Bardana stock using backend API
-      if (totalBardanaRestoration > 0) {
-        await ItemsApiService.updateBardanaStock('add', totalBardanaRestoration);
-        console.log(`Bardana stock restored by ${totalBardanaRestoration} kg via backend`);
-      }
-
-      // Restore individual item stocks
-      for (const [itemName, quantity] of soldItemsMap) {
-        try {
-          // Get the item from backend
-          const items = await ItemsApiService.getItems({ search: itemName });
-          const item = items.find(i => i.productName === itemName);
-          
-          if (item && item.id) {
-            // Convert kg to bags (1 bag = 30 kg)
-            const soldBags = quantity / 30;
-            const newStock = Math.round((item.openingStock + soldBags) * 100) / 100;
-            
-            // Update item stock via backend
-            await ItemsApiService.updateItem(item.id, { openingStock: newStock });
-            console.log(`${itemName} stock restored from ${item.openingStock} bags to ${newStock} bags`);
-          } else {
-            console.warn(`Item ${itemName} not found in backend`);
-          }
-        } catch (error) {
-          console.error(`Error restoring stock for ${itemName}:`, error);
-        }
+      const failed = await this.revertDocumentStockChanges('sale', invoiceId, this.buildStockChanges(soldItems, 1), { type: 'deletion-revert', reference });
+      if (!failed) {
+        log(`Invoice ${invoiceId} has no recorded stock movement, nothing to revert`);
+        return;
+      }
+
+      if (invoiceId) {
+        await StockLots.release(invoiceId);
+        await this.unmarkDocumentProcessed('sale', invoiceId);
+      }
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error reverting stock on sale:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revert stock changes when a purchase bill is deleted
+   * @param purchasedItems Array of items that were purchased (to be reverted)
+   * @param billId Optional bill ID; when given, only processed bills are reverted
+   * @param reference Optional bill number shown in the stock ledger
+   */
+  static async revertStockOnPurchase(purchasedItems: SaleItem[], billId?: string, reference?: string): Promise<void> {
+    try {
+      const failed = await this.revertDocumentStockChanges('purchase', billId, this.buildStockChanges(purchasedItems, -1), { type: 'deletion-revert', reference });
+      if (!failed) {
+        log(`Bill ${billId} has no recorded stock movement, nothing to revert`);
+        return;
+      }
+
+      if (billId) {
+        await StockLots.removePurchase(billId);
+        await this.unmarkDocumentProcessed('purchase', billId);
+      }
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error reverting stock on purchase:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove stock when goods leave on a delivery challan. Invoices billing the
+   * challan later do not move stock again.
+   * @param deliveredItems Delivered items (quantities in kg)
+   * @param challanId Delivery challan ID to prevent duplicate processing
+   * @param reference Optional challan number shown in the stock ledger, e.g. DC-5
+   */
+  static async updateStockOnDelivery(deliveredItems: SaleItem[], challanId: string, reference?: string): Promise<void> {
+    try {
+      if (!deliveredItems || deliveredItems.length === 0) {
+        log('No items to update stock for');
+        return;
       }
+
+      if (await this.isDocumentProcessed('delivery', challanId)) {
+        log(`Challan ${challanId} has already been processed for stock update`);
+        return;
+      }
+
+      log(`Updating stock for ${deliveredItems.length} delivered items`);
+      await this.applyDocumentStockChanges('delivery', challanId, this.buildStockChanges(deliveredItems, -1), { type: 'delivery', reference });
+      await StockLots.consume(deliveredItems, 'sale', { documentId: challanId, reference });
+
+      await this.markDocumentProcessed('delivery', challanId);
+      log(`Challan ${challanId} marked as processed for stock update`);
     } catch (error) {
-      console.error('Error reverting stock on sale:', error);
+      logError('Error updating stock on delivery:', error);
       throw error;
     }
   }
 
+  /**
+   * Put delivered stock back when a delivery challan is deleted
+   * @param deliveredItems Items that were delivered (to be reverted)
+   * @param challanId Delivery challan ID; only processed challans are reverted
+   * @param reference Optional challan number shown in the stock ledger
+   */
+  static async revertStockOnDelivery(deliveredItems: SaleItem[], challanId: string, reference?: string): Promise<void> {
+    try {
+      const failed = await this.revertDocumentStockChanges('delivery', challanId, this.buildStockChanges(deliveredItems, 1), { type: 'deletion-revert', reference });
+      if (!failed) {
+        log(`Challan ${challanId} has no recorded stock movement, nothing to revert`);
+        return;
+      }
+
+      await StockLots.release(challanId);
+      await this.unmarkDocumentProcessed('delivery', challanId);
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error reverting stock on delivery:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add stock back when goods sold on an invoice are returned on a credit note
+   * @param returnedItems Returned items (quantities in kg)
+   * @param invoiceId Invoice the goods were sold on; its lots get the quantity back
+   * @param creditNoteId Credit note ID to prevent duplicate processing
+   * @param reference Optional credit note number shown in the stock ledger, e.g. CN-3
+   */
+  static async updateStockOnSaleReturn(returnedItems: SaleItem[], invoiceId: string, creditNoteId: string, reference?: string): Promise<void> {
+    try {
+      if (!returnedItems || returnedItems.length === 0) {
+        log('No items to update stock for');
+        return;
+      }
+
+      if (await this.isDocumentProcessed('sale-return', creditNoteId)) {
+        log(`Credit note ${creditNoteId} has already been processed for stock update`);
+        return;
+      }
+
+      log(`Returning stock for ${returnedItems.length} items`);
+      await this.applyDocumentStockChanges('sale-return', creditNoteId, this.buildStockChanges(returnedItems, 1), { type: 'sale-return', reference });
+      await StockLots.returnSale(invoiceId, returnedItems);
+
+      await this.markDocumentProcessed('sale-return', creditNoteId);
+      log(`Credit note ${creditNoteId} marked as processed for stock update`);
+    } catch (error) {
+      logError('Error updating stock on sale return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take returned stock out again when a credit note is deleted
+   * @param returnedItems Items that were returned (to be reverted)
+   * @param invoiceId Invoice the goods were sold on
+   * @param creditNoteId Credit note ID; only processed credit notes are reverted
+   * @param reference Optional credit note number shown in the stock ledger
+   */
+  static async revertStockOnSaleReturn(returnedItems: SaleItem[], invoiceId: string, creditNoteId: string, reference?: string): Promise<void> {
+    try {
+      const processed = await this.isDocumentProcessed('sale-return', creditNoteId);
+      const failed = await this.revertDocumentStockChanges('sale-return', creditNoteId, this.buildStockChanges(returnedItems, -1), { type: 'deletion-revert', reference });
+      if (!failed) {
+        log(`Credit note ${creditNoteId} has no recorded stock movement, nothing to revert`);
+        return;
+      }
+
+      // Lots only took the quantity back once the whole return was applied
+      if (processed) {
+        await StockLots.consume(returnedItems, 'sale', { documentId: invoiceId, reference });
+      }
+      await this.unmarkDocumentProcessed('sale-return', creditNoteId);
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error reverting stock on sale return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove stock when goods bought on a bill are sent back on a debit note
+   * @param returnedItems Returned items (quantities in kg)
+   * @param billId Bill the goods were bought on; its lots give up the quantity
+   * @param debitNoteId Debit note ID to prevent duplicate processing
+   * @param reference Optional debit note number shown in the stock ledger, e.g. DN-2
+   */
+  static async updateStockOnPurchaseReturn(returnedItems: SaleItem[], billId: string, debitNoteId: string, reference?: string): Promise<void> {
+    try {
+      if (!returnedItems || returnedItems.length === 0) {
+        log('No items to update stock for');
+        return;
+      }
+
+      if (await this.isDocumentProcessed('purchase-return', debitNoteId)) {
+        log(`Debit note ${debitNoteId} has already been processed for stock update`);
+        return;
+      }
+
+      log(`Returning ${returnedItems.length} items to supplier`);
+      await this.applyDocumentStockChanges('purchase-return', debitNoteId, this.buildStockChanges(returnedItems, -1), { type: 'purchase-return', reference });
+      await StockLots.returnPurchase(billId, returnedItems);
+
+      await this.markDocumentProcessed('purchase-return', debitNoteId);
+      log(`Debit note ${debitNoteId} marked as processed for stock update`);
+    } catch (error) {
+      logError('Error updating stock on purchase return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add returned stock back when a debit note is deleted
+   * @param returnedItems Items that were returned (to be reverted)
+   * @param billId Bill the goods were bought on
+   * @param debitNoteId Debit note ID; only processed debit notes are reverted
+   * @param reference Optional debit note number shown in the stock ledger
+   */
+  static async revertStockOnPurchaseReturn(returnedItems: SaleItem[], billId: string, debitNoteId: string, reference?: string): Promise<void> {
+    try {
+      const processed = await this.isDocumentProcessed('purchase-return', debitNoteId);
+      const failed = await this.revertDocumentStockChanges('purchase-return', debitNoteId, this.buildStockChanges(returnedItems, 1), { type: 'deletion-revert', reference });
+      if (!failed) {
+        log(`Debit note ${debitNoteId} has no recorded stock movement, nothing to revert`);
+        return;
+      }
+
+      // Lots only gave up the quantity once the whole return was applied
+      if (processed) {
+        await StockLots.cancelPurchaseReturn(billId, returnedItems);
+      }
+      await this.unmarkDocumentProcessed('purchase-return', debitNoteId);
+
+      if (failed.length > 0) {
+        throw new StockUpdateError(failed);
+      }
+    } catch (error) {
+      logError('Error reverting stock on purchase return:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post manual adjustments (damage, wastage, stock-take...) as one batch.
+   * Bardana is not moved; only the adjusted items change.
+   * @param adjustments Adjustments to apply; zero quantities are skipped
+   * @returns Batch reference, number applied and names of items that failed
+   */
+  static async postStockAdjustments(adjustments: StockAdjustment[]): Promise<StockAdjustmentResult> {
+    const reference = `ADJ-${Date.now()}`;
+    const movements: Omit<StockMovement, 'id' | 'date'>[] = [];
+    const failed: string[] = [];
+
+    for (const adjustment of adjustments) {
+      const { item, quantity, reason, note } = adjustment;
+      const itemId = item.id || item._id;
+      if (!itemId || quantity === 0) {
+        continue;
+      }
+
+      try {
+        const newStock = Math.max(0, Math.round((item.openingStock + UnitConverter.baseToPacks(item, quantity)) * 100) / 100);
+        await ItemsApiService.updateItem(itemId, { openingStock: newStock });
+        log(`${item.productName} adjusted from ${item.openingStock} to ${newStock} ${UnitConverter.getPackUnit(item)}s`);
+
+        movements.push({
+          itemId,
+          itemName: item.productName,
+          type: 'manual-adjustment',
+          quantity: UnitConverter.packsToBase(item, newStock - item.openingStock),
+          reference,
+          reason,
+          note: note ? `${STOCK_ADJUSTMENT_REASON_LABELS[reason]} - ${note}` : STOCK_ADJUSTMENT_REASON_LABELS[reason],
+        });
+      } catch (error) {
+        logError(`Error adjusting stock for ${item.productName}:`, error);
+        failed.push(item.productName);
+      }
+    }
+
+    await StockLedger.recordMovements(movements);
+
+    // Stock written off comes out of the oldest lots
+    await StockLots.consume(
+      movements
+        .filter(movement => movement.quantity < 0)
+        .map(movement => ({ itemName: movement.itemName, quantity: -movement.quantity, rate: 0 })),
+      'adjustment',
+      { documentId: reference, reference }
+    );
+
+    return { reference, applied: movements.length, failed };
+  }
+
   /**
    * Get current stock level for an item
    * @param itemName Name of the item
-   * @returns Current stock in kg
+   * @returns Current stock in the item's base unit (kg by default)
    */
   static async getItemStock(itemName: string): Promise<number> {
     try {
@@ -272,8 +840,8 @@ export class StockManager {
       
       if (!item) return 0;
 
-      // Convert bags to kg (1 bag = 30 kg)
-      return Math.round(item.openingStock * 30);
+      // Convert packs to base units using the item's pack size
+      return Math.round(UnitConverter.packsToBase(item, item.openingStock));
     } catch (error) {
       console.error('Error getting item stock:', error);
       return 0;
@@ -292,10 +860,10 @@ export class StockManager {
   }
 
   /**
-   * Clear processed invoices tracking (useful for app restart or testing)
+   * Clear processed documents tracking (useful for testing)
    */
-  static clearProcessedInvoices(): void {
-    this.processedInvoices.clear();
+  static async clearProcessedInvoices(): Promise<void> {
+    await this.saveProcessedDocuments([]);
     console.log('Processed invoices tracking cleared');
   }
 
@@ -304,33 +872,33 @@ export class StockManager {
    * @param invoiceId Invoice ID to check
    * @returns True if invoice has been processed
    */
-  static isInvoiceProcessed(invoiceId: string): boolean {
-    return this.processedInvoices.has(invoiceId);
+  static async isInvoiceProcessed(invoiceId: string): Promise<boolean> {
+    return this.isDocumentProcessed('sale', invoiceId);
   }
 
   /**
    * Remove an invoice from processed list (useful for testing or reprocessing)
    * @param invoiceId Invoice ID to remove
    */
-  static removeProcessedInvoice(invoiceId: string): void {
-    this.processedInvoices.delete(invoiceId);
+  static async removeProcessedInvoice(invoiceId: string): Promise<void> {
+    await this.unmarkDocumentProcessed('sale', invoiceId);
     console.log(`Invoice ${invoiceId} removed from processed list`);
   }
 
   /**
-   * Get count of processed invoices (useful for debugging)
-   * @returns Number of processed invoices
+   * Get count of processed documents (useful for debugging)
+   * @returns Number of processed invoices and bills
    */
-  static getProcessedInvoicesCount(): number {
-    return this.processedInvoices.size;
+  static async getProcessedInvoicesCount(): Promise<number> {
+    return (await this.getProcessedDocuments()).length;
   }
 
   /**
-   * Get all processed invoice IDs (useful for debugging)
-   * @returns Array of processed invoice IDs
+   * Get all processed document keys, e.g. sale:123 (useful for debugging)
+   * @returns Array of processed document keys
    */
-  static getProcessedInvoiceIds(): string[] {
-    return Array.from(this.processedInvoices);
+  static async getProcessedInvoiceIds(): Promise<string[]> {
+    return this.getProcessedDocuments();
   }
 
   /**
@@ -340,8 +908,8 @@ export class StockManager {
   static async getBardanaStock(): Promise<number> {
     try {
       const bardana = await ItemsApiService.getBardana();
-      // Convert bags to kg (1 bag = 30 kg)
-      return Math.round(bardana.openingStock * 30);
+      // Convert packs to kg using Bardana's pack size
+      return Math.round(UnitConverter.packsToBase(bardana, bardana.openingStock));
     } catch (error) {
       console.error('Error getting Bardana stock:', error);
       return 0;
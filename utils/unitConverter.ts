@@ -0,0 +1,144 @@
+import { AlternateUnit } from './api';
+
+// Defaults for items created before units were configurable (1 bag = 30 kg)
+export const DEFAULT_BASE_UNIT = 'kg';
+export const DEFAULT_PACK_UNIT = 'bag';
+export const DEFAULT_PACK_SIZE = 30;
+
+// Common pack sizes offered on the item form
+export const PACK_SIZE_PRESETS = [25, 30, 50] as const;
+
+// Unit settings of an item; all fields optional for older items
+export interface UnitConfig {
+  baseUnit?: string;
+  packUnit?: string;
+  packSize?: number;
+  alternateUnits?: AlternateUnit[];
+}
+
+// A unit the user can enter quantities in
+export interface UnitOption {
+  name: string;
+  factor: number; // base units per 1 of this unit
+}
+
+const roundQuantity = (value: number): number => Math.round(value * 100) / 100;
+
+export class UnitConverter {
+  /**
+   * Unit that sale/purchase quantities and prices are expressed in
+   * @param config - Item unit settings
+   */
+  static getBaseUnit(config?: UnitConfig): string {
+    return config?.baseUnit?.trim() || DEFAULT_BASE_UNIT;
+  }
+
+  /**
+   * Unit that stock is kept in (bag, sack, box...)
+   * @param config - Item unit settings
+   */
+  static getPackUnit(config?: UnitConfig): string {
+    return config?.packUnit?.trim() || DEFAULT_PACK_UNIT;
+  }
+
+  /**
+   * Base units per pack
+   * @param config - Item unit settings
+   */
+  static getPackSize(config?: UnitConfig): number {
+    const packSize = Number(config?.packSize);
+    return packSize > 0 ? packSize : DEFAULT_PACK_SIZE;
+  }
+
+  /**
+   * Convert a stock quantity in packs to base units
+   * @param config - Item unit settings
+   * @param packs - Quantity in packs
+   */
+  static packsToBase(config: UnitConfig | undefined, packs: number): number {
+    return roundQuantity(packs * this.getPackSize(config));
+  }
+
+  /**
+   * Convert a quantity in base units to packs
+   * @param config - Item unit settings
+   * @param quantity - Quantity in base units
+   */
+  static baseToPacks(config: UnitConfig | undefined, quantity: number): number {
+    return quantity / this.getPackSize(config);
+  }
+
+  /**
+   * All units a quantity can be entered in: base unit, pack unit and alternates
+   * @param config - Item unit settings
+   */
+  static getUnitOptions(config?: UnitConfig): UnitOption[] {
+    const options: UnitOption[] = [
+      { name: this.getBaseUnit(config), factor: 1 },
+      { name: this.getPackUnit(config), factor: this.getPackSize(config) },
+    ];
+
+    (config?.alternateUnits || []).forEach(unit => {
+      if (unit.name && unit.factor > 0 && !options.some(option => option.name === unit.name)) {
+        options.push({ name: unit.name, factor: unit.factor });
+      }
+    });
+
+    return options;
+  }
+
+  /**
+   * Convert a quantity entered in any of the item's units to base units
+   * @param config - Item unit settings
+   * @param quantity - Entered quantity
+   * @param unitName - Unit the quantity was entered in
+   */
+  static toBaseUnits(config: UnitConfig | undefined, quantity: number, unitName: string): number {
+    const option = this.getUnitOptions(config).find(unit => unit.name === unitName);
+    return roundQuantity(quantity * (option?.factor || 1));
+  }
+
+  /**
+   * Format a stock quantity held in packs, e.g. "12 bags"
+   * @param config - Item unit settings
+   * @param packs - Quantity in packs
+   */
+  static formatPacks(config: UnitConfig | undefined, packs: number): string {
+    const rounded = roundQuantity(packs);
+    const unit = this.getPackUnit(config);
+    return `${rounded} ${rounded === 1 ? unit : `${unit}s`}`;
+  }
+
+  /**
+   * Format a quantity in base units with its pack equivalent, e.g. "60 kg (2 bags)"
+   * @param config - Item unit settings
+   * @param quantity - Quantity in base units
+   */
+  static formatQuantity(config: UnitConfig | undefined, quantity: number): string {
+    const base = `${roundQuantity(quantity)} ${this.getBaseUnit(config)}`;
+    if (!config?.packSize) {
+      return base;
+    }
+    return `${base} (${this.formatPacks(config, this.baseToPacks(config, quantity))})`;
+  }
+
+  /**
+   * Parse alternate units typed as "quintal=100, tin=15"
+   * @param text - Comma separated name=factor pairs
+   */
+  static parseAlternateUnits(text: string): AlternateUnit[] {
+    return text
+      .split(',')
+      .map(part => part.split('='))
+      .filter(([name, factor]) => name?.trim() && parseFloat(factor) > 0)
+      .map(([name, factor]) => ({ name: name.trim(), factor: parseFloat(factor) }));
+  }
+
+  /**
+   * Format alternate units for editing, inverse of parseAlternateUnits
+   * @param units - Alternate units
+   */
+  static formatAlternateUnits(units?: AlternateUnit[]): string {
+    return (units || []).map(unit => `${unit.name}=${unit.factor}`).join(', ');
+  }
+}